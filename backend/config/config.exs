@@ -23,6 +23,9 @@ config :sertantai_legal, SertantaiLegalWeb.Endpoint,
   pubsub_server: SertantaiLegal.PubSub,
   live_view: [signing_salt: "xjXQzhFq"]
 
+# Recurring scrape schedules (managed at /admin/scrape/schedules)
+config :sertantai_legal, :scrape_scheduler, enabled: true
+
 # Configures Elixir's Logger
 config :logger, :console,
   format: "$time $metadata[$level] $message\n",
@@ -50,6 +50,11 @@ if hub_enabled =
     api_key: System.get_env("SERTANTAI_LEGAL_HUB_API_KEY") || System.get_env("HUB_API_KEY")
 end
 
+# Recurring scrape schedules — enabled by default (config.exs), override with SCRAPE_SCHEDULER_ENABLED
+if scheduler_enabled = System.get_env("SCRAPE_SCHEDULER_ENABLED") do
+  config :sertantai_legal, :scrape_scheduler, enabled: scheduler_enabled in ~w(true 1)
+end
+
 # Zenoh P2P mesh configuration
 # Supports both SERTANTAI_LEGAL_ZENOH_* (infrastructure) and ZENOH_* (local dev) prefixes
 if zenoh_enabled =
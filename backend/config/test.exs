@@ -34,6 +34,9 @@ config :sertantai_legal, test_mode: true
 config :sertantai_legal, :zenoh, enabled: false
 config :sertantai_legal, :hub, enabled: false
 
+# Scheduled scrapes are run explicitly in tests, never by the timer
+config :sertantai_legal, :scrape_scheduler, enabled: false
+
 # Auth + Electric config for tests
 # jwks_req_plug routes JWKS HTTP calls through Req.Test stubs
 config :sertantai_legal,
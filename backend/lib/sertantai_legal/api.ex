@@ -32,6 +32,12 @@ defmodule SertantaiLegal.Api do
     resource(SertantaiLegal.Scraper.ScrapeSession)
     resource(SertantaiLegal.Scraper.ScrapeSessionRecord)
     resource(SertantaiLegal.Scraper.CascadeAffectedLaw)
+    resource(SertantaiLegal.Scraper.CascadeJob)
+    resource(SertantaiLegal.Scraper.ScrapeSchedule)
+    resource(SertantaiLegal.Scraper.ScrapeScheduleRun)
+
+    # Tenant-scoped register snapshots (organization_id from JWT)
+    resource(SertantaiLegal.Legal.RegisterSnapshot)
 
     # Tenant-scoped resources (require organization_id from JWT):
     # resource(SertantaiLegal.Legal.OrganizationLocation)
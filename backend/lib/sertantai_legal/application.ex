@@ -28,6 +28,10 @@ defmodule SertantaiLegal.Application do
         if(Application.get_env(:sertantai_legal, :zenoh)[:enabled],
           do: SertantaiLegal.Zenoh.Supervisor
         ),
+        # Recurring scrape schedules — runs due ScrapeSchedules once a minute
+        if(Application.get_env(:sertantai_legal, :scrape_scheduler)[:enabled],
+          do: SertantaiLegal.Scraper.ScheduleRunner
+        ),
         # Start to serve requests, typically the last entry
         SertantaiLegalWeb.Endpoint
       ]
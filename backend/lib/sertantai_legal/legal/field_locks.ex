@@ -0,0 +1,80 @@
+defmodule SertantaiLegal.Legal.FieldLocks do
+  @moduledoc """
+  Per-record field locks for UK LRT records.
+
+  Fields listed in a record's `locked_fields` have been curated by hand on
+  `/admin/lrt`. Automated writes (session confirm, batch reparse, cascade
+  reparse and group persistence) drop those fields from their update
+  attributes, so a reparse never overwrites a human correction. Cascade
+  enacting-link updates skip laws whose `enacting` links are locked. Manual
+  edits through `PATCH /api/uk-lrt/:id` are not affected.
+
+  ## Usage
+
+  ```elixir
+  attrs = FieldLocks.drop_locked(attrs, existing)
+  ```
+  """
+
+  alias SertantaiLegal.Legal.UkLrt
+
+  # Identity, bookkeeping and the lock list itself can never be locked
+  @unlockable ~w(id name created_at updated_at record_change_log locked_fields)
+
+  @doc """
+  The locked field names of a record (empty for records without locks).
+  """
+  @spec locked(map()) :: [String.t()]
+  def locked(%{locked_fields: fields}) when is_list(fields), do: fields
+  def locked(_), do: []
+
+  @doc """
+  Whether any of `fields` is locked on a record.
+  """
+  @spec any_locked?(map(), [String.t()]) :: boolean()
+  def any_locked?(record, fields) do
+    locked = locked(record)
+    Enum.any?(fields, &(&1 in locked))
+  end
+
+  @doc """
+  Remove locked fields from an attribute map. Accepts atom or string keys.
+  """
+  @spec drop_locked(map(), map()) :: map()
+  def drop_locked(attrs, record) do
+    case locked(record) do
+      [] -> attrs
+      fields -> Map.reject(attrs, fn {key, _value} -> to_string(key) in fields end)
+    end
+  end
+
+  @doc """
+  Clean a requested lock list: UkLrt attributes only, no duplicates, sorted.
+  Returns `{:error, message}` naming any field that cannot be locked.
+  """
+  @spec normalize(list()) :: {:ok, [String.t()]} | {:error, String.t()}
+  def normalize(fields) when is_list(fields) do
+    fields = fields |> Enum.map(&to_string/1) |> Enum.uniq() |> Enum.sort()
+
+    case Enum.reject(fields, &lockable?/1) do
+      [] -> {:ok, fields}
+      invalid -> {:error, "Cannot lock fields: #{Enum.join(invalid, ", ")}"}
+    end
+  end
+
+  def normalize(_), do: {:error, "locked_fields must be a list of field names"}
+
+  @doc """
+  Whether a field can be locked: any UkLrt attribute except identity and bookkeeping.
+  """
+  @spec lockable?(String.t()) :: boolean()
+  def lockable?(field) when is_binary(field) do
+    field not in @unlockable and field in attribute_names()
+  end
+
+  defp attribute_names do
+    UkLrt
+    |> Ash.Resource.Info.attributes()
+    |> Enum.map(&Atom.to_string(&1.name))
+  end
+end
@@ -0,0 +1,111 @@
+defmodule SertantaiLegal.Legal.RegisterSnapshot do
+  @moduledoc """
+  Point-in-time snapshot of an organisation's legal register.
+
+  Freezes the law set matched by a browse filter (the Electric WHERE clause)
+  as a named, dated list of records. Each record keeps only the key fields
+  needed to tell two snapshots apart (id, name, title, status, amendment
+  dates, classification) so the frontend can diff any two snapshots to show
+  laws added, removed and changed between them.
+
+  Snapshots are tenant-scoped: organization_id comes from the JWT claims.
+  """
+
+  use Ash.Resource,
+    domain: SertantaiLegal.Api,
+    data_layer: AshPostgres.DataLayer
+
+  postgres do
+    table("register_snapshots")
+    repo(SertantaiLegal.Repo)
+  end
+
+  attributes do
+    uuid_primary_key(:id)
+
+    attribute :organization_id, :string do
+      allow_nil?(false)
+      description("Owning organisation (org_id claim from sertantai-auth JWT)")
+    end
+
+    attribute :name, :string do
+      allow_nil?(false)
+      description("User-supplied snapshot name, e.g. 'Q1 2026 audit'")
+    end
+
+    attribute :description, :string do
+      description("Optional notes about why the snapshot was taken")
+    end
+
+    attribute :where_clause, :string do
+      default("")
+      description("Electric WHERE clause the law set was filtered with")
+    end
+
+    attribute :taken_at, :utc_datetime_usec do
+      allow_nil?(false)
+      description("When the register was frozen (client time)")
+    end
+
+    attribute :record_count, :integer do
+      default(0)
+      allow_nil?(false)
+      description("Number of laws in the snapshot")
+    end
+
+    attribute :records, {:array, :map} do
+      default([])
+      description("Key fields of each law in the snapshot")
+    end
+
+    attribute :created_by, :string do
+      description("User id from the JWT that created the snapshot")
+    end
+
+    create_timestamp(:inserted_at)
+    update_timestamp(:updated_at)
+  end
+
+  actions do
+    defaults([:read, :destroy])
+
+    create :create do
+      description("Save a register snapshot")
+
+      accept([
+        :organization_id,
+        :name,
+        :description,
+        :where_clause,
+        :taken_at,
+        :record_count,
+        :records,
+        :created_by
+      ])
+    end
+
+    read :by_organization do
+      description("List an organisation's snapshots, newest first")
+      argument(:organization_id, :string, allow_nil?: false)
+      filter(expr(organization_id == ^arg(:organization_id)))
+      prepare(build(sort: [taken_at: :desc]))
+    end
+
+    read :by_id_for_organization do
+      description("Get one snapshot belonging to an organisation")
+      get?(true)
+      argument(:id, :uuid, allow_nil?: false)
+      argument(:organization_id, :string, allow_nil?: false)
+      filter(expr(id == ^arg(:id) and organization_id == ^arg(:organization_id)))
+    end
+  end
+
+  code_interface do
+    domain(SertantaiLegal.Api)
+    define(:create)
+    define(:read)
+    define(:destroy)
+    define(:by_organization, args: [:organization_id])
+    define(:by_id_for_organization, args: [:id, :organization_id])
+  end
+end
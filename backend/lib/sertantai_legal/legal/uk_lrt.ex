@@ -600,6 +600,16 @@ defmodule SertantaiLegal.Legal.UkLrt do
       )
     end
 
+    # Field locks (hand-curated fields that automated parses must not overwrite)
+    attribute :locked_fields, {:array, :string} do
+      allow_nil?(false)
+      default([])
+
+      description(
+        "Fields curated by hand on this record. Reparse, batch reparse and cascade reparse leave them unchanged."
+      )
+    end
+
     # Key Dates
     create_timestamp :created_at do
       description("Record creation timestamp")
@@ -937,7 +947,8 @@ defmodule SertantaiLegal.Legal.UkLrt do
         :rescinded_by_stats_per_law,
         :amending_change_log,
         :amended_by_change_log,
-        :record_change_log
+        :record_change_log,
+        :locked_fields
       ])
     end
 
@@ -0,0 +1,93 @@
+defmodule SertantaiLegal.Scraper.CascadePlan do
+  @moduledoc """
+  Pure decision logic for `CascadeRunner`: which cascade entry to process
+  next, when the cascade has reached a fixed point, cycle detection and
+  pacing between laws.
+
+  Entries are `CascadeAffectedLaw` records (or maps with the same keys).
+  Only `:reparse` entries are processed - they are the ones that produce
+  further affected laws. Enacting links are left pending for review on the
+  cascade page.
+  """
+
+  @type entry :: %{
+          required(:affected_law) => String.t(),
+          required(:update_type) => atom(),
+          required(:status) => atom(),
+          required(:source_laws) => [String.t()] | nil,
+          required(:layer) => integer(),
+          optional(atom()) => any()
+        }
+
+  @doc """
+  Next entry to process: the first pending (or deferred, within
+  `max_layer`) re-parse entry in the lowest layer, skipping laws in
+  `exclude`.
+
+  Returns `{:done, :fixed_point}` when nothing is left to process, or
+  `{:done, :max_depth}` when the only entries left lie beyond `max_layer`.
+  """
+  @spec next_entry([entry()], pos_integer(), MapSet.t()) ::
+          {:ok, entry()} | {:done, :fixed_point | :max_depth}
+  def next_entry(entries, max_layer, exclude \\ MapSet.new()) do
+    open =
+      Enum.filter(entries, fn entry ->
+        entry.update_type == :reparse and entry.status in [:pending, :deferred] and
+          not MapSet.member?(exclude, entry.affected_law)
+      end)
+
+    case Enum.filter(open, &(&1.layer <= max_layer)) do
+      [] when open == [] -> {:done, :fixed_point}
+      [] -> {:done, :max_depth}
+      within -> {:ok, Enum.min_by(within, & &1.layer)}
+    end
+  end
+
+  @doc """
+  Whether processing `entry` would go round a cycle: its law has already
+  been processed by this run, or it is one of its own ancestors (a law
+  that, through `source_laws`, led to the entry being added).
+  """
+  @spec cycle?(entry(), [entry()], MapSet.t()) :: boolean()
+  def cycle?(entry, entries, processed) do
+    MapSet.member?(processed, entry.affected_law) or
+      MapSet.member?(ancestors(entry, entries), entry.affected_law)
+  end
+
+  @doc """
+  Every law upstream of `entry`, following `source_laws` through the
+  session's entries back to the session's own laws.
+  """
+  @spec ancestors(entry(), [entry()]) :: MapSet.t()
+  def ancestors(entry, entries) do
+    by_law = Map.new(entries, &{&1.affected_law, &1})
+    walk(entry.source_laws || [], by_law, MapSet.new())
+  end
+
+  defp walk([], _by_law, seen), do: seen
+
+  defp walk([law | rest], by_law, seen) do
+    if MapSet.member?(seen, law) do
+      walk(rest, by_law, seen)
+    else
+      parents =
+        case Map.get(by_law, law) do
+          nil -> []
+          parent -> parent.source_laws || []
+        end
+
+      walk(parents ++ rest, by_law, MapSet.put(seen, law))
+    end
+  end
+
+  @doc """
+  Milliseconds to wait before starting the next law so that law starts are
+  at least `interval_ms` apart. `last_started_ms` is nil before the first law.
+  """
+  @spec wait_ms(integer() | nil, integer(), non_neg_integer()) :: non_neg_integer()
+  def wait_ms(nil, _now_ms, _interval_ms), do: 0
+
+  def wait_ms(last_started_ms, now_ms, interval_ms) do
+    max(0, last_started_ms + interval_ms - now_ms)
+  end
+end
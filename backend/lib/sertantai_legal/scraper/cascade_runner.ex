@@ -0,0 +1,276 @@
+defmodule SertantaiLegal.Scraper.CascadeRunner do
+  @moduledoc """
+  Processes a session's cascade to a fixed point without an admin in the loop.
+
+  A `CascadeJob` re-parses the session's pending re-parse entries from the
+  lowest pending layer onward. Each re-parse is persisted (logged with
+  source "cascade" and the admin who started the job), its entry marked
+  processed, and the laws it amends, rescinds or was enacted by are added
+  to the next layer - exactly as confirming a law in the session does. The
+  job stops when no re-parse entries are left (`:fixed_point`) or only
+  entries beyond the job's `max_layer` remain (`:max_depth`).
+
+  Guards:
+  - Cycles: a law already processed by the job, or one that led to its own
+    entry, is marked processed without another re-parse (see `CascadePlan`).
+  - Rate limiting: law starts are spaced by `:cascade_law_interval_ms`
+    (default 2s) on top of the per-request delay in the legislation.gov.uk
+    client. Disabled in test mode.
+  - Laws not yet in uk_lrt are skipped and left pending for the "New Laws
+    to Add" flow.
+  - Cancellation is checked before each law.
+
+  Enacting-link entries are left pending for review on the cascade page.
+  Job updates are broadcast on the `"cascade_jobs"` PubSub topic as
+  `{:cascade_job_updated, job}`.
+  """
+
+  require Logger
+  require Ash.Query
+
+  alias SertantaiLegal.Legal.UkLrt
+  alias SertantaiLegal.Scraper.CascadeAffectedLaw
+  alias SertantaiLegal.Scraper.CascadeJob
+  alias SertantaiLegal.Scraper.CascadePlan
+  alias SertantaiLegal.Scraper.LawParser
+  alias SertantaiLegal.Scraper.StagedParser
+  alias SertantaiLegal.Scraper.Storage
+
+  @topic "cascade_jobs"
+  @default_interval_ms 2_000
+  # A running job with no progress for this long lost its runner (e.g. the
+  # server restarted) and no longer blocks a new job for the session
+  @stale_after_seconds 600
+
+  @doc "PubSub topic for cascade job updates."
+  @spec topic() :: String.t()
+  def topic, do: @topic
+
+  @doc """
+  Start a cascade job for `session_id` in the background. Returns the job
+  immediately.
+
+  ## Options
+  - `:max_layer` - deepest layer to process (default 3)
+  - `:actor` - user ID recorded on the job and in change logs
+
+  Returns `{:error, :already_running}` if the session has a running job.
+  Running jobs that have gone stale are marked failed first.
+  """
+  @spec start(String.t(), keyword()) :: {:ok, CascadeJob.t()} | {:error, any()}
+  def start(session_id, opts \\ []) do
+    with {:ok, running} <- CascadeJob.running_for_session(session_id),
+         :ok <- ensure_none_active(running),
+         {:ok, job} <-
+           CascadeJob.create(%{
+             session_id: session_id,
+             max_layer: Keyword.get(opts, :max_layer, 3),
+             start_layer: Storage.get_affected_laws_summary(session_id)[:current_layer],
+             started_by: Keyword.get(opts, :actor),
+             started_at: DateTime.utc_now()
+           }) do
+      Task.Supervisor.start_child(SertantaiLegal.TaskSupervisor, fn -> run(job) end)
+      {:ok, job}
+    end
+  end
+
+  @doc """
+  Run `job` to completion, blocking. Returns the finished job.
+  """
+  @spec run(CascadeJob.t()) :: {:ok, CascadeJob.t()} | {:error, any()}
+  def run(%CascadeJob{} = job) do
+    Logger.info("[CascadeRunner] Starting cascade job #{job.id} for #{job.session_id}")
+
+    try do
+      loop(job, MapSet.new(), nil)
+    rescue
+      e ->
+        Logger.error("[CascadeRunner] Job #{job.id} failed: #{Exception.message(e)}")
+
+        finish(job, %{
+          status: :failed,
+          stop_reason: :error,
+          error_message: Exception.message(e)
+        })
+    end
+  end
+
+  # --- Private ---
+
+  defp ensure_none_active(running) do
+    cutoff = DateTime.add(DateTime.utc_now(), -@stale_after_seconds, :second)
+    {stale, active} = Enum.split_with(running, &(DateTime.compare(&1.updated_at, cutoff) == :lt))
+
+    Enum.each(stale, fn job ->
+      finish(job, %{
+        status: :failed,
+        stop_reason: :error,
+        error_message: "Abandoned - no progress for #{div(@stale_after_seconds, 60)} minutes"
+      })
+    end)
+
+    if active == [], do: :ok, else: {:error, :already_running}
+  end
+
+  # `done` holds laws this job has processed or skipped; they are never
+  # picked again.
+  defp loop(job, done, last_started_ms) do
+    {:ok, job} = CascadeJob.by_id(job.id)
+
+    if job.cancel_requested_at do
+      finish(job, %{status: :cancelled, stop_reason: :cancelled})
+    else
+      entries = CascadeAffectedLaw.by_session!(job.session_id)
+
+      case CascadePlan.next_entry(entries, job.max_layer, done) do
+        {:done, reason} ->
+          finish(job, %{status: :completed, stop_reason: reason})
+
+        {:ok, entry} ->
+          if CascadePlan.cycle?(entry, entries, done) do
+            CascadeAffectedLaw.mark_processed!(entry)
+            {:ok, job} = progress(job, %{cycles: job.cycles ++ [entry.affected_law]})
+            loop(job, MapSet.put(done, entry.affected_law), last_started_ms)
+          else
+            now = System.monotonic_time(:millisecond)
+            Process.sleep(CascadePlan.wait_ms(last_started_ms, now, interval_ms()))
+            started_ms = System.monotonic_time(:millisecond)
+
+            {:ok, job} =
+              progress(job, %{current_law: entry.affected_law, current_layer: entry.layer})
+
+            {:ok, job} = progress(job, outcome_attrs(job, entry, process_entry(job, entry)))
+            loop(job, MapSet.put(done, entry.affected_law), started_ms)
+          end
+      end
+    end
+  end
+
+  defp process_entry(job, entry) do
+    name = entry.affected_law
+
+    with {:ok, record} <- build_record(name),
+         true <- in_db?(name) || :not_in_db,
+         {:ok, result} <- StagedParser.parse(record),
+         {:ok, _persisted} <-
+           LawParser.persist_direct(result.record, source: "cascade", actor: job.started_by) do
+      CascadeAffectedLaw.mark_processed!(entry)
+      {:ok, add_next_layer(job.session_id, entry, result.record)}
+    end
+  end
+
+  defp outcome_attrs(job, _entry, {:ok, added}) do
+    %{
+      processed_count: job.processed_count + 1,
+      new_entries_count: job.new_entries_count + added
+    }
+  end
+
+  defp outcome_attrs(job, _entry, :not_in_db) do
+    %{skipped_count: job.skipped_count + 1}
+  end
+
+  defp outcome_attrs(job, entry, {:error, reason}) do
+    Logger.warning("[CascadeRunner] Failed to re-parse #{entry.affected_law}: #{inspect(reason)}")
+
+    %{
+      error_count: job.error_count + 1,
+      errors: job.errors ++ [%{"law" => entry.affected_law, "message" => format_error(reason)}]
+    }
+  end
+
+  # Adds the laws the re-parsed record affects to the next layer and
+  # returns how many new cascade entries that created.
+  defp add_next_layer(session_id, entry, record) do
+    before = length(CascadeAffectedLaw.by_session!(session_id))
+
+    Storage.add_affected_laws(
+      session_id,
+      entry.affected_law,
+      record[:amending] || [],
+      record[:rescinding] || [],
+      enacted_by_names(record[:enacted_by]),
+      layer: entry.layer + 1
+    )
+
+    # Storage creates entries beyond its own depth limit as :deferred;
+    # CascadePlan.next_entry picks those up while within the job's max_layer.
+    length(CascadeAffectedLaw.by_session!(session_id)) - before
+  end
+
+  defp enacted_by_names(enacted_by) when is_list(enacted_by) do
+    enacted_by
+    |> Enum.map(fn
+      %{name: name} -> name
+      %{"name" => name} -> name
+      name when is_binary(name) -> name
+      _ -> nil
+    end)
+    |> Enum.reject(&is_nil/1)
+  end
+
+  defp enacted_by_names(_), do: []
+
+  defp build_record(name) do
+    case String.split(name, "_") do
+      ["UK", type_code, year, number] ->
+        case Integer.parse(year) do
+          {year, ""} -> {:ok, %{type_code: type_code, Year: year, Number: number, name: name}}
+          _ -> {:error, "Invalid law name format"}
+        end
+
+      _ ->
+        {:error, "Invalid law name format"}
+    end
+  end
+
+  defp in_db?(name) do
+    case UkLrt |> Ash.Query.filter(name == ^name) |> Ash.Query.select([:id]) |> Ash.read_one() do
+      {:ok, nil} -> false
+      {:ok, _} -> true
+      _ -> false
+    end
+  end
+
+  defp progress(job, attrs) do
+    with {:ok, job} <- CascadeJob.progress(job, attrs) do
+      broadcast(job)
+      {:ok, job}
+    end
+  end
+
+  defp finish(job, attrs) do
+    result =
+      CascadeJob.finish(
+        job,
+        Map.merge(attrs, %{current_law: nil, finished_at: DateTime.utc_now()})
+      )
+
+    with {:ok, job} <- result do
+      Logger.info(
+        "[CascadeRunner] Job #{job.id} #{job.status} (#{job.stop_reason}): " <>
+          "#{job.processed_count} processed, #{job.error_count} errors"
+      )
+
+      broadcast(job)
+    end
+
+    result
+  end
+
+  defp broadcast(job) do
+    Phoenix.PubSub.broadcast(SertantaiLegal.PubSub, @topic, {:cascade_job_updated, job})
+  end
+
+  defp interval_ms do
+    if Application.get_env(:sertantai_legal, :test_mode, false) do
+      0
+    else
+      Application.get_env(:sertantai_legal, :cascade_law_interval_ms, @default_interval_ms)
+    end
+  end
+
+  defp format_error(reason) when is_binary(reason), do: reason
+  defp format_error(%{message: message}) when is_binary(message), do: message
+  defp format_error(reason), do: inspect(reason)
+end
@@ -2,8 +2,9 @@ defmodule SertantaiLegal.Scraper.ChangeLogger do
   @moduledoc """
   Builds and manages unified change logs for UK LRT records.
 
-  The change log captures field-level changes when records are updated during scraping,
-  providing an audit trail of how records have evolved over time.
+  The change log captures field-level changes when records are updated, whether by
+  the scraper, an admin's inline edit or a revert, providing an audit trail of how
+  records have evolved over time.
 
   ## Entry Format
 
@@ -11,8 +12,9 @@ defmodule SertantaiLegal.Scraper.ChangeLogger do
   ```
   %{
     "timestamp" => "2025-01-10T18:30:45Z",   # ISO 8601 UTC timestamp
-    "source" => "scraper",                    # Origin of the change
-    "changed_by" => "staged_parser",          # Specific module/process
+    "source" => "parse_confirm",              # Origin of the change (see t:source/0)
+    "changed_by" => "law_parser",             # Specific module/process
+    "actor" => "0b6f…",                       # JWT user id, nil for system changes
     "summary" => "Updated 3 fields: role, amending, live",
     "changes" => %{
       "role" => %{
@@ -45,6 +47,17 @@ defmodule SertantaiLegal.Scraper.ChangeLogger do
   ```
   """
 
+  @typedoc """
+  Origin of a change:
+  - `scraper` - default for scraper runs without a more specific source
+  - `parse_confirm` - a reviewed parse confirmed in a scrape session
+  - `cascade` - a cascade reparse of an affected law
+  - `bulk` - group persist or bulk parse of a scrape session
+  - `inline_edit` - an admin edit in the LRT grid (PATCH /api/uk-lrt/:id)
+  - `revert` - a single field reverted from the history
+  """
+  @type source :: String.t()
+
   @doc """
   Build a change log entry by comparing old and new record maps.
 
@@ -56,6 +69,7 @@ defmodule SertantaiLegal.Scraper.ChangeLogger do
   - `changed_by` - Identifier for the source of change (e.g., "staged_parser", "csv_import")
   - `opts` - Optional settings:
     - `:source` - Override the default source ("scraper")
+    - `:actor` - JWT user id of the person who made the change (default nil)
     - `:exclude_fields` - List of fields to ignore in comparison
 
   ## Examples
@@ -70,6 +84,7 @@ defmodule SertantaiLegal.Scraper.ChangeLogger do
           {:ok, map()} | {:no_changes, nil}
   def build_change_entry(old_record, new_record, changed_by, opts \\ []) do
     source = Keyword.get(opts, :source, "scraper")
+    actor = Keyword.get(opts, :actor)
     exclude_fields = Keyword.get(opts, :exclude_fields, default_exclude_fields())
 
     old_map = normalize_to_map(old_record)
@@ -111,6 +126,7 @@ defmodule SertantaiLegal.Scraper.ChangeLogger do
         "timestamp" => DateTime.utc_now() |> DateTime.to_iso8601(),
         "source" => source,
         "changed_by" => changed_by,
+        "actor" => actor,
         "summary" => build_summary(changes),
         "changes" => changes
       }
@@ -129,6 +145,33 @@ defmodule SertantaiLegal.Scraper.ChangeLogger do
   def append_to_log(nil, entry), do: [entry]
   def append_to_log(existing_log, entry), do: existing_log ++ [entry]
 
+  @doc """
+  Find the change to one field made by the entry with the given timestamp.
+
+  Returns {:ok, %{"old" => old, "new" => new}}, or {:error, reason} if the log
+  has no such entry or the entry did not change the field.
+
+  ## Examples
+
+      iex> log = [%{"timestamp" => "2025-01-10T18:30:45Z", "changes" => %{"live" => %{"old" => "a", "new" => "b"}}}]
+      iex> ChangeLogger.find_change(log, "2025-01-10T18:30:45Z", "live")
+      {:ok, %{"old" => "a", "new" => "b"}}
+  """
+  @spec find_change(list() | nil, String.t(), String.t()) ::
+          {:ok, map()} | {:error, String.t()}
+  def find_change(log, timestamp, field) do
+    case Enum.find(log || [], &(&1["timestamp"] == timestamp)) do
+      nil ->
+        {:error, "No change log entry at #{timestamp}"}
+
+      entry ->
+        case get_in(entry, ["changes", field]) do
+          nil -> {:error, "Change log entry at #{timestamp} did not change #{field}"}
+          change -> {:ok, change}
+        end
+    end
+  end
+
   @doc """
   Format a human-readable summary of changes.
 
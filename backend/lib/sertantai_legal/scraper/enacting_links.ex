@@ -0,0 +1,87 @@
+defmodule SertantaiLegal.Scraper.EnactingLinks do
+  @moduledoc """
+  Plans enacting-link updates on parent laws.
+
+  When a law is enacted by a parent, the parent's `enacting` array should
+  list it. Cascade processing collects, per parent, the source laws to add;
+  `plan/3` works out the before/after arrays so an update can be previewed
+  (dry run) and then applied with only the links an admin kept.
+  """
+
+  @type plan :: %{before: [String.t()], after: [String.t()], added: [String.t()]}
+
+  @doc """
+  Plan adding `sources` to a parent's `current` enacting array.
+
+  ## Options
+  - `:only` - subset of `sources` to add (the links kept after a preview);
+    nil adds every source
+  - `:sort` - sort the result by year then number, newest first (default false,
+    which appends new links to the end)
+  """
+  @spec plan([String.t()] | nil, [String.t()], keyword()) :: plan()
+  def plan(current, sources, opts \\ []) do
+    current = current || []
+
+    sources =
+      case Keyword.get(opts, :only) do
+        nil -> Enum.uniq(sources)
+        only -> sources |> Enum.uniq() |> Enum.filter(&(&1 in only))
+      end
+
+    added = Enum.reject(sources, &(&1 in current))
+
+    updated =
+      cond do
+        added == [] -> current
+        Keyword.get(opts, :sort, false) -> sort_by_year_number_desc(current ++ added)
+        true -> current ++ added
+      end
+
+    %{before: current, after: updated, added: added}
+  end
+
+  @doc """
+  Links kept for `parent` from a `links` request parameter (a map of parent
+  name to source laws), or nil when the request did not restrict them.
+  """
+  @spec only_for(map() | nil, String.t()) :: [String.t()] | nil
+  def only_for(links, parent) when is_map(links) do
+    case Map.get(links, parent) do
+      kept when is_list(kept) -> kept
+      _ -> nil
+    end
+  end
+
+  def only_for(_links, _parent), do: nil
+
+  @doc """
+  Sort law names by year (desc) then number (desc),
+  e.g. UK_uksi_2024_16, UK_uksi_2024_3, UK_uksi_2022_10.
+  """
+  @spec sort_by_year_number_desc([String.t()]) :: [String.t()]
+  def sort_by_year_number_desc(names) do
+    Enum.sort_by(names, fn name ->
+      case String.split(name, "_") do
+        [_prefix, _type, year_str, number_str] ->
+          case Integer.parse(year_str) do
+            # Negate for descending order
+            {year, ""} -> {-year, -parse_number(number_str)}
+            _ -> {0, 0}
+          end
+
+        _ ->
+          # Unknown format, sort to end
+          {0, 0}
+      end
+    end)
+  end
+
+  # Parse number, handling non-numeric suffixes like "123a"
+  defp parse_number(str) do
+    case Integer.parse(str) do
+      {num, _rest} -> num
+      :error -> 0
+    end
+  end
+end
@@ -22,7 +22,8 @@ defmodule SertantaiLegal.Scraper.LawParser do
 
   Updates are tracked in the `record_change_log` JSONB column.
   - No entry is created on initial record creation
-  - Each update appends an entry with timestamp, changed_by, and field diffs
+  - Each update appends an entry with timestamp, source, changed_by, actor, and field diffs
+  - Pass `source:` and `actor:` options to attribute updates (see ChangeLogger)
 
   ## Usage
 
@@ -46,6 +47,7 @@ defmodule SertantaiLegal.Scraper.LawParser do
   alias SertantaiLegal.Scraper.ChangeLogger
   alias SertantaiLegal.Scraper.ParsedLaw
   alias SertantaiLegal.Legal.UkLrt
+  alias SertantaiLegal.Legal.FieldLocks
 
   require Ash.Query
 
@@ -62,6 +64,7 @@ defmodule SertantaiLegal.Scraper.LawParser do
   ## Options
   - auto_confirm: If true, skip confirmation prompts (default: false)
   - selected_only: If true, only parse records marked as selected (default: false)
+  - source, actor: Change log attribution for updated records (see ChangeLogger)
   """
   @spec parse_group(String.t(), atom(), keyword()) :: {:ok, map()} | {:error, String.t()}
   def parse_group(session_id, group, opts \\ []) when group in [:group1, :group2, :group3] do
@@ -138,6 +141,7 @@ defmodule SertantaiLegal.Scraper.LawParser do
 
   ## Options
   - persist: If true, save to database (default: true)
+  - source, actor: Change log attribution when an existing record is updated
   """
   @spec parse_record(map(), keyword()) :: {:ok, map()} | {:error, String.t()}
   def parse_record(record, opts \\ []) do
@@ -151,7 +155,7 @@ defmodule SertantaiLegal.Scraper.LawParser do
         enriched = merge_metadata(record, metadata)
 
         if Keyword.get(opts, :persist, true) do
-          persist_record(enriched)
+          persist_record(enriched, opts)
         else
           {:ok, enriched}
         end
@@ -171,12 +175,15 @@ defmodule SertantaiLegal.Scraper.LawParser do
 
   ## Parameters
   - record: Fully enriched map with all fields ready for persistence
+
+  ## Options
+  - source, actor: Change log attribution when an existing record is updated
   """
-  @spec persist_direct(map()) :: {:ok, map()} | {:error, String.t()}
-  def persist_direct(record) do
+  @spec persist_direct(map(), keyword()) :: {:ok, map()} | {:error, String.t()}
+  def persist_direct(record, opts \\ []) do
     title = record[:Title_EN] || record[:title_en] || record["Title_EN"] || "Unknown"
     IO.puts("\nPersisting directly: #{title}")
-    persist_record(record)
+    persist_record(record, opts)
   end
 
   @doc """
@@ -218,7 +225,7 @@ defmodule SertantaiLegal.Scraper.LawParser do
           end
 
         if should_parse do
-          case parse_record(record) do
+          case parse_record(record, Keyword.take(opts, [:source, :actor])) do
             {:ok, _enriched} ->
               %{acc | parsed: acc.parsed + 1}
 
@@ -292,7 +299,7 @@ defmodule SertantaiLegal.Scraper.LawParser do
               parse_excluded_loop(records, session_id, results, opts)
 
             record ->
-              case parse_record(record) do
+              case parse_record(record, Keyword.take(opts, [:source, :actor])) do
                 {:ok, _enriched} ->
                   parse_excluded_loop(
                     records,
@@ -385,7 +392,7 @@ defmodule SertantaiLegal.Scraper.LawParser do
   end
 
   # Persist record to database
-  defp persist_record(record) do
+  defp persist_record(record, opts) do
     # Always use canonical UK_ format for name lookup
     # The record[:name] may be in slash format (uksi/2025/622) from scraped data
     name = normalize_name(record[:name], record)
@@ -397,7 +404,7 @@ defmodule SertantaiLegal.Scraper.LawParser do
 
       existing ->
         # Update existing record
-        update_record(existing, record)
+        update_record(existing, record, opts)
     end
   end
 
@@ -430,12 +437,18 @@ defmodule SertantaiLegal.Scraper.LawParser do
     end
   end
 
-  defp update_record(existing, record) do
-    attrs = build_attrs(record)
+  defp update_record(existing, record, opts) do
+    # Hand-curated fields locked on the record are never overwritten by a parse
+    attrs = record |> build_attrs() |> FieldLocks.drop_locked(existing)
 
     # Build change log entry before applying updates
     attrs_with_log =
-      case ChangeLogger.build_change_entry(existing, attrs, "law_parser") do
+      case ChangeLogger.build_change_entry(
+             existing,
+             attrs,
+             "law_parser",
+             Keyword.take(opts, [:source, :actor])
+           ) do
         {:ok, log_entry} ->
           existing_log = existing.record_change_log || []
           updated_log = ChangeLogger.append_to_log(existing_log, log_entry)
@@ -23,13 +23,15 @@ defmodule SertantaiLegal.Scraper.Persister do
 
   Updates are tracked in the `record_change_log` JSONB column.
   - No entry is created on initial record creation
-  - Each update appends an entry with timestamp, changed_by, and field diffs
+  - Each update appends an entry with timestamp, source ("bulk" by default),
+    changed_by, actor, and field diffs
   """
 
   alias SertantaiLegal.Scraper.Storage
   alias SertantaiLegal.Scraper.ChangeLogger
   alias SertantaiLegal.Scraper.ParsedLaw
   alias SertantaiLegal.Legal.UkLrt
+  alias SertantaiLegal.Legal.FieldLocks
   alias SertantaiLegal.Legal.FunctionCalculator
   alias SertantaiLegal.Integrations.HubNotifier
   alias SertantaiLegal.Zenoh.ChangeNotifier
@@ -42,18 +44,22 @@ defmodule SertantaiLegal.Scraper.Persister do
   Groups: :group1, :group2, :group3
 
   Returns {:ok, count} with the number of records persisted.
+
+  ## Options
+  - actor: JWT user id recorded in the change log of updated records
   """
-  @spec persist_group(String.t(), atom()) :: {:ok, non_neg_integer()} | {:error, any()}
-  def persist_group(session_id, group) when group in [:group1, :group2, :group3] do
+  @spec persist_group(String.t(), atom(), keyword()) ::
+          {:ok, non_neg_integer()} | {:error, any()}
+  def persist_group(session_id, group, opts \\ []) when group in [:group1, :group2, :group3] do
     IO.puts("\n=== PERSISTING #{group} for session: #{session_id} ===")
 
     case Storage.read_json(session_id, group) do
       {:ok, records} when is_list(records) ->
-        persist_records(records)
+        persist_records(records, opts)
 
       {:ok, records} when is_map(records) ->
         # Group 3 is indexed as a map - extract values
-        persist_records(Map.values(records))
+        persist_records(Map.values(records), opts)
 
       {:error, reason} ->
         {:error, reason}
@@ -67,9 +73,15 @@ defmodule SertantaiLegal.Scraper.Persister do
   1. Immediate Function (Making, Commencing) after each record
   2. End-of-batch relationship Function (Amending/Revoking Maker)
   3. Update parent enacting[] from child enacted_by
+
+  ## Options
+  - source: Change log source for updated records (default: "bulk")
+  - actor: JWT user id recorded in the change log of updated records
   """
-  @spec persist_records(list(map())) :: {:ok, non_neg_integer()} | {:error, any()}
-  def persist_records(records) do
+  @spec persist_records(list(map()), keyword()) :: {:ok, non_neg_integer()} | {:error, any()}
+  def persist_records(records, opts \\ []) do
+    log_opts = Keyword.merge([source: "bulk"], Keyword.take(opts, [:source, :actor]))
+
     IO.puts("Persisting #{Enum.count(records)} records...")
 
     # Phase 1: Persist all records and calculate immediate Function
@@ -78,7 +90,7 @@ defmodule SertantaiLegal.Scraper.Persister do
                                                             {counts, rel_laws, enacted_laws} ->
         {created, updated, errors, created_laws, updated_laws} = counts
 
-        case persist_record_with_immediate_function(record) do
+        case persist_record_with_immediate_function(record, log_opts) do
           {:ok, :created, law} ->
             # Track for relationship Function calc if has amending/rescinding
             rel_laws = maybe_track_for_relationship_calc(rel_laws, law)
@@ -180,7 +192,7 @@ defmodule SertantaiLegal.Scraper.Persister do
   # ============================================================================
 
   # Persist record and calculate immediate Function (Making, Commencing)
-  defp persist_record_with_immediate_function(record) do
+  defp persist_record_with_immediate_function(record, log_opts) do
     name = get_field(record, :name)
 
     case find_by_name(name) do
@@ -191,7 +203,7 @@ defmodule SertantaiLegal.Scraper.Persister do
         end
 
       existing ->
-        case update_record_with_immediate_function(existing, record) do
+        case update_record_with_immediate_function(existing, record, log_opts) do
           {:ok, law} -> {:ok, :updated, law}
           error -> error
         end
@@ -219,7 +231,7 @@ defmodule SertantaiLegal.Scraper.Persister do
   end
 
   # Update existing record with immediate Function
-  defp update_record_with_immediate_function(existing, record) do
+  defp update_record_with_immediate_function(existing, record, log_opts) do
     attrs = build_attrs(record)
     update_attrs = filter_update_attrs(attrs, existing)
 
@@ -248,12 +260,20 @@ defmodule SertantaiLegal.Scraper.Persister do
         update_attrs
       end
 
+    # function/is_making are added after filter_update_attrs, so drop locks again
+    update_attrs_with_function = FieldLocks.drop_locked(update_attrs_with_function, existing)
+
     if map_size(update_attrs_with_function) == 0 do
       {:ok, existing}
     else
       # Build change log entry before applying updates
       update_attrs_with_log =
-        case ChangeLogger.build_change_entry(existing, update_attrs_with_function, "persister") do
+        case ChangeLogger.build_change_entry(
+               existing,
+               update_attrs_with_function,
+               "persister",
+               log_opts
+             ) do
           {:ok, log_entry} ->
             existing_log = existing.record_change_log || []
             updated_log = ChangeLogger.append_to_log(existing_log, log_entry)
@@ -309,7 +329,7 @@ defmodule SertantaiLegal.Scraper.Persister do
 
     # Persist the relationship Function merged with existing
     Enum.each(results, fn {law, relationship_function} ->
-      if map_size(relationship_function) > 0 do
+      if map_size(relationship_function) > 0 and "function" not in FieldLocks.locked(law) do
         existing_function = law.function || %{}
         merged_function = Map.merge(existing_function, relationship_function)
 
@@ -384,6 +404,7 @@ defmodule SertantaiLegal.Scraper.Persister do
   # Only update fields that are nil in existing record
   defp filter_update_attrs(attrs, existing) do
     attrs
+    |> FieldLocks.drop_locked(existing)
     |> Enum.filter(fn {key, _value} ->
       existing_value = Map.get(existing, key)
 
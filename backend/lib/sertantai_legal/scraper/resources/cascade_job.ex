@@ -0,0 +1,200 @@
+defmodule SertantaiLegal.Scraper.CascadeJob do
+  @moduledoc """
+  A server-side cascade run for one scrape session.
+
+  `CascadeRunner` processes the session's pending re-parse entries layer by
+  layer from the current layer onward, adding the laws each re-parse
+  affects to the next layer, until no new affected laws are produced
+  (a fixed point) or only entries beyond `max_layer` remain.
+
+  Progress counters are updated after every law so the admin UI can poll
+  the job while it runs.
+
+  ## Status Flow
+  running -> completed (stop_reason: fixed_point | max_depth)
+          \\-> cancelled (an admin requested cancellation)
+          \\-> failed
+  """
+
+  use Ash.Resource,
+    domain: SertantaiLegal.Api,
+    data_layer: AshPostgres.DataLayer
+
+  postgres do
+    table("cascade_jobs")
+    repo(SertantaiLegal.Repo)
+  end
+
+  attributes do
+    uuid_primary_key(:id)
+
+    attribute :session_id, :string do
+      allow_nil?(false)
+      description("The scrape session whose cascade is processed")
+    end
+
+    attribute :status, :atom do
+      constraints(one_of: [:running, :completed, :cancelled, :failed])
+      default(:running)
+      allow_nil?(false)
+      description("Current job status")
+    end
+
+    attribute :stop_reason, :atom do
+      constraints(one_of: [:fixed_point, :max_depth, :cancelled, :error])
+      allow_nil?(true)
+      description("Why the job stopped")
+    end
+
+    attribute :start_layer, :integer do
+      allow_nil?(true)
+      description("Lowest pending layer when the job started")
+    end
+
+    attribute :current_layer, :integer do
+      allow_nil?(true)
+      description("Layer of the law being processed")
+    end
+
+    attribute :max_layer, :integer do
+      default(3)
+      allow_nil?(false)
+      constraints(min: 1, max: 10)
+      description("Deepest layer the job will process")
+    end
+
+    attribute :current_law, :string do
+      allow_nil?(true)
+      description("Law being processed")
+    end
+
+    attribute :processed_count, :integer do
+      default(0)
+      allow_nil?(false)
+      description("Laws re-parsed successfully")
+    end
+
+    attribute :error_count, :integer do
+      default(0)
+      allow_nil?(false)
+      description("Laws that failed to re-parse")
+    end
+
+    attribute :skipped_count, :integer do
+      default(0)
+      allow_nil?(false)
+      description("Laws skipped because they are not in uk_lrt yet")
+    end
+
+    attribute :new_entries_count, :integer do
+      default(0)
+      allow_nil?(false)
+      description("Cascade entries added by the job's re-parses")
+    end
+
+    attribute :cycles, {:array, :string} do
+      default([])
+      description("Laws not re-parsed because they were reached again through a cycle")
+    end
+
+    attribute :errors, {:array, :map} do
+      default([])
+      description("Per-law errors: %{\"law\" => name, \"message\" => reason}")
+    end
+
+    attribute :started_by, :string do
+      allow_nil?(true)
+      description("User ID of the admin who started the job")
+    end
+
+    attribute :error_message, :string do
+      allow_nil?(true)
+      description("Error message if status is :failed")
+    end
+
+    attribute :started_at, :utc_datetime_usec do
+      allow_nil?(false)
+      description("When the job started")
+    end
+
+    attribute :cancel_requested_at, :utc_datetime_usec do
+      allow_nil?(true)
+      description("When an admin asked for the job to stop")
+    end
+
+    attribute :finished_at, :utc_datetime_usec do
+      allow_nil?(true)
+      description("When the job finished")
+    end
+
+    create_timestamp(:inserted_at)
+    update_timestamp(:updated_at)
+  end
+
+  actions do
+    defaults([:read, :destroy])
+
+    create :create do
+      description("Start a cascade job")
+      accept([:session_id, :max_layer, :start_layer, :started_by, :started_at])
+    end
+
+    update :progress do
+      description("Record progress after a law")
+
+      accept([
+        :current_layer,
+        :current_law,
+        :processed_count,
+        :error_count,
+        :skipped_count,
+        :new_entries_count,
+        :cycles,
+        :errors
+      ])
+    end
+
+    update :finish do
+      description("Record the outcome of a job")
+      accept([:status, :stop_reason, :error_message, :finished_at, :current_law])
+    end
+
+    update :request_cancel do
+      description("Ask a running job to stop after the current law")
+      change(set_attribute(:cancel_requested_at, &DateTime.utc_now/0))
+    end
+
+    read :by_id do
+      description("Get job by ID")
+      get?(true)
+      argument(:id, :uuid, allow_nil?: false)
+      filter(expr(id == ^arg(:id)))
+    end
+
+    read :by_session do
+      description("Jobs for a session, newest first")
+      argument(:session_id, :string, allow_nil?: false)
+      filter(expr(session_id == ^arg(:session_id)))
+      prepare(build(sort: [started_at: :desc], limit: 20))
+    end
+
+    read :running_for_session do
+      description("The running job for a session, if any")
+      argument(:session_id, :string, allow_nil?: false)
+      filter(expr(session_id == ^arg(:session_id) and status == :running))
+    end
+  end
+
+  code_interface do
+    domain(SertantaiLegal.Api)
+    define(:create)
+    define(:read)
+    define(:progress)
+    define(:finish)
+    define(:request_cancel)
+    define(:destroy)
+    define(:by_id, args: [:id])
+    define(:by_session, args: [:session_id])
+    define(:running_for_session, args: [:session_id])
+  end
+end
@@ -0,0 +1,167 @@
+defmodule SertantaiLegal.Scraper.ScrapeSchedule do
+  @moduledoc """
+  A recurring scrape of legislation.gov.uk new laws.
+
+  Each schedule says when to run (daily, weekly on a weekday, or monthly
+  on a day of the month, at an hour in UTC) and which date range to scrape
+  relative to the run date (previous day, week or month). Due schedules are
+  picked up by `SertantaiLegal.Scraper.ScheduleRunner`, which records each
+  run as a `ScrapeScheduleRun` linked to the resulting scrape sessions.
+
+  ## Example
+  "Every Monday 06:00, previous week, all type codes":
+
+      %{frequency: :weekly, day_of_week: 1, hour: 6, range: :previous_week, type_code: nil}
+  """
+
+  use Ash.Resource,
+    domain: SertantaiLegal.Api,
+    data_layer: AshPostgres.DataLayer
+
+  postgres do
+    table("scrape_schedules")
+    repo(SertantaiLegal.Repo)
+  end
+
+  attributes do
+    uuid_primary_key(:id)
+
+    attribute :name, :string do
+      allow_nil?(false)
+      description("Display name, e.g. 'Weekly new laws'")
+    end
+
+    attribute :enabled, :boolean do
+      default(true)
+      allow_nil?(false)
+      description("Disabled schedules are kept but never run automatically")
+    end
+
+    attribute :frequency, :atom do
+      constraints(one_of: [:daily, :weekly, :monthly])
+      allow_nil?(false)
+      description("How often the schedule runs")
+    end
+
+    attribute :day_of_week, :integer do
+      allow_nil?(true)
+      constraints(min: 1, max: 7)
+      description("ISO weekday for weekly schedules (1 = Monday)")
+    end
+
+    attribute :day_of_month, :integer do
+      allow_nil?(true)
+      constraints(min: 1, max: 28)
+      description("Day of the month for monthly schedules")
+    end
+
+    attribute :hour, :integer do
+      default(6)
+      allow_nil?(false)
+      constraints(min: 0, max: 23)
+      description("Hour of day (UTC) the schedule runs")
+    end
+
+    attribute :range, :atom do
+      constraints(one_of: [:previous_day, :previous_week, :previous_month])
+      allow_nil?(false)
+      description("Date range scraped, relative to the run date")
+    end
+
+    attribute :type_code, :string do
+      allow_nil?(true)
+      description("Optional type code filter (uksi, ukpga, etc). Nil = all")
+    end
+
+    attribute :last_run_at, :utc_datetime_usec do
+      allow_nil?(true)
+      description("When the schedule last started a run")
+    end
+
+    attribute :next_run_at, :utc_datetime_usec do
+      allow_nil?(true)
+      description("When the schedule is next due")
+    end
+
+    attribute :created_by, :string do
+      allow_nil?(true)
+      description("User id from the JWT that created the schedule")
+    end
+
+    create_timestamp(:inserted_at)
+    update_timestamp(:updated_at)
+  end
+
+  actions do
+    defaults([:read, :destroy])
+
+    create :create do
+      description("Create a scrape schedule")
+
+      accept([
+        :name,
+        :enabled,
+        :frequency,
+        :day_of_week,
+        :day_of_month,
+        :hour,
+        :range,
+        :type_code,
+        :next_run_at,
+        :created_by
+      ])
+    end
+
+    update :update do
+      description("Edit a scrape schedule")
+
+      accept([
+        :name,
+        :enabled,
+        :frequency,
+        :day_of_week,
+        :day_of_month,
+        :hour,
+        :range,
+        :type_code,
+        :next_run_at
+      ])
+    end
+
+    update :mark_run do
+      description("Record that a run started and when the next one is due")
+      accept([:last_run_at, :next_run_at])
+    end
+
+    read :by_id do
+      description("Get schedule by ID")
+      get?(true)
+      argument(:id, :uuid, allow_nil?: false)
+      filter(expr(id == ^arg(:id)))
+    end
+
+    read :list do
+      description("All schedules, by name")
+      prepare(build(sort: [name: :asc]))
+    end
+
+    read :due do
+      description("Enabled schedules whose next run is at or before the given time")
+      argument(:now, :utc_datetime_usec, allow_nil?: false)
+      filter(expr(enabled == true and not is_nil(next_run_at) and next_run_at <= ^arg(:now)))
+      prepare(build(sort: [next_run_at: :asc]))
+    end
+  end
+
+  code_interface do
+    domain(SertantaiLegal.Api)
+    define(:create)
+    define(:read)
+    define(:update)
+    define(:destroy)
+    define(:mark_run)
+    define(:by_id, args: [:id])
+    define(:list)
+    define(:due, args: [:now])
+  end
+end
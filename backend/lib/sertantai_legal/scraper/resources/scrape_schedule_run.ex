@@ -0,0 +1,157 @@
+defmodule SertantaiLegal.Scraper.ScrapeScheduleRun do
+  @moduledoc """
+  History entry for one run of a `ScrapeSchedule`.
+
+  A run scrapes the schedule's date range as one `ScrapeSession` per
+  calendar month covered (sessions are single-month), so `session_ids`
+  links the run to every session it produced.
+
+  ## Status Flow
+  running -> succeeded
+          \\-> failed
+
+  A run fails when a session could not be created or ended in
+  `status: :failed`. Failed runs stay unacknowledged (and are flagged
+  in the admin UI) until an admin acknowledges them.
+  """
+
+  use Ash.Resource,
+    domain: SertantaiLegal.Api,
+    data_layer: AshPostgres.DataLayer
+
+  postgres do
+    table("scrape_schedule_runs")
+    repo(SertantaiLegal.Repo)
+  end
+
+  attributes do
+    uuid_primary_key(:id)
+
+    attribute :schedule_id, :uuid do
+      allow_nil?(false)
+      description("The schedule that triggered this run")
+    end
+
+    attribute :schedule_name, :string do
+      allow_nil?(true)
+      description("Schedule name at run time (kept if the schedule is deleted)")
+    end
+
+    attribute :trigger, :atom do
+      constraints(one_of: [:scheduled, :manual])
+      default(:scheduled)
+      allow_nil?(false)
+      description("Whether the run was due or started by hand")
+    end
+
+    attribute :status, :atom do
+      constraints(one_of: [:running, :succeeded, :failed])
+      default(:running)
+      allow_nil?(false)
+      description("Current run status")
+    end
+
+    attribute :date_from, :date do
+      allow_nil?(false)
+      description("First day scraped")
+    end
+
+    attribute :date_to, :date do
+      allow_nil?(false)
+      description("Last day scraped")
+    end
+
+    attribute :session_ids, {:array, :string} do
+      default([])
+      description("session_id of each ScrapeSession produced by the run")
+    end
+
+    attribute :error_message, :string do
+      allow_nil?(true)
+      description("Error message if status is :failed")
+    end
+
+    attribute :started_at, :utc_datetime_usec do
+      allow_nil?(false)
+      description("When the run started")
+    end
+
+    attribute :finished_at, :utc_datetime_usec do
+      allow_nil?(true)
+      description("When the run finished")
+    end
+
+    attribute :acknowledged_at, :utc_datetime_usec do
+      allow_nil?(true)
+      description("When an admin acknowledged a failed run")
+    end
+
+    create_timestamp(:inserted_at)
+    update_timestamp(:updated_at)
+  end
+
+  actions do
+    defaults([:read, :destroy])
+
+    create :create do
+      description("Start a schedule run")
+
+      accept([
+        :schedule_id,
+        :schedule_name,
+        :trigger,
+        :date_from,
+        :date_to,
+        :started_at
+      ])
+    end
+
+    update :finish do
+      description("Record the outcome of a run")
+      accept([:status, :session_ids, :error_message, :finished_at])
+    end
+
+    update :acknowledge do
+      description("Acknowledge a failed run")
+      change(set_attribute(:acknowledged_at, &DateTime.utc_now/0))
+    end
+
+    read :by_id do
+      description("Get run by ID")
+      get?(true)
+      argument(:id, :uuid, allow_nil?: false)
+      filter(expr(id == ^arg(:id)))
+    end
+
+    read :recent do
+      description("Most recent runs across all schedules")
+      prepare(build(sort: [started_at: :desc], limit: 50))
+    end
+
+    read :by_schedule do
+      description("Runs of one schedule, newest first")
+      argument(:schedule_id, :uuid, allow_nil?: false)
+      filter(expr(schedule_id == ^arg(:schedule_id)))
+      prepare(build(sort: [started_at: :desc]))
+    end
+
+    read :unacknowledged_failures do
+      description("Failed runs nobody has acknowledged yet")
+      filter(expr(status == :failed and is_nil(acknowledged_at)))
+      prepare(build(sort: [started_at: :desc]))
+    end
+  end
+
+  code_interface do
+    domain(SertantaiLegal.Api)
+    define(:create)
+    define(:read)
+    define(:finish)
+    define(:acknowledge)
+    define(:destroy)
+    define(:by_id, args: [:id])
+    define(:recent)
+    define(:by_schedule, args: [:schedule_id])
+    define(:unacknowledged_failures)
+  end
+end
@@ -64,6 +64,11 @@ defmodule SertantaiLegal.Scraper.ScrapeSession do
       description("Optional type code filter (uksi, ukpga, etc). Nil = all")
     end
 
+    attribute :rerun_of, :string do
+      allow_nil?(true)
+      description("session_id of the session this one re-runs over the same date range")
+    end
+
     # Status
     attribute :status, :atom do
       constraints(one_of: [:pending, :scraping, :categorized, :reviewing, :completed, :failed])
@@ -142,7 +147,17 @@ defmodule SertantaiLegal.Scraper.ScrapeSession do
 
     create :create do
       description("Create a new scrape session")
-      accept([:session_id, :year, :month, :day_from, :day_to, :type_code, :status, :group1_count])
+      accept([
+        :session_id,
+        :year,
+        :month,
+        :day_from,
+        :day_to,
+        :type_code,
+        :status,
+        :group1_count,
+        :rerun_of
+      ])
     end
 
     update :update do
@@ -0,0 +1,168 @@
+defmodule SertantaiLegal.Scraper.ScheduleRunner do
+  @moduledoc """
+  Runs recurring scrape schedules when they fall due.
+
+  Checks for due `ScrapeSchedule`s once a minute and runs each one under
+  `SertantaiLegal.TaskSupervisor`, so a slow scrape never blocks the tick.
+  A run scrapes the schedule's date range via `SessionManager.run/5` (one
+  session per calendar month) and is recorded as a `ScrapeScheduleRun`.
+
+  Failed runs, including runs whose scrape raises or exits, are logged at
+  error level and broadcast on the `"scrape_schedules"` PubSub topic as
+  `{:schedule_run_failed, run}`; the admin UI flags them until acknowledged.
+
+  Started only when `config :sertantai_legal, :scrape_scheduler, enabled: true`.
+  """
+
+  use GenServer
+  require Logger
+
+  alias SertantaiLegal.Scraper.ScrapeSchedule
+  alias SertantaiLegal.Scraper.ScrapeScheduleRun
+  alias SertantaiLegal.Scraper.Scheduler
+  alias SertantaiLegal.Scraper.SessionManager
+
+  @tick_interval :timer.minutes(1)
+  @topic "scrape_schedules"
+
+  # --- Client API ---
+
+  def start_link(opts \\ []) do
+    GenServer.start_link(__MODULE__, opts, name: __MODULE__)
+  end
+
+  @doc "PubSub topic for schedule run notifications."
+  @spec topic() :: String.t()
+  def topic, do: @topic
+
+  @doc """
+  Start a run of `schedule` in the background. Returns immediately.
+  """
+  @spec run_async(ScrapeSchedule.t(), :scheduled | :manual) :: :ok
+  def run_async(%ScrapeSchedule{} = schedule, trigger \\ :manual) do
+    Task.Supervisor.start_child(SertantaiLegal.TaskSupervisor, fn ->
+      run(schedule, trigger)
+    end)
+
+    :ok
+  end
+
+  @doc """
+  Run `schedule` now, blocking until every session has been scraped and
+  categorized. Moves the schedule's `next_run_at` on and returns the
+  finished run.
+  """
+  @spec run(ScrapeSchedule.t(), :scheduled | :manual, DateTime.t()) ::
+          {:ok, ScrapeScheduleRun.t()} | {:error, any()}
+  def run(%ScrapeSchedule{} = schedule, trigger \\ :manual, now \\ DateTime.utc_now()) do
+    {date_from, date_to} = Scheduler.date_range(schedule.range, DateTime.to_date(now))
+
+    with {:ok, run} <-
+           ScrapeScheduleRun.create(%{
+             schedule_id: schedule.id,
+             schedule_name: schedule.name,
+             trigger: trigger,
+             date_from: date_from,
+             date_to: date_to,
+             started_at: now
+           }),
+         {:ok, _schedule} <-
+           ScrapeSchedule.mark_run(schedule, %{
+             last_run_at: now,
+             next_run_at: Scheduler.next_run_at(schedule, now)
+           }) do
+      Logger.info(
+        "[ScheduleRunner] Running '#{schedule.name}' for #{date_from} to #{date_to} (#{trigger})"
+      )
+
+      try do
+        {session_ids, errors} = scrape_range(date_from, date_to, schedule.type_code)
+        finish(run, session_ids, errors)
+      rescue
+        e ->
+          Logger.error("[ScheduleRunner] Run #{run.id} crashed: #{Exception.message(e)}")
+          finish(run, [], [Exception.message(e)])
+      catch
+        :exit, reason ->
+          Logger.error("[ScheduleRunner] Run #{run.id} exited: #{inspect(reason)}")
+          finish(run, [], ["exited: #{inspect(reason)}"])
+      end
+    end
+  end
+
+  # --- Server Callbacks ---
+
+  @impl true
+  def init(_opts) do
+    schedule_tick()
+    {:ok, %{}}
+  end
+
+  @impl true
+  def handle_info(:tick, state) do
+    case ScrapeSchedule.due(DateTime.utc_now()) do
+      {:ok, schedules} ->
+        Enum.each(schedules, &run_async(&1, :scheduled))
+
+      {:error, reason} ->
+        Logger.warning("[ScheduleRunner] Failed to load due schedules: #{inspect(reason)}")
+    end
+
+    schedule_tick()
+    {:noreply, state}
+  end
+
+  # --- Private ---
+
+  defp schedule_tick do
+    Process.send_after(self(), :tick, @tick_interval)
+  end
+
+  defp scrape_range(date_from, date_to, type_code) do
+    date_from
+    |> Scheduler.month_chunks(date_to)
+    |> Enum.reduce({[], []}, fn {year, month, day_from, day_to}, {ids, errors} ->
+      case SessionManager.run(year, month, day_from, day_to, type_code) do
+        {:ok, %{status: :failed} = session} ->
+          {[session.session_id | ids],
+           ["#{session.session_id}: #{session.error_message || "failed"}" | errors]}
+
+        {:ok, session} ->
+          {[session.session_id | ids], errors}
+
+        {:error, reason} ->
+          {ids, ["#{year}-#{month} #{day_from}-#{day_to}: #{inspect(reason)}" | errors]}
+      end
+    end)
+    |> then(fn {ids, errors} -> {Enum.reverse(ids), Enum.reverse(errors)} end)
+  end
+
+  defp finish(run, session_ids, []) do
+    ScrapeScheduleRun.finish(run, %{
+      status: :succeeded,
+      session_ids: session_ids,
+      finished_at: DateTime.utc_now()
+    })
+  end
+
+  defp finish(run, session_ids, errors) do
+    result =
+      ScrapeScheduleRun.finish(run, %{
+        status: :failed,
+        session_ids: session_ids,
+        error_message: Enum.join(errors, "; "),
+        finished_at: DateTime.utc_now()
+      })
+
+    with {:ok, failed} <- result do
+      Logger.error(
+        "[ScheduleRunner] Scheduled scrape '#{failed.schedule_name}' failed: " <>
+          failed.error_message
+      )
+
+      Phoenix.PubSub.broadcast(SertantaiLegal.PubSub, @topic, {:schedule_run_failed, failed})
+    end
+
+    result
+  end
+end
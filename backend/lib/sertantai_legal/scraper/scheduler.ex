@@ -0,0 +1,93 @@
+defmodule SertantaiLegal.Scraper.Scheduler do
+  @moduledoc """
+  Date arithmetic for recurring scrape schedules.
+
+  Pure functions, no database access:
+  - `next_run_at/2` - when a schedule is next due after a given time
+  - `date_range/2` - which days a run on a given date should scrape
+  - `month_chunks/2` - split a date range into single-month scrape sessions
+
+  ## Usage
+
+      iex> Scheduler.date_range(:previous_week, ~D[2026-03-11])
+      {~D[2026-03-02], ~D[2026-03-08]}
+
+      iex> Scheduler.month_chunks(~D[2026-02-23], ~D[2026-03-01])
+      [{2026, 2, 23, 28}, {2026, 3, 1, 1}]
+  """
+
+  @type frequency :: :daily | :weekly | :monthly
+  @type range :: :previous_day | :previous_week | :previous_month
+
+  @doc """
+  The first time strictly after `now` at which the schedule is due.
+
+  Accepts a `ScrapeSchedule` or any map with `:frequency`, `:hour` and
+  (for weekly/monthly) `:day_of_week` / `:day_of_month`.
+  """
+  @spec next_run_at(map(), DateTime.t()) :: DateTime.t()
+  def next_run_at(schedule, %DateTime{} = now) do
+    now = DateTime.shift_zone!(now, "Etc/UTC")
+    date = DateTime.to_date(now)
+
+    date
+    |> Stream.iterate(&Date.add(&1, 1))
+    |> Stream.filter(&due_on?(schedule, &1))
+    |> Stream.map(&at_hour(&1, schedule.hour || 0))
+    |> Enum.find(&(DateTime.compare(&1, now) == :gt))
+  end
+
+  @doc """
+  The inclusive `{from, to}` date range a run on `date` should scrape.
+
+  - `:previous_day` - the day before
+  - `:previous_week` - Monday to Sunday of the week before
+  - `:previous_month` - the whole calendar month before
+  """
+  @spec date_range(range(), Date.t()) :: {Date.t(), Date.t()}
+  def date_range(:previous_day, %Date{} = date) do
+    day = Date.add(date, -1)
+    {day, day}
+  end
+
+  def date_range(:previous_week, %Date{} = date) do
+    monday = Date.beginning_of_week(date, :monday)
+    {Date.add(monday, -7), Date.add(monday, -1)}
+  end
+
+  def date_range(:previous_month, %Date{} = date) do
+    last = date |> Date.beginning_of_month() |> Date.add(-1)
+    {Date.beginning_of_month(last), last}
+  end
+
+  @doc """
+  Split an inclusive date range into `{year, month, day_from, day_to}`
+  tuples, one per calendar month, matching `SessionManager.run/5` arguments.
+  """
+  @spec month_chunks(Date.t(), Date.t()) ::
+          list({integer(), integer(), integer(), integer()})
+  def month_chunks(%Date{} = from, %Date{} = to) do
+    if Date.compare(from, to) == :gt do
+      []
+    else
+      month_end = Date.end_of_month(from)
+      chunk_end = if Date.compare(month_end, to) == :lt, do: month_end, else: to
+
+      [
+        {from.year, from.month, from.day, chunk_end.day}
+        | month_chunks(Date.add(chunk_end, 1), to)
+      ]
+    end
+  end
+
+  defp due_on?(%{frequency: :daily}, _date), do: true
+
+  defp due_on?(%{frequency: :weekly, day_of_week: day}, date),
+    do: Date.day_of_week(date) == (day || 1)
+
+  defp due_on?(%{frequency: :monthly, day_of_month: day}, date), do: date.day == (day || 1)
+
+  defp at_hour(date, hour) do
+    DateTime.new!(date, Time.new!(hour, 0, 0), "Etc/UTC")
+  end
+end
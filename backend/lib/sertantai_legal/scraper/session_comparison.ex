@@ -0,0 +1,105 @@
+defmodule SertantaiLegal.Scraper.SessionComparison do
+  @moduledoc """
+  Compares the categorized records of two scrape sessions over the same
+  date range - typically a session and a later re-run of it, to see what
+  legislation.gov.uk published late or withdrew.
+
+  A law is:
+  - appeared: in the re-run but not the original
+  - disappeared: in the original but not the re-run
+  - moved: in both, but in a different group (1 = SI code match,
+    2 = term match, 3 = excluded)
+  """
+
+  alias SertantaiLegal.Scraper.Storage
+
+  @groups [:group1, :group2, :group3]
+
+  @type entry :: %{name: String.t(), title: String.t() | nil, group: atom()}
+  @type move :: %{name: String.t(), title: String.t() | nil, from: atom(), to: atom()}
+  @type t :: %{
+          appeared: [entry()],
+          disappeared: [entry()],
+          moved: [move()],
+          unchanged_count: non_neg_integer()
+        }
+
+  @doc """
+  Compare two sessions by session_id (`rerun_id` against `original_id`).
+  """
+  @spec compare_sessions(String.t(), String.t()) :: t()
+  def compare_sessions(original_id, rerun_id) do
+    compare(load_groups(original_id), load_groups(rerun_id))
+  end
+
+  @doc """
+  Compare two sessions' records, each given as a map of group => records.
+  Records need a `:name` and may carry a `:Title_EN`.
+  """
+  @spec compare(%{atom() => [map()]}, %{atom() => [map()]}) :: t()
+  def compare(original_groups, rerun_groups) do
+    original = index(original_groups)
+    rerun = index(rerun_groups)
+
+    appeared =
+      for {name, entry} <- rerun, not Map.has_key?(original, name), do: entry
+
+    disappeared =
+      for {name, entry} <- original, not Map.has_key?(rerun, name), do: entry
+
+    moved =
+      Enum.flat_map(rerun, fn {name, entry} ->
+        case Map.get(original, name) do
+          %{group: group} = before when group != entry.group ->
+            [%{name: name, title: entry.title || before.title, from: group, to: entry.group}]
+
+          _ ->
+            []
+        end
+      end)
+
+    %{
+      appeared: Enum.sort_by(appeared, & &1.name),
+      disappeared: Enum.sort_by(disappeared, & &1.name),
+      moved: Enum.sort_by(moved, & &1.name),
+      unchanged_count: map_size(rerun) - length(appeared) - length(moved)
+    }
+  end
+
+  @doc """
+  A session's records by group, from the DB (or the JSON group files for
+  older sessions). Groups that cannot be read are empty.
+  """
+  @spec load_groups(String.t()) :: %{atom() => [map()]}
+  def load_groups(session_id) do
+    Map.new(@groups, fn group ->
+      records =
+        case Storage.read_session_records(session_id, group) do
+          # Group 3 JSON is indexed by position
+          {:ok, records} when is_map(records) -> Map.values(records)
+          {:ok, records} -> records
+          {:error, _} -> []
+        end
+
+      {group, records}
+    end)
+  end
+
+  # name => entry; a law listed in more than one group keeps the first
+  defp index(groups) do
+    Enum.reduce(@groups, %{}, fn group, acc ->
+      groups
+      |> Map.get(group, [])
+      |> Enum.reduce(acc, fn record, acc ->
+        name = record[:name] || record["name"]
+        title = record[:Title_EN] || record["Title_EN"]
+
+        if is_nil(name) or Map.has_key?(acc, name) do
+          acc
+        else
+          Map.put(acc, name, %{name: name, title: title, group: group})
+        end
+      end)
+    end)
+  end
+end
@@ -170,6 +170,54 @@ defmodule SertantaiLegal.Scraper.SessionManager do
     end
   end
 
+  @doc """
+  Scrape a session's date range again as a new session.
+
+  The new session's id is the original's with a `-rerun` suffix (plus a
+  sequence number for later re-runs) and `rerun_of` links it to the
+  original, so the two can be compared with `SessionComparison`.
+  """
+  @spec rerun(ScrapeSession.t() | String.t()) :: {:ok, ScrapeSession.t()} | {:error, any()}
+  def rerun(%ScrapeSession{session_id: "reparse-" <> _}) do
+    {:error, "Reparse sessions have no date range to re-run"}
+  end
+
+  def rerun(%ScrapeSession{} = original) do
+    base = String.replace(original.session_id, ~r/-rerun(-\d+)?$/, "") <> "-rerun"
+
+    with {:ok, session} <-
+           ScrapeSession.create(%{
+             session_id: unique_session_id(base),
+             year: original.year,
+             month: original.month,
+             day_from: original.day_from,
+             day_to: original.day_to,
+             type_code: original.type_code,
+             rerun_of: original.session_id
+           }),
+         {:ok, session} <- scrape(session),
+         {:ok, session} <- categorize(session) do
+      print_session_summary(session)
+      {:ok, session}
+    end
+  end
+
+  def rerun(session_id) when is_binary(session_id) do
+    case get(session_id) do
+      {:ok, session} -> rerun(session)
+      error -> error
+    end
+  end
+
+  defp unique_session_id(base, seq \\ nil) do
+    candidate = if seq, do: "#{base}-#{seq}", else: base
+
+    case ScrapeSession.by_session_id(candidate) do
+      {:ok, _existing} -> unique_session_id(base, (seq || 1) + 1)
+      {:error, _} -> candidate
+    end
+  end
+
   @doc """
   Mark session as under review.
   """
@@ -190,12 +238,17 @@ defmodule SertantaiLegal.Scraper.SessionManager do
   Persist a specific group to the uk_lrt table.
 
   Groups: :group1, :group2, :group3
+
+  ## Options
+  - actor: JWT user id recorded in the change log of updated records
   """
-  @spec persist_group(ScrapeSession.t() | String.t(), atom()) ::
+  @spec persist_group(ScrapeSession.t() | String.t(), atom(), keyword()) ::
           {:ok, ScrapeSession.t()} | {:error, any()}
-  def persist_group(%ScrapeSession{} = session, group)
+  def persist_group(session, group, opts \\ [])
+
+  def persist_group(%ScrapeSession{} = session, group, opts)
       when group in [:group1, :group2, :group3] do
-    case Persister.persist_group(session.session_id, group) do
+    case Persister.persist_group(session.session_id, group, opts) do
       {:ok, count} ->
         new_count = (session.persisted_count || 0) + count
         ScrapeSession.update(session, %{persisted_count: new_count})
@@ -205,9 +258,9 @@ defmodule SertantaiLegal.Scraper.SessionManager do
     end
   end
 
-  def persist_group(session_id, group) when is_binary(session_id) do
+  def persist_group(session_id, group, opts) when is_binary(session_id) do
     case get(session_id) do
-      {:ok, session} -> persist_group(session, group)
+      {:ok, session} -> persist_group(session, group, opts)
       error -> error
     end
   end
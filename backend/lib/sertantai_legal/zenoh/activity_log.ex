@@ -6,12 +6,17 @@ defmodule SertantaiLegal.Zenoh.ActivityLog do
   - Counters: increment-only metrics (received, updated, failed, etc.)
   - Activity log: recent events with timestamps (capped at @max_entries per service)
   - Status tracking: current state of each service
+  - Live stream: every recorded event is broadcast on the "zenoh_activity"
+    PubSub topic as `{:zenoh_activity, entry}`, with its service and key
+    expression, for the admin activity stream
   """
 
   use GenServer
 
   @table :zenoh_activity_log
   @max_entries 100
+  @topic "zenoh_activity"
+  @services [:taxa_subscriber, :data_server, :change_notifier]
 
   # --- Client API ---
 
@@ -49,6 +54,27 @@ defmodule SertantaiLegal.Zenoh.ActivityLog do
     GenServer.call(__MODULE__, {:get_recent, service, limit})
   end
 
+  @doc "Get recent activity across all services, oldest first, as streamed entries."
+  @spec get_all_recent(pos_integer()) :: list(map())
+  def get_all_recent(limit \\ 200) do
+    GenServer.call(__MODULE__, {:get_all_recent, limit})
+  end
+
+  @doc "Subscribe the calling process to live activity entries."
+  @spec subscribe() :: :ok | {:error, term()}
+  def subscribe do
+    Phoenix.PubSub.subscribe(SertantaiLegal.PubSub, @topic)
+  end
+
+  @doc """
+  The key expression an event concerns, from its metadata: the queried or
+  sampled `key_expr`, or the publisher/subscriber `key`.
+  """
+  @spec key_expr(map()) :: String.t() | nil
+  def key_expr(metadata) do
+    metadata[:key_expr] || metadata["key_expr"] || metadata[:key] || metadata["key"]
+  end
+
   @doc "Get stats for all tracked services."
   @spec get_all_stats() :: map()
   def get_all_stats do
@@ -79,6 +105,13 @@ defmodule SertantaiLegal.Zenoh.ActivityLog do
     :ets.insert(@table, {key, entry})
 
     trim_log(service)
+
+    Phoenix.PubSub.broadcast(
+      SertantaiLegal.PubSub,
+      @topic,
+      {:zenoh_activity, stream_entry(service, entry)}
+    )
+
     {:noreply, state}
   end
 
@@ -132,11 +165,20 @@ defmodule SertantaiLegal.Zenoh.ActivityLog do
     {:reply, entries, state}
   end
 
-  def handle_call(:get_all_stats, _from, state) do
-    services = [:taxa_subscriber, :data_server, :change_notifier]
+  def handle_call({:get_all_recent, limit}, _from, state) do
+    entries =
+      :ets.match(@table, {{:log, :"$1", :"$2"}, :"$3"})
+      |> Enum.sort_by(fn [_service, ts, _] -> ts end, :desc)
+      |> Enum.take(limit)
+      |> Enum.reverse()
+      |> Enum.map(fn [service, _ts, entry] -> stream_entry(service, entry) end)
 
+    {:reply, entries, state}
+  end
+
+  def handle_call(:get_all_stats, _from, state) do
     stats =
-      Enum.into(services, %{}, fn service ->
+      Enum.into(@services, %{}, fn service ->
         counters =
           :ets.match(@table, {{:counter, service, :"$1"}, :"$2"})
           |> Enum.into(%{}, fn [name, value] -> {name, value} end)
@@ -155,6 +197,12 @@ defmodule SertantaiLegal.Zenoh.ActivityLog do
 
   # --- Private ---
 
+  defp stream_entry(service, entry) do
+    entry
+    |> Map.put(:service, service)
+    |> Map.put(:key_expr, key_expr(entry.metadata))
+  end
+
   defp trim_log(service) do
     entries =
       :ets.match(@table, {{:log, service, :"$1"}, :_})
@@ -108,12 +108,20 @@ defmodule SertantaiLegal.Zenoh.ChangeNotifier do
     case Zenohex.Publisher.put(state.publisher_id, payload) do
       :ok ->
         ActivityLog.increment(:change_notifier, :published)
-        ActivityLog.record(:change_notifier, :published, %{table: table, action: action})
+        ActivityLog.record(:change_notifier, :published, %{
+          table: table,
+          action: action,
+          key_expr: state.key
+        })
         Logger.debug("[Zenoh.ChangeNotifier] Published: #{table}/#{action}")
 
       {:error, reason} ->
         ActivityLog.increment(:change_notifier, :errors)
-        ActivityLog.record(:change_notifier, :error, %{table: table, reason: inspect(reason)})
+        ActivityLog.record(:change_notifier, :error, %{
+          table: table,
+          key_expr: state.key,
+          reason: inspect(reason)
+        })
         Logger.warning("[Zenoh.ChangeNotifier] Publish failed: #{inspect(reason)}")
     end
 
@@ -24,6 +24,7 @@ defmodule SertantaiLegal.Zenoh.DataServer do
 
   @poll_interval :timer.seconds(2)
   @max_poll_attempts 30
+  @query_timeout 5_000
 
   # --- Client API ---
 
@@ -39,6 +40,43 @@ defmodule SertantaiLegal.Zenoh.DataServer do
     :exit, _ -> %{state: :stopped, queryable_count: 0, key_expressions: []}
   end
 
+  @doc """
+  Whether a key expression names one of this server's queryables for a
+  concrete law (no wildcards), e.g. `fractalaw/@dev/data/legislation/lat/UK_uksi_2024_1`.
+  """
+  @spec queryable_key?(String.t()) :: boolean()
+  def queryable_key?(key_expr) when is_binary(key_expr) do
+    prefix = key_prefix()
+
+    case key_expr do
+      ^prefix <> "/lrt" -> true
+      ^prefix <> "/lrt/" <> law_name -> law_name?(law_name)
+      ^prefix <> "/lat/" <> law_name -> law_name?(law_name)
+      ^prefix <> "/amendments/" <> law_name -> law_name?(law_name)
+      _ -> false
+    end
+  end
+
+  def queryable_key?(_), do: false
+
+  @doc """
+  Queries one of this server's key expressions over the mesh, as any peer
+  would, asking for JSON. Used by the admin query console.
+
+  Returns the replies with JSON payloads decoded.
+  """
+  @spec query(String.t(), timeout()) :: {:ok, [map()]} | {:error, term()}
+  def query(key_expr, timeout \\ @query_timeout) do
+    with true <- queryable_key?(key_expr) || {:error, :invalid_key_expr},
+         {:ok, session_id} <- SertantaiLegal.Zenoh.Session.session_id(),
+         {:ok, replies} <-
+           Zenohex.Session.get(session_id, key_expr <> "?format=json", timeout) do
+      {:ok, Enum.map(replies, &decode_reply/1)}
+    end
+  catch
+    :exit, _ -> {:error, :not_ready}
+  end
+
   # --- Server Callbacks ---
 
   @impl true
@@ -93,11 +131,31 @@ defmodule SertantaiLegal.Zenoh.DataServer do
     {:reply, status, state}
   end
 
+  # --- Query Console ---
+
+  defp law_name?(law_name) do
+    law_name != "" and not String.contains?(law_name, ["/", "*", "?", "$", "#"])
+  end
+
+  defp decode_reply(%Zenohex.Sample{key_expr: key_expr, payload: payload}) do
+    %{key_expr: key_expr, ok: true, payload: decode_payload(payload)}
+  end
+
+  defp decode_reply(%Zenohex.Query.ReplyError{payload: payload}) do
+    %{key_expr: nil, ok: false, payload: decode_payload(payload)}
+  end
+
+  defp decode_payload(payload) do
+    case Jason.decode(payload) do
+      {:ok, decoded} -> decoded
+      {:error, _} -> payload
+    end
+  end
+
   # --- Query Handling ---
 
   defp handle_query(%Zenohex.Query{key_expr: key_expr, parameters: params, zenoh_query: zq}) do
-    tenant = tenant_id()
-    prefix = "fractalaw/@#{tenant}/data/legislation"
+    prefix = key_prefix()
     format = parse_format(params)
 
     {duration_us, result} =
@@ -412,8 +470,7 @@ defmodule SertantaiLegal.Zenoh.DataServer do
   # --- Queryable Declaration ---
 
   defp declare_queryables(session_id) do
-    tenant = tenant_id()
-    prefix = "fractalaw/@#{tenant}/data/legislation"
+    prefix = key_prefix()
 
     keys = [
       "#{prefix}/lrt",
@@ -432,6 +489,8 @@ defmodule SertantaiLegal.Zenoh.DataServer do
     {queryable_ids, keys}
   end
 
+  defp key_prefix, do: "fractalaw/@#{tenant_id()}/data/legislation"
+
   defp tenant_id do
     Application.get_env(:sertantai_legal, :zenoh, [])
     |> Keyword.get(:tenant, "dev")
@@ -102,13 +102,17 @@ defmodule SertantaiLegal.Zenoh.TaxaSubscriber do
     case decode_and_upsert(law_name, sample.payload) do
       :ok ->
         ActivityLog.increment(:taxa_subscriber, :updated)
-        ActivityLog.record(:taxa_subscriber, :updated, %{law_name: law_name})
+        ActivityLog.record(:taxa_subscriber, :updated, %{
+          law_name: law_name,
+          key_expr: sample.key_expr
+        })
 
       {:error, reason} ->
         ActivityLog.increment(:taxa_subscriber, :failed)
 
         ActivityLog.record(:taxa_subscriber, :error, %{
           law_name: law_name,
+          key_expr: sample.key_expr,
           reason: inspect(reason)
         })
 
@@ -9,10 +9,15 @@ defmodule SertantaiLegalWeb.CascadeController do
   use SertantaiLegalWeb, :controller
 
   alias SertantaiLegal.Scraper.CascadeAffectedLaw
+  alias SertantaiLegal.Scraper.EnactingLinks
   alias SertantaiLegal.Scraper.SessionManager
   alias SertantaiLegal.Scraper.StagedParser
   alias SertantaiLegal.Scraper.LawParser
   alias SertantaiLegal.Legal.UkLrt
+  alias SertantaiLegal.Legal.FieldLocks
+
+  # Hand-curated enacting links are never rewritten by cascade updates
+  @enacting_fields ~w(enacting is_enacting)
 
   require Ash.Query
 
@@ -245,6 +250,63 @@ defmodule SertantaiLegalWeb.CascadeController do
     json(conn, %{sessions: session_stats})
   end
 
+  @doc """
+  GET /api/cascade/graph
+
+  All cascade entries of a session, whatever their status, for drawing the
+  propagation graph (source laws -> affected laws -> enacting parents).
+
+  Query params:
+  - session_id: Session to graph (required)
+
+  Returns:
+  - entries: id, affected_law, update_type, status, source_laws, layer, title_en, in_db
+  - summary: Entry counts by status
+  """
+  def graph(conn, %{"session_id" => session_id}) when is_binary(session_id) do
+    entries = CascadeAffectedLaw.by_session!(session_id)
+
+    names =
+      entries
+      |> Enum.flat_map(&[&1.affected_law | &1.source_laws])
+      |> Enum.uniq()
+
+    laws = lookup_existing_laws(names)
+
+    json(conn, %{
+      session_id: session_id,
+      entries:
+        Enum.map(entries, fn entry ->
+          %{
+            id: entry.id,
+            affected_law: entry.affected_law,
+            update_type: entry.update_type,
+            status: entry.status,
+            source_laws: entry.source_laws,
+            layer: entry.layer,
+            title_en: laws[entry.affected_law][:title_en],
+            in_db: Map.has_key?(laws, entry.affected_law)
+          }
+        end),
+      source_titles:
+        laws
+        |> Enum.map(fn {name, law} -> {name, law.title_en} end)
+        |> Enum.into(%{}),
+      summary: %{
+        total: length(entries),
+        pending: Enum.count(entries, &(&1.status == :pending)),
+        processed: Enum.count(entries, &(&1.status == :processed)),
+        deferred: Enum.count(entries, &(&1.status == :deferred))
+      }
+    })
+  end
+
+  def graph(conn, _params) do
+    conn
+    |> put_status(:bad_request)
+    |> json(%{error: "Missing required parameter: session_id"})
+  end
+
   @doc """
   POST /api/cascade/reparse
 
@@ -268,7 +330,7 @@ defmodule SertantaiLegalWeb.CascadeController do
     # Process each entry
     results =
       Enum.map(entries, fn entry ->
-        case reparse_law(entry) do
+        case reparse_law(entry, conn.assigns[:current_user_id]) do
           {:ok, _} ->
             # Mark as processed
             CascadeAffectedLaw.mark_processed!(entry)
@@ -314,8 +376,14 @@ defmodule SertantaiLegalWeb.CascadeController do
 
   Body:
   - ids: List of cascade entry IDs to process (required)
+  - dry_run: When true, report each parent's before/after enacting array
+    (status "preview") without writing anything
+  - links: Map of parent law name => source laws to add, to apply only the
+    links kept after a preview (optional, defaults to every source law)
   """
-  def update_enacting(conn, %{"ids" => ids}) when is_list(ids) do
+  def update_enacting(conn, %{"ids" => ids} = params) when is_list(ids) do
+    dry_run = params["dry_run"] in [true, "true"]
+
     # Get the entries
     entries =
       ids
@@ -330,7 +398,20 @@ defmodule SertantaiLegalWeb.CascadeController do
     # Process each entry - do NOT mark as processed, let user remove manually after reviewing
     results =
       Enum.map(entries, fn entry ->
-        case update_enacting_for_entry(entry) do
+        only = EnactingLinks.only_for(params["links"], entry.affected_law)
+
+        case update_enacting_for_entry(entry, only, dry_run) do
+          {:ok, :preview, plan} ->
+            %{
+              id: entry.id,
+              affected_law: entry.affected_law,
+              status: "preview",
+              message: "Would add #{length(plan.added)} enacting link(s)",
+              current_enacting: plan.before,
+              proposed_enacting: plan.after,
+              added: plan.added
+            }
+
           {:ok, :updated, count, updated_enacting} ->
             %{
               id: entry.id,
@@ -357,6 +438,15 @@ defmodule SertantaiLegalWeb.CascadeController do
               message: "Parent law not found in database"
             }
 
+          {:ok, :locked, current_enacting} ->
+            %{
+              id: entry.id,
+              affected_law: entry.affected_law,
+              status: "skipped",
+              message: "Enacting links are locked on the parent law",
+              current_enacting: current_enacting
+            }
+
           {:error, reason} ->
             %{
               id: entry.id,
@@ -372,6 +462,7 @@ defmodule SertantaiLegalWeb.CascadeController do
     error_count = Enum.count(results, &(&1.status == "error"))
 
     json(conn, %{
+      dry_run: dry_run,
       total: length(results),
       success: success_count,
       unchanged: unchanged_count,
@@ -646,7 +737,7 @@ defmodule SertantaiLegalWeb.CascadeController do
     end
   end
 
-  defp reparse_law(entry) do
+  defp reparse_law(entry, actor) do
     # Build minimal record from law name
     record = build_record_from_name(entry.affected_law)
 
@@ -658,39 +749,26 @@ defmodule SertantaiLegalWeb.CascadeController do
         # Parse using StagedParser (always returns {:ok, result})
         {:ok, result} = StagedParser.parse(record)
         # Persist the result
-        LawParser.parse_record(result.record, persist: true)
+        LawParser.parse_record(result.record, persist: true, source: "cascade", actor: actor)
     end
   end
 
-  defp update_enacting_for_entry(entry) do
+  defp update_enacting_for_entry(entry, only, dry_run) do
     parent_name = entry.affected_law
-    source_laws = entry.source_laws || []
 
     # Look up parent law
     case UkLrt
          |> Ash.Query.filter(name == ^parent_name)
-         |> Ash.Query.select([:id, :name, :enacting, :is_enacting])
+         |> Ash.Query.select([:id, :name, :enacting, :is_enacting, :locked_fields])
          |> Ash.read_one() do
       {:ok, nil} ->
         {:ok, :not_found}
 
       {:ok, parent} ->
-        current_enacting = parent.enacting || []
-        new_laws = source_laws -- current_enacting
-
-        if Enum.empty?(new_laws) do
-          {:ok, :unchanged, current_enacting}
+        if FieldLocks.any_locked?(parent, @enacting_fields) do
+          {:ok, :locked, parent.enacting || []}
         else
-          updated_enacting =
-            (current_enacting ++ new_laws)
-            |> sort_enacting_by_year_number_desc()
-
-          case Ash.update(parent, %{enacting: updated_enacting, is_enacting: true},
-                 action: :update_enacting
-               ) do
-            {:ok, _} -> {:ok, :updated, length(new_laws), updated_enacting}
-            error -> error
-          end
+          apply_enacting_plan(parent, entry, only, dry_run)
         end
 
       error ->
@@ -698,29 +776,23 @@ defmodule SertantaiLegalWeb.CascadeController do
     end
   end
 
-  # Sort enacting law names by year (desc) then number (desc)
-  # e.g., UK_uksi_2024_16, UK_uksi_2024_3, UK_uksi_2022_10
-  defp sort_enacting_by_year_number_desc(names) do
-    Enum.sort_by(names, fn name ->
-      case String.split(name, "_") do
-        [_prefix, _type, year_str, number_str] ->
-          year = String.to_integer(year_str)
-          number = parse_number(number_str)
-          # Negate for descending order
-          {-year, -number}
-
-        _ ->
-          # Unknown format, sort to end
-          {0, 0}
-      end
-    end)
-  end
+  defp apply_enacting_plan(parent, entry, only, dry_run) do
+    plan = EnactingLinks.plan(parent.enacting, entry.source_laws || [], only: only, sort: true)
 
-  # Parse number, handling non-numeric suffixes like "123a"
-  defp parse_number(str) do
-    case Integer.parse(str) do
-      {num, _rest} -> num
-      :error -> 0
+    cond do
+      plan.added == [] ->
+        {:ok, :unchanged, plan.before}
+
+      dry_run ->
+        {:ok, :preview, plan}
+
+      true ->
+        case Ash.update(parent, %{enacting: plan.after, is_enacting: true},
+               action: :update_enacting
+             ) do
+          {:ok, _} -> {:ok, :updated, length(plan.added), plan.after}
+          error -> error
+        end
     end
   end
 
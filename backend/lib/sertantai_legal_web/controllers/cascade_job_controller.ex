@@ -0,0 +1,184 @@
+defmodule SertantaiLegalWeb.CascadeJobController do
+  @moduledoc """
+  API controller for cascade auto-runs.
+
+  Provides endpoints to:
+  - Start a job that processes a session's cascade to a fixed point
+  - List a session's jobs and poll a job's progress
+  - Cancel a running job
+
+  Jobs are run in the background by `SertantaiLegal.Scraper.CascadeRunner`.
+  """
+
+  use SertantaiLegalWeb, :controller
+
+  alias SertantaiLegal.Scraper.CascadeJob
+  alias SertantaiLegal.Scraper.CascadeRunner
+
+  @doc """
+  POST /api/cascade/jobs
+
+  Start a cascade job.
+
+  ## Body Parameters
+  - session_id: string (required)
+  - max_layer: 1-10, deepest layer to process (default 3)
+  """
+  def create(conn, %{"session_id" => session_id} = params) when is_binary(session_id) do
+    with {:ok, max_layer} <- parse_max_layer(params["max_layer"]),
+         {:ok, job} <-
+           CascadeRunner.start(session_id,
+             max_layer: max_layer,
+             actor: conn.assigns[:current_user_id]
+           ) do
+      conn
+      |> put_status(:accepted)
+      |> json(job_to_json(job))
+    else
+      {:error, :already_running} ->
+        conn
+        |> put_status(:conflict)
+        |> json(%{error: "A cascade job is already running for this session"})
+
+      {:error, reason} ->
+        conn
+        |> put_status(:unprocessable_entity)
+        |> json(%{error: format_error(reason)})
+    end
+  end
+
+  def create(conn, _params) do
+    conn
+    |> put_status(:bad_request)
+    |> json(%{error: "Missing required parameter: session_id"})
+  end
+
+  @doc """
+  GET /api/cascade/jobs?session_id=...
+
+  A session's jobs, newest first.
+  """
+  def index(conn, %{"session_id" => session_id}) when is_binary(session_id) do
+    case CascadeJob.by_session(session_id) do
+      {:ok, jobs} ->
+        json(conn, %{jobs: Enum.map(jobs, &job_to_json/1), count: length(jobs)})
+
+      {:error, reason} ->
+        conn
+        |> put_status(:internal_server_error)
+        |> json(%{error: format_error(reason)})
+    end
+  end
+
+  def index(conn, _params) do
+    conn
+    |> put_status(:bad_request)
+    |> json(%{error: "Missing required parameter: session_id"})
+  end
+
+  @doc """
+  GET /api/cascade/jobs/:id
+
+  A job's status and progress.
+  """
+  def show(conn, %{"id" => id}) do
+    with_job(conn, id, fn job -> json(conn, job_to_json(job)) end)
+  end
+
+  @doc """
+  POST /api/cascade/jobs/:id/cancel
+
+  Ask a running job to stop. The job finishes the law it is on, then stops
+  with status "cancelled".
+  """
+  def cancel(conn, %{"id" => id}) do
+    with_job(conn, id, fn
+      %{status: :running} = job ->
+        case CascadeJob.request_cancel(job) do
+          {:ok, job} ->
+            json(conn, job_to_json(job))
+
+          {:error, reason} ->
+            conn
+            |> put_status(:unprocessable_entity)
+            |> json(%{error: format_error(reason)})
+        end
+
+      job ->
+        conn
+        |> put_status(:unprocessable_entity)
+        |> json(%{error: "Job is not running (status: #{job.status})"})
+    end)
+  end
+
+  # Private helpers
+
+  defp with_job(conn, id, fun) do
+    case CascadeJob.by_id(id) do
+      {:ok, job} ->
+        fun.(job)
+
+      {:error, reason} ->
+        if not_found_error?(reason) do
+          conn
+          |> put_status(:not_found)
+          |> json(%{error: "Job not found"})
+        else
+          conn
+          |> put_status(:internal_server_error)
+          |> json(%{error: format_error(reason)})
+        end
+    end
+  end
+
+  defp parse_max_layer(nil), do: {:ok, 3}
+  defp parse_max_layer(value) when is_integer(value) and value in 1..10, do: {:ok, value}
+
+  defp parse_max_layer(value) when is_binary(value) do
+    case Integer.parse(value) do
+      {int, ""} -> parse_max_layer(int)
+      _ -> {:error, "Invalid max_layer: #{inspect(value)}"}
+    end
+  end
+
+  defp parse_max_layer(value), do: {:error, "Invalid max_layer: #{inspect(value)}"}
+
+  defp job_to_json(job) do
+    %{
+      id: job.id,
+      session_id: job.session_id,
+      status: job.status,
+      stop_reason: job.stop_reason,
+      start_layer: job.start_layer,
+      current_layer: job.current_layer,
+      max_layer: job.max_layer,
+      current_law: job.current_law,
+      processed_count: job.processed_count,
+      error_count: job.error_count,
+      skipped_count: job.skipped_count,
+      new_entries_count: job.new_entries_count,
+      cycles: job.cycles || [],
+      errors: job.errors || [],
+      started_by: job.started_by,
+      error_message: job.error_message,
+      started_at: job.started_at,
+      cancel_requested_at: job.cancel_requested_at,
+      finished_at: job.finished_at
+    }
+  end
+
+  defp format_error(%{errors: errors}) when is_list(errors) do
+    Enum.map_join(errors, ", ", &inspect/1)
+  end
+
+  defp format_error(reason) when is_binary(reason), do: reason
+  defp format_error(reason), do: inspect(reason)
+
+  defp not_found_error?(%Ash.Error.Query.NotFound{}), do: true
+
+  defp not_found_error?(%Ash.Error.Invalid{errors: errors}) do
+    Enum.any?(errors, &not_found_error?/1)
+  end
+
+  defp not_found_error?(_), do: false
+end
@@ -0,0 +1,192 @@
+defmodule SertantaiLegalWeb.RegisterSnapshotController do
+  @moduledoc """
+  API controller for point-in-time legal register snapshots.
+
+  Provides endpoints to:
+  - List an organisation's snapshots (without their records)
+  - Get a snapshot with its frozen law set
+  - Save a new snapshot
+  - Delete a snapshot
+
+  All endpoints are scoped to `conn.assigns.organization_id` from the JWT;
+  tokens without an organisation are refused with 403, and snapshots
+  belonging to other organisations are reported as not found.
+  Comparing snapshots happens client-side.
+  """
+
+  use SertantaiLegalWeb, :controller
+
+  alias SertantaiLegal.Legal.RegisterSnapshot
+
+  plug(:require_organization)
+
+  @doc """
+  GET /api/register-snapshots
+
+  List snapshots for the caller's organisation, newest first.
+  Records are omitted; fetch a single snapshot to get them.
+  """
+  def index(conn, _params) do
+    case RegisterSnapshot.by_organization(conn.assigns.organization_id) do
+      {:ok, snapshots} ->
+        json(conn, %{
+          snapshots: Enum.map(snapshots, &summary_to_json/1),
+          count: length(snapshots)
+        })
+
+      {:error, reason} ->
+        conn
+        |> put_status(:internal_server_error)
+        |> json(%{error: format_error(reason)})
+    end
+  end
+
+  @doc """
+  GET /api/register-snapshots/:id
+
+  Get a snapshot including its records.
+  """
+  def show(conn, %{"id" => id}) do
+    case find_snapshot(id, conn.assigns.organization_id) do
+      {:ok, snapshot} ->
+        json(conn, snapshot_to_json(snapshot))
+
+      {:error, reason} ->
+        if not_found_error?(reason) do
+          conn
+          |> put_status(:not_found)
+          |> json(%{error: "Snapshot not found"})
+        else
+          conn
+          |> put_status(:internal_server_error)
+          |> json(%{error: format_error(reason)})
+        end
+    end
+  end
+
+  @doc """
+  POST /api/register-snapshots
+
+  Save a snapshot.
+
+  ## Body Parameters
+  - name: Snapshot name (required)
+  - description: Optional notes
+  - where_clause: Filter the law set was taken with
+  - taken_at: ISO 8601 timestamp (defaults to now)
+  - records: List of record maps (key fields only)
+  """
+  def create(conn, params) do
+    records = List.wrap(params["records"])
+
+    attrs = %{
+      organization_id: conn.assigns.organization_id,
+      name: params["name"],
+      description: params["description"],
+      where_clause: params["where_clause"] || "",
+      taken_at: params["taken_at"] || DateTime.utc_now(),
+      record_count: length(records),
+      records: records,
+      created_by: conn.assigns[:current_user_id]
+    }
+
+    case RegisterSnapshot.create(attrs) do
+      {:ok, snapshot} ->
+        conn
+        |> put_status(:created)
+        |> json(snapshot_to_json(snapshot))
+
+      {:error, reason} ->
+        conn
+        |> put_status(:unprocessable_entity)
+        |> json(%{error: format_error(reason)})
+    end
+  end
+
+  @doc """
+  DELETE /api/register-snapshots/:id
+
+  Delete a snapshot.
+  """
+  def delete(conn, %{"id" => id}) do
+    case find_snapshot(id, conn.assigns.organization_id) do
+      {:ok, snapshot} ->
+        case RegisterSnapshot.destroy(snapshot) do
+          :ok ->
+            json(conn, %{message: "Snapshot deleted", id: id})
+
+          {:error, reason} ->
+            conn
+            |> put_status(:unprocessable_entity)
+            |> json(%{error: format_error(reason)})
+        end
+
+      {:error, reason} ->
+        if not_found_error?(reason) do
+          conn
+          |> put_status(:not_found)
+          |> json(%{error: "Snapshot not found"})
+        else
+          conn
+          |> put_status(:internal_server_error)
+          |> json(%{error: format_error(reason)})
+        end
+    end
+  end
+
+  # Private helpers
+
+  defp require_organization(conn, _opts) do
+    if is_binary(conn.assigns[:organization_id]) and conn.assigns.organization_id != "" do
+      conn
+    else
+      conn
+      |> put_status(:forbidden)
+      |> json(%{error: "Token has no organisation"})
+      |> halt()
+    end
+  end
+
+  # Malformed ids can't match a snapshot; report them as not found rather
+  # than as an invalid-argument error
+  defp find_snapshot(id, organization_id) do
+    case Ecto.UUID.cast(id) do
+      {:ok, uuid} -> RegisterSnapshot.by_id_for_organization(uuid, organization_id)
+      :error -> {:error, :not_found}
+    end
+  end
+
+  defp summary_to_json(snapshot) do
+    %{
+      id: snapshot.id,
+      name: snapshot.name,
+      description: snapshot.description,
+      where_clause: snapshot.where_clause,
+      taken_at: snapshot.taken_at,
+      record_count: snapshot.record_count,
+      created_by: snapshot.created_by
+    }
+  end
+
+  defp snapshot_to_json(snapshot) do
+    snapshot
+    |> summary_to_json()
+    |> Map.put(:records, snapshot.records || [])
+  end
+
+  defp format_error(%{errors: errors}) when is_list(errors) do
+    Enum.map_join(errors, ", ", &inspect/1)
+  end
+
+  defp format_error(reason) when is_binary(reason), do: reason
+  defp format_error(reason), do: inspect(reason)
+
+  defp not_found_error?(:not_found), do: true
+  defp not_found_error?(%Ash.Error.Query.NotFound{}), do: true
+
+  defp not_found_error?(%Ash.Error.Invalid{errors: errors}) do
+    Enum.any?(errors, &not_found_error?/1)
+  end
+
+  defp not_found_error?(_), do: false
+end
@@ -20,6 +20,9 @@ defmodule SertantaiLegalWeb.ScrapeController do
   alias SertantaiLegal.Scraper.Models
   alias SertantaiLegal.Scraper.TypeClass
   alias SertantaiLegal.Scraper.ParsedLaw
+  alias SertantaiLegal.Scraper.EnactingLinks
+  alias SertantaiLegal.Scraper.SessionComparison
+  alias SertantaiLegal.Legal.FieldLocks
 
   require Ash.Query
 
@@ -225,7 +228,8 @@ defmodule SertantaiLegalWeb.ScrapeController do
   def persist(conn, %{"id" => session_id, "group" => group_str}) do
     with {:ok, group} <- parse_group(group_str),
          {:ok, session} <- SessionManager.get(session_id),
-         {:ok, updated_session} <- SessionManager.persist_group(session, group) do
+         {:ok, updated_session} <-
+           SessionManager.persist_group(session, group, actor: conn.assigns[:current_user_id]) do
       json(conn, %{
         message: "Group #{group_str} persisted successfully",
         session: session_to_json(updated_session)
@@ -264,7 +268,12 @@ defmodule SertantaiLegalWeb.ScrapeController do
       # Parse with auto_confirm since this is API-driven
       # Optionally filter by selection
       selected_only = params["selected_only"] == true || params["selected_only"] == "true"
-      opts = [auto_confirm: true, selected_only: selected_only]
+      opts = [
+        auto_confirm: true,
+        selected_only: selected_only,
+        source: "bulk",
+        actor: conn.assigns[:current_user_id]
+      ]
 
       case LawParser.parse_group(session_id, group, opts) do
         {:ok, results} ->
@@ -780,7 +789,10 @@ defmodule SertantaiLegalWeb.ScrapeController do
             |> Map.merge(atomize_keys(overrides))
 
           # Persist directly - record already has full metadata from parse_one
-          case LawParser.persist_direct(record_to_persist) do
+          case LawParser.persist_direct(record_to_persist,
+                 source: "parse_confirm",
+                 actor: conn.assigns[:current_user_id]
+               ) do
             {:ok, persisted} ->
               # Mark record as reviewed in session (with parsed data for table display)
               mark_record_reviewed(session_id, name, record_to_persist)
@@ -954,8 +966,88 @@ defmodule SertantaiLegalWeb.ScrapeController do
     end
   end
 
+  @doc """
+  POST /api/sessions/:id/rerun
+
+  Scrape the session's date range again as a new session linked to it, and
+  compare the two. Returns the new session and the comparison.
+  """
+  def rerun(conn, %{"id" => session_id}) do
+    with {:ok, original} <- SessionManager.get(session_id),
+         {:ok, session} <- SessionManager.rerun(original) do
+      comparison = SessionComparison.compare_sessions(original.session_id, session.session_id)
+
+      conn
+      |> put_status(:created)
+      |> json(%{
+        session: session_to_json(session),
+        comparison: comparison_to_json(session.session_id, original.session_id, comparison)
+      })
+    else
+      {:error, reason} ->
+        if not_found_error?(reason) do
+          conn
+          |> put_status(:not_found)
+          |> json(%{error: "Session not found"})
+        else
+          conn
+          |> put_status(:unprocessable_entity)
+          |> json(%{error: format_error(reason)})
+        end
+    end
+  end
+
+  @doc """
+  GET /api/sessions/:id/compare
+
+  Compare a session's records with another session over the same range:
+  which laws appeared, disappeared or moved between groups.
+
+  ## Query Parameters
+  - with: session_id to compare against (optional, defaults to the session
+    this one is a re-run of)
+  """
+  def compare(conn, %{"id" => session_id} = params) do
+    case SessionManager.get(session_id) do
+      {:ok, session} ->
+        case params["with"] || session.rerun_of do
+          nil ->
+            conn
+            |> put_status(:bad_request)
+            |> json(%{error: "Session is not a re-run; pass ?with= to compare"})
+
+          other_id ->
+            case SessionManager.get(other_id) do
+              {:ok, _other} ->
+                comparison = SessionComparison.compare_sessions(other_id, session_id)
+                json(conn, comparison_to_json(session_id, other_id, comparison))
+
+              {:error, _reason} ->
+                conn
+                |> put_status(:not_found)
+                |> json(%{error: "Session to compare with not found"})
+            end
+        end
+
+      {:error, reason} ->
+        if not_found_error?(reason) do
+          conn
+          |> put_status(:not_found)
+          |> json(%{error: "Session not found"})
+        else
+          conn
+          |> put_status(:internal_server_error)
+          |> json(%{error: format_error(reason)})
+        end
+    end
+  end
+
   # Private helpers
 
+  defp comparison_to_json(session_id, compared_with, comparison) do
+    Map.merge(comparison, %{session_id: session_id, compared_with: compared_with})
+  end
+
   defp get_integer_param(params, field) do
     case params[field] do
       nil ->
@@ -1029,6 +1121,7 @@ defmodule SertantaiLegalWeb.ScrapeController do
       group2_count: session.group2_count,
       group3_count: session.group3_count,
       persisted_count: session.persisted_count,
+      rerun_of: session.rerun_of,
       inserted_at: session.inserted_at,
       updated_at: session.updated_at
     }
@@ -1453,6 +1546,7 @@ defmodule SertantaiLegalWeb.ScrapeController do
           id: existing.id,
           updated_at: existing.updated_at,
           family: existing.family,
+          locked_fields: existing.locked_fields || [],
           record: existing_record_to_map(existing, scraped_keys)
         }
 
@@ -1746,7 +1840,11 @@ defmodule SertantaiLegalWeb.ScrapeController do
               {:ok, result} = StagedParser.parse(record)
 
               # Persist the updated record
-              case LawParser.parse_record(result.record, persist: true) do
+              case LawParser.parse_record(result.record,
+                     persist: true,
+                     source: "cascade",
+                     actor: conn.assigns[:current_user_id]
+                   ) do
                 {:ok, _persisted} ->
                   # Mark cascade entry as processed
                   Storage.mark_cascade_processed(session_id, name)
@@ -1796,6 +1894,10 @@ defmodule SertantaiLegalWeb.ScrapeController do
 
   ## Parameters
   - names: List of parent law names to update (optional, defaults to all enacting_parents)
+  - dry_run: When true, report each parent's before/after enacting array
+    (status "preview") without writing or marking entries processed
+  - links: Map of parent law name => source laws to add, to apply only the
+    links kept after a preview (optional, defaults to every source law)
 
   ## Returns
   Progress and results for each parent law updated.
@@ -1805,6 +1907,7 @@ defmodule SertantaiLegalWeb.ScrapeController do
     alias SertantaiLegal.Scraper.CascadeAffectedLaw
 
     names = params["names"]
+    dry_run = params["dry_run"] in [true, "true"]
 
     with {:ok, _session} <- SessionManager.get(session_id) do
       # Get enacting_link entries from DB
@@ -1894,50 +1997,74 @@ defmodule SertantaiLegalWeb.ScrapeController do
                   }
 
                 {:ok, parent_law} ->
-                  # Merge existing enacting with new sources
-                  existing_enacting = parent_law.enacting || []
-                  new_enacting = Enum.uniq(existing_enacting ++ sources_to_add)
-
-                  # Only update if there's something new to add
-                  added = Enum.reject(sources_to_add, &(&1 in existing_enacting))
-
-                  if added == [] do
-                    # Mark as processed even if unchanged
-                    Storage.mark_cascade_processed(session_id, parent_name)
-
-                    %{
-                      name: parent_name,
-                      status: "unchanged",
-                      message: "All source laws already in enacting array",
-                      current_count: length(existing_enacting)
-                    }
-                  else
-                    # Update using Ash - use specific update_enacting action
-                    case Ash.Changeset.for_update(parent_law, :update_enacting, %{
-                           enacting: new_enacting,
-                           is_enacting: true
-                         })
-                         |> Ash.update() do
-                      {:ok, updated} ->
-                        # Mark cascade entry as processed
-                        Storage.mark_cascade_processed(session_id, parent_name)
-
-                        %{
-                          name: parent_name,
-                          status: "success",
-                          message: "Updated enacting array",
-                          added: added,
-                          added_count: length(added),
-                          new_total: length(updated.enacting || [])
-                        }
-
-                      {:error, reason} ->
-                        %{
-                          name: parent_name,
-                          status: "error",
-                          message: "Update failed: #{inspect(reason)}"
-                        }
-                    end
+                  # Merge existing enacting with new sources (only the kept
+                  # links when the request restricts them)
+                  %{before: existing_enacting, after: new_enacting, added: added} =
+                    EnactingLinks.plan(
+                      parent_law.enacting,
+                      sources_to_add,
+                      only: EnactingLinks.only_for(params["links"], parent_name)
+                    )
+
+                  cond do
+                    # Hand-curated links stay as they are; leave the entry pending
+                    FieldLocks.any_locked?(parent_law, ~w(enacting is_enacting)) ->
+                      %{
+                        name: parent_name,
+                        status: "skipped",
+                        message: "Enacting links are locked on this law",
+                        current_count: length(existing_enacting)
+                      }
+
+                    added == [] ->
+                      # Mark as processed even if unchanged
+                      unless dry_run, do: Storage.mark_cascade_processed(session_id, parent_name)
+
+                      %{
+                        name: parent_name,
+                        status: "unchanged",
+                        message: "All source laws already in enacting array",
+                        current_count: length(existing_enacting)
+                      }
+
+                    dry_run ->
+                      %{
+                        name: parent_name,
+                        status: "preview",
+                        message: "Would add #{length(added)} enacting link(s)",
+                        added: added,
+                        added_count: length(added),
+                        current_enacting: existing_enacting,
+                        proposed_enacting: new_enacting
+                      }
+
+                    true ->
+                      # Update using Ash - use specific update_enacting action
+                      case Ash.Changeset.for_update(parent_law, :update_enacting, %{
+                             enacting: new_enacting,
+                             is_enacting: true
+                           })
+                           |> Ash.update() do
+                        {:ok, updated} ->
+                          # Mark cascade entry as processed
+                          Storage.mark_cascade_processed(session_id, parent_name)
+
+                          %{
+                            name: parent_name,
+                            status: "success",
+                            message: "Updated enacting array",
+                            added: added,
+                            added_count: length(added),
+                            new_total: length(updated.enacting || [])
+                          }
+
+                        {:error, reason} ->
+                          %{
+                            name: parent_name,
+                            status: "error",
+                            message: "Update failed: #{inspect(reason)}"
+                          }
+                      end
                   end
 
                 {:error, reason} ->
@@ -1956,6 +2083,7 @@ defmodule SertantaiLegalWeb.ScrapeController do
 
         json(conn, %{
           session_id: session_id,
+          dry_run: dry_run,
           total: length(results),
           success: success_count,
           unchanged: unchanged_count,
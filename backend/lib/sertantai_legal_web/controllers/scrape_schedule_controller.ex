@@ -0,0 +1,286 @@
+defmodule SertantaiLegalWeb.ScrapeScheduleController do
+  @moduledoc """
+  API controller for recurring scrape schedules.
+
+  Provides endpoints to:
+  - List, create, edit and delete schedules
+  - Start a schedule run immediately
+  - List run history (linked to the resulting scrape sessions)
+  - Acknowledge failed runs
+
+  Schedules are run by `SertantaiLegal.Scraper.ScheduleRunner`; runs
+  started here go through the same code path in the background.
+  """
+
+  use SertantaiLegalWeb, :controller
+
+  alias SertantaiLegal.Scraper.ScheduleRunner
+  alias SertantaiLegal.Scraper.Scheduler
+  alias SertantaiLegal.Scraper.ScrapeSchedule
+  alias SertantaiLegal.Scraper.ScrapeScheduleRun
+
+  @schedule_fields ~w(name enabled frequency day_of_week day_of_month hour range type_code)
+
+  @doc """
+  GET /api/scrape-schedules
+
+  List all schedules with the number of unacknowledged failed runs.
+  """
+  def index(conn, _params) do
+    with {:ok, schedules} <- ScrapeSchedule.list(),
+         {:ok, failures} <- ScrapeScheduleRun.unacknowledged_failures() do
+      json(conn, %{
+        schedules: Enum.map(schedules, &schedule_to_json/1),
+        count: length(schedules),
+        unacknowledged_failures: length(failures)
+      })
+    else
+      {:error, reason} ->
+        conn
+        |> put_status(:internal_server_error)
+        |> json(%{error: format_error(reason)})
+    end
+  end
+
+  @doc """
+  POST /api/scrape-schedules
+
+  Create a schedule.
+
+  ## Body Parameters
+  - name: string (required)
+  - frequency: "daily" | "weekly" | "monthly" (required)
+  - day_of_week: 1-7, Monday = 1 (weekly)
+  - day_of_month: 1-28 (monthly)
+  - hour: 0-23 UTC (default 6)
+  - range: "previous_day" | "previous_week" | "previous_month" (required)
+  - type_code: string (optional, omit for all type codes)
+  - enabled: boolean (default true)
+  """
+  def create(conn, params) do
+    attrs =
+      params
+      |> schedule_attrs()
+      |> Map.put(:created_by, conn.assigns[:current_user_id])
+
+    with {:ok, schedule} <- ScrapeSchedule.create(attrs),
+         {:ok, schedule} <- plan_next_run(schedule) do
+      conn
+      |> put_status(:created)
+      |> json(schedule_to_json(schedule))
+    else
+      {:error, reason} ->
+        conn
+        |> put_status(:unprocessable_entity)
+        |> json(%{error: format_error(reason)})
+    end
+  end
+
+  @doc """
+  PATCH /api/scrape-schedules/:id
+
+  Edit a schedule. Accepts the same fields as create; the next run time
+  is recalculated.
+  """
+  def update(conn, %{"id" => id} = params) do
+    with_schedule(conn, id, fn schedule ->
+      with {:ok, schedule} <- ScrapeSchedule.update(schedule, schedule_attrs(params)),
+           {:ok, schedule} <- plan_next_run(schedule) do
+        json(conn, schedule_to_json(schedule))
+      else
+        {:error, reason} ->
+          conn
+          |> put_status(:unprocessable_entity)
+          |> json(%{error: format_error(reason)})
+      end
+    end)
+  end
+
+  @doc """
+  DELETE /api/scrape-schedules/:id
+
+  Delete a schedule. Its run history is kept.
+  """
+  def delete(conn, %{"id" => id}) do
+    with_schedule(conn, id, fn schedule ->
+      case ScrapeSchedule.destroy(schedule) do
+        :ok ->
+          json(conn, %{message: "Schedule deleted", id: id})
+
+        {:error, reason} ->
+          conn
+          |> put_status(:unprocessable_entity)
+          |> json(%{error: format_error(reason)})
+      end
+    end)
+  end
+
+  @doc """
+  POST /api/scrape-schedules/:id/run
+
+  Start a run now, in the background. Poll the run history for the result.
+  """
+  def run(conn, %{"id" => id}) do
+    with_schedule(conn, id, fn schedule ->
+      :ok = ScheduleRunner.run_async(schedule, :manual)
+
+      conn
+      |> put_status(:accepted)
+      |> json(%{message: "Schedule run started", id: id})
+    end)
+  end
+
+  @doc """
+  GET /api/scrape-schedules/runs
+
+  Recent runs across all schedules, newest first.
+
+  ## Query Parameters
+  - schedule_id: only runs of this schedule
+  """
+  def runs(conn, params) do
+    case list_runs(params["schedule_id"]) do
+      {:ok, runs} ->
+        json(conn, %{runs: Enum.map(runs, &run_to_json/1), count: length(runs)})
+
+      {:error, :invalid_schedule_id} ->
+        conn
+        |> put_status(:bad_request)
+        |> json(%{error: "Invalid schedule_id"})
+
+      {:error, reason} ->
+        conn
+        |> put_status(:internal_server_error)
+        |> json(%{error: format_error(reason)})
+    end
+  end
+
+  @doc """
+  POST /api/scrape-schedules/runs/:id/acknowledge
+
+  Acknowledge a failed run so it is no longer flagged.
+  """
+  def acknowledge(conn, %{"id" => id}) do
+    case ScrapeScheduleRun.by_id(id) do
+      {:ok, run} ->
+        case ScrapeScheduleRun.acknowledge(run) do
+          {:ok, run} ->
+            json(conn, run_to_json(run))
+
+          {:error, reason} ->
+            conn
+            |> put_status(:unprocessable_entity)
+            |> json(%{error: format_error(reason)})
+        end
+
+      {:error, reason} ->
+        if not_found_error?(reason) do
+          conn
+          |> put_status(:not_found)
+          |> json(%{error: "Run not found"})
+        else
+          conn
+          |> put_status(:internal_server_error)
+          |> json(%{error: format_error(reason)})
+        end
+    end
+  end
+
+  # Private helpers
+
+  defp list_runs(nil), do: ScrapeScheduleRun.recent()
+
+  defp list_runs(schedule_id) do
+    case Ecto.UUID.cast(schedule_id) do
+      {:ok, uuid} -> ScrapeScheduleRun.by_schedule(uuid)
+      :error -> {:error, :invalid_schedule_id}
+    end
+  end
+
+  defp with_schedule(conn, id, fun) do
+    case ScrapeSchedule.by_id(id) do
+      {:ok, schedule} ->
+        fun.(schedule)
+
+      {:error, reason} ->
+        if not_found_error?(reason) do
+          conn
+          |> put_status(:not_found)
+          |> json(%{error: "Schedule not found"})
+        else
+          conn
+          |> put_status(:internal_server_error)
+          |> json(%{error: format_error(reason)})
+        end
+    end
+  end
+
+  defp schedule_attrs(params) do
+    params
+    |> Map.take(@schedule_fields)
+    |> Map.new(fn
+      {"type_code", ""} -> {:type_code, nil}
+      {key, value} -> {String.to_existing_atom(key), value}
+    end)
+  end
+
+  defp plan_next_run(%{enabled: false} = schedule) do
+    ScrapeSchedule.update(schedule, %{next_run_at: nil})
+  end
+
+  defp plan_next_run(schedule) do
+    ScrapeSchedule.update(schedule, %{
+      next_run_at: Scheduler.next_run_at(schedule, DateTime.utc_now())
+    })
+  end
+
+  defp schedule_to_json(schedule) do
+    %{
+      id: schedule.id,
+      name: schedule.name,
+      enabled: schedule.enabled,
+      frequency: schedule.frequency,
+      day_of_week: schedule.day_of_week,
+      day_of_month: schedule.day_of_month,
+      hour: schedule.hour,
+      range: schedule.range,
+      type_code: schedule.type_code,
+      last_run_at: schedule.last_run_at,
+      next_run_at: schedule.next_run_at,
+      created_by: schedule.created_by,
+      inserted_at: schedule.inserted_at
+    }
+  end
+
+  defp run_to_json(run) do
+    %{
+      id: run.id,
+      schedule_id: run.schedule_id,
+      schedule_name: run.schedule_name,
+      trigger: run.trigger,
+      status: run.status,
+      date_from: run.date_from,
+      date_to: run.date_to,
+      session_ids: run.session_ids || [],
+      error_message: run.error_message,
+      started_at: run.started_at,
+      finished_at: run.finished_at,
+      acknowledged_at: run.acknowledged_at
+    }
+  end
+
+  defp format_error(%{errors: errors}) when is_list(errors) do
+    Enum.map_join(errors, ", ", &inspect/1)
+  end
+
+  defp format_error(reason) when is_binary(reason), do: reason
+  defp format_error(reason), do: inspect(reason)
+
+  defp not_found_error?(%Ash.Error.Query.NotFound{}), do: true
+
+  defp not_found_error?(%Ash.Error.Invalid{errors: errors}) do
+    Enum.any?(errors, &not_found_error?/1)
+  end
+
+  defp not_found_error?(_), do: false
+end
@@ -7,11 +7,14 @@ defmodule SertantaiLegalWeb.UkLrtController do
   - Get individual record details
   - Update record metadata
   - Delete records
+  - Show a record's change history and revert single fields
   """
 
   use SertantaiLegalWeb, :controller
 
   alias SertantaiLegal.Legal.UkLrt
+  alias SertantaiLegal.Legal.FieldLocks
+  alias SertantaiLegal.Scraper.ChangeLogger
 
   require Ash.Query
 
@@ -95,23 +98,108 @@ defmodule SertantaiLegalWeb.UkLrtController do
 
   ## Body Parameters
   Any valid UK LRT attributes (title_en, family, tags, etc.)
+  - locked_fields: Field names to protect from automated reparses
+    (replaces the record's current locks)
+  - change_source: "inline_edit" (default) or "parse_confirm" for a reviewed
+    reparse saved without a session
+
+  Changes are appended to the record's change log, attributed to the JWT user.
   """
   def update(conn, %{"id" => id} = params) do
-    attrs = Map.drop(params, ["id"])
+    # The change log is only ever appended to by the server
+    attrs = Map.drop(params, ["id", "record_change_log", "change_source"])
+
+    with {:ok, source} <- change_source(params),
+         {:ok, attrs} <- normalize_locked_fields(attrs),
+         {:ok, record} <- UkLrt.by_id(id) do
+      case update_with_log(record, attrs, source, conn) do
+        {:ok, updated} ->
+          json(conn, record_to_json(updated))
+
+        {:error, reason} ->
+          conn
+          |> put_status(:unprocessable_entity)
+          |> json(%{error: format_error(reason)})
+      end
+    else
+      {:invalid, message} ->
+        conn
+        |> put_status(:unprocessable_entity)
+        |> json(%{error: message})
+
+      {:error, reason} ->
+        if not_found_error?(reason) do
+          conn
+          |> put_status(:not_found)
+          |> json(%{error: "Record not found"})
+        else
+          conn
+          |> put_status(:internal_server_error)
+          |> json(%{error: format_error(reason)})
+        end
+    end
+  end
+
+  @doc """
+  GET /api/uk-lrt/:id/history
 
+  Change history of a record, newest first. Each entry has timestamp, source,
+  changed_by, actor (JWT user id, nil for system changes), summary and the
+  old/new value of each changed field.
+  """
+  def history(conn, %{"id" => id}) do
     case UkLrt.by_id(id) do
       {:ok, record} ->
-        case record
-             |> Ash.Changeset.for_update(:update, attrs)
-             |> Ash.update() do
-          {:ok, updated} ->
-            json(conn, record_to_json(updated))
+        entries = Enum.reverse(record.record_change_log || [])
 
-          {:error, reason} ->
-            conn
-            |> put_status(:unprocessable_entity)
-            |> json(%{error: format_error(reason)})
+        json(conn, %{
+          id: record.id,
+          name: record.name,
+          entries: entries,
+          count: length(entries)
+        })
+
+      {:error, reason} ->
+        if not_found_error?(reason) do
+          conn
+          |> put_status(:not_found)
+          |> json(%{error: "Record not found"})
+        else
+          conn
+          |> put_status(:internal_server_error)
+          |> json(%{error: format_error(reason)})
         end
+    end
+  end
+
+  @doc """
+  POST /api/uk-lrt/:id/revert
+
+  Revert one field to the value it had before a change log entry. The revert
+  is itself logged with source `revert`.
+
+  ## Body Parameters
+  - timestamp: Timestamp of the change log entry
+  - field: Field changed by that entry
+  """
+  def revert(conn, %{"id" => id, "timestamp" => timestamp, "field" => field})
+      when is_binary(timestamp) and is_binary(field) do
+    with {:ok, record} <- UkLrt.by_id(id),
+         {:ok, change} <- find_change(record, timestamp, field) do
+      case update_with_log(record, %{field => change["old"]}, "revert", conn) do
+        {:ok, updated} ->
+          json(conn, record_to_json(updated))
+
+        {:error, reason} ->
+          conn
+          |> put_status(:unprocessable_entity)
+          |> json(%{error: format_error(reason)})
+      end
+    else
+      {:invalid, message} ->
+        conn
+        |> put_status(:unprocessable_entity)
+        |> json(%{error: message})
 
       {:error, reason} ->
         if not_found_error?(reason) do
@@ -126,6 +214,12 @@ defmodule SertantaiLegalWeb.UkLrtController do
     end
   end
 
+  def revert(conn, _params) do
+    conn
+    |> put_status(:bad_request)
+    |> json(%{error: "Missing required parameters: timestamp, field"})
+  end
+
   @doc """
   DELETE /api/uk-lrt/:id
 
@@ -471,12 +565,62 @@ defmodule SertantaiLegalWeb.UkLrtController do
       md_attachment_paras: record.md_attachment_paras,
       md_images: record.md_images,
       latest_amend_date: record.latest_amend_date,
+      # Hand-curated fields that reparses leave alone
+      locked_fields: record.locked_fields || [],
       # Timestamps
       created_at: record.created_at,
       updated_at: record.updated_at
     }
   end
 
+  # Update a record, appending the change to its log attributed to the JWT user
+  defp update_with_log(record, attrs, source, conn) do
+    attrs =
+      case ChangeLogger.build_change_entry(record, attrs, "uk_lrt_controller",
+             source: source,
+             actor: conn.assigns[:current_user_id]
+           ) do
+        {:ok, entry} ->
+          Map.put(
+            attrs,
+            "record_change_log",
+            ChangeLogger.append_to_log(record.record_change_log, entry)
+          )
+
+        {:no_changes, nil} ->
+          attrs
+      end
+
+    record
+    |> Ash.Changeset.for_update(:update, attrs)
+    |> Ash.update()
+  end
+
+  defp change_source(%{"change_source" => source}) when source in ~w(inline_edit parse_confirm),
+    do: {:ok, source}
+
+  defp change_source(%{"change_source" => source}),
+    do: {:invalid, "Invalid change_source: #{inspect(source)}"}
+
+  defp change_source(_params), do: {:ok, "inline_edit"}
+
+  defp find_change(record, timestamp, field) do
+    case ChangeLogger.find_change(record.record_change_log, timestamp, field) do
+      {:ok, change} -> {:ok, change}
+      {:error, message} -> {:invalid, message}
+    end
+  end
+
+  # Validate locked_fields when the update sets them
+  defp normalize_locked_fields(%{"locked_fields" => fields} = attrs) do
+    case FieldLocks.normalize(fields) do
+      {:ok, normalized} -> {:ok, Map.put(attrs, "locked_fields", normalized)}
+      {:error, message} -> {:invalid, message}
+    end
+  end
+
+  defp normalize_locked_fields(attrs), do: {:ok, attrs}
+
   defp parse_integer(nil, default), do: default
 
   defp parse_integer(value, default) when is_binary(value) do
@@ -645,6 +789,7 @@ defmodule SertantaiLegalWeb.UkLrtController do
           id: existing.id,
           updated_at: existing.updated_at,
           family: existing.family,
+          locked_fields: existing.locked_fields || [],
           record:
             existing
             |> ParsedLaw.from_db_record()
@@ -5,6 +5,8 @@ defmodule SertantaiLegalWeb.ZenohController do
   Provides status, counters, and recent activity for:
   - Subscriptions (TaxaSubscriber)
   - Queryables (DataServer) and Publishers (ChangeNotifier)
+  - A live activity stream across all three (SSE)
+  - A query console that queries DataServer key expressions over the mesh
 
   Gracefully handles Zenoh being disabled (ZENOH_ENABLED=false).
   """
@@ -13,6 +15,8 @@ defmodule SertantaiLegalWeb.ZenohController do
 
   alias SertantaiLegal.Zenoh.{ActivityLog, TaxaSubscriber, DataServer, ChangeNotifier}
 
+  @sse_heartbeat_interval 15_000
+
   @doc "GET /api/zenoh/subscriptions — TaxaSubscriber status + activity"
   def subscriptions(conn, _params) do
     if zenoh_enabled?() do
@@ -51,6 +55,103 @@ defmodule SertantaiLegalWeb.ZenohController do
     end
   end
 
+  @doc """
+  POST /api/zenoh/query — query a DataServer key expression over the mesh
+
+  Body: `{"key_expr": "fractalaw/@dev/data/legislation/lat/UK_uksi_2024_1"}`.
+  Replies are requested as JSON and returned decoded, with the round-trip time.
+  """
+  def query(conn, %{"key_expr" => key_expr}) when is_binary(key_expr) do
+    cond do
+      not DataServer.queryable_key?(key_expr) ->
+        conn
+        |> put_status(:bad_request)
+        |> json(%{error: "Not a DataServer key expression for a single law or all LRT"})
+
+      not zenoh_enabled?() ->
+        conn |> put_status(:service_unavailable) |> json(%{error: "Zenoh is disabled"})
+
+      true ->
+        started = System.monotonic_time(:millisecond)
+
+        case DataServer.query(key_expr) do
+          {:ok, replies} ->
+            json(conn, %{
+              key_expr: key_expr,
+              duration_ms: System.monotonic_time(:millisecond) - started,
+              replies: replies
+            })
+
+          {:error, :timeout} ->
+            conn |> put_status(:gateway_timeout) |> json(%{error: "Query timed out"})
+
+          {:error, :not_ready} ->
+            conn
+            |> put_status(:service_unavailable)
+            |> json(%{error: "Zenoh session is not ready"})
+
+          {:error, reason} ->
+            conn |> put_status(:bad_gateway) |> json(%{error: inspect(reason)})
+        end
+    end
+  end
+
+  def query(conn, _params) do
+    conn |> put_status(:bad_request) |> json(%{error: "key_expr is required"})
+  end
+
+  @doc """
+  GET /api/zenoh/activity/stream — live activity across all services (SSE)
+
+  Each message is a JSON object with a `type`:
+  - "backlog": `entries` recorded before the client connected (oldest first)
+  - "activity": one new `entry` (event, service, key_expr, metadata, timestamp)
+  - "disabled": Zenoh is not enabled; the stream ends
+  """
+  def activity_stream(conn, _params) do
+    conn =
+      conn
+      |> put_resp_content_type("text/event-stream")
+      |> put_resp_header("cache-control", "no-cache")
+      |> put_resp_header("connection", "keep-alive")
+      |> send_chunked(200)
+
+    if zenoh_enabled?() do
+      ActivityLog.subscribe()
+
+      case send_event(conn, %{type: "backlog", entries: safe_get_all_recent()}) do
+        {:ok, conn} -> activity_loop(conn)
+        {:error, _reason} -> conn
+      end
+    else
+      case send_event(conn, %{type: "disabled"}) do
+        {:ok, conn} -> conn
+        {:error, _reason} -> conn
+      end
+    end
+  end
+
+  # Forward activity until the client disconnects, with heartbeats between events
+  defp activity_loop(conn) do
+    receive do
+      {:zenoh_activity, entry} ->
+        case send_event(conn, %{type: "activity", entry: entry}) do
+          {:ok, conn} -> activity_loop(conn)
+          {:error, _reason} -> conn
+        end
+    after
+      @sse_heartbeat_interval ->
+        case chunk(conn, ": heartbeat\n\n") do
+          {:ok, conn} -> activity_loop(conn)
+          {:error, _reason} -> conn
+        end
+    end
+  end
+
+  defp send_event(conn, data) do
+    chunk(conn, "data: #{Jason.encode!(data)}\n\n")
+  end
+
   defp zenoh_enabled? do
     Application.get_env(:sertantai_legal, :zenoh, [])[:enabled] == true
   end
@@ -66,4 +167,10 @@ defmodule SertantaiLegalWeb.ZenohController do
   catch
     :exit, _ -> []
   end
+
+  defp safe_get_all_recent do
+    ActivityLog.get_all_recent()
+  catch
+    :exit, _ -> []
+  end
 end
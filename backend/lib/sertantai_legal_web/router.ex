@@ -34,6 +34,13 @@ defmodule SertantaiLegalWeb.Router do
     plug(SertantaiLegalWeb.AuthPlug)
   end
 
+  # Admin SSE streaming (JWT auth + admin/owner role check)
+  pipeline :sse_admin do
+    plug(SertantaiLegalWeb.LoadFromCookie)
+    plug(SertantaiLegalWeb.AuthPlug)
+    plug(SertantaiLegalWeb.RequireAdmin)
+  end
+
   # AI service pipeline — API key auth for machine-to-machine LAN calls
   pipeline :api_ai do
     plug(:accepts, ["json"])
@@ -83,6 +90,12 @@ defmodule SertantaiLegalWeb.Router do
     get("/uk-lrt/:id/parse-stream", UkLrtController, :parse_stream)
   end
 
+  # Admin SSE streaming (JWT auth + admin role)
+  scope "/api", SertantaiLegalWeb do
+    pipe_through([:sse, :sse_admin])
+    get("/zenoh/activity/stream", ZenohController, :activity_stream)
+  end
+
   # Tenant-scoped API endpoints (JWT auth from sertantai-auth)
   scope "/api", SertantaiLegalWeb do
     pipe_through(:api_authenticated)
@@ -91,6 +104,14 @@ defmodule SertantaiLegalWeb.Router do
     patch("/uk-lrt/:id", UkLrtController, :update)
     delete("/uk-lrt/:id", UkLrtController, :delete)
     post("/uk-lrt/:id/rescrape", UkLrtController, :rescrape)
+    get("/uk-lrt/:id/history", UkLrtController, :history)
+    post("/uk-lrt/:id/revert", UkLrtController, :revert)
+
+    # Register snapshots (scoped to the JWT organisation)
+    get("/register-snapshots", RegisterSnapshotController, :index)
+    post("/register-snapshots", RegisterSnapshotController, :create)
+    get("/register-snapshots/:id", RegisterSnapshotController, :show)
+    delete("/register-snapshots/:id", RegisterSnapshotController, :delete)
   end
 
   # Admin API endpoints (JWT auth + admin role)
@@ -116,6 +137,8 @@ defmodule SertantaiLegalWeb.Router do
     post("/sessions/:id/parse-metadata", ScrapeController, :parse_metadata)
     post("/sessions/:id/confirm", ScrapeController, :confirm)
     delete("/sessions/:id", ScrapeController, :delete)
+    post("/sessions/:id/rerun", ScrapeController, :rerun)
+    get("/sessions/:id/compare", ScrapeController, :compare)
 
     # Cascade update endpoints
     get("/sessions/:id/affected-laws", ScrapeController, :affected_laws)
@@ -124,9 +147,19 @@ defmodule SertantaiLegalWeb.Router do
     put("/sessions/:id/cascade-metadata", ScrapeController, :save_cascade_metadata)
     delete("/sessions/:id/affected-laws", ScrapeController, :clear_affected_laws)
 
+    # Recurring scrape schedules (runs routes must come before /:id)
+    get("/scrape-schedules/runs", ScrapeScheduleController, :runs)
+    post("/scrape-schedules/runs/:id/acknowledge", ScrapeScheduleController, :acknowledge)
+    get("/scrape-schedules", ScrapeScheduleController, :index)
+    post("/scrape-schedules", ScrapeScheduleController, :create)
+    patch("/scrape-schedules/:id", ScrapeScheduleController, :update)
+    delete("/scrape-schedules/:id", ScrapeScheduleController, :delete)
+    post("/scrape-schedules/:id/run", ScrapeScheduleController, :run)
+
     # Zenoh P2P mesh monitoring
     get("/zenoh/subscriptions", ZenohController, :subscriptions)
     get("/zenoh/queryables", ZenohController, :queryables)
+    post("/zenoh/query", ZenohController, :query)
 
     # LAT admin endpoints
     get("/lat/stats", LatAdminController, :stats)
@@ -139,6 +172,11 @@ defmodule SertantaiLegalWeb.Router do
     # Cascade management endpoints (standalone page)
     get("/cascade", CascadeController, :index)
     get("/cascade/sessions", CascadeController, :sessions)
+    get("/cascade/graph", CascadeController, :graph)
+    get("/cascade/jobs", CascadeJobController, :index)
+    post("/cascade/jobs", CascadeJobController, :create)
+    get("/cascade/jobs/:id", CascadeJobController, :show)
+    post("/cascade/jobs/:id/cancel", CascadeJobController, :cancel)
     post("/cascade/reparse", CascadeController, :reparse)
     post("/cascade/update-enacting", CascadeController, :update_enacting)
     post("/cascade/add-laws", CascadeController, :add_laws)
@@ -0,0 +1,41 @@
+defmodule SertantaiLegal.Repo.Migrations.AddRegisterSnapshots do
+  @moduledoc """
+  Updates resources based on their most recent snapshots.
+
+  This file was autogenerated with `mix ash_postgres.generate_migrations`
+  """
+
+  use Ecto.Migration
+
+  def up do
+    create table(:register_snapshots, primary_key: false) do
+      add(:id, :uuid, null: false, default: fragment("gen_random_uuid()"), primary_key: true)
+      add(:organization_id, :text, null: false)
+      add(:name, :text, null: false)
+      add(:description, :text)
+      add(:where_clause, :text, default: "")
+      add(:taken_at, :utc_datetime_usec, null: false)
+      add(:record_count, :bigint, null: false, default: 0)
+      add(:records, {:array, :map}, default: [])
+      add(:created_by, :text)
+
+      add(:inserted_at, :utc_datetime_usec,
+        null: false,
+        default: fragment("(now() AT TIME ZONE 'utc')")
+      )
+
+      add(:updated_at, :utc_datetime_usec,
+        null: false,
+        default: fragment("(now() AT TIME ZONE 'utc')")
+      )
+    end
+
+    create(index(:register_snapshots, [:organization_id, :taken_at]))
+  end
+
+  def down do
+    drop_if_exists(index(:register_snapshots, [:organization_id, :taken_at]))
+
+    drop(table(:register_snapshots))
+  end
+end
@@ -0,0 +1,77 @@
+defmodule SertantaiLegal.Repo.Migrations.AddScrapeSchedules do
+  @moduledoc """
+  Updates resources based on their most recent snapshots.
+
+  This file was autogenerated with `mix ash_postgres.generate_migrations`
+  """
+
+  use Ecto.Migration
+
+  def up do
+    create table(:scrape_schedules, primary_key: false) do
+      add(:id, :uuid, null: false, default: fragment("gen_random_uuid()"), primary_key: true)
+      add(:name, :text, null: false)
+      add(:enabled, :boolean, null: false, default: true)
+      add(:frequency, :text, null: false)
+      add(:day_of_week, :bigint)
+      add(:day_of_month, :bigint)
+      add(:hour, :bigint, null: false, default: 6)
+      add(:range, :text, null: false)
+      add(:type_code, :text)
+      add(:last_run_at, :utc_datetime_usec)
+      add(:next_run_at, :utc_datetime_usec)
+      add(:created_by, :text)
+
+      add(:inserted_at, :utc_datetime_usec,
+        null: false,
+        default: fragment("(now() AT TIME ZONE 'utc')")
+      )
+
+      add(:updated_at, :utc_datetime_usec,
+        null: false,
+        default: fragment("(now() AT TIME ZONE 'utc')")
+      )
+    end
+
+    create(index(:scrape_schedules, [:enabled, :next_run_at]))
+
+    create table(:scrape_schedule_runs, primary_key: false) do
+      add(:id, :uuid, null: false, default: fragment("gen_random_uuid()"), primary_key: true)
+      add(:schedule_id, :uuid, null: false)
+      add(:schedule_name, :text)
+      add(:trigger, :text, null: false, default: "scheduled")
+      add(:status, :text, null: false, default: "running")
+      add(:date_from, :date, null: false)
+      add(:date_to, :date, null: false)
+      add(:session_ids, {:array, :text}, default: [])
+      add(:error_message, :text)
+      add(:started_at, :utc_datetime_usec, null: false)
+      add(:finished_at, :utc_datetime_usec)
+      add(:acknowledged_at, :utc_datetime_usec)
+
+      add(:inserted_at, :utc_datetime_usec,
+        null: false,
+        default: fragment("(now() AT TIME ZONE 'utc')")
+      )
+
+      add(:updated_at, :utc_datetime_usec,
+        null: false,
+        default: fragment("(now() AT TIME ZONE 'utc')")
+      )
+    end
+
+    create(index(:scrape_schedule_runs, [:schedule_id, :started_at]))
+    create(index(:scrape_schedule_runs, [:status]))
+  end
+
+  def down do
+    drop_if_exists(index(:scrape_schedule_runs, [:status]))
+    drop_if_exists(index(:scrape_schedule_runs, [:schedule_id, :started_at]))
+
+    drop(table(:scrape_schedule_runs))
+
+    drop_if_exists(index(:scrape_schedules, [:enabled, :next_run_at]))
+
+    drop(table(:scrape_schedules))
+  end
+end
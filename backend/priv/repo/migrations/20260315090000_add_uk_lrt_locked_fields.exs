@@ -0,0 +1,21 @@
+defmodule SertantaiLegal.Repo.Migrations.AddUkLrtLockedFields do
+  @moduledoc """
+  Updates resources based on their most recent snapshots.
+
+  This file was autogenerated with `mix ash_postgres.generate_migrations`
+  """
+
+  use Ecto.Migration
+
+  def up do
+    alter table(:uk_lrt) do
+      add(:locked_fields, {:array, :text}, null: false, default: [])
+    end
+  end
+
+  def down do
+    alter table(:uk_lrt) do
+      remove(:locked_fields)
+    end
+  end
+end
@@ -0,0 +1,53 @@
+defmodule SertantaiLegal.Repo.Migrations.AddCascadeJobs do
+  @moduledoc """
+  Updates resources based on their most recent snapshots.
+
+  This file was autogenerated with `mix ash_postgres.generate_migrations`
+  """
+
+  use Ecto.Migration
+
+  def up do
+    create table(:cascade_jobs, primary_key: false) do
+      add(:id, :uuid, null: false, default: fragment("gen_random_uuid()"), primary_key: true)
+      add(:session_id, :text, null: false)
+      add(:status, :text, null: false, default: "running")
+      add(:stop_reason, :text)
+      add(:start_layer, :bigint)
+      add(:current_layer, :bigint)
+      add(:max_layer, :bigint, null: false, default: 3)
+      add(:current_law, :text)
+      add(:processed_count, :bigint, null: false, default: 0)
+      add(:error_count, :bigint, null: false, default: 0)
+      add(:skipped_count, :bigint, null: false, default: 0)
+      add(:new_entries_count, :bigint, null: false, default: 0)
+      add(:cycles, {:array, :text}, default: [])
+      add(:errors, {:array, :map}, default: [])
+      add(:started_by, :text)
+      add(:error_message, :text)
+      add(:started_at, :utc_datetime_usec, null: false)
+      add(:cancel_requested_at, :utc_datetime_usec)
+      add(:finished_at, :utc_datetime_usec)
+
+      add(:inserted_at, :utc_datetime_usec,
+        null: false,
+        default: fragment("(now() AT TIME ZONE 'utc')")
+      )
+
+      add(:updated_at, :utc_datetime_usec,
+        null: false,
+        default: fragment("(now() AT TIME ZONE 'utc')")
+      )
+    end
+
+    create(index(:cascade_jobs, [:session_id, :started_at]))
+    create(index(:cascade_jobs, [:status]))
+  end
+
+  def down do
+    drop_if_exists(index(:cascade_jobs, [:status]))
+    drop_if_exists(index(:cascade_jobs, [:session_id, :started_at]))
+
+    drop(table(:cascade_jobs))
+  end
+end
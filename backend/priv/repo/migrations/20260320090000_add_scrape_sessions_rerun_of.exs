@@ -0,0 +1,21 @@
+defmodule SertantaiLegal.Repo.Migrations.AddScrapeSessionsRerunOf do
+  @moduledoc """
+  Updates resources based on their most recent snapshots.
+
+  This file was autogenerated with `mix ash_postgres.generate_migrations`
+  """
+
+  use Ecto.Migration
+
+  def up do
+    alter table(:scrape_sessions) do
+      add(:rerun_of, :text)
+    end
+  end
+
+  def down do
+    alter table(:scrape_sessions) do
+      remove(:rerun_of)
+    end
+  end
+end
@@ -0,0 +1,46 @@
+defmodule SertantaiLegal.Legal.FieldLocksTest do
+  use ExUnit.Case, async: true
+
+  alias SertantaiLegal.Legal.FieldLocks
+
+  describe "drop_locked/2" do
+    test "removes locked fields with atom or string keys" do
+      record = %{locked_fields: ["family", "tags"]}
+      attrs = %{:family => "FIRE", "tags" => ["fire"], :title_en => "New Title"}
+
+      assert FieldLocks.drop_locked(attrs, record) == %{title_en: "New Title"}
+    end
+
+    test "leaves attrs alone for records without locks" do
+      attrs = %{family: "FIRE"}
+
+      assert FieldLocks.drop_locked(attrs, %{locked_fields: []}) == attrs
+      assert FieldLocks.drop_locked(attrs, %{locked_fields: nil}) == attrs
+      assert FieldLocks.drop_locked(attrs, %{}) == attrs
+    end
+  end
+
+  describe "any_locked?/2" do
+    test "is true when any of the fields is locked" do
+      record = %{locked_fields: ["enacting"]}
+
+      assert FieldLocks.any_locked?(record, ["enacting", "is_enacting"])
+      refute FieldLocks.any_locked?(record, ["family"])
+      refute FieldLocks.any_locked?(%{locked_fields: nil}, ["enacting"])
+    end
+  end
+
+  describe "normalize/1" do
+    test "dedupes and sorts UkLrt attribute names" do
+      assert FieldLocks.normalize(["tags", "family", "tags"]) == {:ok, ["family", "tags"]}
+      assert FieldLocks.normalize([]) == {:ok, []}
+    end
+
+    test "rejects unknown and bookkeeping fields" do
+      assert FieldLocks.normalize(["family", "not_a_field", "updated_at"]) ==
+               {:error, "Cannot lock fields: not_a_field, updated_at"}
+
+      assert {:error, _} = FieldLocks.normalize("family")
+    end
+  end
+end
@@ -0,0 +1,73 @@
+defmodule SertantaiLegal.Scraper.CascadePlanTest do
+  use ExUnit.Case, async: true
+
+  alias SertantaiLegal.Scraper.CascadePlan
+
+  defp entry(law, source_laws, fields \\ []) do
+    Map.merge(
+      %{
+        affected_law: law,
+        update_type: :reparse,
+        status: :pending,
+        source_laws: source_laws,
+        layer: 1
+      },
+      Map.new(fields)
+    )
+  end
+
+  describe "next_entry/3" do
+    test "picks the lowest layer first" do
+      entries = [
+        entry("UK_uksi_2019_1", ["UK_uksi_2020_1"], layer: 2),
+        entry("UK_uksi_2020_1", ["UK_uksi_2025_1"])
+      ]
+
+      assert {:ok, %{affected_law: "UK_uksi_2020_1"}} = CascadePlan.next_entry(entries, 3)
+    end
+
+    test "ignores processed entries, enacting links and excluded laws" do
+      entries = [
+        entry("UK_uksi_2020_1", ["UK_uksi_2025_1"], status: :processed),
+        entry("UK_ukpga_1974_37", ["UK_uksi_2025_1"], update_type: :enacting_link),
+        entry("UK_uksi_2020_2", ["UK_uksi_2025_1"])
+      ]
+
+      assert CascadePlan.next_entry(entries, 3, MapSet.new(["UK_uksi_2020_2"])) ==
+               {:done, :fixed_point}
+    end
+
+    test "takes deferred entries within the max layer" do
+      entries = [entry("UK_uksi_2010_1", ["UK_uksi_2019_1"], layer: 4, status: :deferred)]
+
+      assert {:ok, %{layer: 4}} = CascadePlan.next_entry(entries, 5)
+      assert CascadePlan.next_entry(entries, 3) == {:done, :max_depth}
+    end
+  end
+
+  describe "cycle?/3" do
+    test "detects a law that led to its own entry" do
+      entries = [
+        entry("UK_uksi_2020_1", ["UK_uksi_2025_1"]),
+        entry("UK_uksi_2025_1", ["UK_uksi_2020_1"], layer: 2)
+      ]
+
+      assert CascadePlan.cycle?(Enum.at(entries, 1), entries, MapSet.new())
+      refute CascadePlan.cycle?(Enum.at(entries, 0), entries, MapSet.new())
+    end
+
+    test "detects a law already processed by the run" do
+      e = entry("UK_uksi_2020_1", ["UK_uksi_2025_1"])
+
+      assert CascadePlan.cycle?(e, [e], MapSet.new(["UK_uksi_2020_1"]))
+    end
+  end
+
+  describe "wait_ms/3" do
+    test "waits out the rest of the interval" do
+      assert CascadePlan.wait_ms(nil, 5_000, 2_000) == 0
+      assert CascadePlan.wait_ms(4_000, 5_000, 2_000) == 1_000
+      assert CascadePlan.wait_ms(1_000, 5_000, 2_000) == 0
+    end
+  end
+end
@@ -0,0 +1,59 @@
+defmodule SertantaiLegal.Scraper.ChangeLoggerTest do
+  use ExUnit.Case, async: true
+
+  alias SertantaiLegal.Scraper.ChangeLogger
+
+  describe "build_change_entry/4" do
+    test "records changed fields with source and actor" do
+      old = %{title_en: "Old Title", year: 2020}
+      new = %{"title_en" => "New Title", "year" => 2020}
+
+      assert {:ok, entry} =
+               ChangeLogger.build_change_entry(old, new, "uk_lrt_controller",
+                 source: "inline_edit",
+                 actor: "user-1"
+               )
+
+      assert entry["source"] == "inline_edit"
+      assert entry["changed_by"] == "uk_lrt_controller"
+      assert entry["actor"] == "user-1"
+      assert entry["changes"] == %{"title_en" => %{"old" => "Old Title", "new" => "New Title"}}
+    end
+
+    test "defaults to a scraper change without an actor" do
+      {:ok, entry} = ChangeLogger.build_change_entry(%{live: "a"}, %{live: "b"}, "law_parser")
+
+      assert entry["source"] == "scraper"
+      assert entry["actor"] == nil
+    end
+
+    test "ignores blank-equivalent values" do
+      assert ChangeLogger.build_change_entry(%{tags: nil}, %{tags: []}, "law_parser") ==
+               {:no_changes, nil}
+    end
+  end
+
+  describe "find_change/3" do
+    @log [
+      %{
+        "timestamp" => "2026-01-10T18:30:45Z",
+        "changes" => %{"live" => %{"old" => "a", "new" => "b"}}
+      }
+    ]
+
+    test "returns the old and new value of a field" do
+      assert ChangeLogger.find_change(@log, "2026-01-10T18:30:45Z", "live") ==
+               {:ok, %{"old" => "a", "new" => "b"}}
+    end
+
+    test "errors for unknown entries and fields" do
+      assert {:error, "No change log entry at 2026-01-11T00:00:00Z"} =
+               ChangeLogger.find_change(@log, "2026-01-11T00:00:00Z", "live")
+
+      assert {:error, "Change log entry at 2026-01-10T18:30:45Z did not change family"} =
+               ChangeLogger.find_change(@log, "2026-01-10T18:30:45Z", "family")
+
+      assert {:error, _} = ChangeLogger.find_change(nil, "2026-01-10T18:30:45Z", "live")
+    end
+  end
+end
@@ -0,0 +1,45 @@
+defmodule SertantaiLegal.Scraper.EnactingLinksTest do
+  use ExUnit.Case, async: true
+
+  alias SertantaiLegal.Scraper.EnactingLinks
+
+  describe "plan/3" do
+    test "appends new sources and reports what was added" do
+      assert EnactingLinks.plan(["UK_uksi_2020_1"], ["UK_uksi_2020_1", "UK_uksi_2024_3"]) ==
+               %{
+                 before: ["UK_uksi_2020_1"],
+                 after: ["UK_uksi_2020_1", "UK_uksi_2024_3"],
+                 added: ["UK_uksi_2024_3"]
+               }
+    end
+
+    test "sorts newest first when asked" do
+      plan =
+        EnactingLinks.plan(["UK_uksi_2022_10"], ["UK_uksi_2024_3", "UK_uksi_2024_16"], sort: true)
+
+      assert plan.after == ["UK_uksi_2024_16", "UK_uksi_2024_3", "UK_uksi_2022_10"]
+    end
+
+    test "adds only the kept links" do
+      plan =
+        EnactingLinks.plan(nil, ["UK_uksi_2024_3", "UK_uksi_2024_16"], only: ["UK_uksi_2024_16"])
+
+      assert plan == %{before: [], after: ["UK_uksi_2024_16"], added: ["UK_uksi_2024_16"]}
+    end
+
+    test "leaves the array alone when nothing is new" do
+      assert %{after: ["UK_uksi_2020_1"], added: []} =
+               EnactingLinks.plan(["UK_uksi_2020_1"], ["UK_uksi_2020_1"], sort: true)
+    end
+  end
+
+  describe "only_for/2" do
+    test "reads a parent's kept links" do
+      links = %{"UK_ukpga_1974_37" => ["UK_uksi_2024_3"]}
+
+      assert EnactingLinks.only_for(links, "UK_ukpga_1974_37") == ["UK_uksi_2024_3"]
+      assert EnactingLinks.only_for(links, "UK_ukpga_1990_43") == nil
+      assert EnactingLinks.only_for(nil, "UK_ukpga_1974_37") == nil
+    end
+  end
+end
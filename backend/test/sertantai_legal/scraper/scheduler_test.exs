@@ -0,0 +1,77 @@
+defmodule SertantaiLegal.Scraper.SchedulerTest do
+  use ExUnit.Case, async: true
+
+  alias SertantaiLegal.Scraper.Scheduler
+
+  describe "next_run_at/2" do
+    test "daily runs later today when the hour has not passed" do
+      schedule = %{frequency: :daily, hour: 6}
+
+      assert Scheduler.next_run_at(schedule, ~U[2026-03-11 05:59:00Z]) ==
+               ~U[2026-03-11 06:00:00Z]
+
+      assert Scheduler.next_run_at(schedule, ~U[2026-03-11 06:00:00Z]) ==
+               ~U[2026-03-12 06:00:00Z]
+    end
+
+    test "weekly runs on the next matching weekday" do
+      # 2026-03-11 is a Wednesday
+      schedule = %{frequency: :weekly, day_of_week: 1, hour: 6}
+
+      assert Scheduler.next_run_at(schedule, ~U[2026-03-11 10:00:00Z]) ==
+               ~U[2026-03-16 06:00:00Z]
+
+      assert Scheduler.next_run_at(schedule, ~U[2026-03-16 05:00:00Z]) ==
+               ~U[2026-03-16 06:00:00Z]
+    end
+
+    test "monthly runs on the day of month, rolling into the next month and year" do
+      schedule = %{frequency: :monthly, day_of_month: 1, hour: 2}
+
+      assert Scheduler.next_run_at(schedule, ~U[2026-12-15 00:00:00Z]) ==
+               ~U[2027-01-01 02:00:00Z]
+    end
+
+    test "weekly schedules without a day or hour run Mondays at midnight" do
+      schedule = %{frequency: :weekly, day_of_week: nil, hour: nil}
+
+      assert Scheduler.next_run_at(schedule, ~U[2026-03-16 00:00:00Z]) ==
+               ~U[2026-03-23 00:00:00Z]
+    end
+  end
+
+  describe "date_range/2" do
+    test "previous day" do
+      assert Scheduler.date_range(:previous_day, ~D[2026-03-01]) ==
+               {~D[2026-02-28], ~D[2026-02-28]}
+    end
+
+    test "previous week is Monday to Sunday before the run date's week" do
+      assert Scheduler.date_range(:previous_week, ~D[2026-03-16]) ==
+               {~D[2026-03-09], ~D[2026-03-15]}
+
+      assert Scheduler.date_range(:previous_week, ~D[2026-03-11]) ==
+               {~D[2026-03-02], ~D[2026-03-08]}
+    end
+
+    test "previous month is the whole calendar month" do
+      assert Scheduler.date_range(:previous_month, ~D[2026-01-05]) ==
+               {~D[2025-12-01], ~D[2025-12-31]}
+    end
+  end
+
+  describe "month_chunks/2" do
+    test "keeps a range within one month as a single chunk" do
+      assert Scheduler.month_chunks(~D[2026-03-09], ~D[2026-03-15]) == [{2026, 3, 9, 15}]
+    end
+
+    test "splits a range spanning months into one chunk per month" do
+      assert Scheduler.month_chunks(~D[2026-02-23], ~D[2026-03-01]) ==
+               [{2026, 2, 23, 28}, {2026, 3, 1, 1}]
+    end
+
+    test "returns nothing for an inverted range" do
+      assert Scheduler.month_chunks(~D[2026-03-02], ~D[2026-03-01]) == []
+    end
+  end
+end
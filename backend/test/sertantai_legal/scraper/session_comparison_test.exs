@@ -0,0 +1,42 @@
+defmodule SertantaiLegal.Scraper.SessionComparisonTest do
+  use ExUnit.Case, async: true
+
+  alias SertantaiLegal.Scraper.SessionComparison
+
+  defp record(name, title \\ nil), do: %{name: name, Title_EN: title}
+
+  describe "compare/2" do
+    test "finds laws that appeared, disappeared and moved group" do
+      original = %{
+        group1: [record("UK_uksi_2026_1", "Kept Regulations")],
+        group2: [record("UK_uksi_2026_2", "Moved Regulations")],
+        group3: [record("UK_uksi_2026_3", "Withdrawn Order")]
+      }
+
+      rerun = %{
+        group1: [
+          record("UK_uksi_2026_1", "Kept Regulations"),
+          record("UK_uksi_2026_2", "Moved Regulations")
+        ],
+        group2: [record("UK_uksi_2026_9", "Late Regulations")],
+        group3: []
+      }
+
+      assert SessionComparison.compare(original, rerun) == %{
+               appeared: [%{name: "UK_uksi_2026_9", title: "Late Regulations", group: :group2}],
+               disappeared: [%{name: "UK_uksi_2026_3", title: "Withdrawn Order", group: :group3}],
+               moved: [
+                 %{name: "UK_uksi_2026_2", title: "Moved Regulations", from: :group2, to: :group1}
+               ],
+               unchanged_count: 1
+             }
+    end
+
+    test "accepts string keys and missing groups" do
+      result = SessionComparison.compare(%{group1: [%{"name" => "UK_uksi_2026_1"}]}, %{})
+
+      assert [%{name: "UK_uksi_2026_1", title: nil, group: :group1}] = result.disappeared
+      assert result.unchanged_count == 0
+    end
+  end
+end
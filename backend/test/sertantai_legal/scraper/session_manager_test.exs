@@ -3,6 +3,7 @@ defmodule SertantaiLegal.Scraper.SessionManagerTest do
 
   alias SertantaiLegal.Scraper.SessionManager
   alias SertantaiLegal.Scraper.ScrapeSession
+  alias SertantaiLegal.Scraper.SessionComparison
   alias SertantaiLegal.Scraper.Storage
   alias SertantaiLegal.Scraper.LegislationGovUk.Client
 
@@ -138,6 +139,33 @@ defmodule SertantaiLegal.Scraper.SessionManagerTest do
     end
   end
 
+  describe "rerun/1" do
+    test "scrapes the same range as a new linked session" do
+      on_exit(fn ->
+        Storage.delete_session("#{@test_session_id}-rerun")
+        Storage.delete_session("#{@test_session_id}-rerun-2")
+      end)
+
+      {:ok, original} = SessionManager.run(2024, 12, 2, 5)
+      {:ok, rerun} = SessionManager.rerun(original)
+
+      assert rerun.session_id == "#{@test_session_id}-rerun"
+      assert rerun.rerun_of == @test_session_id
+      assert rerun.status == :categorized
+      assert rerun.group1_count == original.group1_count
+
+      comparison = SessionComparison.compare_sessions(original.session_id, rerun.session_id)
+      assert comparison.appeared == []
+      assert comparison.disappeared == []
+      assert comparison.moved == []
+
+      # Re-running a re-run numbers it against the original id
+      {:ok, again} = SessionManager.rerun(rerun.session_id)
+      assert again.session_id == "#{@test_session_id}-rerun-2"
+      assert again.rerun_of == rerun.session_id
+    end
+  end
+
   describe "get/1" do
     test "retrieves session by session_id" do
       {:ok, created} = SessionManager.create(2024, 12, 2, 5)
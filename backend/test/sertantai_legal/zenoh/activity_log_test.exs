@@ -0,0 +1,49 @@
+defmodule SertantaiLegal.Zenoh.ActivityLogTest do
+  # The log owns a named ETS table, so tests cannot run concurrently
+  use ExUnit.Case, async: false
+
+  alias SertantaiLegal.Zenoh.ActivityLog
+
+  setup do
+    start_supervised!(ActivityLog)
+    :ok
+  end
+
+  describe "key_expr/1" do
+    test "reads key_expr or key from atom or string keys" do
+      assert ActivityLog.key_expr(%{key_expr: "fractalaw/@t/data/legislation/*"}) ==
+               "fractalaw/@t/data/legislation/*"
+
+      assert ActivityLog.key_expr(%{"key" => "fractalaw/@t/events/sync"}) ==
+               "fractalaw/@t/events/sync"
+
+      assert ActivityLog.key_expr(%{table: "uk_lrt"}) == nil
+    end
+  end
+
+  describe "live stream" do
+    test "broadcasts each recorded event with its service and key expression" do
+      :ok = ActivityLog.subscribe()
+
+      ActivityLog.record(:data_server, :query, %{key_expr: "fractalaw/@t/data/laws"})
+
+      assert_receive {:zenoh_activity, entry}
+      assert entry.service == :data_server
+      assert entry.event == :query
+      assert entry.key_expr == "fractalaw/@t/data/laws"
+      assert is_binary(entry.timestamp)
+    end
+
+    test "get_all_recent/1 merges services oldest first" do
+      ActivityLog.record(:taxa_subscriber, :updated, %{law_name: "UK_uksi_2024_1"})
+      ActivityLog.record(:change_notifier, :published, %{key_expr: "fractalaw/@t/events/sync"})
+      ActivityLog.record(:data_server, :query, %{key_expr: "fractalaw/@t/data/laws"})
+
+      assert [first, second, third] = ActivityLog.get_all_recent()
+      assert {first.service, second.service, third.service} ==
+               {:taxa_subscriber, :change_notifier, :data_server}
+
+      assert [%{service: :data_server}] = ActivityLog.get_all_recent(1)
+    end
+  end
+end
@@ -225,6 +225,31 @@ defmodule SertantaiLegalWeb.CascadeControllerTest do
     end
   end
 
+  describe "GET /api/cascade/graph" do
+    test "returns entries of every status for the session", %{conn: conn} do
+      conn = get(conn, ~p"/api/cascade/graph", %{session_id: @test_session_id})
+      response = json_response(conn, 200)
+
+      assert response["summary"] == %{
+               "total" => 3,
+               "pending" => 2,
+               "processed" => 1,
+               "deferred" => 0
+             }
+
+      processed = Enum.find(response["entries"], &(&1["affected_law"] == "UK_uksi_2025_300"))
+      assert processed["status"] == "processed"
+      assert processed["layer"] == 2
+      assert processed["source_laws"] == ["UK_uksi_2025_3"]
+    end
+
+    test "returns 400 without session_id", %{conn: conn} do
+      conn = get(conn, ~p"/api/cascade/graph")
+
+      assert json_response(conn, 400)["error"] =~ "session_id"
+    end
+  end
+
   describe "integration with cascade index endpoint" do
     test "index shows correct counts after clearing", %{conn: conn} do
       # Check initial counts
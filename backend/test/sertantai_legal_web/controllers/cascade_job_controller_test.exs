@@ -0,0 +1,97 @@
+defmodule SertantaiLegalWeb.CascadeJobControllerTest do
+  use SertantaiLegalWeb.ConnCase
+
+  alias SertantaiLegal.Scraper.CascadeJob
+
+  setup :setup_auth
+
+  setup %{conn: conn} do
+    {:ok, conn: put_admin_auth_header(conn)}
+  end
+
+  @session_id "2026-03-01-to-07"
+
+  defp running_job do
+    {:ok, job} =
+      CascadeJob.create(%{
+        session_id: @session_id,
+        start_layer: 1,
+        started_at: DateTime.utc_now()
+      })
+
+    job
+  end
+
+  describe "POST /api/cascade/jobs" do
+    test "requires a session_id", %{conn: conn} do
+      conn = post(conn, ~p"/api/cascade/jobs", %{})
+
+      assert %{"error" => "Missing required parameter: session_id"} = json_response(conn, 400)
+    end
+
+    test "rejects an out of range max_layer", %{conn: conn} do
+      conn = post(conn, ~p"/api/cascade/jobs", %{session_id: @session_id, max_layer: 11})
+
+      assert %{"error" => "Invalid max_layer: 11"} = json_response(conn, 422)
+    end
+
+    test "refuses a second job while one is running", %{conn: conn} do
+      running_job()
+
+      conn = post(conn, ~p"/api/cascade/jobs", %{session_id: @session_id})
+
+      assert %{"error" => _} = json_response(conn, 409)
+    end
+
+    test "requires admin authentication" do
+      conn = post(build_conn(), ~p"/api/cascade/jobs", %{session_id: @session_id})
+
+      assert conn.status == 401
+    end
+  end
+
+  describe "GET /api/cascade/jobs" do
+    test "lists a session's jobs", %{conn: conn} do
+      job = running_job()
+
+      response =
+        conn |> get(~p"/api/cascade/jobs", %{session_id: @session_id}) |> json_response(200)
+
+      assert response["count"] == 1
+      assert [%{"id" => id, "status" => "running", "max_layer" => 3}] = response["jobs"]
+      assert id == job.id
+    end
+  end
+
+  describe "GET /api/cascade/jobs/:id" do
+    test "returns 404 for an unknown job", %{conn: conn} do
+      conn = get(conn, ~p"/api/cascade/jobs/#{Ecto.UUID.generate()}")
+
+      assert %{"error" => "Job not found"} = json_response(conn, 404)
+    end
+  end
+
+  describe "POST /api/cascade/jobs/:id/cancel" do
+    test "requests cancellation of a running job", %{conn: conn} do
+      job = running_job()
+
+      response = conn |> post(~p"/api/cascade/jobs/#{job.id}/cancel") |> json_response(200)
+
+      assert response["status"] == "running"
+      assert response["cancel_requested_at"]
+    end
+
+    test "rejects a finished job", %{conn: conn} do
+      {:ok, job} =
+        CascadeJob.finish(running_job(), %{
+          status: :completed,
+          stop_reason: :fixed_point,
+          finished_at: DateTime.utc_now()
+        })
+
+      conn = post(conn, ~p"/api/cascade/jobs/#{job.id}/cancel")
+
+      assert %{"error" => "Job is not running (status: completed)"} = json_response(conn, 422)
+    end
+  end
+end
@@ -0,0 +1,145 @@
+defmodule SertantaiLegalWeb.RegisterSnapshotControllerTest do
+  use SertantaiLegalWeb.ConnCase
+
+  alias SertantaiLegal.Legal.RegisterSnapshot
+
+  setup :setup_auth
+
+  setup %{conn: conn} do
+    {:ok, conn: put_auth_header(conn)}
+  end
+
+  @records [
+    %{"id" => "rec-1", "name" => "UK_uksi_2025_1", "title_en" => "First Regulations"},
+    %{"id" => "rec-2", "name" => "UK_uksi_2025_2", "title_en" => "Second Regulations"}
+  ]
+
+  describe "POST /api/register-snapshots" do
+    test "saves a snapshot for the caller's organisation", %{conn: conn} do
+      conn =
+        post(conn, ~p"/api/register-snapshots", %{
+          name: "Q1 register",
+          where_clause: "family = 'FIRE'",
+          taken_at: "2026-03-01T09:00:00Z",
+          records: @records
+        })
+
+      response = json_response(conn, 201)
+      assert response["name"] == "Q1 register"
+      assert response["where_clause"] == "family = 'FIRE'"
+      assert response["record_count"] == 2
+      assert length(response["records"]) == 2
+
+      {:ok, saved} =
+        RegisterSnapshot.by_organization("test-org-00000000-0000-0000-0000-000000000001")
+
+      assert Enum.any?(saved, &(&1.id == response["id"]))
+    end
+
+    test "rejects a snapshot without a name", %{conn: conn} do
+      conn = post(conn, ~p"/api/register-snapshots", %{records: @records})
+
+      assert %{"error" => _} = json_response(conn, 422)
+    end
+
+    test "requires authentication" do
+      conn = post(build_conn(), ~p"/api/register-snapshots", %{name: "x", records: []})
+
+      assert conn.status == 401
+    end
+
+    test "returns 403 for a token without an organisation" do
+      token = build_token(%{"org_id" => nil})
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> post(~p"/api/register-snapshots", %{name: "x", records: []})
+
+      assert json_response(conn, 403) == %{"error" => "Token has no organisation"}
+    end
+  end
+
+  describe "GET /api/register-snapshots" do
+    test "lists snapshots without records", %{conn: conn} do
+      post(conn, ~p"/api/register-snapshots", %{name: "Listed", records: @records})
+
+      response = conn |> get(~p"/api/register-snapshots") |> json_response(200)
+
+      snapshot = Enum.find(response["snapshots"], &(&1["name"] == "Listed"))
+      assert snapshot["record_count"] == 2
+      refute Map.has_key?(snapshot, "records")
+    end
+
+    test "does not list other organisations' snapshots", %{conn: conn} do
+      post(conn, ~p"/api/register-snapshots", %{name: "Private", records: @records})
+
+      token = build_token(%{"org_id" => "other-org"})
+
+      response =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/register-snapshots")
+        |> json_response(200)
+
+      refute Enum.any?(response["snapshots"], &(&1["name"] == "Private"))
+    end
+  end
+
+  describe "GET /api/register-snapshots/:id" do
+    test "returns the snapshot with records", %{conn: conn} do
+      %{"id" => id} =
+        conn
+        |> post(~p"/api/register-snapshots", %{name: "Detail", records: @records})
+        |> json_response(201)
+
+      response = conn |> get(~p"/api/register-snapshots/#{id}") |> json_response(200)
+
+      assert response["id"] == id
+      assert Enum.map(response["records"], & &1["name"]) == ["UK_uksi_2025_1", "UK_uksi_2025_2"]
+    end
+
+    test "returns 404 for another organisation's snapshot", %{conn: conn} do
+      %{"id" => id} =
+        conn
+        |> post(~p"/api/register-snapshots", %{name: "Hidden", records: @records})
+        |> json_response(201)
+
+      token = build_token(%{"org_id" => "other-org"})
+
+      conn =
+        build_conn()
+        |> put_req_header("authorization", "Bearer #{token}")
+        |> get(~p"/api/register-snapshots/#{id}")
+
+      assert json_response(conn, 404) == %{"error" => "Snapshot not found"}
+    end
+
+    test "returns 404 for a malformed id", %{conn: conn} do
+      conn = get(conn, ~p"/api/register-snapshots/not-a-uuid")
+
+      assert json_response(conn, 404) == %{"error" => "Snapshot not found"}
+    end
+  end
+
+  describe "DELETE /api/register-snapshots/:id" do
+    test "deletes the snapshot", %{conn: conn} do
+      %{"id" => id} =
+        conn
+        |> post(~p"/api/register-snapshots", %{name: "Doomed", records: []})
+        |> json_response(201)
+
+      conn = delete(conn, ~p"/api/register-snapshots/#{id}")
+      assert json_response(conn, 200) == %{"message" => "Snapshot deleted", "id" => id}
+
+      conn = get(conn, ~p"/api/register-snapshots/#{id}")
+      assert json_response(conn, 404)
+    end
+
+    test "returns 404 for a missing snapshot", %{conn: conn} do
+      conn = delete(conn, ~p"/api/register-snapshots/#{Ecto.UUID.generate()}")
+
+      assert json_response(conn, 404) == %{"error" => "Snapshot not found"}
+    end
+  end
+end
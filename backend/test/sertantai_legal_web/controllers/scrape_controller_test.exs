@@ -338,6 +338,91 @@ defmodule SertantaiLegalWeb.ScrapeControllerTest do
     end
   end
 
+  describe "GET /api/sessions/:id/compare" do
+    @rerun_session_id "test-2024-12-01-to-05-rerun"
+
+    setup do
+      Storage.delete_session(@rerun_session_id)
+      on_exit(fn -> Storage.delete_session(@rerun_session_id) end)
+
+      {:ok, _session} =
+        ScrapeSession.create(%{
+          session_id: @test_session_id,
+          year: 2024,
+          month: 12,
+          day_from: 1,
+          day_to: 5
+        })
+
+      :ok
+    end
+
+    test "returns 404 when session does not exist", %{conn: conn} do
+      conn = get(conn, "/api/sessions/nonexistent/compare")
+
+      assert json_response(conn, 404)["error"] == "Session not found"
+    end
+
+    test "returns 400 when session is not a re-run", %{conn: conn} do
+      conn = get(conn, "/api/sessions/#{@test_session_id}/compare")
+
+      assert json_response(conn, 400)["error"] =~ "not a re-run"
+    end
+
+    test "returns 404 when the session to compare with does not exist", %{conn: conn} do
+      conn = get(conn, "/api/sessions/#{@test_session_id}/compare?with=nonexistent")
+
+      assert json_response(conn, 404)["error"] =~ "compare with not found"
+    end
+
+    test "compares a re-run with its original", %{conn: conn} do
+      {:ok, _rerun} =
+        ScrapeSession.create(%{
+          session_id: @rerun_session_id,
+          year: 2024,
+          month: 12,
+          day_from: 1,
+          day_to: 5,
+          rerun_of: @test_session_id
+        })
+
+      :ok =
+        Storage.save_json(@test_session_id, :group1, [
+          %{name: "UK_uksi_2024_1", Title_EN: "Kept"},
+          %{name: "UK_uksi_2024_2", Title_EN: "Withdrawn"}
+        ])
+
+      :ok = Storage.save_json(@test_session_id, :group2, [%{name: "UK_uksi_2024_3"}])
+
+      :ok =
+        Storage.save_json(@rerun_session_id, :group1, [
+          %{name: "UK_uksi_2024_1", Title_EN: "Kept"},
+          %{name: "UK_uksi_2024_3"},
+          %{name: "UK_uksi_2024_4", Title_EN: "Late"}
+        ])
+
+      conn = get(conn, "/api/sessions/#{@rerun_session_id}/compare")
+
+      response = json_response(conn, 200)
+      assert response["compared_with"] == @test_session_id
+      assert [%{"name" => "UK_uksi_2024_4", "group" => "group1"}] = response["appeared"]
+      assert [%{"name" => "UK_uksi_2024_2"}] = response["disappeared"]
+
+      assert [%{"name" => "UK_uksi_2024_3", "from" => "group2", "to" => "group1"}] =
+               response["moved"]
+
+      assert response["unchanged_count"] == 1
+    end
+  end
+
+  describe "POST /api/sessions/:id/rerun" do
+    test "returns 404 when session does not exist", %{conn: conn} do
+      conn = post(conn, "/api/sessions/nonexistent/rerun")
+
+      assert json_response(conn, 404)["error"] == "Session not found"
+    end
+  end
+
   describe "parameter validation" do
     # Note: Full scrape integration test requires HTTP mocking.
     # Parameter validation is tested via the 400 error tests above.
@@ -611,6 +696,36 @@ defmodule SertantaiLegalWeb.ScrapeControllerTest do
       assert result["status"] == "unchanged"
     end
 
+    test "skips parent laws whose enacting links are locked", %{conn: conn} do
+      alias SertantaiLegal.Legal.UkLrt
+
+      parent_law =
+        create_uk_lrt_record(%{
+          name: "ukpga/1974/37",
+          title_en: "Health and Safety at Work Act 1974",
+          type_code: "ukpga",
+          year: 1974,
+          number: "37",
+          enacting: ["uksi/2024/50"],
+          is_enacting: true,
+          locked_fields: ["enacting"]
+        })
+
+      Storage.add_affected_laws(@test_session_id, "uksi/2025/100", [], [], ["ukpga/1974/37"])
+
+      conn = post(conn, "/api/sessions/#{@test_session_id}/update-enacting-links", %{})
+
+      response = json_response(conn, 200)
+      assert response["success"] == 0
+
+      [result] = response["results"]
+      assert result["status"] == "skipped"
+      assert result["message"] =~ "locked"
+
+      {:ok, unchanged_law} = Ash.get(UkLrt, parent_law.id)
+      assert unchanged_law.enacting == ["uksi/2024/50"]
+    end
+
     test "returns error when parent law not in DB", %{conn: conn} do
       # Add affected laws for a parent that doesn't exist in DB
       Storage.add_affected_laws(@test_session_id, "uksi/2025/100", [], [], ["ukpga/9999/999"])
@@ -699,6 +814,72 @@ defmodule SertantaiLegalWeb.ScrapeControllerTest do
       assert "uksi/2025/100" in updated_law.enacting
       assert "uksi/2025/101" in updated_law.enacting
     end
+
+    test "dry run previews the change without writing", %{conn: conn} do
+      alias SertantaiLegal.Legal.UkLrt
+
+      parent_law =
+        create_uk_lrt_record(%{
+          name: "ukpga/1974/37",
+          title_en: "Health and Safety at Work Act 1974",
+          type_code: "ukpga",
+          year: 1974,
+          number: "37",
+          enacting: ["uksi/2024/50"],
+          is_enacting: true
+        })
+
+      Storage.add_affected_laws(@test_session_id, "uksi/2025/100", [], [], ["ukpga/1974/37"])
+
+      conn =
+        post(conn, "/api/sessions/#{@test_session_id}/update-enacting-links", %{
+          "dry_run" => true
+        })
+
+      response = json_response(conn, 200)
+      assert response["dry_run"] == true
+      assert response["success"] == 0
+
+      [result] = response["results"]
+      assert result["status"] == "preview"
+      assert result["current_enacting"] == ["uksi/2024/50"]
+      assert result["proposed_enacting"] == ["uksi/2024/50", "uksi/2025/100"]
+      assert result["added"] == ["uksi/2025/100"]
+
+      # Nothing written and the cascade entry is still pending
+      {:ok, unchanged_law} = Ash.get(UkLrt, parent_law.id)
+      assert unchanged_law.enacting == ["uksi/2024/50"]
+      assert Storage.get_affected_laws_summary(@test_session_id).pending_count == 1
+    end
+
+    test "adds only the links kept after a preview", %{conn: conn} do
+      alias SertantaiLegal.Legal.UkLrt
+
+      parent_law =
+        create_uk_lrt_record(%{
+          name: "ukpga/1974/37",
+          title_en: "Health and Safety at Work Act 1974",
+          type_code: "ukpga",
+          year: 1974,
+          number: "37",
+          enacting: [],
+          is_enacting: false
+        })
+
+      Storage.add_affected_laws(@test_session_id, "uksi/2025/100", [], [], ["ukpga/1974/37"])
+      Storage.add_affected_laws(@test_session_id, "uksi/2025/101", [], [], ["ukpga/1974/37"])
+
+      conn =
+        post(conn, "/api/sessions/#{@test_session_id}/update-enacting-links", %{
+          "links" => %{"ukpga/1974/37" => ["uksi/2025/101"]}
+        })
+
+      [result] = json_response(conn, 200)["results"]
+      assert result["added"] == ["uksi/2025/101"]
+
+      {:ok, updated_law} = Ash.get(UkLrt, parent_law.id)
+      assert updated_law.enacting == ["uksi/2025/101"]
+    end
   end
 
   describe "DELETE /api/sessions/:id/affected-laws" do
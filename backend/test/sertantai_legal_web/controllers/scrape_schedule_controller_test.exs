@@ -0,0 +1,155 @@
+defmodule SertantaiLegalWeb.ScrapeScheduleControllerTest do
+  use SertantaiLegalWeb.ConnCase
+
+  alias SertantaiLegal.Scraper.ScrapeSchedule
+  alias SertantaiLegal.Scraper.ScrapeScheduleRun
+
+  setup :setup_auth
+
+  setup %{conn: conn} do
+    {:ok, conn: put_admin_auth_header(conn)}
+  end
+
+  @weekly %{
+    name: "Weekly new laws",
+    frequency: "weekly",
+    day_of_week: 1,
+    hour: 6,
+    range: "previous_week"
+  }
+
+  defp create_schedule do
+    {:ok, schedule} =
+      ScrapeSchedule.create(%{@weekly | frequency: :weekly, range: :previous_week})
+
+    schedule
+  end
+
+  defp failed_run(schedule) do
+    {:ok, run} =
+      ScrapeScheduleRun.create(%{
+        schedule_id: schedule.id,
+        schedule_name: schedule.name,
+        date_from: ~D[2026-03-02],
+        date_to: ~D[2026-03-08],
+        started_at: DateTime.utc_now()
+      })
+
+    {:ok, run} =
+      ScrapeScheduleRun.finish(run, %{
+        status: :failed,
+        session_ids: ["2026-03-02-to-08"],
+        error_message: "2026-03-02-to-08: timeout",
+        finished_at: DateTime.utc_now()
+      })
+
+    run
+  end
+
+  describe "POST /api/scrape-schedules" do
+    test "creates a schedule and plans its next run", %{conn: conn} do
+      response = conn |> post(~p"/api/scrape-schedules", @weekly) |> json_response(201)
+
+      assert response["name"] == "Weekly new laws"
+      assert response["frequency"] == "weekly"
+      assert response["range"] == "previous_week"
+      assert response["type_code"] == nil
+      assert response["enabled"] == true
+
+      {:ok, next_run, _} = DateTime.from_iso8601(response["next_run_at"])
+      assert Date.day_of_week(next_run) == 1
+      assert next_run.hour == 6
+      assert DateTime.compare(next_run, DateTime.utc_now()) == :gt
+    end
+
+    test "rejects an unknown range", %{conn: conn} do
+      conn = post(conn, ~p"/api/scrape-schedules", %{@weekly | range: "previous_decade"})
+
+      assert %{"error" => _} = json_response(conn, 422)
+    end
+
+    test "requires admin authentication" do
+      conn = post(build_conn(), ~p"/api/scrape-schedules", @weekly)
+
+      assert conn.status == 401
+    end
+  end
+
+  describe "PATCH /api/scrape-schedules/:id" do
+    test "disabling a schedule clears its next run", %{conn: conn} do
+      schedule = create_schedule()
+
+      response =
+        conn
+        |> patch(~p"/api/scrape-schedules/#{schedule.id}", %{enabled: false})
+        |> json_response(200)
+
+      assert response["enabled"] == false
+      assert response["next_run_at"] == nil
+    end
+
+    test "returns 404 for a missing schedule", %{conn: conn} do
+      conn = patch(conn, ~p"/api/scrape-schedules/#{Ecto.UUID.generate()}", %{name: "x"})
+
+      assert json_response(conn, 404)["error"] == "Schedule not found"
+    end
+  end
+
+  describe "GET /api/scrape-schedules" do
+    test "lists schedules with the unacknowledged failure count", %{conn: conn} do
+      schedule = create_schedule()
+      failed_run(schedule)
+
+      response = conn |> get(~p"/api/scrape-schedules") |> json_response(200)
+
+      assert Enum.any?(response["schedules"], &(&1["id"] == schedule.id))
+      assert response["unacknowledged_failures"] >= 1
+    end
+  end
+
+  describe "run history" do
+    test "lists runs with their session ids and acknowledges failures", %{conn: conn} do
+      schedule = create_schedule()
+      run = failed_run(schedule)
+
+      response =
+        conn
+        |> get(~p"/api/scrape-schedules/runs?schedule_id=#{schedule.id}")
+        |> json_response(200)
+
+      assert [listed] = response["runs"]
+      assert listed["status"] == "failed"
+      assert listed["session_ids"] == ["2026-03-02-to-08"]
+      assert listed["acknowledged_at"] == nil
+
+      acknowledged =
+        conn
+        |> post(~p"/api/scrape-schedules/runs/#{run.id}/acknowledge")
+        |> json_response(200)
+
+      assert acknowledged["acknowledged_at"] != nil
+      {:ok, failures} = ScrapeScheduleRun.unacknowledged_failures()
+      refute Enum.any?(failures, &(&1.id == run.id))
+    end
+
+    test "rejects a malformed schedule_id", %{conn: conn} do
+      response =
+        conn
+        |> get(~p"/api/scrape-schedules/runs?schedule_id=abc")
+        |> json_response(400)
+
+      assert response["error"] == "Invalid schedule_id"
+    end
+  end
+
+  describe "DELETE /api/scrape-schedules/:id" do
+    test "deletes the schedule", %{conn: conn} do
+      schedule = create_schedule()
+
+      response = conn |> delete(~p"/api/scrape-schedules/#{schedule.id}") |> json_response(200)
+
+      assert response["id"] == schedule.id
+      assert {:error, _} = ScrapeSchedule.by_id(schedule.id)
+    end
+  end
+end
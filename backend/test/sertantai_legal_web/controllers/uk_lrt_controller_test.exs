@@ -126,6 +126,79 @@ defmodule SertantaiLegalWeb.UkLrtControllerTest do
 
       assert conn.status in [400, 404, 500]
     end
+
+    test "returns 422 for fields that cannot be locked", %{conn: conn} do
+      fake_id = Ecto.UUID.generate()
+
+      conn =
+        conn
+        |> put_auth_header()
+        |> patch("/api/uk-lrt/#{fake_id}", %{locked_fields: ["family", "not_a_field"]})
+
+      assert json_response(conn, 422)["error"] == "Cannot lock fields: not_a_field"
+    end
+
+    test "returns 422 for an unknown change_source", %{conn: conn} do
+      fake_id = Ecto.UUID.generate()
+
+      conn =
+        conn
+        |> put_auth_header()
+        |> patch("/api/uk-lrt/#{fake_id}", %{title_en: "New Title", change_source: "cascade"})
+
+      assert json_response(conn, 422)["error"] == ~s(Invalid change_source: "cascade")
+    end
+  end
+
+  describe "GET /api/uk-lrt/:id/history" do
+    test "returns 401 without auth", %{conn: conn} do
+      fake_id = Ecto.UUID.generate()
+      conn = get(conn, "/api/uk-lrt/#{fake_id}/history")
+
+      assert conn.status == 401
+    end
+
+    test "returns 404 when record not found", %{conn: conn} do
+      fake_id = Ecto.UUID.generate()
+      conn = conn |> put_auth_header() |> get("/api/uk-lrt/#{fake_id}/history")
+
+      assert json_response(conn, 404)["error"] == "Record not found"
+    end
+  end
+
+  describe "POST /api/uk-lrt/:id/revert" do
+    test "returns 401 without auth", %{conn: conn} do
+      fake_id = Ecto.UUID.generate()
+
+      conn =
+        post(conn, "/api/uk-lrt/#{fake_id}/revert", %{
+          timestamp: "2026-01-01T00:00:00Z",
+          field: "title_en"
+        })
+
+      assert conn.status == 401
+    end
+
+    test "returns 400 without timestamp and field", %{conn: conn} do
+      fake_id = Ecto.UUID.generate()
+      conn = conn |> put_auth_header() |> post("/api/uk-lrt/#{fake_id}/revert", %{})
+
+      assert json_response(conn, 400)["error"] =~ "timestamp, field"
+    end
+
+    test "returns 404 when record not found", %{conn: conn} do
+      fake_id = Ecto.UUID.generate()
+
+      conn =
+        conn
+        |> put_auth_header()
+        |> post("/api/uk-lrt/#{fake_id}/revert", %{
+          timestamp: "2026-01-01T00:00:00Z",
+          field: "title_en"
+        })
+
+      assert json_response(conn, 404)["error"] == "Record not found"
+    end
   end
 
   describe "DELETE /api/uk-lrt/:id" do
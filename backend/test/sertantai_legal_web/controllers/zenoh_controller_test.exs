@@ -0,0 +1,77 @@
+defmodule SertantaiLegalWeb.ZenohControllerTest do
+  use SertantaiLegalWeb.ConnCase
+
+  setup :setup_auth
+
+  describe "GET /api/zenoh/activity/stream" do
+    test "requires an admin", %{conn: conn} do
+      conn =
+        conn
+        |> put_auth_header(%{"role" => "member"})
+        |> get(~p"/api/zenoh/activity/stream")
+
+      assert %{"error" => "Admin privileges required"} = json_response(conn, 403)
+    end
+
+    test "accepts the token as a query parameter", %{conn: conn} do
+      token = build_token(%{"role" => "admin"})
+      conn = get(conn, ~p"/api/zenoh/activity/stream?token=#{token}")
+
+      assert conn.status == 200
+    end
+
+    test "ends the stream with a disabled event when Zenoh is off", %{conn: conn} do
+      conn =
+        conn
+        |> put_admin_auth_header()
+        |> get(~p"/api/zenoh/activity/stream")
+
+      assert conn.status == 200
+      assert [content_type | _] = get_resp_header(conn, "content-type")
+      assert content_type =~ "text/event-stream"
+      assert conn.resp_body == "data: #{Jason.encode!(%{type: "disabled"})}\n\n"
+    end
+  end
+
+  describe "POST /api/zenoh/query" do
+    test "requires an admin", %{conn: conn} do
+      conn =
+        conn
+        |> put_auth_header(%{"role" => "member"})
+        |> post(~p"/api/zenoh/query", %{key_expr: "fractalaw/@dev/data/legislation/lrt"})
+
+      assert json_response(conn, 403)
+    end
+
+    test "requires a key expression", %{conn: conn} do
+      conn = conn |> put_admin_auth_header() |> post(~p"/api/zenoh/query", %{})
+
+      assert %{"error" => "key_expr is required"} = json_response(conn, 400)
+    end
+
+    test "rejects key expressions outside the DataServer's queryables", %{conn: conn} do
+      conn = put_admin_auth_header(conn)
+
+      for key_expr <- [
+            "fractalaw/@dev/events/sync",
+            "fractalaw/@dev/data/legislation/lat/*",
+            "fractalaw/@dev/data/legislation/lat/",
+            "fractalaw/@other/data/legislation/lrt"
+          ] do
+        conn = post(conn, ~p"/api/zenoh/query", %{key_expr: key_expr})
+        assert %{"error" => _} = json_response(conn, 400)
+      end
+    end
+
+    test "is unavailable when Zenoh is off", %{conn: conn} do
+      conn =
+        conn
+        |> put_admin_auth_header()
+        |> post(~p"/api/zenoh/query", %{
+          key_expr: "fractalaw/@dev/data/legislation/lat/UK_uksi_2024_1"
+        })
+
+      assert %{"error" => "Zenoh is disabled"} = json_response(conn, 503)
+    end
+  end
+end
@@ -32,6 +32,8 @@ export interface ScrapeSession {
 	group2_count: number;
 	group3_count: number;
 	persisted_count: number;
+	/** session_id of the session this one re-scraped, if it is a re-run */
+	rerun_of: string | null;
 	inserted_at: string;
 	updated_at: string;
 }
@@ -244,6 +246,73 @@ export async function deleteSession(sessionId: string): Promise<{ message: strin
 	return response.json();
 }
 
+// ============================================================================
+// Re-run and Compare API
+// ============================================================================
+
+export type SessionGroup = 'group1' | 'group2' | 'group3';
+
+export interface ComparedRecord {
+	name: string;
+	title: string | null;
+	group: SessionGroup;
+}
+
+export interface MovedRecord {
+	name: string;
+	title: string | null;
+	from: SessionGroup;
+	to: SessionGroup;
+}
+
+/**
+ * Differences between a session and the session it is compared with
+ */
+export interface SessionComparison {
+	session_id: string;
+	compared_with: string;
+	appeared: ComparedRecord[];
+	disappeared: ComparedRecord[];
+	moved: MovedRecord[];
+	unchanged_count: number;
+}
+
+/**
+ * Scrape a session's date range again as a new session and compare the two
+ */
+export async function rerunSession(
+	sessionId: string
+): Promise<{ session: ScrapeSession; comparison: SessionComparison }> {
+	const response = await adminFetch(`${API_URL}/api/sessions/${sessionId}/rerun`, {
+		method: 'POST'
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to re-run session');
+	}
+
+	return response.json();
+}
+
+/**
+ * Compare a session with another (by default the session it is a re-run of)
+ */
+export async function getSessionComparison(
+	sessionId: string,
+	compareWith?: string
+): Promise<SessionComparison> {
+	const params = compareWith ? `?with=${encodeURIComponent(compareWith)}` : '';
+	const response = await adminFetch(`${API_URL}/api/sessions/${sessionId}/compare${params}`);
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to compare sessions');
+	}
+
+	return response.json();
+}
+
 // ============================================================================
 // Reparse Session API
 // ============================================================================
@@ -316,6 +385,8 @@ export interface ParseOneResult {
 		title_en?: string;
 		family?: string;
 		updated_at?: string;
+		/** Hand-curated fields a reparse must leave unchanged */
+		locked_fields?: string[];
 		record?: Record<string, unknown>;
 	} | null;
 }
@@ -594,16 +665,29 @@ export async function clearAffectedLaws(sessionId: string): Promise<{ message: s
 
 export interface UpdateEnactingResultItem {
 	name: string;
-	status: 'success' | 'error' | 'unchanged' | 'skipped';
+	status: 'success' | 'error' | 'unchanged' | 'skipped' | 'preview';
 	message: string;
 	added?: string[];
 	added_count?: number;
 	new_total?: number;
 	current_count?: number;
+	/** Dry run only: the parent's enacting array before and after the update */
+	current_enacting?: string[];
+	proposed_enacting?: string[];
+}
+
+/** Parent law name => source laws to add (the links kept after a preview) */
+export type EnactingLinkSelection = Record<string, string[]>;
+
+export interface EnactingUpdateOptions {
+	/** Report before/after enacting arrays (status "preview") without writing */
+	dryRun?: boolean;
+	links?: EnactingLinkSelection;
 }
 
 export interface UpdateEnactingLinksResult {
 	session_id: string;
+	dry_run: boolean;
 	total: number;
 	success: number;
 	unchanged: number;
@@ -615,16 +699,17 @@ export interface UpdateEnactingLinksResult {
  * Update enacting arrays on parent laws directly.
  * Unlike amending/rescinding (which requires re-parsing), enacting relationships
  * are derived from enacted_by. This endpoint directly appends source laws to
- * parent laws' enacting arrays.
+ * parent laws' enacting arrays. With `dryRun` nothing is written.
  */
 export async function updateEnactingLinks(
 	sessionId: string,
-	names?: string[]
+	names?: string[],
+	options: EnactingUpdateOptions = {}
 ): Promise<UpdateEnactingLinksResult> {
 	const response = await adminFetch(`${API_URL}/api/sessions/${sessionId}/update-enacting-links`, {
 		method: 'POST',
 		headers: { 'Content-Type': 'application/json' },
-		body: JSON.stringify({ names })
+		body: JSON.stringify({ names, dry_run: options.dryRun, links: options.links })
 	});
 
 	if (!response.ok) {
@@ -715,12 +800,62 @@ export interface CascadeSessionsResult {
 	sessions: CascadeSession[];
 }
 
+export type CascadeStatus = 'pending' | 'processed' | 'deferred';
+
+/** A cascade entry of any status, as drawn in the cascade graph */
+export interface CascadeGraphEntry {
+	id: string;
+	affected_law: string;
+	update_type: 'reparse' | 'enacting_link';
+	status: CascadeStatus;
+	source_laws: string[];
+	layer: number;
+	title_en: string | null;
+	in_db: boolean;
+}
+
+export interface CascadeGraphResult {
+	session_id: string;
+	entries: CascadeGraphEntry[];
+	/** Titles of graphed laws that are in uk_lrt, keyed by name */
+	source_titles: Record<string, string | null>;
+	summary: Record<CascadeStatus | 'total', number>;
+}
+
+export type CascadeJobStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface CascadeJob {
+	id: string;
+	session_id: string;
+	status: CascadeJobStatus;
+	stop_reason: 'fixed_point' | 'max_depth' | 'cancelled' | 'error' | null;
+	start_layer: number | null;
+	current_layer: number | null;
+	max_layer: number;
+	current_law: string | null;
+	processed_count: number;
+	error_count: number;
+	skipped_count: number;
+	new_entries_count: number;
+	/** Laws reached again through a cycle and not re-parsed */
+	cycles: string[];
+	errors: { law: string; message: string }[];
+	started_by: string | null;
+	error_message: string | null;
+	started_at: string;
+	cancel_requested_at: string | null;
+	finished_at: string | null;
+}
+
 export interface CascadeOperationResultItem {
 	id: string;
 	affected_law: string;
-	status: 'success' | 'error' | 'unchanged' | 'exists' | 'skipped';
+	status: 'success' | 'error' | 'unchanged' | 'exists' | 'skipped' | 'preview';
 	message: string;
 	current_enacting?: string[];
+	/** Dry run only: the enacting array after the update and the links it adds */
+	proposed_enacting?: string[];
+	added?: string[];
 }
 
 export interface CascadeOperationResult {
@@ -764,6 +899,74 @@ export async function getCascadeSessions(): Promise<CascadeSessionsResult> {
 	return response.json();
 }
 
+/**
+ * Get every cascade entry of a session (any status) for the cascade graph
+ */
+export async function getCascadeGraph(sessionId: string): Promise<CascadeGraphResult> {
+	const response = await adminFetch(
+		`${API_URL}/api/cascade/graph?session_id=${encodeURIComponent(sessionId)}`
+	);
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to fetch cascade graph');
+	}
+
+	return response.json();
+}
+
+/**
+ * Cascade auto-run jobs of a session, newest first
+ */
+export async function getCascadeJobs(sessionId: string): Promise<CascadeJob[]> {
+	const response = await adminFetch(
+		`${API_URL}/api/cascade/jobs?session_id=${encodeURIComponent(sessionId)}`
+	);
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to fetch cascade jobs');
+	}
+
+	const data = await response.json();
+	return data.jobs;
+}
+
+/**
+ * Start a cascade auto-run that processes the session's cascade layer by
+ * layer until no new affected laws are produced (or max_layer is reached)
+ */
+export async function startCascadeJob(sessionId: string, maxLayer?: number): Promise<CascadeJob> {
+	const response = await adminFetch(`${API_URL}/api/cascade/jobs`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ session_id: sessionId, max_layer: maxLayer })
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to start cascade job');
+	}
+
+	return response.json();
+}
+
+/**
+ * Ask a running cascade job to stop after the law it is processing
+ */
+export async function cancelCascadeJob(id: string): Promise<CascadeJob> {
+	const response = await adminFetch(`${API_URL}/api/cascade/jobs/${id}/cancel`, {
+		method: 'POST'
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to cancel cascade job');
+	}
+
+	return response.json();
+}
+
 /**
  * Batch re-parse cascade entries by ID
  */
@@ -783,13 +986,17 @@ export async function cascadeReparse(ids: string[]): Promise<CascadeOperationRes
 }
 
 /**
- * Update enacting links for cascade entries by ID
+ * Update enacting links for cascade entries by ID. With `dryRun` nothing is
+ * written and each parent's before/after enacting array is returned.
  */
-export async function cascadeUpdateEnacting(ids: string[]): Promise<CascadeOperationResult> {
+export async function cascadeUpdateEnacting(
+	ids: string[],
+	options: EnactingUpdateOptions = {}
+): Promise<CascadeOperationResult> {
 	const response = await adminFetch(`${API_URL}/api/cascade/update-enacting`, {
 		method: 'POST',
 		headers: { 'Content-Type': 'application/json' },
-		body: JSON.stringify({ ids })
+		body: JSON.stringify({ ids, dry_run: options.dryRun, links: options.links })
 	});
 
 	if (!response.ok) {
@@ -998,12 +1205,7 @@ export function mapStageError(stage: string, error: string): string {
 // ============================================================================
 
 export type ParseStage =
-	| 'metadata'
-	| 'extent'
-	| 'enacted_by'
-	| 'amending'
-	| 'amended_by'
-	| 'repeal_revoke';
+	'metadata' | 'extent' | 'enacted_by' | 'amending' | 'amended_by' | 'repeal_revoke';
 
 export interface ParseStageStartEvent {
 	event: 'stage_start';
@@ -1026,9 +1228,7 @@ export interface ParseCompleteEvent {
 }
 
 export type ParseProgressEvent =
-	| ParseStageStartEvent
-	| ParseStageCompleteEvent
-	| ParseCompleteEvent;
+	ParseStageStartEvent | ParseStageCompleteEvent | ParseCompleteEvent;
 
 export interface ParseProgressCallbacks {
 	onStageStart?: (stage: ParseStage, stageNum: number, total: number) => void;
@@ -1066,8 +1266,7 @@ export function parseOneStream(
 	eventSource.onmessage = (event) => {
 		try {
 			const data = JSON.parse(event.data) as
-				| ParseProgressEvent
-				| { event: 'connected'; name: string };
+				ParseProgressEvent | { event: 'connected'; name: string };
 
 			switch (data.event) {
 				case 'connected':
@@ -1143,8 +1342,7 @@ export function parseRecordStream(
 	eventSource.onmessage = (event) => {
 		try {
 			const data = JSON.parse(event.data) as
-				| ParseProgressEvent
-				| { event: 'connected'; name: string };
+				ParseProgressEvent | { event: 'connected'; name: string };
 
 			switch (data.event) {
 				case 'connected':
@@ -1243,3 +1441,238 @@ export async function updateUkLrtRecord(
 
 	return response.json();
 }
+
+/** Where a change to a UK LRT record came from */
+export type ChangeSource =
+	'scraper' | 'parse_confirm' | 'cascade' | 'bulk' | 'inline_edit' | 'revert';
+
+export interface FieldChange {
+	old: unknown;
+	new: unknown;
+}
+
+/** One entry of a UK LRT record's `record_change_log` */
+export interface ChangeLogEntry {
+	timestamp: string;
+	source: ChangeSource | string;
+	changed_by: string;
+	/** JWT user id; null for system changes and entries logged before actors were recorded */
+	actor?: string | null;
+	summary: string;
+	changes: Record<string, FieldChange>;
+}
+
+export interface RecordHistory {
+	id: string;
+	name: string;
+	/** Newest first */
+	entries: ChangeLogEntry[];
+	count: number;
+}
+
+/**
+ * Get the change history of a UK LRT record
+ */
+export async function getUkLrtHistory(recordId: string): Promise<RecordHistory> {
+	const response = await adminFetch(`${API_URL}/api/uk-lrt/${recordId}/history`);
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to fetch record history');
+	}
+
+	return response.json();
+}
+
+/**
+ * Revert one field of a UK LRT record to its value before a change log entry
+ */
+export async function revertUkLrtField(
+	recordId: string,
+	timestamp: string,
+	field: string
+): Promise<Record<string, unknown>> {
+	const response = await adminFetch(`${API_URL}/api/uk-lrt/${recordId}/revert`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ timestamp, field })
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to revert field');
+	}
+
+	return response.json();
+}
+
+// ============================================================================
+// Scrape Schedules (recurring scrapes)
+// ============================================================================
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'monthly';
+export type ScheduleRange = 'previous_day' | 'previous_week' | 'previous_month';
+
+export interface ScrapeSchedule {
+	id: string;
+	name: string;
+	enabled: boolean;
+	frequency: ScheduleFrequency;
+	/** ISO weekday for weekly schedules (1 = Monday) */
+	day_of_week: number | null;
+	/** Day of month (1-28) for monthly schedules */
+	day_of_month: number | null;
+	/** Hour of day, UTC */
+	hour: number;
+	range: ScheduleRange;
+	/** null = all type codes */
+	type_code: string | null;
+	last_run_at: string | null;
+	next_run_at: string | null;
+	created_by: string | null;
+	inserted_at: string;
+}
+
+export type ScrapeScheduleInput = Pick<
+	ScrapeSchedule,
+	'name' | 'enabled' | 'frequency' | 'day_of_week' | 'day_of_month' | 'hour' | 'range'
+> & { type_code: string | null };
+
+export interface ScrapeSchedulesResult {
+	schedules: ScrapeSchedule[];
+	count: number;
+	unacknowledged_failures: number;
+}
+
+export interface ScrapeScheduleRun {
+	id: string;
+	schedule_id: string;
+	schedule_name: string | null;
+	trigger: 'scheduled' | 'manual';
+	status: 'running' | 'succeeded' | 'failed';
+	date_from: string;
+	date_to: string;
+	/** session_id of each ScrapeSession the run produced (one per month) */
+	session_ids: string[];
+	error_message: string | null;
+	started_at: string;
+	finished_at: string | null;
+	acknowledged_at: string | null;
+}
+
+/**
+ * List scrape schedules with the count of unacknowledged failed runs
+ */
+export async function getScrapeSchedules(): Promise<ScrapeSchedulesResult> {
+	const response = await adminFetch(`${API_URL}/api/scrape-schedules`);
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to fetch schedules');
+	}
+
+	return response.json();
+}
+
+/**
+ * Create a recurring scrape schedule
+ */
+export async function createScrapeSchedule(params: ScrapeScheduleInput): Promise<ScrapeSchedule> {
+	const response = await adminFetch(`${API_URL}/api/scrape-schedules`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(params)
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to create schedule');
+	}
+
+	return response.json();
+}
+
+/**
+ * Edit a scrape schedule (the next run time is recalculated)
+ */
+export async function updateScrapeSchedule(
+	id: string,
+	params: Partial<ScrapeScheduleInput>
+): Promise<ScrapeSchedule> {
+	const response = await adminFetch(`${API_URL}/api/scrape-schedules/${id}`, {
+		method: 'PATCH',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(params)
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to update schedule');
+	}
+
+	return response.json();
+}
+
+/**
+ * Delete a scrape schedule (its run history is kept)
+ */
+export async function deleteScrapeSchedule(id: string): Promise<{ message: string }> {
+	const response = await adminFetch(`${API_URL}/api/scrape-schedules/${id}`, {
+		method: 'DELETE'
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to delete schedule');
+	}
+
+	return response.json();
+}
+
+/**
+ * Start a schedule run now, in the background
+ */
+export async function runScrapeSchedule(id: string): Promise<{ message: string }> {
+	const response = await adminFetch(`${API_URL}/api/scrape-schedules/${id}/run`, {
+		method: 'POST'
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to start schedule run');
+	}
+
+	return response.json();
+}
+
+/**
+ * Recent schedule runs, newest first
+ */
+export async function getScrapeScheduleRuns(scheduleId?: string): Promise<ScrapeScheduleRun[]> {
+	const query = scheduleId ? `?schedule_id=${encodeURIComponent(scheduleId)}` : '';
+	const response = await adminFetch(`${API_URL}/api/scrape-schedules/runs${query}`);
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to fetch schedule runs');
+	}
+
+	const data = await response.json();
+	return data.runs;
+}
+
+/**
+ * Acknowledge a failed schedule run so it is no longer flagged
+ */
+export async function acknowledgeScrapeScheduleRun(id: string): Promise<ScrapeScheduleRun> {
+	const response = await adminFetch(`${API_URL}/api/scrape-schedules/runs/${id}/acknowledge`, {
+		method: 'POST'
+	});
+
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Failed to acknowledge run');
+	}
+
+	return response.json();
+}
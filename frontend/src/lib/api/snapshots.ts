@@ -0,0 +1,56 @@
+/**
+ * Register Snapshot API Client
+ *
+ * Saves and loads point-in-time register snapshots on the backend.
+ * Snapshots are scoped to the organisation in the JWT.
+ */
+
+import type { RegisterSnapshotSummary, SnapshotRecord } from '$lib/snapshots/snapshots';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:4003';
+
+export interface ServerSnapshot extends RegisterSnapshotSummary {
+	records: SnapshotRecord[];
+}
+
+async function fetchWithAuth(url: string, options: RequestInit = {}): Promise<Response> {
+	const { authFetch } = await import('$lib/api/client');
+	const response = await authFetch(url, options);
+
+	if (!response.ok) {
+		const body = await response.json().catch(() => ({ error: response.statusText }));
+		throw new Error(body.error || `HTTP ${response.status}`);
+	}
+
+	return response;
+}
+
+export async function listRegisterSnapshots(): Promise<{
+	snapshots: RegisterSnapshotSummary[];
+	count: number;
+}> {
+	const response = await fetchWithAuth(`${API_URL}/api/register-snapshots`);
+	return response.json();
+}
+
+export async function getRegisterSnapshot(id: string): Promise<ServerSnapshot> {
+	const url = `${API_URL}/api/register-snapshots/${encodeURIComponent(id)}`;
+	const response = await fetchWithAuth(url);
+	return response.json();
+}
+
+export async function createRegisterSnapshot(
+	snapshot: Omit<ServerSnapshot, 'id' | 'record_count'>
+): Promise<ServerSnapshot> {
+	const response = await fetchWithAuth(`${API_URL}/api/register-snapshots`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(snapshot)
+	});
+	return response.json();
+}
+
+export async function deleteRegisterSnapshot(id: string): Promise<void> {
+	const url = `${API_URL}/api/register-snapshots/${encodeURIComponent(id)}`;
+	await fetchWithAuth(url, { method: 'DELETE' });
+}
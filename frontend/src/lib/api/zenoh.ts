@@ -7,6 +7,7 @@
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:4003';
 
 import { authFetch } from '$lib/api/client';
+import { getAuthToken } from '$lib/stores/auth';
 
 async function adminFetch(url: string, options: RequestInit = {}): Promise<Response> {
 	return authFetch(url, options);
@@ -20,6 +21,24 @@ export interface ActivityEntry {
 	timestamp: string;
 }
 
+/** An activity entry from the live stream, tagged with the service that logged it */
+export interface ActivityStreamEntry extends ActivityEntry {
+	service: string;
+	key_expr: string | null;
+}
+
+export type ActivityStreamMessage =
+	| { type: 'backlog'; entries: ActivityStreamEntry[] }
+	| { type: 'activity'; entry: ActivityStreamEntry }
+	| { type: 'disabled' };
+
+export interface ActivityStreamCallbacks {
+	onBacklog?: (entries: ActivityStreamEntry[]) => void;
+	onEntry?: (entry: ActivityStreamEntry) => void;
+	onDisabled?: () => void;
+	onError?: (error: Error) => void;
+}
+
 export interface ServiceStats {
 	status: string;
 	[key: string]: unknown;
@@ -60,6 +79,20 @@ export interface QueryablesResponse {
 	change_notifier: ServiceData<NotifierStatus>;
 }
 
+export interface ZenohQueryReply {
+	/** Key expression the reply was sent on; null for error replies */
+	key_expr: string | null;
+	ok: boolean;
+	/** Decoded JSON, or the raw payload if it wasn't JSON */
+	payload: unknown;
+}
+
+export interface ZenohQueryResult {
+	key_expr: string;
+	duration_ms: number;
+	replies: ZenohQueryReply[];
+}
+
 // --- API Functions ---
 
 export async function getSubscriptions(): Promise<SubscriptionsResponse> {
@@ -79,3 +112,61 @@ export async function getQueryables(): Promise<QueryablesResponse> {
 	}
 	return res.json();
 }
+
+export async function queryZenoh(keyExpr: string): Promise<ZenohQueryResult> {
+	const res = await adminFetch(`${API_URL}/api/zenoh/query`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ key_expr: keyExpr })
+	});
+	if (!res.ok) {
+		const body = await res.json().catch(() => ({}));
+		throw new Error(body.error || `Failed to query ${keyExpr}: ${res.statusText}`);
+	}
+	return res.json();
+}
+
+/**
+ * Stream Zenoh activity across all services via SSE.
+ * The first message replays recent activity; after that each event arrives as it is logged.
+ * Returns a cleanup function to close the connection.
+ */
+export function streamActivity(callbacks: ActivityStreamCallbacks): () => void {
+	let url = `${API_URL}/api/zenoh/activity/stream`;
+	// EventSource doesn't support custom headers — pass token as query param
+	const token = getAuthToken();
+	if (token) {
+		url += `?token=${encodeURIComponent(token)}`;
+	}
+	const eventSource = new EventSource(url);
+
+	eventSource.onmessage = (event) => {
+		try {
+			const data = JSON.parse(event.data) as ActivityStreamMessage;
+
+			switch (data.type) {
+				case 'backlog':
+					callbacks.onBacklog?.(data.entries);
+					break;
+				case 'activity':
+					callbacks.onEntry?.(data.entry);
+					break;
+				case 'disabled':
+					// Nothing will ever arrive — stop EventSource from reconnecting
+					eventSource.close();
+					callbacks.onDisabled?.();
+					break;
+			}
+		} catch (err) {
+			console.error('Failed to parse SSE event:', err);
+		}
+	};
+
+	eventSource.onerror = () => {
+		// Still reconnecting on its own; only report a closed connection
+		if (eventSource.readyState === EventSource.CONNECTING) return;
+		callbacks.onError?.(new Error('Activity stream connection lost'));
+	};
+
+	return () => eventSource.close();
+}
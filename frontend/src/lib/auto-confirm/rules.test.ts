@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+	createRule,
+	decideAutoConfirm,
+	evaluateCondition,
+	evaluateRule,
+	logEntriesFor,
+	type AutoConfirmRule
+} from './rules';
+import type { ParseOneResult, StageResult } from '$lib/api/scraper';
+
+const ok: StageResult = { status: 'ok', data: null, error: null };
+
+function parsed(overrides: Partial<ParseOneResult> = {}): ParseOneResult {
+	return {
+		session_id: 's',
+		name: 'uksi/2026/101',
+		record: {
+			name: 'uksi/2026/101',
+			type_code: 'uksi',
+			title_en: 'Test Regulations',
+			family: 'FIRE'
+		},
+		stages: {
+			metadata: ok,
+			extent: ok,
+			enacted_by: ok,
+			amending: ok,
+			amended_by: ok,
+			repeal_revoke: ok,
+			taxa: ok
+		},
+		errors: [],
+		has_errors: false,
+		duplicate: null,
+		...overrides
+	};
+}
+
+function rule(overrides: Partial<AutoConfirmRule> = {}): AutoConfirmRule {
+	return {
+		...createRule('Clean SIs', [
+			{ kind: 'no_errors' },
+			{ kind: 'type_code_in', type_codes: ['uksi'] }
+		]),
+		...overrides
+	};
+}
+
+describe('evaluateCondition', () => {
+	it('checks stage statuses, optionally allowing skipped stages', () => {
+		const result = parsed();
+		result.stages.taxa = { status: 'skipped', data: null, error: null };
+		expect(
+			evaluateCondition({ kind: 'all_stages_ok', allow_skipped: false }, result)
+		).toMatchObject({
+			passed: false,
+			reason: 'taxa skipped'
+		});
+		expect(evaluateCondition({ kind: 'all_stages_ok', allow_skipped: true }, result).passed).toBe(
+			true
+		);
+
+		result.stages.extent = { status: 'error', data: null, error: 'timeout' };
+		expect(evaluateCondition({ kind: 'all_stages_ok', allow_skipped: true }, result).passed).toBe(
+			false
+		);
+	});
+
+	it('fails all_stages_ok when no stages were reported', () => {
+		const result = parsed({ stages: {} as ParseOneResult['stages'] });
+		expect(evaluateCondition({ kind: 'all_stages_ok', allow_skipped: true }, result)).toMatchObject(
+			{ passed: false, reason: 'no stages reported' }
+		);
+	});
+
+	it('checks errors, duplicates and type codes', () => {
+		expect(evaluateCondition({ kind: 'no_errors' }, parsed()).passed).toBe(true);
+		expect(
+			evaluateCondition({ kind: 'no_errors' }, parsed({ has_errors: true, errors: ['x'] })).passed
+		).toBe(false);
+
+		expect(evaluateCondition({ kind: 'no_duplicate' }, parsed()).passed).toBe(true);
+		expect(
+			evaluateCondition({ kind: 'no_duplicate' }, parsed({ duplicate: { exists: true } })).passed
+		).toBe(false);
+
+		expect(
+			evaluateCondition({ kind: 'type_code_in', type_codes: ['ukpga'] }, parsed()).passed
+		).toBe(false);
+	});
+
+	it('compares fields with the existing record', () => {
+		const condition = { kind: 'fields_unchanged' as const, fields: ['family', 'md_description'] };
+		expect(evaluateCondition(condition, parsed()).reason).toBe('new law');
+
+		const same = parsed({ duplicate: { exists: true, record: { family: 'FIRE' } } });
+		expect(evaluateCondition(condition, same).passed).toBe(true);
+
+		const changed = parsed({ duplicate: { exists: true, record: { family: 'OH&S' } } });
+		expect(evaluateCondition(condition, changed)).toMatchObject({
+			passed: false,
+			reason: 'changes family'
+		});
+	});
+});
+
+describe('evaluateRule', () => {
+	it('needs every condition to pass', () => {
+		expect(evaluateRule(rule(), parsed()).passed).toBe(true);
+		expect(evaluateRule(rule(), parsed({ has_errors: true })).passed).toBe(false);
+	});
+
+	it('never matches disabled rules or rules without conditions', () => {
+		expect(evaluateRule(rule({ enabled: false }), parsed()).passed).toBe(false);
+		expect(evaluateRule(rule({ conditions: [] }), parsed()).passed).toBe(false);
+	});
+});
+
+describe('decideAutoConfirm', () => {
+	it('confirms on the first active match and reports dry-run matches', () => {
+		const dryRun = rule({ name: 'Trial' });
+		const active = rule({ name: 'Live', mode: 'active' });
+		const decision = decideAutoConfirm([dryRun, active], parsed());
+		expect(decision.matched?.name).toBe('Live');
+		expect(decision.dryRunMatches.map((r) => r.name)).toEqual(['Trial']);
+	});
+
+	it('does not confirm when only dry-run rules match', () => {
+		const decision = decideAutoConfirm([rule()], parsed());
+		expect(decision.matched).toBeNull();
+		expect(decision.dryRunMatches).toHaveLength(1);
+	});
+
+	it('never matches results with parse errors', () => {
+		const stagesOnly = rule({
+			mode: 'active',
+			conditions: [{ kind: 'all_stages_ok', allow_skipped: true }]
+		});
+		const decision = decideAutoConfirm([stagesOnly], parsed({ has_errors: true, errors: ['x'] }));
+		expect(decision.evaluations[0].passed).toBe(true);
+		expect(decision.matched).toBeNull();
+		expect(decision.dryRunMatches).toEqual([]);
+	});
+
+	it('skips disabled rules', () => {
+		const decision = decideAutoConfirm([rule({ enabled: false, mode: 'active' })], parsed());
+		expect(decision.matched).toBeNull();
+		expect(decision.evaluations).toEqual([]);
+	});
+});
+
+describe('logEntriesFor', () => {
+	it('logs one entry per mode that matched', () => {
+		const decision = decideAutoConfirm(
+			[rule({ name: 'Live', mode: 'active' }), rule({ name: 'Trial' })],
+			parsed()
+		);
+		const entries = logEntriesFor(decision, 'session-1', parsed());
+		expect(entries.map((e) => [e.mode, e.rule_names])).toEqual([
+			['active', ['Live']],
+			['dry_run', ['Trial']]
+		]);
+		expect(entries[0]).toMatchObject({
+			session_id: 'session-1',
+			name: 'uksi/2026/101',
+			title: 'Test Regulations'
+		});
+	});
+
+	it('logs nothing when no rule matched', () => {
+		const decision = decideAutoConfirm([rule()], parsed({ has_errors: true }));
+		expect(logEntriesFor(decision, 's', parsed())).toEqual([]);
+	});
+});
@@ -0,0 +1,251 @@
+/**
+ * Auto-confirm rules for low-risk parse results
+ *
+ * An admin-defined rule is a list of conditions on a ParseOneResult. When every
+ * condition of an enabled rule holds, the parsed record can be confirmed without
+ * review. Rules in 'dry_run' mode never confirm anything; their matches are only
+ * logged so admins can see what a rule would have done before switching it on.
+ */
+
+import type { ParseOneResult } from '$lib/api/scraper';
+
+export type RuleCondition =
+	/** Every parse stage finished ok (optionally allowing skipped stages); fails if none ran */
+	| { kind: 'all_stages_ok'; allow_skipped: boolean }
+	/** The parse reported no errors */
+	| { kind: 'no_errors' }
+	/** The law is not already in uk_lrt */
+	| { kind: 'no_duplicate' }
+	/** The law's type_code is one of these */
+	| { kind: 'type_code_in'; type_codes: string[] }
+	/** For laws already in uk_lrt, the parse leaves these fields as they are */
+	| { kind: 'fields_unchanged'; fields: string[] };
+
+export type RuleConditionKind = RuleCondition['kind'];
+
+export type RuleMode = 'active' | 'dry_run';
+
+export interface AutoConfirmRule {
+	id: string;
+	name: string;
+	enabled: boolean;
+	mode: RuleMode;
+	conditions: RuleCondition[];
+	created_at: string;
+	updated_at: string;
+}
+
+export interface ConditionCheck {
+	condition: RuleCondition;
+	passed: boolean;
+	reason: string;
+}
+
+export interface RuleEvaluation {
+	rule: AutoConfirmRule;
+	passed: boolean;
+	checks: ConditionCheck[];
+}
+
+export interface AutoConfirmDecision {
+	/** First active rule that matched — confirm when set */
+	matched: AutoConfirmRule | null;
+	/** Dry-run rules that would have confirmed the record */
+	dryRunMatches: AutoConfirmRule[];
+	evaluations: RuleEvaluation[];
+}
+
+export const CONDITION_LABELS: Record<RuleConditionKind, string> = {
+	all_stages_ok: 'All parse stages ok',
+	no_errors: 'No parse errors',
+	no_duplicate: 'Not already in the database',
+	type_code_in: 'Type code is one of',
+	fields_unchanged: 'Fields unchanged'
+};
+
+/**
+ * A fresh rule, in dry-run mode so it cannot confirm anything until switched on.
+ */
+export function createRule(name: string, conditions: RuleCondition[] = []): AutoConfirmRule {
+	const now = new Date().toISOString();
+	return {
+		id: crypto.randomUUID(),
+		name: name.trim(),
+		enabled: true,
+		mode: 'dry_run',
+		conditions,
+		created_at: now,
+		updated_at: now
+	};
+}
+
+export function defaultCondition(kind: RuleConditionKind): RuleCondition {
+	switch (kind) {
+		case 'all_stages_ok':
+			return { kind, allow_skipped: false };
+		case 'type_code_in':
+			return { kind, type_codes: ['uksi'] };
+		case 'fields_unchanged':
+			return { kind, fields: ['family'] };
+		default:
+			return { kind };
+	}
+}
+
+export function describeCondition(condition: RuleCondition): string {
+	switch (condition.kind) {
+		case 'all_stages_ok':
+			return condition.allow_skipped
+				? 'All parse stages ok or skipped'
+				: CONDITION_LABELS.all_stages_ok;
+		case 'type_code_in':
+			return `${CONDITION_LABELS.type_code_in} ${condition.type_codes.join(', ') || '(none)'}`;
+		case 'fields_unchanged':
+			return `${CONDITION_LABELS.fields_unchanged}: ${condition.fields.join(', ') || '(none)'}`;
+		default:
+			return CONDITION_LABELS[condition.kind];
+	}
+}
+
+function blank(value: unknown): boolean {
+	return value === null || value === undefined || value === '';
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+	if (blank(a) && blank(b)) return true;
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function evaluateCondition(
+	condition: RuleCondition,
+	result: ParseOneResult
+): ConditionCheck {
+	const check = (passed: boolean, reason: string): ConditionCheck => ({
+		condition,
+		passed,
+		reason
+	});
+
+	switch (condition.kind) {
+		case 'all_stages_ok': {
+			const stages = Object.entries(result.stages ?? {});
+			if (stages.length === 0) return check(false, 'no stages reported');
+			const bad = stages
+				.filter(([, stage]) =>
+					condition.allow_skipped ? stage.status === 'error' : stage.status !== 'ok'
+				)
+				.map(([name, stage]) => `${name} ${stage.status}`);
+			return check(bad.length === 0, bad.length ? bad.join(', ') : 'all stages ok');
+		}
+
+		case 'no_errors':
+			return check(
+				!result.has_errors,
+				result.has_errors ? `${result.errors.length} error(s)` : 'no errors'
+			);
+
+		case 'no_duplicate':
+			return check(
+				!result.duplicate?.exists,
+				result.duplicate?.exists ? 'already in the database' : 'new law'
+			);
+
+		case 'type_code_in': {
+			const typeCode = String(result.record?.type_code ?? '');
+			return check(
+				condition.type_codes.includes(typeCode),
+				typeCode ? `type code ${typeCode}` : 'no type code'
+			);
+		}
+
+		case 'fields_unchanged': {
+			const existing = result.duplicate?.exists ? result.duplicate.record : null;
+			if (!existing) return check(true, 'new law');
+			// Fields the parser does not produce keep their existing value
+			const changed = condition.fields.filter(
+				(field) =>
+					field in (result.record ?? {}) && !sameValue(existing[field], result.record[field])
+			);
+			return check(
+				changed.length === 0,
+				changed.length ? `changes ${changed.join(', ')}` : 'no changes'
+			);
+		}
+	}
+}
+
+/**
+ * A rule matches when it is enabled, has at least one condition, and every
+ * condition holds. Rules without conditions never match.
+ */
+export function evaluateRule(rule: AutoConfirmRule, result: ParseOneResult): RuleEvaluation {
+	const checks = rule.conditions.map((c) => evaluateCondition(c, result));
+	return {
+		rule,
+		passed: rule.enabled && checks.length > 0 && checks.every((c) => c.passed),
+		checks
+	};
+}
+
+/**
+ * Results with parse errors are never confirmed (or reported as dry-run
+ * matches), whatever the rules' conditions say.
+ */
+export function decideAutoConfirm(
+	rules: AutoConfirmRule[],
+	result: ParseOneResult
+): AutoConfirmDecision {
+	const evaluations = rules.filter((r) => r.enabled).map((r) => evaluateRule(r, result));
+	const passing = result.has_errors ? [] : evaluations.filter((e) => e.passed).map((e) => e.rule);
+	return {
+		matched: passing.find((r) => r.mode === 'active') ?? null,
+		dryRunMatches: passing.filter((r) => r.mode === 'dry_run'),
+		evaluations
+	};
+}
+
+export interface AutoConfirmLogEntry {
+	id: string;
+	at: string;
+	session_id: string;
+	name: string;
+	title: string | null;
+	/** 'active' = confirmed automatically, 'dry_run' = would have been */
+	mode: RuleMode;
+	rule_names: string[];
+}
+
+/**
+ * Log entries for a decision: one for an active match, one for dry-run matches.
+ */
+export function logEntriesFor(
+	decision: AutoConfirmDecision,
+	sessionId: string,
+	result: ParseOneResult
+): AutoConfirmLogEntry[] {
+	const at = new Date().toISOString();
+	const base = {
+		at,
+		session_id: sessionId,
+		name: result.name,
+		title: (result.record?.title_en as string | undefined) ?? null
+	};
+	const entries: AutoConfirmLogEntry[] = [];
+	if (decision.matched) {
+		entries.push({
+			...base,
+			id: crypto.randomUUID(),
+			mode: 'active',
+			rule_names: [decision.matched.name]
+		});
+	}
+	if (decision.dryRunMatches.length > 0) {
+		entries.push({
+			...base,
+			id: crypto.randomUUID(),
+			mode: 'dry_run',
+			rule_names: decision.dryRunMatches.map((r) => r.name)
+		});
+	}
+	return entries;
+}
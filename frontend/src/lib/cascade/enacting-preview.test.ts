@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type { CascadeOperationResultItem } from '$lib/api/scraper';
+import {
+	enactingDiff,
+	keptSelection,
+	linkKey,
+	previewsFromCascade,
+	previewsFromSession
+} from './enacting-preview';
+
+const results: CascadeOperationResultItem[] = [
+	{
+		id: 'entry-1',
+		affected_law: 'UK_ukpga_1974_37',
+		status: 'preview',
+		message: 'Would add 2 enacting link(s)',
+		current_enacting: ['UK_uksi_2022_10'],
+		proposed_enacting: ['UK_uksi_2024_16', 'UK_uksi_2024_3', 'UK_uksi_2022_10'],
+		added: ['UK_uksi_2024_3', 'UK_uksi_2024_16']
+	},
+	{
+		id: 'entry-2',
+		affected_law: 'UK_ukpga_1990_43',
+		status: 'unchanged',
+		message: 'Already up to date',
+		current_enacting: ['UK_uksi_2024_3']
+	}
+];
+
+describe('previews', () => {
+	it('keeps only parents that would change', () => {
+		expect(previewsFromCascade(results)).toEqual([
+			{
+				key: 'entry-1',
+				parent: 'UK_ukpga_1974_37',
+				before: ['UK_uksi_2022_10'],
+				after: ['UK_uksi_2024_16', 'UK_uksi_2024_3', 'UK_uksi_2022_10'],
+				added: ['UK_uksi_2024_3', 'UK_uksi_2024_16']
+			}
+		]);
+	});
+
+	it('keys session previews by parent name', () => {
+		const [preview] = previewsFromSession([
+			{ name: 'ukpga/1974/37', status: 'preview', message: '', added: ['uksi/2025/100'] }
+		]);
+		expect(preview).toMatchObject({ key: 'ukpga/1974/37', before: [], added: ['uksi/2025/100'] });
+	});
+
+	it('marks added laws in the proposed array', () => {
+		const [preview] = previewsFromCascade(results);
+		expect(enactingDiff(preview).map((row) => row.change)).toEqual(['added', 'added', 'kept']);
+	});
+});
+
+describe('keptSelection', () => {
+	const previews = previewsFromCascade(results);
+
+	it('sends every link when nothing is unticked', () => {
+		expect(keptSelection(previews, new Set())).toEqual({
+			keys: ['entry-1'],
+			links: { UK_ukpga_1974_37: ['UK_uksi_2024_3', 'UK_uksi_2024_16'] }
+		});
+	});
+
+	it('leaves out unticked links and parents with none left', () => {
+		const one = new Set([linkKey('UK_ukpga_1974_37', 'UK_uksi_2024_3')]);
+		expect(keptSelection(previews, one).links).toEqual({
+			UK_ukpga_1974_37: ['UK_uksi_2024_16']
+		});
+
+		const both = new Set([...one, linkKey('UK_ukpga_1974_37', 'UK_uksi_2024_16')]);
+		expect(keptSelection(previews, both)).toEqual({ keys: [], links: {} });
+	});
+});
@@ -0,0 +1,85 @@
+/**
+ * Dry-run previews of enacting-link updates
+ *
+ * Both update endpoints can run as a dry run, returning each parent law's
+ * enacting array before and after the update. Admins review the diff and
+ * untick individual links; the kept links are sent back as a selection so
+ * only those are written.
+ */
+
+import type {
+	CascadeOperationResultItem,
+	EnactingLinkSelection,
+	UpdateEnactingResultItem
+} from '$lib/api/scraper';
+
+export interface EnactingPreview {
+	/** What the update endpoint is called with: cascade entry ID or parent name */
+	key: string;
+	parent: string;
+	before: string[];
+	after: string[];
+	added: string[];
+}
+
+export interface EnactingDiffRow {
+	law: string;
+	change: 'kept' | 'added';
+}
+
+export function previewsFromCascade(results: CascadeOperationResultItem[]): EnactingPreview[] {
+	return results
+		.filter((r) => r.status === 'preview')
+		.map((r) => ({
+			key: r.id,
+			parent: r.affected_law,
+			before: r.current_enacting ?? [],
+			after: r.proposed_enacting ?? [],
+			added: r.added ?? []
+		}));
+}
+
+export function previewsFromSession(results: UpdateEnactingResultItem[]): EnactingPreview[] {
+	return results
+		.filter((r) => r.status === 'preview')
+		.map((r) => ({
+			key: r.name,
+			parent: r.name,
+			before: r.current_enacting ?? [],
+			after: r.proposed_enacting ?? [],
+			added: r.added ?? []
+		}));
+}
+
+/**
+ * The proposed enacting array, each law marked as already present or added
+ */
+export function enactingDiff(preview: EnactingPreview): EnactingDiffRow[] {
+	const added = new Set(preview.added);
+	return preview.after.map((law) => ({ law, change: added.has(law) ? 'added' : 'kept' }));
+}
+
+export function linkKey(parent: string, law: string): string {
+	return `${parent}|${law}`;
+}
+
+/**
+ * Keys to update and the links to add, leaving out unticked links
+ * (`excluded` holds `linkKey`s). Parents with every link unticked are
+ * dropped rather than updated with nothing.
+ */
+export function keptSelection(
+	previews: EnactingPreview[],
+	excluded: Set<string>
+): { keys: string[]; links: EnactingLinkSelection } {
+	const keys: string[] = [];
+	const links: EnactingLinkSelection = {};
+
+	for (const preview of previews) {
+		const kept = preview.added.filter((law) => !excluded.has(linkKey(preview.parent, law)));
+		if (kept.length === 0) continue;
+		keys.push(preview.key);
+		links[preview.parent] = kept;
+	}
+	return { keys, links };
+}
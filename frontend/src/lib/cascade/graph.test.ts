@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { CascadeGraphEntry } from '$lib/api/scraper';
+import { buildCascadeGraph, downstream, selectionTargets } from './graph';
+
+const entry = (
+	affected_law: string,
+	source_laws: string[],
+	fields: Partial<CascadeGraphEntry> = {}
+): CascadeGraphEntry => ({
+	id: `id-${affected_law}`,
+	affected_law,
+	update_type: 'reparse',
+	status: 'pending',
+	source_laws,
+	layer: 1,
+	title_en: null,
+	in_db: true,
+	...fields
+});
+
+const entries = [
+	entry('UK_uksi_2020_2', ['UK_uksi_2025_1']),
+	entry('UK_uksi_2020_1', ['UK_uksi_2025_1', 'UK_uksi_2025_2'], { status: 'processed' }),
+	entry('UK_uksi_2019_1', ['UK_uksi_2020_1'], { layer: 2, status: 'deferred' }),
+	entry('UK_ukpga_1974_37', ['UK_uksi_2025_2'], { update_type: 'enacting_link', in_db: false })
+];
+
+describe('buildCascadeGraph', () => {
+	const graph = buildCascadeGraph(entries, { UK_uksi_2025_1: 'Source One' });
+	const node = (name: string) => graph.nodes.find((n) => n.name === name);
+
+	it('places sources, layers and enacting parents in columns', () => {
+		expect(node('UK_uksi_2025_1')).toMatchObject({
+			kind: 'source',
+			column: 0,
+			status: null,
+			title: 'Source One',
+			inDb: true
+		});
+		expect(node('UK_uksi_2025_2')?.inDb).toBe(false);
+		expect(node('UK_uksi_2020_1')).toMatchObject({ kind: 'affected', column: 1 });
+		expect(node('UK_uksi_2019_1')).toMatchObject({ column: 2, status: 'deferred' });
+		expect(node('UK_ukpga_1974_37')).toMatchObject({ kind: 'enacting', column: 3 });
+		expect(graph.columns.map((c) => c.label)).toEqual([
+			'Source laws',
+			'Layer 1',
+			'Layer 2',
+			'Enacting parents'
+		]);
+	});
+
+	it('adds an edge per source law', () => {
+		expect(graph.edges).toHaveLength(5);
+		expect(graph.edges).toContainEqual({ from: 'UK_uksi_2020_1', to: 'UK_uksi_2019_1' });
+	});
+
+	it('orders rows by the position of parents', () => {
+		// UK_uksi_2020_1 has parents in rows 0 and 1, UK_uksi_2020_2 only row 0
+		expect(node('UK_uksi_2020_2')?.row).toBe(0);
+		expect(node('UK_uksi_2020_1')?.row).toBe(1);
+	});
+
+	it('handles an empty cascade', () => {
+		expect(buildCascadeGraph([])).toMatchObject({ nodes: [], edges: [], columns: [] });
+	});
+});
+
+describe('selection', () => {
+	const graph = buildCascadeGraph(entries);
+
+	it('selects everything downstream of a law', () => {
+		expect(downstream(graph, ['UK_uksi_2025_1'])).toEqual(
+			new Set(['UK_uksi_2025_1', 'UK_uksi_2020_2', 'UK_uksi_2020_1', 'UK_uksi_2019_1'])
+		);
+	});
+
+	it('targets pending entries in the database only', () => {
+		const all = new Set(graph.nodes.map((n) => n.name));
+		expect(selectionTargets(graph, all)).toEqual({
+			reparseIds: ['id-UK_uksi_2020_2'],
+			enactingIds: [],
+			skipped: 1
+		});
+	});
+});
@@ -0,0 +1,202 @@
+/**
+ * Layered layout of a session's cascade for the cascade page graph
+ *
+ * Columns run left to right: the session's source laws, then one column per
+ * cascade layer of affected laws (re-parse entries), then the enacting parents
+ * (enacting_link entries). Edges go from each entry's source laws to the entry.
+ * Within a column, nodes are ordered by the average row of their parents to
+ * keep edges short.
+ */
+
+import type { CascadeGraphEntry, CascadeStatus } from '$lib/api/scraper';
+
+export type NodeKind = 'source' | 'affected' | 'enacting';
+
+export interface GraphNode {
+	name: string;
+	title: string | null;
+	kind: NodeKind;
+	/** Cascade status; null for source laws, which are not cascade entries */
+	status: CascadeStatus | null;
+	entryId: string | null;
+	inDb: boolean;
+	column: number;
+	row: number;
+	x: number;
+	y: number;
+}
+
+export interface GraphEdge {
+	from: string;
+	to: string;
+}
+
+export interface GraphColumn {
+	column: number;
+	label: string;
+	x: number;
+}
+
+export interface CascadeGraph {
+	nodes: GraphNode[];
+	edges: GraphEdge[];
+	columns: GraphColumn[];
+	width: number;
+	height: number;
+}
+
+export const NODE_WIDTH = 180;
+export const NODE_HEIGHT = 32;
+const COLUMN_GAP = 60;
+const ROW_GAP = 12;
+const PADDING = 16;
+/** Room above the first row for column headings */
+const HEADER_HEIGHT = 28;
+
+function columnLabel(column: number, enactingColumn: number): string {
+	if (column === 0) return 'Source laws';
+	if (column === enactingColumn) return 'Enacting parents';
+	return `Layer ${column}`;
+}
+
+export function buildCascadeGraph(
+	entries: CascadeGraphEntry[],
+	titles: Record<string, string | null> = {}
+): CascadeGraph {
+	const byName = new Map(entries.map((e) => [e.affected_law, e]));
+	const maxLayer = Math.max(
+		0,
+		...entries.filter((e) => e.update_type === 'reparse').map((e) => e.layer)
+	);
+	const enactingColumn = maxLayer + 1;
+
+	const nodes = new Map<string, GraphNode>();
+	const node = (name: string, fields: Partial<GraphNode>): GraphNode => ({
+		name,
+		title: titles[name] ?? null,
+		kind: 'source',
+		status: null,
+		entryId: null,
+		inDb: name in titles,
+		column: 0,
+		row: 0,
+		x: 0,
+		y: 0,
+		...fields
+	});
+
+	for (const entry of entries) {
+		const enacting = entry.update_type === 'enacting_link';
+		nodes.set(
+			entry.affected_law,
+			node(entry.affected_law, {
+				title: entry.title_en ?? titles[entry.affected_law] ?? null,
+				kind: enacting ? 'enacting' : 'affected',
+				status: entry.status,
+				entryId: entry.id,
+				inDb: entry.in_db,
+				column: enacting ? enactingColumn : Math.max(1, entry.layer)
+			})
+		);
+	}
+
+	const edges: GraphEdge[] = [];
+	for (const entry of entries) {
+		for (const source of entry.source_laws) {
+			if (source === entry.affected_law) continue;
+			if (!byName.has(source) && !nodes.has(source)) nodes.set(source, node(source, {}));
+			edges.push({ from: source, to: entry.affected_law });
+		}
+	}
+
+	// Order each column by the average row of parents in earlier columns
+	const parents = new Map<string, string[]>();
+	for (const edge of edges) {
+		parents.set(edge.to, [...(parents.get(edge.to) ?? []), edge.from]);
+	}
+	const columnCount = Math.max(0, ...[...nodes.values()].map((n) => n.column)) + 1;
+	const rowCounts: number[] = [];
+
+	for (let column = 0; column < columnCount; column++) {
+		const inColumn = [...nodes.values()].filter((n) => n.column === column);
+		const weight = (n: GraphNode): number => {
+			const rows = (parents.get(n.name) ?? [])
+				.map((p) => nodes.get(p))
+				.filter((p): p is GraphNode => !!p && p.column < column)
+				.map((p) => p.row);
+			return rows.length ? rows.reduce((a, b) => a + b, 0) / rows.length : Infinity;
+		};
+		inColumn
+			.map((n) => ({ n, w: weight(n) }))
+			.sort((a, b) => a.w - b.w || a.n.name.localeCompare(b.n.name))
+			.forEach(({ n }, row) => {
+				n.row = row;
+				n.x = PADDING + column * (NODE_WIDTH + COLUMN_GAP);
+				n.y = PADDING + HEADER_HEIGHT + row * (NODE_HEIGHT + ROW_GAP);
+			});
+		rowCounts.push(inColumn.length);
+	}
+
+	const columns = rowCounts
+		.map((count, column) => ({
+			column,
+			count,
+			label: columnLabel(column, enactingColumn),
+			x: PADDING + column * (NODE_WIDTH + COLUMN_GAP)
+		}))
+		.filter((c) => c.count > 0)
+		.map(({ column, label, x }) => ({ column, label, x }));
+
+	const maxRows = Math.max(0, ...rowCounts);
+	return {
+		nodes: [...nodes.values()],
+		edges,
+		columns,
+		width: PADDING * 2 + columnCount * NODE_WIDTH + Math.max(0, columnCount - 1) * COLUMN_GAP,
+		height: PADDING * 2 + HEADER_HEIGHT + maxRows * (NODE_HEIGHT + ROW_GAP)
+	};
+}
+
+/**
+ * The given laws and every law the cascade reaches from them
+ */
+export function downstream(graph: CascadeGraph, names: Iterable<string>): Set<string> {
+	const reached = new Set(names);
+	const queue = [...reached];
+	while (queue.length > 0) {
+		const name = queue.shift() as string;
+		for (const edge of graph.edges) {
+			if (edge.from === name && !reached.has(edge.to)) {
+				reached.add(edge.to);
+				queue.push(edge.to);
+			}
+		}
+	}
+	return reached;
+}
+
+/**
+ * Cascade entry IDs to process for a selection: pending affected laws to
+ * re-parse and pending enacting parents to update. Laws not yet in uk_lrt
+ * are skipped - they are added from the "New Laws to Add" section first.
+ */
+export function selectionTargets(
+	graph: CascadeGraph,
+	selected: Set<string>
+): { reparseIds: string[]; enactingIds: string[]; skipped: number } {
+	const reparseIds: string[] = [];
+	const enactingIds: string[] = [];
+	let skipped = 0;
+
+	for (const n of graph.nodes) {
+		if (!selected.has(n.name) || !n.entryId || n.status !== 'pending') continue;
+		if (!n.inDb) {
+			skipped++;
+		} else if (n.kind === 'enacting') {
+			enactingIds.push(n.entryId);
+		} else {
+			reparseIds.push(n.entryId);
+		}
+	}
+	return { reparseIds, enactingIds, skipped };
+}
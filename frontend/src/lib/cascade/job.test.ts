@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { CascadeJob } from '$lib/api/scraper';
+import { jobDuration, jobOutcome } from './job';
+
+const job = (fields: Partial<CascadeJob> = {}): CascadeJob => ({
+	id: 'job-1',
+	session_id: '2026-03-01-to-07',
+	status: 'running',
+	stop_reason: null,
+	start_layer: 1,
+	current_layer: null,
+	max_layer: 3,
+	current_law: null,
+	processed_count: 0,
+	error_count: 0,
+	skipped_count: 0,
+	new_entries_count: 0,
+	cycles: [],
+	errors: [],
+	started_by: null,
+	error_message: null,
+	started_at: '2026-03-18T09:00:00Z',
+	cancel_requested_at: null,
+	finished_at: null,
+	...fields
+});
+
+describe('jobOutcome', () => {
+	it('describes a running job', () => {
+		expect(jobOutcome(job())).toBe('Starting...');
+		expect(jobOutcome(job({ current_layer: 2, current_law: 'UK_uksi_2020_1' }))).toBe(
+			'Layer 2: re-parsing UK_uksi_2020_1'
+		);
+		expect(jobOutcome(job({ cancel_requested_at: '2026-03-18T09:01:00Z' }))).toBe(
+			'Cancelling after the current law...'
+		);
+	});
+
+	it('explains why a job stopped', () => {
+		expect(jobOutcome(job({ status: 'completed', stop_reason: 'fixed_point' }))).toBe(
+			'Fixed point reached - no new affected laws'
+		);
+		expect(jobOutcome(job({ status: 'completed', stop_reason: 'max_depth' }))).toContain(
+			'max layer (3)'
+		);
+		expect(jobOutcome(job({ status: 'failed', error_message: 'timeout' }))).toBe('Failed: timeout');
+	});
+});
+
+describe('jobDuration', () => {
+	it('measures to the finish, or to now while running', () => {
+		expect(jobDuration(job({ finished_at: '2026-03-18T09:02:30Z' }))).toBe(150);
+		expect(jobDuration(job(), new Date('2026-03-18T09:00:10Z'))).toBe(10);
+	});
+});
@@ -0,0 +1,34 @@
+/**
+ * Display helpers for cascade auto-run jobs
+ */
+
+import type { CascadeJob } from '$lib/api/scraper';
+
+/**
+ * One-line description of where a job is or how it ended
+ */
+export function jobOutcome(job: CascadeJob): string {
+	switch (job.status) {
+		case 'running':
+			if (job.cancel_requested_at) return 'Cancelling after the current law...';
+			return job.current_law
+				? `Layer ${job.current_layer}: re-parsing ${job.current_law}`
+				: 'Starting...';
+		case 'completed':
+			return job.stop_reason === 'max_depth'
+				? `Stopped at the max layer (${job.max_layer}) - deeper laws are still deferred`
+				: 'Fixed point reached - no new affected laws';
+		case 'cancelled':
+			return 'Cancelled';
+		case 'failed':
+			return `Failed: ${job.error_message ?? 'unknown error'}`;
+	}
+}
+
+/**
+ * Seconds from start to finish (or to now while running)
+ */
+export function jobDuration(job: CascadeJob, now: Date = new Date()): number {
+	const end = job.finished_at ? new Date(job.finished_at) : now;
+	return Math.max(0, Math.round((end.getTime() - new Date(job.started_at).getTime()) / 1000));
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applyMerge,
+	defaultChoices,
+	defaultMerge,
+	formatManualValue,
+	mergeFields,
+	parseManualValue,
+	type MergeField
+} from './merge';
+
+const existing = {
+	id: 'abc',
+	name: 'uksi/2020/1',
+	title_en: 'Old Title',
+	family: 'FIRE',
+	tags: ['fire', 'safety'],
+	md_total_paras: 10,
+	geo_extent: 'E+W',
+	updated_at: '2026-01-01'
+};
+
+const parsed = {
+	name: 'uksi/2020/1',
+	title_en: 'New Title',
+	tags: ['fire'],
+	md_total_paras: 12,
+	geo_extent: 'E+W',
+	updated_at: '2026-03-01',
+	not_a_field: 'x'
+};
+
+describe('mergeFields', () => {
+	it('lists labelled fields the parse would change', () => {
+		const fields = mergeFields(existing, parsed);
+		expect(fields.map((f) => f.key)).toEqual(['title_en', 'tags', 'md_total_paras']);
+		expect(fields[0]).toEqual({
+			key: 'title_en',
+			label: 'Title',
+			existing: 'Old Title',
+			parsed: 'New Title',
+			locked: false
+		});
+	});
+
+	it('treats blank values as equal', () => {
+		expect(mergeFields({ acronym: null }, { acronym: '' })).toEqual([]);
+		expect(mergeFields({}, { tags: [] })).toEqual([]);
+	});
+});
+
+describe('defaultChoices', () => {
+	it('keeps curated fields that already have a value', () => {
+		const fields = mergeFields(existing, parsed);
+		expect(defaultChoices(fields)).toEqual({
+			title_en: 'parsed',
+			tags: 'existing',
+			md_total_paras: 'parsed'
+		});
+		expect(defaultChoices(mergeFields({}, { tags: ['new'] }))).toEqual({ tags: 'parsed' });
+	});
+});
+
+describe('manual values', () => {
+	const field = (parsedValue: unknown): MergeField => ({
+		key: 'f',
+		label: 'Field',
+		existing: null,
+		parsed: parsedValue,
+		locked: false
+	});
+
+	it('round-trips values by type', () => {
+		expect(parseManualValue(formatManualValue(['a', 'b']), field(['x']))).toEqual(['a', 'b']);
+		expect(parseManualValue('42', field(1))).toBe(42);
+		expect(parseManualValue('true', field(false))).toBe(true);
+		expect(parseManualValue(' text ', field('x'))).toBe('text');
+		expect(parseManualValue('', field('x'))).toBeNull();
+	});
+
+	it('rejects invalid input for structured fields', () => {
+		expect(() => parseManualValue('[oops', field(['x']))).toThrow('Field: enter valid JSON');
+		expect(() => parseManualValue('ten', field(1))).toThrow('Field: enter a number');
+	});
+});
+
+describe('applyMerge', () => {
+	it('resolves each field from its choice', () => {
+		const fields = mergeFields(existing, parsed);
+		const merged = applyMerge(
+			parsed,
+			fields,
+			{ title_en: 'manual', tags: 'existing', md_total_paras: 'parsed' },
+			{ title_en: 'Curated Title' }
+		);
+		expect(merged).toMatchObject({
+			title_en: 'Curated Title',
+			tags: ['fire', 'safety'],
+			md_total_paras: 12,
+			geo_extent: 'E+W'
+		});
+	});
+
+	it('always keeps the existing value of locked fields', () => {
+		const fields = mergeFields(existing, parsed, ['title_en']);
+		expect(defaultChoices(fields).title_en).toBe('existing');
+		expect(applyMerge(parsed, fields, { title_en: 'parsed' }, {}).title_en).toBe('Old Title');
+	});
+
+	it('uses default choices for fields without one', () => {
+		const fields = mergeFields(existing, parsed);
+		expect(applyMerge(parsed, fields, {}, {}).tags).toEqual(['fire', 'safety']);
+	});
+});
+
+describe('defaultMerge', () => {
+	it('keeps curated fields of an existing record', () => {
+		expect(defaultMerge(parsed, existing)).toMatchObject({
+			title_en: 'New Title',
+			tags: ['fire', 'safety']
+		});
+		expect(defaultMerge(parsed, null)).toBe(parsed);
+		expect(defaultMerge(parsed, existing, ['md_total_paras']).md_total_paras).toBe(10);
+	});
+});
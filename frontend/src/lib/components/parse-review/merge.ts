@@ -0,0 +1,148 @@
+/**
+ * Three-way field merge for ParseReviewModal
+ *
+ * When a parse updates a law already in uk_lrt, each field that differs can
+ * keep the existing DB value, take the freshly parsed value, or take a manual
+ * override. Only fields listed in FIELD_LABELS are offered for merging.
+ * Fields locked on the existing record (`locked_fields`) always keep the
+ * existing value.
+ */
+
+import { FIELD_LABELS, getFieldLabel } from './field-config';
+
+export type MergeChoice = 'existing' | 'parsed' | 'manual';
+
+export interface MergeField {
+	key: string;
+	label: string;
+	existing: unknown;
+	parsed: unknown;
+	/** Curated by hand and locked: the existing value is always kept */
+	locked: boolean;
+}
+
+/**
+ * Curated fields keep their existing value by default, so a reparse does not
+ * clobber hand-maintained data.
+ */
+export const CURATED_FIELDS = ['tags', 'md_description', 'md_subjects', 'acronym', 'si_code'];
+
+/**
+ * Fields never merged: identity and timestamps, plus family/family_ii which
+ * have their own pickers in the modal (initialised from the existing record).
+ */
+const EXCLUDED_FIELDS = new Set(['id', 'name', 'created_at', 'updated_at', 'family', 'family_ii']);
+
+function blank(value: unknown): boolean {
+	if (value === null || value === undefined || value === '') return true;
+	return Array.isArray(value) && value.length === 0;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+	if (blank(a) && blank(b)) return true;
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Fields the parse would change, in FIELD_LABELS order. Fields the parser did
+ * not produce are left out: the existing value is kept for those anyway.
+ */
+export function mergeFields(
+	existing: Record<string, unknown>,
+	parsed: Record<string, unknown>,
+	lockedFields: string[] = []
+): MergeField[] {
+	return Object.keys(FIELD_LABELS)
+		.filter((key) => !EXCLUDED_FIELDS.has(key) && key in parsed)
+		.filter((key) => !sameValue(existing[key], parsed[key]))
+		.map((key) => ({
+			key,
+			label: getFieldLabel(key),
+			existing: existing[key] ?? null,
+			parsed: parsed[key] ?? null,
+			locked: lockedFields.includes(key)
+		}));
+}
+
+export function defaultChoice(field: MergeField): MergeChoice {
+	if (field.locked) return 'existing';
+	return CURATED_FIELDS.includes(field.key) && !blank(field.existing) ? 'existing' : 'parsed';
+}
+
+export function defaultChoices(fields: MergeField[]): Record<string, MergeChoice> {
+	return Object.fromEntries(fields.map((f) => [f.key, defaultChoice(f)]));
+}
+
+/**
+ * Text shown in a manual override input for a value.
+ */
+export function formatManualValue(value: unknown): string {
+	if (value === null || value === undefined) return '';
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+}
+
+/**
+ * Read a manual override, typed like the field's existing or parsed value:
+ * JSON for arrays and objects, numbers and booleans as such, otherwise text.
+ * Throws if a structured field's override is not valid JSON.
+ */
+export function parseManualValue(text: string, field: MergeField): unknown {
+	const trimmed = text.trim();
+	if (trimmed === '') return null;
+	const sample = field.parsed ?? field.existing;
+
+	if (sample !== null && typeof sample === 'object') {
+		try {
+			return JSON.parse(trimmed);
+		} catch {
+			throw new Error(`${field.label}: enter valid JSON`);
+		}
+	}
+	if (typeof sample === 'number') {
+		const n = Number(trimmed);
+		if (Number.isNaN(n)) throw new Error(`${field.label}: enter a number`);
+		return n;
+	}
+	if (typeof sample === 'boolean') return trimmed === 'true';
+	return trimmed;
+}
+
+/**
+ * The record to confirm: the parsed record with each merge field resolved.
+ */
+export function applyMerge(
+	parsed: Record<string, unknown>,
+	fields: MergeField[],
+	choices: Record<string, MergeChoice>,
+	manual: Record<string, string>
+): Record<string, unknown> {
+	const merged = { ...parsed };
+	for (const field of fields) {
+		const choice = field.locked ? 'existing' : (choices[field.key] ?? defaultChoice(field));
+		switch (choice) {
+			case 'existing':
+				merged[field.key] = field.existing;
+				break;
+			case 'manual':
+				merged[field.key] = parseManualValue(manual[field.key] ?? '', field);
+				break;
+			default:
+				merged[field.key] = field.parsed;
+		}
+	}
+	return merged;
+}
+
+/**
+ * The record to confirm without review: default choices for every field.
+ */
+export function defaultMerge(
+	parsed: Record<string, unknown>,
+	existing: Record<string, unknown> | null | undefined,
+	lockedFields: string[] = []
+): Record<string, unknown> {
+	return existing
+		? applyMerge(parsed, mergeFields(existing, parsed, lockedFields), {}, {})
+		: parsed;
+}
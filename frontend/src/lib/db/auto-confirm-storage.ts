@@ -0,0 +1,64 @@
+/**
+ * IndexedDB persistence for auto-confirm rules and their match log
+ *
+ * Rules are keyed by id. The log records every record a rule confirmed or,
+ * in dry-run mode, would have confirmed; it is trimmed to the newest entries.
+ */
+
+import { set, del, clear, values, createStore } from 'idb-keyval';
+import type { AutoConfirmLogEntry, AutoConfirmRule } from '$lib/auto-confirm/rules';
+
+// Separate databases (idb-keyval can only have one store per DB)
+const ruleStore = createStore('sertantai-legal-auto-confirm', 'rules');
+const logStore = createStore('sertantai-legal-auto-confirm-log', 'entries');
+
+export const MAX_LOG_ENTRIES = 500;
+
+/**
+ * Load all rules, oldest first (rules are evaluated in this order)
+ */
+export async function loadRules(): Promise<AutoConfirmRule[]> {
+	try {
+		const all = await values<AutoConfirmRule>(ruleStore);
+		return all.sort((a, b) => a.created_at.localeCompare(b.created_at));
+	} catch (error) {
+		console.error('[IDB Storage] Error loading auto-confirm rules:', error);
+		return [];
+	}
+}
+
+export async function saveRule(rule: AutoConfirmRule): Promise<void> {
+	await set(rule.id, rule, ruleStore);
+}
+
+export async function deleteRule(id: string): Promise<void> {
+	await del(id, ruleStore);
+}
+
+/**
+ * Load the match log, newest first
+ */
+export async function loadLog(): Promise<AutoConfirmLogEntry[]> {
+	try {
+		const all = await values<AutoConfirmLogEntry>(logStore);
+		return all.sort((a, b) => b.at.localeCompare(a.at));
+	} catch (error) {
+		console.error('[IDB Storage] Error loading auto-confirm log:', error);
+		return [];
+	}
+}
+
+/**
+ * Append entries, dropping the oldest beyond MAX_LOG_ENTRIES
+ */
+export async function appendLog(entries: AutoConfirmLogEntry[]): Promise<AutoConfirmLogEntry[]> {
+	await Promise.all(entries.map((e) => set(e.id, e, logStore)));
+	const all = await loadLog();
+	const stale = all.slice(MAX_LOG_ENTRIES);
+	await Promise.all(stale.map((e) => del(e.id, logStore)));
+	return all.slice(0, MAX_LOG_ENTRIES);
+}
+
+export async function clearLog(): Promise<void> {
+	await clear(logStore);
+}
@@ -13,7 +13,7 @@
  */
 
 import { browser } from '$app/environment';
-import type { Collection } from '@tanstack/db';
+import type { Collection, SyncConfig } from '@tanstack/db';
 import { writable } from 'svelte/store';
 import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
 import type { LatRecord } from '$lib/electric/lat-schema';
@@ -21,6 +21,8 @@ import type { AnnotationRecord } from '$lib/electric/annotation-schema';
 import { LAT_COLUMNS } from '$lib/electric/lat-schema';
 import { ANNOTATION_COLUMNS } from '$lib/electric/annotation-schema';
 import { electricFetchClient } from '$lib/electric/fetch-client';
+import type { ShapeTable } from '$lib/electric/shape-validation';
+import { schemaDriftStore } from '$lib/stores/schema-drift';
 
 // Re-export types for external use
 export type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
@@ -135,9 +137,38 @@ const UK_LRT_COLUMNS: string[] = [
 	'fitness_plant',
 	'fitness_property',
 	'fitness_sector',
-	'fitness'
+	'fitness',
+	// Hand-curated fields protected from reparses
+	'locked_fields'
 ];
 
+/**
+ * Screen every row a shape collection syncs against its shape schema.
+ * Wraps the collection's sync writes, so quarantined rows never reach the
+ * collection and everything reading it sees only rows that passed.
+ */
+function screenShapeSync<O extends { sync: object }>(table: ShapeTable, options: O): O {
+	// electric-db-collection is typed against its own copy of @tanstack/db
+	const config = options.sync as SyncConfig;
+	return {
+		...options,
+		sync: {
+			...config,
+			sync: (params) =>
+				config.sync({
+					...params,
+					write: (message) => {
+						if (!('value' in message)) return params.write(message);
+						const write = schemaDriftStore.screenWrite(table, message, (key) =>
+							params.collection.has(key)
+						);
+						if (write) params.write(write);
+					}
+				})
+		} satisfies SyncConfig
+	};
+}
+
 /**
  * Get default WHERE clause (last 3 years)
  */
@@ -203,81 +234,84 @@ async function createUkLrtCollection(
 	}));
 
 	const collection = createCollection(
-		electricCollectionOptions<ElectricUkLrtRecord>({
-			id: 'uk-lrt',
-			syncMode: 'eager', // Eager mode: sync all data immediately. Safe because WHERE clause limits to ~800 records.
-			shapeOptions: {
-				url: `${ELECTRIC_URL}/v1/shape`,
-				fetchClient: electricFetchClient,
-				params: {
-					table: 'uk_lrt',
-					where: whereClause,
-					columns: UK_LRT_COLUMNS
-				},
-				onError: async (error: unknown) => {
-					const status =
-						error instanceof Error && 'status' in error
-							? (error as { status: number }).status
-							: null;
-
-					// 401 Unauthorized — no valid JWT token
-					if (status === 401) {
-						syncStatus.update((s) => ({
-							...s,
-							error: 'Authentication required',
-							syncing: false
-						}));
-						console.warn('[TanStack DB] Unauthorized (401) — sign in required');
-						return;
-					}
-
-					// 400 "offset out of bounds" — stale shape from Electric restart or
-					// prior errors. The Electric client retains internal offset/handle state
-					// across retries, so returning {} doesn't help (it retries with the same
-					// stale offset). Instead, destroy the collection and recreate it fresh.
-					if (status === 400) {
-						const now = Date.now();
-						if (now - shapeResetAttemptedAt < 30_000) {
-							console.error('[TanStack DB] Shape recovery already attempted recently, waiting');
+		screenShapeSync(
+			'uk_lrt',
+			electricCollectionOptions<ElectricUkLrtRecord>({
+				id: 'uk-lrt',
+				syncMode: 'eager', // Eager mode: sync all data immediately. Safe because WHERE clause limits to ~800 records.
+				shapeOptions: {
+					url: `${ELECTRIC_URL}/v1/shape`,
+					fetchClient: electricFetchClient,
+					params: {
+						table: 'uk_lrt',
+						where: whereClause,
+						columns: UK_LRT_COLUMNS
+					},
+					onError: async (error: unknown) => {
+						const status =
+							error instanceof Error && 'status' in error
+								? (error as { status: number }).status
+								: null;
+
+						// 401 Unauthorized — no valid JWT token
+						if (status === 401) {
 							syncStatus.update((s) => ({
 								...s,
-								error: 'Electric sync unavailable — try refreshing the page',
+								error: 'Authentication required',
 								syncing: false
 							}));
+							console.warn('[TanStack DB] Unauthorized (401) — sign in required');
 							return;
 						}
-						shapeResetAttemptedAt = now;
-						console.warn('[TanStack DB] Broken shape detected (400), recreating collection');
-
-						// Try to delete the broken shape via the proxy (works if
-						// ELECTRIC_ENABLE_INTEGRATION_TESTING is set on the Electric container)
-						try {
-							await electricFetchClient(`${ELECTRIC_URL}/v1/shape?table=uk_lrt`, {
-								method: 'DELETE'
-							});
-						} catch {
-							// DELETE may not be available — that's OK
-						}
 
-						// Schedule collection recreation after a brief delay.
-						// This creates a brand-new ShapeStream with offset=-1.
-						setTimeout(async () => {
+						// 400 "offset out of bounds" — stale shape from Electric restart or
+						// prior errors. The Electric client retains internal offset/handle state
+						// across retries, so returning {} doesn't help (it retries with the same
+						// stale offset). Instead, destroy the collection and recreate it fresh.
+						if (status === 400) {
+							const now = Date.now();
+							if (now - shapeResetAttemptedAt < 30_000) {
+								console.error('[TanStack DB] Shape recovery already attempted recently, waiting');
+								syncStatus.update((s) => ({
+									...s,
+									error: 'Electric sync unavailable — try refreshing the page',
+									syncing: false
+								}));
+								return;
+							}
+							shapeResetAttemptedAt = now;
+							console.warn('[TanStack DB] Broken shape detected (400), recreating collection');
+
+							// Try to delete the broken shape via the proxy (works if
+							// ELECTRIC_ENABLE_INTEGRATION_TESTING is set on the Electric container)
 							try {
-								ukLrtCol = null;
-								ukLrtCol = await createUkLrtCollection(currentWhereClause);
-							} catch (e) {
-								console.error('[TanStack DB] Collection recreation failed:', e);
+								await electricFetchClient(`${ELECTRIC_URL}/v1/shape?table=uk_lrt`, {
+									method: 'DELETE'
+								});
+							} catch {
+								// DELETE may not be available — that's OK
 							}
-						}, 1500);
+
+							// Schedule collection recreation after a brief delay.
+							// This creates a brand-new ShapeStream with offset=-1.
+							setTimeout(async () => {
+								try {
+									ukLrtCol = null;
+									ukLrtCol = await createUkLrtCollection(currentWhereClause);
+								} catch (e) {
+									console.error('[TanStack DB] Collection recreation failed:', e);
+								}
+							}, 1500);
+							return;
+						}
+
+						console.error('[TanStack DB] Electric sync error:', error);
 						return;
 					}
-
-					console.error('[TanStack DB] Electric sync error:', error);
-					return;
-				}
-			},
-			getKey: (item) => item.id as string
-		})
+				},
+				getKey: (item) => item.id as string
+			})
+		)
 	);
 
 	// Monitor collection state for sync status (debounced to prevent excessive updates)
@@ -382,60 +416,63 @@ async function createLatCollection(
 	const whereClause = `law_name = '${lawName.replace(/'/g, "''")}'`;
 
 	const collection = createCollection(
-		electricCollectionOptions<ElectricLatRecord>({
-			id: `lat-${lawName}`,
-			syncMode: 'eager',
-			shapeOptions: {
-				url: `${ELECTRIC_URL}/v1/shape`,
-				fetchClient: electricFetchClient,
-				params: {
-					table: 'lat',
-					where: whereClause,
-					columns: LAT_COLUMNS
-				},
-				onError: async (error: unknown) => {
-					const status =
-						error instanceof Error && 'status' in error
-							? (error as { status: number }).status
-							: null;
-
-					if (status === 401) {
-						console.warn('[TanStack DB] LAT: Unauthorized (401) — sign in required');
-						return;
-					}
-
-					if (status === 400) {
-						const now = Date.now();
-						if (now - latShapeResetAttemptedAt < 30_000) {
-							console.error('[TanStack DB] LAT: Shape recovery already attempted recently');
+		screenShapeSync(
+			'lat',
+			electricCollectionOptions<ElectricLatRecord>({
+				id: `lat-${lawName}`,
+				syncMode: 'eager',
+				shapeOptions: {
+					url: `${ELECTRIC_URL}/v1/shape`,
+					fetchClient: electricFetchClient,
+					params: {
+						table: 'lat',
+						where: whereClause,
+						columns: LAT_COLUMNS
+					},
+					onError: async (error: unknown) => {
+						const status =
+							error instanceof Error && 'status' in error
+								? (error as { status: number }).status
+								: null;
+
+						if (status === 401) {
+							console.warn('[TanStack DB] LAT: Unauthorized (401) — sign in required');
 							return;
 						}
-						latShapeResetAttemptedAt = now;
-						console.warn('[TanStack DB] LAT: Broken shape (400), recreating collection');
-						try {
-							await electricFetchClient(`${ELECTRIC_URL}/v1/shape?table=lat`, {
-								method: 'DELETE'
-							});
-						} catch {
-							// DELETE may not be available
-						}
-						setTimeout(async () => {
+
+						if (status === 400) {
+							const now = Date.now();
+							if (now - latShapeResetAttemptedAt < 30_000) {
+								console.error('[TanStack DB] LAT: Shape recovery already attempted recently');
+								return;
+							}
+							latShapeResetAttemptedAt = now;
+							console.warn('[TanStack DB] LAT: Broken shape (400), recreating collection');
 							try {
-								latCol = null;
-								latCol = await createLatCollection(currentLatLawName);
-							} catch (e) {
-								console.error('[TanStack DB] LAT: Collection recreation failed:', e);
+								await electricFetchClient(`${ELECTRIC_URL}/v1/shape?table=lat`, {
+									method: 'DELETE'
+								});
+							} catch {
+								// DELETE may not be available
 							}
-						}, 1500);
+							setTimeout(async () => {
+								try {
+									latCol = null;
+									latCol = await createLatCollection(currentLatLawName);
+								} catch (e) {
+									console.error('[TanStack DB] LAT: Collection recreation failed:', e);
+								}
+							}, 1500);
+							return;
+						}
+
+						console.error('[TanStack DB] LAT: Electric sync error:', error);
 						return;
 					}
-
-					console.error('[TanStack DB] LAT: Electric sync error:', error);
-					return;
-				}
-			},
-			getKey: (item) => item.section_id as string
-		})
+				},
+				getKey: (item) => item.section_id as string
+			})
+		)
 	);
 
 	console.log(`[TanStack DB] LAT collection initialized for law: ${lawName}`);
@@ -486,60 +523,65 @@ async function createAnnotationCollection(
 	const whereClause = `law_name = '${lawName.replace(/'/g, "''")}'`;
 
 	const collection = createCollection(
-		electricCollectionOptions<ElectricAnnotationRecord>({
-			id: `annotations-${lawName}`,
-			syncMode: 'eager',
-			shapeOptions: {
-				url: `${ELECTRIC_URL}/v1/shape`,
-				fetchClient: electricFetchClient,
-				params: {
-					table: 'amendment_annotations',
-					where: whereClause,
-					columns: ANNOTATION_COLUMNS
-				},
-				onError: async (error: unknown) => {
-					const status =
-						error instanceof Error && 'status' in error
-							? (error as { status: number }).status
-							: null;
-
-					if (status === 401) {
-						console.warn('[TanStack DB] Annotations: Unauthorized (401) — sign in required');
-						return;
-					}
-
-					if (status === 400) {
-						const now = Date.now();
-						if (now - annotationShapeResetAttemptedAt < 30_000) {
-							console.error('[TanStack DB] Annotations: Shape recovery already attempted recently');
+		screenShapeSync(
+			'amendment_annotations',
+			electricCollectionOptions<ElectricAnnotationRecord>({
+				id: `annotations-${lawName}`,
+				syncMode: 'eager',
+				shapeOptions: {
+					url: `${ELECTRIC_URL}/v1/shape`,
+					fetchClient: electricFetchClient,
+					params: {
+						table: 'amendment_annotations',
+						where: whereClause,
+						columns: ANNOTATION_COLUMNS
+					},
+					onError: async (error: unknown) => {
+						const status =
+							error instanceof Error && 'status' in error
+								? (error as { status: number }).status
+								: null;
+
+						if (status === 401) {
+							console.warn('[TanStack DB] Annotations: Unauthorized (401) — sign in required');
 							return;
 						}
-						annotationShapeResetAttemptedAt = now;
-						console.warn('[TanStack DB] Annotations: Broken shape (400), recreating collection');
-						try {
-							await electricFetchClient(`${ELECTRIC_URL}/v1/shape?table=amendment_annotations`, {
-								method: 'DELETE'
-							});
-						} catch {
-							// DELETE may not be available
-						}
-						setTimeout(async () => {
+
+						if (status === 400) {
+							const now = Date.now();
+							if (now - annotationShapeResetAttemptedAt < 30_000) {
+								console.error(
+									'[TanStack DB] Annotations: Shape recovery already attempted recently'
+								);
+								return;
+							}
+							annotationShapeResetAttemptedAt = now;
+							console.warn('[TanStack DB] Annotations: Broken shape (400), recreating collection');
 							try {
-								annotationCol = null;
-								annotationCol = await createAnnotationCollection(currentAnnotationLawName);
-							} catch (e) {
-								console.error('[TanStack DB] Annotations: Collection recreation failed:', e);
+								await electricFetchClient(`${ELECTRIC_URL}/v1/shape?table=amendment_annotations`, {
+									method: 'DELETE'
+								});
+							} catch {
+								// DELETE may not be available
 							}
-						}, 1500);
+							setTimeout(async () => {
+								try {
+									annotationCol = null;
+									annotationCol = await createAnnotationCollection(currentAnnotationLawName);
+								} catch (e) {
+									console.error('[TanStack DB] Annotations: Collection recreation failed:', e);
+								}
+							}, 1500);
+							return;
+						}
+
+						console.error('[TanStack DB] Annotations: Electric sync error:', error);
 						return;
 					}
-
-					console.error('[TanStack DB] Annotations: Electric sync error:', error);
-					return;
-				}
-			},
-			getKey: (item) => item.id as string
-		})
+				},
+				getKey: (item) => item.id as string
+			})
+		)
 	);
 
 	console.log(`[TanStack DB] Annotations collection initialized for law: ${lawName}`);
@@ -617,77 +659,6 @@ export function getDBStatus() {
 }
 
 /**
- * Build WHERE clause from filter conditions
+ * Build WHERE clause from filter conditions (compiled via the filter query AST)
  */
-export function buildWhereFromFilters(
-	filters: Array<{ field: string; operator: string; value: unknown }>
-): string {
-	if (!filters || filters.length === 0) {
-		return getDefaultWhere();
-	}
-
-	const escapeValue = (value: string): string => value.replace(/'/g, "''");
-
-	const clauses = filters
-		.map((filter) => {
-			const { field, operator, value } = filter;
-
-			switch (operator) {
-				case 'equals':
-					return typeof value === 'string'
-						? `${field} = '${escapeValue(String(value))}'`
-						: `${field} = ${value}`;
-				case 'not_equals':
-					return typeof value === 'string'
-						? `${field} != '${escapeValue(String(value))}'`
-						: `${field} != ${value}`;
-				case 'contains':
-					return `${field} ILIKE '%${escapeValue(String(value))}%'`;
-				case 'not_contains':
-					return `${field} NOT ILIKE '%${escapeValue(String(value))}%'`;
-				case 'starts_with':
-					return `${field} ILIKE '${escapeValue(String(value))}%'`;
-				case 'ends_with':
-					return `${field} ILIKE '%${escapeValue(String(value))}'`;
-				case 'greater_than':
-					return typeof value === 'string'
-						? `${field} > '${escapeValue(String(value))}'`
-						: `${field} > ${value}`;
-				case 'less_than':
-					return typeof value === 'string'
-						? `${field} < '${escapeValue(String(value))}'`
-						: `${field} < ${value}`;
-				case 'greater_or_equal':
-					return typeof value === 'string'
-						? `${field} >= '${escapeValue(String(value))}'`
-						: `${field} >= ${value}`;
-				case 'less_or_equal':
-					return typeof value === 'string'
-						? `${field} <= '${escapeValue(String(value))}'`
-						: `${field} <= ${value}`;
-				case 'is_before':
-					return `${field} < '${escapeValue(String(value))}'`;
-				case 'is_after':
-					return `${field} > '${escapeValue(String(value))}'`;
-				case 'is_empty':
-					return `(${field} IS NULL OR ${field} = '')`;
-				case 'is_not_empty':
-					return `(${field} IS NOT NULL AND ${field} != '')`;
-				case 'in': {
-					const values = Array.isArray(value) ? value : [value];
-					const escaped = values.map((v: unknown) => `'${escapeValue(String(v))}'`).join(', ');
-					return `${field} IN (${escaped})`;
-				}
-				default:
-					console.warn(`[buildWhereFromFilters] Unknown operator: ${operator}`);
-					return null;
-			}
-		})
-		.filter(Boolean);
-
-	if (clauses.length === 0) {
-		return getDefaultWhere();
-	}
-
-	return clauses.join(' AND ');
-}
+export { buildWhereFromFilters } from '$lib/electric/filter-query';
@@ -0,0 +1,36 @@
+/**
+ * IndexedDB persistence for bulk parse queues
+ *
+ * Queues are keyed by their id ("{session_id}:{group}") and saved after every
+ * state change, so a reload picks up where the queue left off.
+ */
+
+import { set, del, values, createStore } from 'idb-keyval';
+import type { ParseQueue } from '$lib/parse-queue/queue';
+
+// Separate database (idb-keyval can only have one store per DB)
+const queueStore = createStore('sertantai-legal-parse-queue', 'queues');
+
+/**
+ * Load all queues, oldest first
+ */
+export async function loadQueues(): Promise<ParseQueue[]> {
+	try {
+		const all = await values<ParseQueue>(queueStore);
+		return all.sort((a, b) => a.created_at.localeCompare(b.created_at));
+	} catch (error) {
+		console.error('[IDB Storage] Error loading parse queues:', error);
+		return [];
+	}
+}
+
+/**
+ * Create or update a queue
+ */
+export async function saveQueue(queue: ParseQueue): Promise<void> {
+	await set(queue.id, queue, queueStore);
+}
+
+export async function deleteQueue(id: string): Promise<void> {
+	await del(id, queueStore);
+}
@@ -0,0 +1,46 @@
+/**
+ * IndexedDB persistence for the offline LAT search index
+ *
+ * One entry per law (a LawSegment), keyed by law_name, so a single law can be
+ * re-indexed or removed without touching the others.
+ */
+
+import { set, del, clear, values, createStore } from 'idb-keyval';
+import type { LawSegment } from '$lib/search/lat-index';
+
+// Separate database (idb-keyval can only have one store per DB)
+const searchStore = createStore('sertantai-legal-search', 'lat-segments');
+
+/**
+ * Load every indexed law
+ */
+export async function loadSegments(): Promise<LawSegment[]> {
+	try {
+		const all = await values<LawSegment>(searchStore);
+		return all.sort((a, b) => a.law_name.localeCompare(b.law_name));
+	} catch (error) {
+		console.error('[IDB Storage] Error loading search index:', error);
+		return [];
+	}
+}
+
+/**
+ * Create or replace the segment for a law
+ */
+export async function saveSegment(segment: LawSegment): Promise<void> {
+	await set(segment.law_name, segment, searchStore);
+}
+
+/**
+ * Remove a law from the index
+ */
+export async function deleteSegment(lawName: string): Promise<void> {
+	await del(lawName, searchStore);
+}
+
+/**
+ * Drop the whole index
+ */
+export async function clearSegments(): Promise<void> {
+	await clear(searchStore);
+}
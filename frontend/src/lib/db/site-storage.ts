@@ -0,0 +1,60 @@
+/**
+ * IndexedDB persistence for organisation site profiles
+ *
+ * Sites are keyed by "{org_id}:{site_id}" so one browser can hold sites for
+ * several organisations without leaking them across logins.
+ */
+
+import { get, set, del, entries, createStore } from 'idb-keyval';
+import type { SiteProfile } from '$lib/screening/sites';
+
+// Separate database (idb-keyval can only have one store per DB)
+const siteStore = createStore('sertantai-legal-sites', 'sites');
+
+function siteKey(orgId: string, siteId: string): string {
+	return `${orgId}:${siteId}`;
+}
+
+/**
+ * Load all sites for an organisation, oldest first
+ */
+export async function loadSites(orgId: string): Promise<SiteProfile[]> {
+	try {
+		const all = await entries<string, SiteProfile>(siteStore);
+		return all
+			.filter(([key]) => key.startsWith(`${orgId}:`))
+			.map(([, site]) => site)
+			.sort((a, b) => a.created_at.localeCompare(b.created_at));
+	} catch (error) {
+		console.error('[IDB Storage] Error loading sites:', error);
+		return [];
+	}
+}
+
+/**
+ * Load a single site
+ */
+export async function loadSite(orgId: string, siteId: string): Promise<SiteProfile | null> {
+	try {
+		return (await get<SiteProfile>(siteKey(orgId, siteId), siteStore)) ?? null;
+	} catch (error) {
+		console.error('[IDB Storage] Error loading site:', error);
+		return null;
+	}
+}
+
+/**
+ * Create or update a site (stamps updated_at)
+ */
+export async function saveSite(site: SiteProfile): Promise<SiteProfile> {
+	const saved = { ...site, updated_at: new Date().toISOString() };
+	await set(siteKey(site.org_id, site.id), saved, siteStore);
+	return saved;
+}
+
+/**
+ * Delete a site
+ */
+export async function deleteSite(orgId: string, siteId: string): Promise<void> {
+	await del(siteKey(orgId, siteId), siteStore);
+}
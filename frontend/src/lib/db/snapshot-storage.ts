@@ -0,0 +1,43 @@
+/**
+ * IndexedDB persistence for register snapshots
+ *
+ * Snapshots are keyed by "{org_id}:{snapshot_id}", matching site-storage.ts.
+ * Backend snapshots are cached here once their records have been downloaded.
+ */
+
+import { set, del, entries, createStore } from 'idb-keyval';
+import type { RegisterSnapshot } from '$lib/snapshots/snapshots';
+
+// Separate database (idb-keyval can only have one store per DB)
+const snapshotStore = createStore('sertantai-legal-snapshots', 'snapshots');
+
+function snapshotKey(orgId: string, snapshotId: string): string {
+	return `${orgId}:${snapshotId}`;
+}
+
+/**
+ * Load all snapshots for an organisation, newest first
+ */
+export async function loadSnapshots(orgId: string): Promise<RegisterSnapshot[]> {
+	try {
+		const all = await entries<string, RegisterSnapshot>(snapshotStore);
+		return all
+			.filter(([key]) => key.startsWith(`${orgId}:`))
+			.map(([, snapshot]) => snapshot)
+			.sort((a, b) => b.taken_at.localeCompare(a.taken_at));
+	} catch (error) {
+		console.error('[IDB Storage] Error loading snapshots:', error);
+		return [];
+	}
+}
+
+/**
+ * Create or update a snapshot
+ */
+export async function saveSnapshot(snapshot: RegisterSnapshot): Promise<void> {
+	await set(snapshotKey(snapshot.org_id, snapshot.id), snapshot, snapshotStore);
+}
+
+export async function deleteSnapshot(orgId: string, snapshotId: string): Promise<void> {
+	await del(snapshotKey(orgId, snapshotId), snapshotStore);
+}
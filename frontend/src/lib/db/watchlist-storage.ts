@@ -0,0 +1,46 @@
+/**
+ * IndexedDB persistence for the law watchlist
+ *
+ * Watches are keyed by "{org_id}:{record_id}", matching site-storage.ts, so
+ * acknowledged snapshots stay with the organisation that made them.
+ */
+
+import { set, del, entries, createStore } from 'idb-keyval';
+import type { WatchEntry } from '$lib/watchlist/watchlist';
+
+// Separate database (idb-keyval can only have one store per DB)
+const watchStore = createStore('sertantai-legal-watchlist', 'watches');
+
+function watchKey(orgId: string, recordId: string): string {
+	return `${orgId}:${recordId}`;
+}
+
+/**
+ * Load all watches for an organisation, by law name
+ */
+export async function loadWatches(orgId: string): Promise<WatchEntry[]> {
+	try {
+		const all = await entries<string, WatchEntry>(watchStore);
+		return all
+			.filter(([key]) => key.startsWith(`${orgId}:`))
+			.map(([, watch]) => watch)
+			.sort((a, b) => a.name.localeCompare(b.name));
+	} catch (error) {
+		console.error('[IDB Storage] Error loading watchlist:', error);
+		return [];
+	}
+}
+
+/**
+ * Create or update a watch
+ */
+export async function saveWatch(watch: WatchEntry): Promise<void> {
+	await set(watchKey(watch.org_id, watch.record_id), watch, watchStore);
+}
+
+/**
+ * Stop watching a law
+ */
+export async function deleteWatch(orgId: string, recordId: string): Promise<void> {
+	await del(watchKey(orgId, recordId), watchStore);
+}
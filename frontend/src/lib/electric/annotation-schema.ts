@@ -5,6 +5,8 @@
  * change annotation (F-codes, C-codes, I-codes, E-codes).
  */
 
+import type { RecordSchema } from './record-schema';
+
 /**
  * Amendment Annotation record type matching the database schema.
  */
@@ -21,6 +23,23 @@ export interface AnnotationRecord {
 	updated_at: string | null;
 }
 
+/**
+ * Runtime schema for amendment_annotations rows as the Electric shape
+ * delivers them, checked before anything reads them
+ */
+export const ANNOTATION_SHAPE_SCHEMA: RecordSchema<AnnotationRecord> = {
+	id: { type: 'string' },
+	law_name: { type: 'string' },
+	law_id: { type: 'string' },
+	code: { type: 'string' },
+	code_type: { type: 'string' },
+	source: { type: 'string' },
+	text: { type: 'string' },
+	affected_sections: { type: 'string[]', nullable: true },
+	created_at: { type: 'string', nullable: true },
+	updated_at: { type: 'string', nullable: true }
+};
+
 /**
  * Columns to sync from amendment_annotations table.
  */
@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import {
+	and,
+	or,
+	not,
+	buildWhereFromFilters,
+	compilePredicate,
+	compileWhere,
+	filtersToQuery,
+	type FilterNode
+} from './filter-query';
+
+const rows = [
+	{
+		id: '1',
+		name: 'UK_uksi_2024_1',
+		title_en: "Worker's Safety Regulations",
+		year: 2024,
+		family: 'FIRE',
+		tags: ['fire', 'safety'],
+		function: { Making: true },
+		duties: { holders: ['Employer', 'Person'], articles: [] }
+	},
+	{
+		id: '2',
+		name: 'UK_ukpga_2021_5',
+		title_en: 'Environment Act',
+		year: 2021,
+		family: null,
+		tags: '{env,climate}',
+		function: '{"Amending":true}',
+		duties: '{"holders":["Local authority"]}'
+	},
+	{
+		id: '3',
+		name: 'UK_uksi_2019_9',
+		title_en: 'Draft Order',
+		year: 2019,
+		family: '',
+		tags: null,
+		function: { Making: true, Revoking: true },
+		duties: null
+	}
+];
+
+function matching(node: FilterNode): string[] {
+	return rows.filter(compilePredicate(node)).map((r) => r.id);
+}
+
+describe('compileWhere', () => {
+	it('compiles comparisons with quoted strings and raw numbers', () => {
+		expect(compileWhere({ kind: 'compare', field: 'family', op: '=', value: 'FIRE' })).toBe(
+			"family = 'FIRE'"
+		);
+		expect(compileWhere({ kind: 'compare', field: 'year', op: '>=', value: 2022 })).toBe(
+			'year >= 2022'
+		);
+	});
+
+	it('parenthesises nested groups and negations', () => {
+		const query = and(
+			{ kind: 'compare', field: 'year', op: '>', value: 2020 },
+			or(
+				{ kind: 'compare', field: 'family', op: '=', value: 'FIRE' },
+				not({ kind: 'like', field: 'title_en', mode: 'contains', value: 'Draft' })
+			)
+		);
+		expect(compileWhere(query)).toBe(
+			"year > 2020 AND (family = 'FIRE' OR NOT (title_en ILIKE '%Draft%'))"
+		);
+	});
+
+	it('compiles IN lists and escapes quotes', () => {
+		expect(compileWhere({ kind: 'in', field: 'name', values: ["O'Brien", 'UK_a'] })).toBe(
+			"name IN ('O''Brien', 'UK_a')"
+		);
+		expect(compileWhere({ kind: 'in', field: 'name', values: [] })).toBe('FALSE');
+	});
+
+	it('compiles text[] containment with array operators', () => {
+		expect(
+			compileWhere({ kind: 'array_contains', field: 'tags', values: ['fire', 'a"b'], match: 'all' })
+		).toBe(`tags @> '{"fire","a\\"b"}'`);
+		expect(
+			compileWhere({ kind: 'array_contains', field: 'role', values: ['Ind: Person'], match: 'any' })
+		).toBe(`role && '{"Ind: Person"}'`);
+	});
+
+	it('compiles JSONB set columns and paths with containment', () => {
+		expect(
+			compileWhere({
+				kind: 'array_contains',
+				field: 'function',
+				values: ['Making', 'Amending'],
+				match: 'any'
+			})
+		).toBe(`(function @> '{"Making":true}' OR function @> '{"Amending":true}')`);
+		expect(
+			compileWhere({
+				kind: 'array_contains',
+				field: 'function',
+				values: ['Making', 'Amending'],
+				match: 'all'
+			})
+		).toBe(`function @> '{"Making":true,"Amending":true}'`);
+		expect(
+			compileWhere({
+				kind: 'json_path',
+				field: 'duties',
+				path: ['holders'],
+				values: ['Employer'],
+				match: 'all'
+			})
+		).toBe(`duties @> '{"holders":["Employer"]}'`);
+	});
+
+	it('rejects field names that are not plain identifiers', () => {
+		expect(() =>
+			compileWhere({ kind: 'compare', field: 'year; DROP TABLE uk_lrt', op: '=', value: 1 })
+		).toThrow('Invalid filter field');
+	});
+});
+
+describe('filtersToQuery / buildWhereFromFilters', () => {
+	it('returns null for no applicable filters', () => {
+		expect(filtersToQuery([])).toBeNull();
+		expect(filtersToQuery([{ field: 'year', operator: 'bogus', value: 1 }])).toBeNull();
+	});
+
+	it('ANDs flat filters and falls back to the default window', () => {
+		expect(
+			buildWhereFromFilters([
+				{ field: 'year', operator: 'greater_or_equal', value: 2023 },
+				{ field: 'family', operator: 'is_empty', value: null }
+			])
+		).toBe("year >= 2023 AND (family IS NULL OR family = '')");
+		expect(buildWhereFromFilters(null)).toBe(`year >= ${new Date().getFullYear() - 2}`);
+	});
+
+	it('supports OR logic and array operators', () => {
+		const query = filtersToQuery(
+			[
+				{ field: 'tags', operator: 'contains_any', value: ['env', 'fire'] },
+				{ field: 'name', operator: 'in', value: ['UK_uksi_2019_9'] }
+			],
+			'or'
+		);
+		expect(compileWhere(query!)).toBe(`(tags && '{"env","fire"}' OR name IN ('UK_uksi_2019_9'))`);
+	});
+});
+
+describe('compilePredicate', () => {
+	it('matches everything without a query', () => {
+		expect(rows.filter(compilePredicate(null))).toHaveLength(3);
+	});
+
+	it('evaluates comparisons, including numeric strings against numbers', () => {
+		expect(matching({ kind: 'compare', field: 'year', op: '>', value: 2020 })).toEqual(['1', '2']);
+		expect(matching({ kind: 'compare', field: 'year', op: '>', value: '2020' })).toEqual([
+			'1',
+			'2'
+		]);
+	});
+
+	it('follows SQL NULL semantics for comparisons and NOT', () => {
+		// family = NULL is unknown, so row 2 matches neither the test nor its negation
+		expect(matching({ kind: 'compare', field: 'family', op: '!=', value: 'FIRE' })).toEqual(['3']);
+		expect(matching(not({ kind: 'compare', field: 'family', op: '=', value: 'FIRE' }))).toEqual([
+			'3'
+		]);
+		expect(
+			matching(
+				or(
+					{ kind: 'compare', field: 'family', op: '=', value: 'FIRE' },
+					{ kind: 'empty', field: 'family' }
+				)
+			)
+		).toEqual(['1', '2', '3']);
+	});
+
+	it('matches ILIKE patterns case-insensitively with SQL wildcards', () => {
+		expect(
+			matching({ kind: 'like', field: 'title_en', mode: 'contains', value: "worker's" })
+		).toEqual(['1']);
+		expect(
+			matching({ kind: 'like', field: 'name', mode: 'starts_with', value: 'uk_uksi' })
+		).toEqual(['1', '3']);
+		expect(matching({ kind: 'like', field: 'name', mode: 'ends_with', value: '_5' })).toEqual([
+			'2'
+		]);
+	});
+
+	it('matches array columns in any representation', () => {
+		expect(
+			matching({ kind: 'array_contains', field: 'tags', values: ['env', 'fire'], match: 'any' })
+		).toEqual(['1', '2']);
+		expect(
+			matching({ kind: 'array_contains', field: 'tags', values: ['env', 'fire'], match: 'all' })
+		).toEqual([]);
+		expect(
+			matching({ kind: 'array_contains', field: 'function', values: ['Making'], match: 'any' })
+		).toEqual(['1', '3']);
+	});
+
+	it('matches JSONB paths in objects and JSON strings', () => {
+		const holders = (values: string[]): FilterNode => ({
+			kind: 'json_path',
+			field: 'duties',
+			path: ['holders'],
+			values,
+			match: 'any'
+		});
+		expect(matching(holders(['Employer']))).toEqual(['1']);
+		expect(matching(holders(['Local authority', 'Person']))).toEqual(['1', '2']);
+		expect(matching(not(holders(['Employer'])))).toEqual(['2']);
+	});
+
+	it('agrees with the compiled WHERE on a combined query', () => {
+		const query = and(
+			{ kind: 'in', field: 'year', values: [2019, 2024] },
+			not({ kind: 'empty', field: 'family' })
+		);
+		expect(compileWhere(query)).toBe(
+			"year IN (2019, 2024) AND NOT ((family IS NULL OR family = ''))"
+		);
+		expect(matching(query)).toEqual(['1']);
+	});
+});
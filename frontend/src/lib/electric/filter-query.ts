@@ -0,0 +1,448 @@
+/**
+ * Typed filter queries for uk_lrt
+ *
+ * Browse filters are parsed into a small AST (AND/OR/NOT groups over typed
+ * predicates) and compiled two ways from the same tree:
+ *
+ *   compileWhere()     → Electric shape WHERE clause (Postgres SQL subset)
+ *   compilePredicate() → in-memory row test for TanStack DB collections
+ *
+ * Both follow SQL three-valued logic, so a row matches in memory exactly when
+ * Postgres would return it (comparisons against NULL are unknown, NOT unknown
+ * is still unknown, and only a definite true matches).
+ *
+ * Array predicates cover the text[] columns (tags, role) and the JSONB
+ * `function` set; JSON path predicates cover nested JSONB arrays such as
+ * `duties.holders`.
+ */
+
+import { getDefaultUkLrtWhere } from './client';
+
+export type ScalarValue = string | number | boolean;
+
+export type CompareOperator = '=' | '!=' | '>' | '<' | '>=' | '<=';
+
+export type LikeMode = 'contains' | 'starts_with' | 'ends_with';
+
+export type ArrayMatch = 'any' | 'all';
+
+export interface CompareNode {
+	kind: 'compare';
+	field: string;
+	op: CompareOperator;
+	value: ScalarValue;
+}
+
+/** Case-insensitive pattern match (ILIKE) */
+export interface LikeNode {
+	kind: 'like';
+	field: string;
+	mode: LikeMode;
+	value: string;
+	negate?: boolean;
+}
+
+/** NULL or empty string */
+export interface EmptyNode {
+	kind: 'empty';
+	field: string;
+	negate?: boolean;
+}
+
+export interface InNode {
+	kind: 'in';
+	field: string;
+	values: ScalarValue[];
+}
+
+/** Array column contains any / all of the given values */
+export interface ArrayContainsNode {
+	kind: 'array_contains';
+	field: string;
+	values: string[];
+	match: ArrayMatch;
+}
+
+/** Array inside a JSONB column (e.g. duties → holders) contains any / all values */
+export interface JsonPathNode {
+	kind: 'json_path';
+	field: string;
+	path: string[];
+	values: string[];
+	match: ArrayMatch;
+}
+
+export interface GroupNode {
+	kind: 'and' | 'or';
+	children: FilterNode[];
+}
+
+export interface NotNode {
+	kind: 'not';
+	child: FilterNode;
+}
+
+export type PredicateNode =
+	CompareNode | LikeNode | EmptyNode | InNode | ArrayContainsNode | JsonPathNode;
+
+export type FilterNode = PredicateNode | GroupNode | NotNode;
+
+/** uk_lrt columns stored as JSONB objects keyed by value ({"Making": true}) */
+export const JSONB_SET_COLUMNS = new Set(['function']);
+
+/** Array-valued columns that accept array_contains */
+export const ARRAY_COLUMNS = new Set(['tags', 'role', ...JSONB_SET_COLUMNS]);
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*$/;
+
+// ── Builders ────────────────────────────────────────────────────────────────
+
+export const and = (...children: FilterNode[]): GroupNode => ({ kind: 'and', children });
+export const or = (...children: FilterNode[]): GroupNode => ({ kind: 'or', children });
+export const not = (child: FilterNode): NotNode => ({ kind: 'not', child });
+
+// ── Parsing flat filter lists ───────────────────────────────────────────────
+
+/**
+ * Filter condition as produced by TableKit column filters
+ */
+export interface FlatFilter {
+	field: string;
+	operator: string;
+	value: unknown;
+}
+
+function scalar(value: unknown): ScalarValue {
+	return typeof value === 'number' || typeof value === 'boolean' ? value : String(value ?? '');
+}
+
+function list(value: unknown): string[] {
+	return (Array.isArray(value) ? value : [value]).map((v) => String(v));
+}
+
+/**
+ * Convert one flat filter to a predicate. Returns null for unknown operators.
+ */
+export function filterToNode({ field, operator, value }: FlatFilter): FilterNode | null {
+	switch (operator) {
+		case 'equals':
+			return { kind: 'compare', field, op: '=', value: scalar(value) };
+		case 'not_equals':
+			return { kind: 'compare', field, op: '!=', value: scalar(value) };
+		case 'greater_than':
+		case 'is_after':
+			return { kind: 'compare', field, op: '>', value: scalar(value) };
+		case 'less_than':
+		case 'is_before':
+			return { kind: 'compare', field, op: '<', value: scalar(value) };
+		case 'greater_or_equal':
+			return { kind: 'compare', field, op: '>=', value: scalar(value) };
+		case 'less_or_equal':
+			return { kind: 'compare', field, op: '<=', value: scalar(value) };
+		case 'contains':
+		case 'starts_with':
+		case 'ends_with':
+			return { kind: 'like', field, mode: operator, value: String(value ?? '') };
+		case 'not_contains':
+			return { kind: 'like', field, mode: 'contains', value: String(value ?? ''), negate: true };
+		case 'is_empty':
+			return { kind: 'empty', field };
+		case 'is_not_empty':
+			return { kind: 'empty', field, negate: true };
+		case 'in':
+			return { kind: 'in', field, values: (Array.isArray(value) ? value : [value]).map(scalar) };
+		case 'contains_any':
+			return { kind: 'array_contains', field, values: list(value), match: 'any' };
+		case 'contains_all':
+			return { kind: 'array_contains', field, values: list(value), match: 'all' };
+		default:
+			console.warn(`[filter-query] Unknown operator: ${operator}`);
+			return null;
+	}
+}
+
+/**
+ * Combine flat filters into one query (AND by default). Null when nothing applies.
+ */
+export function filtersToQuery(
+	filters: FlatFilter[] | null | undefined,
+	logic: 'and' | 'or' = 'and'
+): FilterNode | null {
+	const nodes = (filters ?? []).map(filterToNode).filter((n): n is FilterNode => n !== null);
+	if (nodes.length === 0) return null;
+	if (nodes.length === 1) return nodes[0];
+	return { kind: logic, children: nodes };
+}
+
+// ── SQL compiler ────────────────────────────────────────────────────────────
+
+function column(field: string): string {
+	if (!IDENTIFIER.test(field)) throw new Error(`Invalid filter field: ${field}`);
+	return field;
+}
+
+function quote(value: string): string {
+	return `'${value.replace(/'/g, "''")}'`;
+}
+
+function literal(value: ScalarValue): string {
+	return typeof value === 'string' ? quote(value) : String(value);
+}
+
+/** Postgres text[] literal: '{"a","b"}' */
+function textArrayLiteral(values: string[]): string {
+	const items = values.map((v) => `"${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`);
+	return quote(`{${items.join(',')}}`);
+}
+
+function jsonContains(field: string, value: unknown): string {
+	return `${field} @> ${quote(JSON.stringify(value))}`;
+}
+
+function nest(path: string[], leaf: unknown): unknown {
+	return path.reduceRight<unknown>((inner, key) => ({ [key]: inner }), leaf);
+}
+
+function compileLike(node: LikeNode): string {
+	const value = node.value.replace(/'/g, "''");
+	const pattern =
+		node.mode === 'contains'
+			? `%${value}%`
+			: node.mode === 'starts_with'
+				? `${value}%`
+				: `%${value}`;
+	return `${column(node.field)} ${node.negate ? 'NOT ILIKE' : 'ILIKE'} '${pattern}'`;
+}
+
+function compileArrayContains(node: ArrayContainsNode): string {
+	const field = column(node.field);
+	if (JSONB_SET_COLUMNS.has(node.field)) {
+		const members = (values: string[]) => Object.fromEntries(values.map((v) => [v, true]));
+		if (node.match === 'all') return jsonContains(field, members(node.values));
+		return `(${node.values.map((v) => jsonContains(field, members([v]))).join(' OR ')})`;
+	}
+	return `${field} ${node.match === 'all' ? '@>' : '&&'} ${textArrayLiteral(node.values)}`;
+}
+
+function compileJsonPath(node: JsonPathNode): string {
+	const field = column(node.field);
+	if (node.match === 'all') return jsonContains(field, nest(node.path, node.values));
+	return `(${node.values.map((v) => jsonContains(field, nest(node.path, [v]))).join(' OR ')})`;
+}
+
+function compileNode(node: FilterNode, nested: boolean): string {
+	switch (node.kind) {
+		case 'compare':
+			return `${column(node.field)} ${node.op} ${literal(node.value)}`;
+		case 'like':
+			return compileLike(node);
+		case 'empty': {
+			const field = column(node.field);
+			return node.negate
+				? `(${field} IS NOT NULL AND ${field} != '')`
+				: `(${field} IS NULL OR ${field} = '')`;
+		}
+		case 'in':
+			return node.values.length === 0
+				? 'FALSE'
+				: `${column(node.field)} IN (${node.values.map(literal).join(', ')})`;
+		case 'array_contains':
+			return node.values.length === 0 ? 'TRUE' : compileArrayContains(node);
+		case 'json_path':
+			return node.values.length === 0 ? 'TRUE' : compileJsonPath(node);
+		case 'not':
+			return `NOT (${compileNode(node.child, false)})`;
+		case 'and':
+		case 'or': {
+			if (node.children.length === 0) return node.kind === 'and' ? 'TRUE' : 'FALSE';
+			if (node.children.length === 1) return compileNode(node.children[0], nested);
+			const joined = node.children
+				.map((child) => compileNode(child, true))
+				.join(node.kind === 'and' ? ' AND ' : ' OR ');
+			// Top-level AND stays unparenthesised to match the shape WHERE clauses used so far
+			return nested || node.kind === 'or' ? `(${joined})` : joined;
+		}
+	}
+}
+
+/**
+ * Compile a query to an Electric WHERE clause
+ */
+export function compileWhere(node: FilterNode): string {
+	return compileNode(node, false);
+}
+
+/**
+ * Electric WHERE clause for flat browse filters, falling back to the default
+ * recent-years window when no filter applies.
+ */
+export function buildWhereFromFilters(filters: FlatFilter[] | null | undefined): string {
+	const query = filtersToQuery(filters);
+	return query ? compileWhere(query) : getDefaultUkLrtWhere();
+}
+
+// ── In-memory predicate ─────────────────────────────────────────────────────
+
+/** SQL truth value: null is UNKNOWN */
+type Truth = boolean | null;
+
+function isNull(value: unknown): boolean {
+	return value === null || value === undefined;
+}
+
+function compareValues(a: unknown, b: ScalarValue): number | null {
+	if (isNull(a)) return null;
+	if (typeof b === 'number') {
+		const num = typeof a === 'number' ? a : Number(a);
+		return isNaN(num) ? null : num - b;
+	}
+	if (typeof b === 'boolean') {
+		const bool = typeof a === 'boolean' ? a : a === 'true' || a === 't';
+		return Number(bool) - Number(b);
+	}
+	const text = String(a);
+	// Numeric columns compared with a numeric string ("year > '2020'") compare as numbers
+	if (typeof a === 'number' && b.trim() !== '' && !isNaN(Number(b))) return a - Number(b);
+	return text < b ? -1 : text > b ? 1 : 0;
+}
+
+function likeRegex(node: LikeNode): RegExp {
+	// Same wildcards as SQL: % any run, _ one character
+	const escaped = node.value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const body = escaped.replace(/%/g, '.*').replace(/_/g, '.');
+	const pattern =
+		node.mode === 'contains'
+			? `.*${body}.*`
+			: node.mode === 'starts_with'
+				? `${body}.*`
+				: `.*${body}`;
+	return new RegExp(`^${pattern}$`, 'is');
+}
+
+/** Array column value as a list: arrays, Postgres literals ("{a,b}") and JSON strings */
+function toArray(value: unknown): string[] | null {
+	if (isNull(value)) return null;
+	if (Array.isArray(value)) return value.map(String);
+	if (typeof value === 'string') {
+		const text = value.trim();
+		if (text.startsWith('[')) {
+			try {
+				const parsed = JSON.parse(text);
+				return Array.isArray(parsed) ? parsed.map(String) : null;
+			} catch {
+				return null;
+			}
+		}
+		if (text.startsWith('{') && text.endsWith('}')) {
+			try {
+				return toArray(JSON.parse(text));
+			} catch {
+				// Not JSON, so a Postgres array literal
+			}
+			const inner = text.slice(1, -1);
+			return inner === '' ? [] : inner.split(',').map((s) => s.trim().replace(/^"|"$/g, ''));
+		}
+	}
+	// JSONB objects keyed by value ({"Making": true}) behave like a list of keys
+	if (typeof value === 'object') return Object.keys(value as object);
+	return null;
+}
+
+function jsonValue(value: unknown): unknown {
+	if (typeof value !== 'string') return value;
+	try {
+		return JSON.parse(value);
+	} catch {
+		return null;
+	}
+}
+
+function containsValues(items: string[] | null, values: string[], match: ArrayMatch): Truth {
+	if (values.length === 0) return true;
+	if (items === null) return null;
+	return match === 'all'
+		? values.every((v) => items.includes(v))
+		: values.some((v) => items.includes(v));
+}
+
+function evaluate(node: FilterNode, row: Record<string, unknown>): Truth {
+	switch (node.kind) {
+		case 'compare': {
+			const cmp = compareValues(row[node.field], node.value);
+			if (cmp === null) return null;
+			switch (node.op) {
+				case '=':
+					return cmp === 0;
+				case '!=':
+					return cmp !== 0;
+				case '>':
+					return cmp > 0;
+				case '<':
+					return cmp < 0;
+				case '>=':
+					return cmp >= 0;
+				case '<=':
+					return cmp <= 0;
+			}
+			return null;
+		}
+		case 'like': {
+			const value = row[node.field];
+			if (isNull(value)) return null;
+			const matched = likeRegex(node).test(String(value));
+			return node.negate ? !matched : matched;
+		}
+		case 'empty': {
+			const value = row[node.field];
+			const empty = isNull(value) || value === '';
+			return node.negate ? !empty : empty;
+		}
+		case 'in': {
+			const value = row[node.field];
+			if (node.values.length === 0) return false;
+			if (isNull(value)) return null;
+			return node.values.some((v) => compareValues(value, v) === 0);
+		}
+		case 'array_contains':
+			return containsValues(toArray(row[node.field]), node.values, node.match);
+		case 'json_path': {
+			let current = jsonValue(row[node.field]);
+			for (const key of node.path) {
+				if (isNull(current) || typeof current !== 'object') return null;
+				current = (current as Record<string, unknown>)[key];
+			}
+			return containsValues(toArray(current), node.values, node.match);
+		}
+		case 'not': {
+			const inner = evaluate(node.child, row);
+			return inner === null ? null : !inner;
+		}
+		case 'and': {
+			let unknown = false;
+			for (const child of node.children) {
+				const result = evaluate(child, row);
+				if (result === false) return false;
+				if (result === null) unknown = true;
+			}
+			return unknown ? null : true;
+		}
+		case 'or': {
+			let unknown = false;
+			for (const child of node.children) {
+				const result = evaluate(child, row);
+				if (result === true) return true;
+				if (result === null) unknown = true;
+			}
+			return unknown ? null : false;
+		}
+	}
+}
+
+/**
+ * Compile a query to a row predicate for TanStack DB collections.
+ * Works on raw Electric rows and on transformed UkLrtRecords.
+ */
+export function compilePredicate<T extends object>(node: FilterNode | null): (row: T) => boolean {
+	if (!node) return () => true;
+	return (row) => evaluate(node, row as Record<string, unknown>) === true;
+}
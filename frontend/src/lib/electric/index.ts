@@ -5,14 +5,46 @@
  */
 
 // Schema and types
-export { type UkLrtRecord, transformUkLrtRecord } from './uk-lrt-schema';
-export { type LatRecord, transformLatRecord, LAT_COLUMNS } from './lat-schema';
+export {
+	type UkLrtRecord,
+	transformUkLrtRecord,
+	UK_LRT_RECORD_SCHEMA,
+	UK_LRT_SHAPE_SCHEMA
+} from './uk-lrt-schema';
+export {
+	type LatRecord,
+	transformLatRecord,
+	LAT_COLUMNS,
+	LAT_RECORD_SCHEMA,
+	LAT_SHAPE_SCHEMA
+} from './lat-schema';
 export {
 	type AnnotationRecord,
 	transformAnnotationRecord,
-	ANNOTATION_COLUMNS
+	ANNOTATION_COLUMNS,
+	ANNOTATION_SHAPE_SCHEMA
 } from './annotation-schema';
 
+export {
+	checkRecord,
+	checkRecords,
+	type RecordSchema,
+	type FieldSpec,
+	type SchemaIssue,
+	type SchemaIssueSummary
+} from './record-schema';
+
+export {
+	checkShapeRow,
+	screenRow,
+	summarizeDrift,
+	SHAPE_TABLES,
+	type ShapeTable,
+	type ShapeOperation,
+	type QuarantinedRow,
+	type DriftSummary
+} from './shape-validation';
+
 // Sync functions
 export {
 	syncUkLrt,
@@ -22,8 +54,23 @@ export {
 	checkElectricHealth,
 	buildWhereFromFilters,
 	syncStatus,
+	syncWatchedLaws,
+	stopWatchedLawSync,
 	type SyncStatus
 } from './sync-uk-lrt';
 
+// Filter queries
+export {
+	filtersToQuery,
+	filterToNode,
+	compileWhere,
+	compilePredicate,
+	and,
+	or,
+	not,
+	type FilterNode,
+	type FlatFilter
+} from './filter-query';
+
 // Client config
 export { ELECTRIC_URL, getCurrentYear, getDefaultUkLrtWhere } from './client';
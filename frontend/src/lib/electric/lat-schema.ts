@@ -6,6 +6,8 @@
  * section, article, paragraph, schedule entry, etc.
  */
 
+import type { FieldSpec, RecordSchema } from './record-schema';
+
 /**
  * LAT Record type matching the database schema.
  * Excludes embedding/token columns (AI-only, not synced to frontend).
@@ -39,6 +41,74 @@ export interface LatRecord {
 	updated_at: string | null;
 }
 
+/**
+ * Runtime schema for LatRecord, for checking rows from other sources
+ */
+export const LAT_RECORD_SCHEMA: RecordSchema<LatRecord> = {
+	section_id: { type: 'string' },
+	law_name: { type: 'string' },
+	law_id: { type: 'string' },
+	sort_key: { type: 'string' },
+	position: { type: 'number' },
+	section_type: { type: 'string' },
+	hierarchy_path: { type: 'string', nullable: true },
+	depth: { type: 'number' },
+	part: { type: 'string', nullable: true },
+	chapter: { type: 'string', nullable: true },
+	heading_group: { type: 'string', nullable: true },
+	provision: { type: 'string', nullable: true },
+	paragraph: { type: 'string', nullable: true },
+	sub_paragraph: { type: 'string', nullable: true },
+	schedule: { type: 'string', nullable: true },
+	text: { type: 'string' },
+	language: { type: 'string' },
+	extent_code: { type: 'string', nullable: true },
+	amendment_count: { type: 'number', nullable: true },
+	modification_count: { type: 'number', nullable: true },
+	commencement_count: { type: 'number', nullable: true },
+	extent_count: { type: 'number', nullable: true },
+	editorial_count: { type: 'number', nullable: true },
+	legacy_id: { type: 'string', nullable: true },
+	created_at: { type: 'string', nullable: true },
+	updated_at: { type: 'string', nullable: true }
+};
+
+const TEXT: FieldSpec = { type: 'string', nullable: true };
+const COUNT: FieldSpec = { type: 'integer', nullable: true };
+
+/**
+ * Runtime schema for lat rows as the Electric shape delivers them (bigint
+ * columns arrive as bigint), checked before anything reads them
+ */
+export const LAT_SHAPE_SCHEMA: RecordSchema<LatRecord> = {
+	section_id: { type: 'string' },
+	law_name: { type: 'string' },
+	law_id: { type: 'string' },
+	sort_key: { type: 'string' },
+	position: { type: 'integer' },
+	section_type: { type: 'string' },
+	hierarchy_path: TEXT,
+	depth: { type: 'integer' },
+	part: TEXT,
+	chapter: TEXT,
+	heading_group: TEXT,
+	provision: TEXT,
+	paragraph: TEXT,
+	sub_paragraph: TEXT,
+	schedule: TEXT,
+	text: { type: 'string' },
+	language: { type: 'string' },
+	extent_code: TEXT,
+	amendment_count: COUNT,
+	modification_count: COUNT,
+	commencement_count: COUNT,
+	extent_count: COUNT,
+	editorial_count: COUNT,
+	legacy_id: TEXT,
+	created_at: TEXT,
+	updated_at: TEXT
+};
+
 /**
  * Columns to sync from lat table.
  * Excludes embedding, embedding_model, embedded_at, token_ids, tokenizer_model
@@ -0,0 +1,140 @@
+/**
+ * Tests for runtime record schemas
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkRecord, checkRecords, typeOf, type RecordSchema } from './record-schema';
+import { LAT_RECORD_SCHEMA } from './lat-schema';
+
+interface Row {
+	id: string;
+	year: number;
+	tags: string[] | null;
+	duties: Record<string, unknown> | null;
+}
+
+const schema: RecordSchema<Row> = {
+	id: { type: 'string' },
+	year: { type: 'number' },
+	tags: { type: 'string[]', nullable: true },
+	duties: { type: 'object', nullable: true }
+};
+
+describe('typeOf', () => {
+	it('names JSON types, distinguishing string arrays', () => {
+		expect(typeOf(null)).toBe('null');
+		expect(typeOf(['a', 'b'])).toBe('string[]');
+		expect(typeOf([1])).toBe('array');
+		expect(typeOf({})).toBe('object');
+		expect(typeOf(2024)).toBe('number');
+		expect(typeOf(NaN)).toBe('NaN');
+		expect(typeOf(2024n)).toBe('bigint');
+	});
+});
+
+describe('checkRecord', () => {
+	it('accepts a matching row, with nullable fields null or absent', () => {
+		expect(checkRecord(schema, { id: 'a', year: 2024, tags: null })).toEqual([]);
+		expect(checkRecord(schema, { id: 'a', year: 2024, tags: [], duties: {} })).toEqual([]);
+	});
+
+	it('reports missing required fields, type mismatches and unknown fields', () => {
+		expect(checkRecord(schema, { id: 'a', tags: 'x', extra: true })).toEqual([
+			{ field: 'year', kind: 'missing', expected: 'number' },
+			{ field: 'tags', kind: 'type', expected: 'string[] | null', actual: 'string' },
+			{ field: 'extra', kind: 'unknown', actual: 'boolean' }
+		]);
+	});
+
+	it('rejects non-object rows', () => {
+		expect(checkRecord(schema, [1, 2])).toEqual([
+			{ field: '(record)', kind: 'type', expected: 'object', actual: 'array' }
+		]);
+	});
+
+	it('covers every LatRecord field', () => {
+		expect(Object.keys(LAT_RECORD_SCHEMA)).toContain('section_id');
+		expect(
+			checkRecord(LAT_RECORD_SCHEMA, {
+				section_id: 'UK_uksi_2024_1:s.1',
+				law_name: 'UK_uksi_2024_1',
+				law_id: 'uuid',
+				sort_key: '001',
+				position: 1,
+				section_type: 'section',
+				depth: 1,
+				text: 'Citation',
+				language: 'en'
+			})
+		).toEqual([]);
+	});
+});
+
+describe('checkRecord with wire-format specs', () => {
+	const wire = {
+		year: { type: 'integer', nullable: true },
+		duties: {
+			type: ['object', 'string'],
+			nullable: true,
+			fields: {
+				entries: {
+					type: 'array',
+					items: { type: 'object', fields: { holder: { type: 'string' } } }
+				},
+				holders: { type: 'string[]', nullable: true }
+			}
+		}
+	} as RecordSchema<{ year: unknown; duties: unknown }>;
+
+	it('accepts integers as numbers, bigints or digit strings', () => {
+		expect(checkRecord(wire, { year: 2024 })).toEqual([]);
+		expect(checkRecord(wire, { year: 2024n })).toEqual([]);
+		expect(checkRecord(wire, { year: '2024' })).toEqual([]);
+		expect(checkRecord(wire, { year: '2024a' })).toEqual([
+			{ field: 'year', kind: 'type', expected: 'integer | null', actual: 'string' }
+		]);
+		expect(checkRecord(wire, { year: NaN })).toEqual([
+			{ field: 'year', kind: 'type', expected: 'integer | null', actual: 'NaN' }
+		]);
+	});
+
+	it('checks nested fields and array items once per path', () => {
+		expect(
+			checkRecord(wire, { duties: { entries: [{ holder: 'Ind: Person' }], holders: null } })
+		).toEqual([]);
+		expect(checkRecord(wire, { duties: { entries: [{}, {}, { holder: 1 }] } })).toEqual([
+			{ field: 'duties.entries[].holder', kind: 'missing', expected: 'string' },
+			{ field: 'duties.entries[].holder', kind: 'type', expected: 'string', actual: 'number' }
+		]);
+		expect(checkRecord(wire, { duties: { holders: [] } })).toEqual([
+			{ field: 'duties.entries', kind: 'missing', expected: 'array' }
+		]);
+	});
+
+	it('accepts any of several types, only checking nested fields on objects', () => {
+		expect(checkRecord(wire, { duties: '{"entries":[]}' })).toEqual([]);
+		expect(checkRecord(wire, { duties: 3 })).toEqual([
+			{ field: 'duties', kind: 'type', expected: 'object | string | null', actual: 'number' }
+		]);
+	});
+
+	it('skips missing fields in partial rows but still checks the ones present', () => {
+		expect(checkRecord(schema, { id: 'a' }, { partial: true })).toEqual([]);
+		expect(checkRecord(schema, { id: 'a', year: null }, { partial: true })).toEqual([
+			{ field: 'year', kind: 'type', expected: 'number', actual: 'null' }
+		]);
+	});
+});
+
+describe('checkRecords', () => {
+	it('collapses repeated issues with row counts', () => {
+		const rows = [
+			{ id: 'a', year: 2024 },
+			{ id: 'b', year: '2024' },
+			{ id: 'c', year: '2023' }
+		];
+		expect(checkRecords(schema, rows)).toEqual([
+			{ field: 'year', kind: 'type', expected: 'number', actual: 'string', rows: 2, firstRow: 1 }
+		]);
+	});
+});
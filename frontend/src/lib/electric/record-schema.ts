@@ -0,0 +1,173 @@
+/**
+ * Runtime record schemas
+ *
+ * TypeScript interfaces vanish at runtime, so each record type also declares
+ * a field map (`RecordSchema<T>` must name every key of `T`, so the two stay
+ * in step). `checkRecord` compares a raw JSON row against it and reports
+ * missing fields, type mismatches and fields the interface doesn't know.
+ */
+
+export type FieldType =
+	'string' | 'number' | 'integer' | 'boolean' | 'string[]' | 'array' | 'object';
+
+export interface FieldSpec {
+	/** Several types when the wire format varies, e.g. JSONB sent parsed or as text */
+	type: FieldType | FieldType[];
+	/** null/undefined accepted */
+	nullable?: boolean;
+	/** Nested fields of an object value (JSONB); keys not listed are allowed */
+	fields?: Record<string, FieldSpec>;
+	/** Spec every element of an array value must meet */
+	items?: FieldSpec;
+}
+
+export type RecordSchema<T> = { [K in keyof T]-?: FieldSpec };
+
+export type SchemaIssueKind = 'missing' | 'type' | 'unknown';
+
+export interface SchemaIssue {
+	field: string;
+	kind: SchemaIssueKind;
+	expected?: string;
+	actual?: string;
+}
+
+/** A schema issue seen in one or more rows of a result set */
+export interface SchemaIssueSummary extends SchemaIssue {
+	rows: number;
+	/** Index of the first row with the issue */
+	firstRow: number;
+}
+
+/** JSON type of a value, in the same vocabulary as `FieldType` */
+export function typeOf(value: unknown): string {
+	if (value === null) return 'null';
+	if (value === undefined) return 'undefined';
+	if (Array.isArray(value)) {
+		return value.every((v) => typeof v === 'string') ? 'string[]' : 'array';
+	}
+	// NaN and Infinity are what blind coercion produces; name them
+	if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+	return typeof value;
+}
+
+function matchesType(type: FieldType, value: unknown): boolean {
+	switch (type) {
+		case 'number':
+			return typeof value === 'number' && Number.isFinite(value);
+		case 'integer':
+			// Electric parses int8 to bigint; other clients send digits as text
+			return (
+				Number.isSafeInteger(value) ||
+				typeof value === 'bigint' ||
+				(typeof value === 'string' && /^-?\d+$/.test(value))
+			);
+		case 'array':
+			return Array.isArray(value);
+		default:
+			return typeOf(value) === type;
+	}
+}
+
+function typesOf(spec: FieldSpec): FieldType[] {
+	return Array.isArray(spec.type) ? spec.type : [spec.type];
+}
+
+function matches(spec: FieldSpec, value: unknown): boolean {
+	if (value === null || value === undefined) return !!spec.nullable;
+	return typesOf(spec).some((type) => matchesType(type, value));
+}
+
+function describe(spec: FieldSpec): string {
+	const types = typesOf(spec).join(' | ');
+	return spec.nullable ? `${types} | null` : types;
+}
+
+export interface CheckOptions {
+	/**
+	 * The row carries only some columns (an Electric update message), so
+	 * absent fields are not reported as missing
+	 */
+	partial?: boolean;
+}
+
+function checkValue(field: string, spec: FieldSpec, value: unknown, issues: SchemaIssue[]) {
+	if (!matches(spec, value)) {
+		issues.push({ field, kind: 'type', expected: describe(spec), actual: typeOf(value) });
+		return;
+	}
+	if (spec.fields && typeOf(value) === 'object') {
+		checkFields(spec.fields, value as Record<string, unknown>, `${field}.`, false, issues);
+	}
+	if (spec.items && Array.isArray(value)) {
+		// One issue per path however many elements share it
+		const seen = new Set<string>();
+		for (const item of value) {
+			const found: SchemaIssue[] = [];
+			checkValue(`${field}[]`, spec.items, item, found);
+			for (const issue of found) {
+				const key = `${issue.kind}:${issue.field}`;
+				if (!seen.has(key)) {
+					seen.add(key);
+					issues.push(issue);
+				}
+			}
+		}
+	}
+}
+
+function checkFields(
+	specs: Record<string, FieldSpec>,
+	row: Record<string, unknown>,
+	prefix: string,
+	partial: boolean,
+	issues: SchemaIssue[]
+) {
+	for (const [name, spec] of Object.entries(specs)) {
+		const field = prefix + name;
+		if (!(name in row)) {
+			if (!spec.nullable && !partial)
+				issues.push({ field, kind: 'missing', expected: describe(spec) });
+		} else {
+			checkValue(field, spec, row[name], issues);
+		}
+	}
+}
+
+/**
+ * Check one raw row against a schema. Nullable fields may be absent (API
+ * payloads often omit columns); required ones may not. Nested `fields` and
+ * `items` are reported with dotted paths, e.g. `duties.entries[].holder`.
+ */
+export function checkRecord<T>(
+	schema: RecordSchema<T>,
+	value: unknown,
+	options: CheckOptions = {}
+): SchemaIssue[] {
+	if (typeOf(value) !== 'object') {
+		return [{ field: '(record)', kind: 'type', expected: 'object', actual: typeOf(value) }];
+	}
+	const row = value as Record<string, unknown>;
+	const specs = schema as Record<string, FieldSpec>;
+	const issues: SchemaIssue[] = [];
+
+	checkFields(specs, row, '', !!options.partial, issues);
+	for (const field of Object.keys(row)) {
+		if (!(field in specs)) issues.push({ field, kind: 'unknown', actual: typeOf(row[field]) });
+	}
+	return issues;
+}
+
+/** Check every row, collapsing repeated issues into one summary per field and kind */
+export function checkRecords<T>(schema: RecordSchema<T>, rows: unknown[]): SchemaIssueSummary[] {
+	const summaries = new Map<string, SchemaIssueSummary>();
+	rows.forEach((row, index) => {
+		for (const issue of checkRecord(schema, row)) {
+			const key = `${issue.kind}:${issue.field}`;
+			const existing = summaries.get(key);
+			if (existing) existing.rows++;
+			else summaries.set(key, { ...issue, rows: 1, firstRow: index });
+		}
+	});
+	return [...summaries.values()];
+}
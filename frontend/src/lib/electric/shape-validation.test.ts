@@ -0,0 +1,204 @@
+/**
+ * Tests for shape row validation and quarantine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkShapeRow, rowKey, screenRow, screenWrite, summarizeDrift } from './shape-validation';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+/** A uk_lrt row as the Electric shape delivers it (bigint year, parsed JSONB) */
+function lrtRow(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+	return {
+		id: 'a1b2',
+		name: 'UK_uksi_2024_1',
+		title_en: 'Example Regulations',
+		year: 2024n,
+		number: '1',
+		type_code: 'uksi',
+		type_class: 'Regulation',
+		is_making: true,
+		geo_region: ['England', 'Wales'],
+		function: { Making: true },
+		duties: {
+			entries: [
+				{ holder: 'Ind: Person', duty_type: 'DUTY', clause: null, article: 'regulation/4' }
+			],
+			holders: ['Ind: Person'],
+			articles: ['regulation/4']
+		},
+		fitness: [{ polarity: 'applies', person: 'employer' }],
+		md_total_paras: 12n,
+		// Synced but not on UkLrtRecord
+		acronym: 'ER',
+		...overrides
+	};
+}
+
+function latRow(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+	return {
+		section_id: 'UK_uksi_2024_1:s.1',
+		law_name: 'UK_uksi_2024_1',
+		law_id: 'a1b2',
+		sort_key: '001',
+		position: 1n,
+		section_type: 'section',
+		depth: 1n,
+		text: 'Citation',
+		language: 'en',
+		created_at: '2026-02-01T00:00:00Z',
+		...overrides
+	};
+}
+
+describe('checkShapeRow', () => {
+	it('accepts rows in the Electric wire format, ignoring extra synced columns', () => {
+		expect(checkShapeRow('uk_lrt', lrtRow(), 'insert')).toEqual([]);
+		expect(checkShapeRow('lat', latRow(), 'insert')).toEqual([]);
+		expect(
+			checkShapeRow(
+				'amendment_annotations',
+				{
+					id: 'F1',
+					law_name: 'UK_uksi_2024_1',
+					law_id: 'a1b2',
+					code: 'F1',
+					code_type: 'amendment',
+					source: 'S.I. 2025/3',
+					text: 'Words substituted',
+					affected_sections: ['s.1']
+				},
+				'insert'
+			)
+		).toEqual([]);
+	});
+
+	it('flags values the transforms would coerce silently', () => {
+		const issues = checkShapeRow(
+			'uk_lrt',
+			lrtRow({ year: 'MMXXIV', duties: { holders: ['Ind: Person'] } }),
+			'insert'
+		);
+		expect(issues).toEqual([
+			{ field: 'year', kind: 'type', expected: 'integer | null', actual: 'string' },
+			{ field: 'duties.entries', kind: 'missing', expected: 'array' }
+		]);
+	});
+
+	it('reports missing columns on inserts only, but always needs the key', () => {
+		const partial = { section_id: 's.1', text: 'x' };
+		expect(checkShapeRow('lat', partial, 'insert')).not.toEqual([]);
+		expect(checkShapeRow('lat', partial, 'update')).toEqual([]);
+		expect(checkShapeRow('lat', { text: 'x' })).toEqual([
+			{ field: 'section_id', kind: 'missing', expected: 'string' }
+		]);
+	});
+});
+
+describe('rowKey', () => {
+	it('reads the table primary key', () => {
+		expect(rowKey('uk_lrt', lrtRow())).toBe('a1b2');
+		expect(rowKey('lat', latRow())).toBe('UK_uksi_2024_1:s.1');
+		expect(rowKey('lat', {})).toBeNull();
+	});
+});
+
+describe('screenRow', () => {
+	it('admits valid rows', () => {
+		expect(screenRow(undefined, 'uk_lrt', lrtRow(), 'insert', NOW)).toBeNull();
+	});
+
+	it('quarantines a bad row with its issues and raw value', () => {
+		const entry = screenRow(undefined, 'uk_lrt', lrtRow({ year: 'MMXXIV' }), 'insert', NOW);
+		expect(entry).toMatchObject({
+			table: 'uk_lrt',
+			key: 'a1b2',
+			operation: 'insert',
+			receivedAt: NOW.toISOString(),
+			issues: [{ field: 'year', kind: 'type' }]
+		});
+		expect(entry?.row.year).toBe('MMXXIV');
+	});
+
+	it('merges updates into a quarantined row, releasing it once every issue is fixed', () => {
+		const bad = lrtRow({ year: 'MMXXIV', md_total_paras: 'twelve' });
+		const entry = screenRow(undefined, 'uk_lrt', bad, 'insert', NOW)!;
+		expect(entry.issues).toHaveLength(2);
+
+		const partlyFixed = screenRow(entry, 'uk_lrt', { id: 'a1b2', year: 2024n }, 'update', NOW);
+		expect(partlyFixed?.issues).toEqual([
+			{ field: 'md_total_paras', kind: 'type', expected: 'integer | null', actual: 'string' }
+		]);
+
+		expect(
+			screenRow(partlyFixed!, 'uk_lrt', { id: 'a1b2', md_total_paras: 12n }, 'update', NOW)
+		).toBeNull();
+	});
+
+	it('releases deleted rows', () => {
+		const entry = screenRow(undefined, 'lat', latRow({ depth: 'deep' }), 'insert', NOW)!;
+		expect(screenRow(entry, 'lat', { section_id: 'UK_uksi_2024_1:s.1' }, 'delete', NOW)).toBeNull();
+	});
+});
+
+describe('screenWrite', () => {
+	const held = screenRow(undefined, 'lat', latRow({ depth: 'deep' }), 'insert', NOW)!;
+
+	it('passes admitted writes through', () => {
+		const write = { type: 'insert' as const, value: latRow() };
+		expect(screenWrite(write, undefined, true, false)).toBe(write);
+	});
+
+	it('drops a quarantined row, deleting any copy the collection holds', () => {
+		const write = {
+			type: 'update' as const,
+			value: { section_id: 'UK_uksi_2024_1:s.1', depth: 'deep' }
+		};
+		expect(screenWrite(write, undefined, false, false)).toBeNull();
+		expect(screenWrite(write, undefined, false, true)).toEqual({ ...write, type: 'delete' });
+	});
+
+	it('inserts a released row whole from its quarantined copy', () => {
+		const fix = { type: 'update' as const, value: { section_id: 'UK_uksi_2024_1:s.1', depth: 2n } };
+		expect(screenWrite(fix, held, true, false)).toEqual({
+			type: 'insert',
+			value: latRow({ depth: 2n })
+		});
+	});
+
+	it('skips deletes of rows the collection never held', () => {
+		const write = { type: 'delete' as const, value: { section_id: 'UK_uksi_2024_1:s.1' } };
+		expect(screenWrite(write, held, true, false)).toBeNull();
+	});
+});
+
+describe('summarizeDrift', () => {
+	it('groups issues per table and field, counting rows and received types', () => {
+		const rows = [
+			screenRow(undefined, 'uk_lrt', lrtRow({ id: 'a', year: 'MMXXIV' }), 'insert', NOW)!,
+			screenRow(undefined, 'uk_lrt', lrtRow({ id: 'b', year: { value: 2024 } }), 'insert', NOW)!,
+			screenRow(undefined, 'uk_lrt', lrtRow({ id: 'c', year: 'n/a' }), 'insert', NOW)!,
+			screenRow(undefined, 'lat', latRow({ depth: null }), 'insert', NOW)!
+		];
+		expect(summarizeDrift(rows)).toEqual([
+			{
+				table: 'uk_lrt',
+				field: 'year',
+				kind: 'type',
+				expected: 'integer | null',
+				actual: ['string', 'object'],
+				rows: 3,
+				sampleKey: 'a'
+			},
+			{
+				table: 'lat',
+				field: 'depth',
+				kind: 'type',
+				expected: 'integer',
+				actual: ['null'],
+				rows: 1,
+				sampleKey: 'UK_uksi_2024_1:s.1'
+			}
+		]);
+	});
+});
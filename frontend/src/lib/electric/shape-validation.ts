@@ -0,0 +1,187 @@
+/**
+ * Shape row validation and quarantine
+ *
+ * Every row an Electric shape delivers is checked against its table's shape
+ * schema before the transforms coerce it. A row that fails is quarantined:
+ * kept out of the collections, with the raw row and its issues
+ * held for the admin schema-drift panel. A later message that fixes the
+ * row (or deletes it) releases it.
+ */
+
+import { checkRecord, type RecordSchema, type SchemaIssue } from './record-schema';
+import { UK_LRT_SHAPE_SCHEMA } from './uk-lrt-schema';
+import { LAT_SHAPE_SCHEMA } from './lat-schema';
+import { ANNOTATION_SHAPE_SCHEMA } from './annotation-schema';
+
+export type ShapeTable = 'uk_lrt' | 'lat' | 'amendment_annotations';
+
+export type ShapeOperation = 'insert' | 'update' | 'delete';
+
+interface ShapeTableSpec {
+	schema: RecordSchema<unknown>;
+	/** Primary key column, the collection key */
+	key: string;
+	/** Record type the schema describes */
+	recordType: string;
+}
+
+export const SHAPE_TABLES: Record<ShapeTable, ShapeTableSpec> = {
+	uk_lrt: {
+		schema: UK_LRT_SHAPE_SCHEMA as RecordSchema<unknown>,
+		key: 'id',
+		recordType: 'UkLrtRecord'
+	},
+	lat: {
+		schema: LAT_SHAPE_SCHEMA as RecordSchema<unknown>,
+		key: 'section_id',
+		recordType: 'LatRecord'
+	},
+	amendment_annotations: {
+		schema: ANNOTATION_SHAPE_SCHEMA as RecordSchema<unknown>,
+		key: 'id',
+		recordType: 'AnnotationRecord'
+	}
+};
+
+export interface QuarantinedRow {
+	table: ShapeTable;
+	key: string;
+	/** Operation of the latest message for the row, null if it wasn't known */
+	operation: ShapeOperation | null;
+	issues: SchemaIssue[];
+	/** Raw row as received, merged across updates */
+	row: Record<string, unknown>;
+	receivedAt: string;
+}
+
+/** Collection key of a raw row, or null if it has none */
+export function rowKey(table: ShapeTable, row: Record<string, unknown>): string | null {
+	const value = row[SHAPE_TABLES[table].key];
+	return typeof value === 'string' || typeof value === 'number' ? String(value) : null;
+}
+
+/**
+ * Check a raw shape row. Only inserts are sure to carry every column, so
+ * anything else is checked as a partial row; the key must always be there.
+ * Columns the record type doesn't carry are ignored: the shape only
+ * returns columns we asked for.
+ */
+export function checkShapeRow(
+	table: ShapeTable,
+	row: Record<string, unknown>,
+	operation: ShapeOperation | null = null
+): SchemaIssue[] {
+	const { schema, key } = SHAPE_TABLES[table];
+	const issues = checkRecord(schema, row, { partial: operation !== 'insert' }).filter(
+		(issue) => issue.kind !== 'unknown'
+	);
+	if (operation !== 'insert' && !(key in row)) {
+		issues.unshift({ field: key, kind: 'missing', expected: 'string' });
+	}
+	return issues;
+}
+
+/**
+ * Screen one shape message against the row's quarantine entry, if any.
+ * Returns the entry to quarantine the row under, or null to admit it.
+ * Updates to a quarantined row are merged into it first, so fixing one bad
+ * column doesn't release a row that has another.
+ */
+export function screenRow(
+	quarantined: QuarantinedRow | undefined,
+	table: ShapeTable,
+	row: Record<string, unknown>,
+	operation: ShapeOperation | null = null,
+	now: Date = new Date()
+): QuarantinedRow | null {
+	if (operation === 'delete') return null;
+
+	const merged = quarantined && operation !== 'insert' ? { ...quarantined.row, ...row } : row;
+	const issues = checkShapeRow(table, merged, operation);
+	if (issues.length === 0) return null;
+
+	return {
+		table,
+		key: rowKey(table, merged) ?? '(no key)',
+		operation,
+		issues,
+		row: merged,
+		receivedAt: now.toISOString()
+	};
+}
+
+/** A sync write as a TanStack DB collection receives it */
+export interface ShapeWrite {
+	type: ShapeOperation;
+	value: Record<string, unknown>;
+}
+
+/**
+ * The write a collection should apply once its row has been screened, or null
+ * to drop it. Quarantined rows never reach the collection: a stored row that
+ * goes bad is deleted from it, and a released row is inserted whole from its
+ * quarantined copy.
+ */
+export function screenWrite<W extends ShapeWrite>(
+	write: W,
+	held: QuarantinedRow | undefined,
+	admitted: boolean,
+	stored: boolean
+): W | null {
+	if (!admitted) return stored ? { ...write, type: 'delete' } : null;
+	if (!held || stored) return write;
+	if (write.type === 'delete') return null;
+	return {
+		...write,
+		type: 'insert',
+		value: write.type === 'insert' ? write.value : { ...held.row, ...write.value }
+	};
+}
+
+/** One drifted field, across every quarantined row of a table */
+export interface DriftSummary {
+	table: ShapeTable;
+	field: string;
+	kind: SchemaIssue['kind'];
+	expected?: string;
+	/** Types actually received, most common first */
+	actual: string[];
+	rows: number;
+	/** Key of a row showing the issue */
+	sampleKey: string;
+}
+
+export function summarizeDrift(rows: Iterable<QuarantinedRow>): DriftSummary[] {
+	const summaries = new Map<string, DriftSummary & { actualCounts: Map<string, number> }>();
+
+	for (const row of rows) {
+		for (const issue of row.issues) {
+			const id = `${row.table}:${issue.kind}:${issue.field}`;
+			let summary = summaries.get(id);
+			if (!summary) {
+				summary = {
+					table: row.table,
+					field: issue.field,
+					kind: issue.kind,
+					expected: issue.expected,
+					actual: [],
+					rows: 0,
+					sampleKey: row.key,
+					actualCounts: new Map()
+				};
+				summaries.set(id, summary);
+			}
+			summary.rows++;
+			if (issue.actual) {
+				summary.actualCounts.set(issue.actual, (summary.actualCounts.get(issue.actual) ?? 0) + 1);
+			}
+		}
+	}
+
+	return [...summaries.values()]
+		.map(({ actualCounts, ...summary }) => ({
+			...summary,
+			actual: [...actualCounts.entries()].sort((a, b) => b[1] - a[1]).map(([type]) => type)
+		}))
+		.sort((a, b) => b.rows - a.rows || a.field.localeCompare(b.field));
+}
@@ -17,11 +17,15 @@ import {
 } from '$lib/db/idb-storage';
 import { type UkLrtRecord, transformUkLrtRecord } from './uk-lrt-schema';
 import { writable, get } from 'svelte/store';
+import { watchlistStore } from '$lib/stores/watchlist';
+import { schemaDriftStore } from '$lib/stores/schema-drift';
+import { WATCH_COLUMNS, watchWhere } from '$lib/watchlist/watchlist';
 
 // Shape key for sync state persistence
 const UK_LRT_SHAPE_KEY = 'uk-lrt-shape';
 
 import { ELECTRIC_URL } from './client';
+import { electricFetchClient } from './fetch-client';
 
 /**
  * Columns to sync from uk_lrt table.
@@ -118,7 +122,9 @@ const UK_LRT_COLUMNS = [
 	'fitness_plant',
 	'fitness_property',
 	'fitness_sector',
-	'fitness'
+	'fitness',
+	// Hand-curated fields protected from reparses
+	'locked_fields'
 ];
 
 /**
@@ -302,6 +308,7 @@ export async function syncUkLrt(whereClause?: string, isReconnect = false, clear
 			let insertCount = 0;
 			let updateCount = 0;
 			let deleteCount = 0;
+			let quarantineCount = 0;
 
 			// Process in batches to prevent blocking
 			const BATCH_SIZE = 100;
@@ -345,6 +352,12 @@ export async function syncUkLrt(whereClause?: string, isReconnect = false, clear
 
 				if (!operation || !rawData) continue;
 
+				// Quarantined rows stay out of the collection until a later message fixes them
+				if (!schemaDriftStore.admit('uk_lrt', rawData, operation)) {
+					quarantineCount++;
+					continue;
+				}
+
 				try {
 					const data = transformUkLrtRecord(rawData) as UkLrtRecord & Record<string, unknown>;
 
@@ -389,6 +402,11 @@ export async function syncUkLrt(whereClause?: string, isReconnect = false, clear
 					`[Electric Sync] Processed: ${insertCount} inserts, ${updateCount} updates, ${deleteCount} deletes`
 				);
 			}
+			if (quarantineCount > 0) {
+				console.warn(
+					`[Electric Sync] Quarantined ${quarantineCount} rows that failed the shape schema`
+				);
+			}
 
 			// Update sync status
 			const isFullySynced = currentStream?.isUpToDate ?? false;
@@ -579,66 +597,71 @@ export async function checkElectricHealth(): Promise<boolean> {
 	}
 }
 
+// Watched-law shape — runs independently of the browse filter so watched laws
+// are diffed even when they fall outside the current WHERE clause. It is the
+// only feed into the watchlist: the browse shape doesn't sync every watched
+// column, so diffing its rows would report changes that didn't happen.
+let watchSubscription: (() => void) | null = null;
+let watchedIds = '';
+
 /**
- * Build WHERE clause from filter conditions
+ * Stream changes for watched laws into the watchlist.
+ *
+ * Always starts from offset -1: the initial snapshot is diffed against the last
+ * acknowledged state, so changes made while the app was closed still surface.
  */
-export function buildWhereFromFilters(
-	filters: Array<{ field: string; operator: string; value: unknown }>
-): string {
-	if (!filters || filters.length === 0) {
-		return getDefaultWhere();
-	}
+export function syncWatchedLaws(recordIds: string[]) {
+	const key = [...recordIds].sort().join(',');
+	if (key === watchedIds && watchSubscription) return;
+
+	stopWatchedLawSync();
+	watchedIds = key;
+	if (recordIds.length === 0) return;
+
+	const stream = new ShapeStream<Record<string, unknown>>({
+		url: `${ELECTRIC_URL}/v1/shape`,
+		fetchClient: electricFetchClient,
+		params: {
+			table: 'uk_lrt',
+			where: watchWhere(recordIds),
+			columns: WATCH_COLUMNS,
+			// Updates must carry every watched column to be diffed in isolation
+			replica: 'full'
+		}
+	});
+
+	watchSubscription = stream.subscribe(
+		(messages) => {
+			const rows = messages
+				.filter((msg) => 'value' in msg && msg.headers.operation !== 'delete')
+				.map((msg) => (msg as { value: Record<string, unknown> }).value)
+				// Only the watched columns are synced, so rows are checked as partial
+				.filter((row) => schemaDriftStore.admit('uk_lrt', row));
+			if (rows.length === 0) return;
+			watchlistStore.observe(rows).catch((error) => {
+				console.error('[Electric Sync] Watchlist update failed:', error);
+			});
+		},
+		(error) => {
+			console.error('[Electric Sync] Watched-law sync error:', error);
+		}
+	);
 
-	const clauses = filters
-		.map((filter) => {
-			const { field, operator, value } = filter;
-
-			switch (operator) {
-				case 'equals':
-					return typeof value === 'string'
-						? `${field} = '${escapeValue(String(value))}'`
-						: `${field} = ${value}`;
-				case 'not_equals':
-					return typeof value === 'string'
-						? `${field} != '${escapeValue(String(value))}'`
-						: `${field} != ${value}`;
-				case 'contains':
-					return `${field} ILIKE '%${escapeValue(String(value))}%'`;
-				case 'not_contains':
-					return `${field} NOT ILIKE '%${escapeValue(String(value))}%'`;
-				case 'starts_with':
-					return `${field} ILIKE '${escapeValue(String(value))}%'`;
-				case 'ends_with':
-					return `${field} ILIKE '%${escapeValue(String(value))}'`;
-				case 'greater_than':
-					return `${field} > ${value}`;
-				case 'less_than':
-					return `${field} < ${value}`;
-				case 'greater_or_equal':
-					return `${field} >= ${value}`;
-				case 'less_or_equal':
-					return `${field} <= ${value}`;
-				case 'is_empty':
-					return `(${field} IS NULL OR ${field} = '')`;
-				case 'is_not_empty':
-					return `(${field} IS NOT NULL AND ${field} != '')`;
-				case 'is_before':
-					return `${field} < '${escapeValue(String(value))}'`;
-				case 'is_after':
-					return `${field} > '${escapeValue(String(value))}'`;
-				default:
-					return null;
-			}
-		})
-		.filter(Boolean);
+	console.log(`[Electric Sync] Watching ${recordIds.length} laws for changes`);
+}
 
-	if (clauses.length === 0) {
-		return getDefaultWhere();
+/**
+ * Stop the watched-law shape stream
+ */
+export function stopWatchedLawSync() {
+	if (watchSubscription) {
+		watchSubscription();
+		watchSubscription = null;
 	}
-
-	return clauses.join(' AND ');
+	watchedIds = '';
 }
 
-function escapeValue(value: string): string {
-	return value.replace(/'/g, "''");
-}
+/**
+ * Build WHERE clause from filter conditions (compiled via the filter query AST)
+ */
+export { buildWhereFromFilters } from './filter-query';
@@ -473,9 +473,21 @@ describe('UkLrtRecord type', () => {
 			fitness_plant: null,
 			fitness_property: null,
 			fitness_sector: null,
-			fitness: null
+			fitness: null,
+			locked_fields: null
 		};
 
 		expect(record.id).toBe('test-id');
 	});
 });
+
+describe('locked_fields', () => {
+	it('parses locked field names from PostgreSQL format', () => {
+		const result = transformUkLrtRecord({ id: 'uuid-locked-1', locked_fields: '{family,tags}' });
+		expect(result.locked_fields).toEqual(['family', 'tags']);
+	});
+
+	it('handles records without locks', () => {
+		expect(transformUkLrtRecord({ id: 'uuid-locked-2' }).locked_fields).toBeNull();
+	});
+});
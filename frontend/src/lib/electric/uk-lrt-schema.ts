@@ -4,6 +4,8 @@
  * Type definition for UK Legal/Regulatory Transport records.
  */
 
+import type { FieldSpec, RecordSchema } from './record-schema';
+
 /**
  * Entry in the consolidated JSONB holder fields
  * Represents a single holder/duty_type/clause combination
@@ -165,8 +167,195 @@ export interface UkLrtRecord {
 	fitness_property: string[] | null;
 	fitness_sector: string[] | null;
 	fitness: FitnessEntry[] | null;
+	// Hand-curated fields protected from reparses
+	locked_fields: string[] | null;
+}
+
+/**
+ * Runtime schema for UkLrtRecord, for checking rows from other sources
+ */
+export const UK_LRT_RECORD_SCHEMA: RecordSchema<UkLrtRecord> = {
+	id: { type: 'string' },
+	name: { type: 'string' },
+	title_en: { type: 'string' },
+	year: { type: 'number' },
+	number: { type: 'string' },
+	type_code: { type: 'string' },
+	type_class: { type: 'string' },
+	family: { type: 'string', nullable: true },
+	family_ii: { type: 'string', nullable: true },
+	live: { type: 'string', nullable: true },
+	live_description: { type: 'string', nullable: true },
+	geo_extent: { type: 'string', nullable: true },
+	geo_region: { type: 'string', nullable: true },
+	geo_detail: { type: 'string', nullable: true },
+	md_restrict_extent: { type: 'string', nullable: true },
+	si_code: { type: 'string', nullable: true },
+	tags: { type: 'string[]', nullable: true },
+	function: { type: 'string[]', nullable: true },
+	role: { type: 'string[]', nullable: true },
+	role_gvt: { type: 'object', nullable: true },
+	role_details: { type: 'object', nullable: true },
+	role_gvt_details: { type: 'object', nullable: true },
+	duty_type: { type: 'string', nullable: true },
+	duty_type_article: { type: 'string', nullable: true },
+	article_duty_type: { type: 'string', nullable: true },
+	duty_holder: { type: 'object', nullable: true },
+	power_holder: { type: 'object', nullable: true },
+	rights_holder: { type: 'object', nullable: true },
+	responsibility_holder: { type: 'object', nullable: true },
+	duties: { type: 'object', nullable: true },
+	rights: { type: 'object', nullable: true },
+	responsibilities: { type: 'object', nullable: true },
+	powers: { type: 'object', nullable: true },
+	popimar: { type: 'object', nullable: true },
+	popimar_details: { type: 'object', nullable: true },
+	popimar_article: { type: 'string', nullable: true },
+	popimar_article_clause: { type: 'string', nullable: true },
+	article_popimar: { type: 'string', nullable: true },
+	article_popimar_clause: { type: 'string', nullable: true },
+	purpose: { type: 'object', nullable: true },
+	is_making: { type: 'number', nullable: true },
+	enacted_by: { type: 'string', nullable: true },
+	amending: { type: 'object', nullable: true },
+	amended_by: { type: 'object', nullable: true },
+	md_date: { type: 'string', nullable: true },
+	md_made_date: { type: 'string', nullable: true },
+	md_enactment_date: { type: 'string', nullable: true },
+	md_coming_into_force_date: { type: 'string', nullable: true },
+	md_dct_valid_date: { type: 'string', nullable: true },
+	md_restrict_start_date: { type: 'string', nullable: true },
+	md_total_paras: { type: 'number', nullable: true },
+	md_body_paras: { type: 'number', nullable: true },
+	md_schedule_paras: { type: 'number', nullable: true },
+	md_attachment_paras: { type: 'number', nullable: true },
+	md_images: { type: 'number', nullable: true },
+	latest_amend_date: { type: 'string', nullable: true },
+	latest_rescind_date: { type: 'string', nullable: true },
+	leg_gov_uk_url: { type: 'string', nullable: true },
+	created_at: { type: 'string', nullable: true },
+	updated_at: { type: 'string', nullable: true },
+	lat_count: { type: 'number', nullable: true },
+	latest_lat_updated_at: { type: 'string', nullable: true },
+	fitness_person: { type: 'string[]', nullable: true },
+	fitness_process: { type: 'string[]', nullable: true },
+	fitness_place: { type: 'string[]', nullable: true },
+	fitness_plant: { type: 'string[]', nullable: true },
+	fitness_property: { type: 'string[]', nullable: true },
+	fitness_sector: { type: 'string[]', nullable: true },
+	fitness: { type: 'array', nullable: true },
+	locked_fields: { type: 'string[]', nullable: true }
+};
+
+const TEXT: FieldSpec = { type: 'string', nullable: true };
+const INTEGER: FieldSpec = { type: 'integer', nullable: true };
+const TEXT_ARRAY: FieldSpec = { type: 'string[]', nullable: true };
+const JSONB: FieldSpec = { type: 'object', nullable: true };
+
+/** Consolidated JSONB columns: `entries` must be there for the parsers to keep anything */
+function consolidatedJsonb(entry: Record<string, FieldSpec>, lists: string[]): FieldSpec {
+	return {
+		type: 'object',
+		nullable: true,
+		fields: {
+			entries: { type: 'array', items: { type: 'object', fields: entry } },
+			...Object.fromEntries(lists.map((list) => [list, TEXT_ARRAY]))
+		}
+	};
 }
 
+const HOLDER_JSONB = consolidatedJsonb({ holder: { type: 'string' } }, ['holders', 'articles']);
+const ROLE_JSONB = consolidatedJsonb({ role: { type: 'string' } }, ['roles', 'articles']);
+const POPIMAR_JSONB = consolidatedJsonb({ category: { type: 'string' } }, [
+	'categories',
+	'articles'
+]);
+
+/**
+ * Runtime schema for uk_lrt rows as the Electric shape delivers them, before
+ * transformUkLrtRecord coerces them: bigint columns arrive as bigint, JSONB
+ * parsed, Postgres arrays as arrays. Fields the transform would turn into
+ * `0`, `""` or `null` without complaint are typed strictly here.
+ */
+export const UK_LRT_SHAPE_SCHEMA: RecordSchema<UkLrtRecord> = {
+	id: { type: 'string' },
+	name: { type: 'string' },
+	title_en: TEXT,
+	year: INTEGER,
+	number: TEXT,
+	type_code: TEXT,
+	type_class: TEXT,
+	family: TEXT,
+	family_ii: TEXT,
+	live: TEXT,
+	live_description: TEXT,
+	geo_extent: TEXT,
+	geo_region: TEXT_ARRAY,
+	geo_detail: TEXT,
+	md_restrict_extent: TEXT,
+	si_code: JSONB,
+	tags: TEXT_ARRAY,
+	function: JSONB,
+	role: TEXT_ARRAY,
+	role_gvt: JSONB,
+	role_details: ROLE_JSONB,
+	role_gvt_details: ROLE_JSONB,
+	duty_type: JSONB,
+	duty_type_article: TEXT,
+	article_duty_type: TEXT,
+	duty_holder: JSONB,
+	power_holder: JSONB,
+	rights_holder: JSONB,
+	responsibility_holder: JSONB,
+	duties: HOLDER_JSONB,
+	rights: HOLDER_JSONB,
+	responsibilities: HOLDER_JSONB,
+	powers: HOLDER_JSONB,
+	popimar: JSONB,
+	popimar_details: POPIMAR_JSONB,
+	// Columns dropped in Phase 4 (Issue #15); never in the shape
+	popimar_article: TEXT,
+	popimar_article_clause: TEXT,
+	article_popimar: TEXT,
+	article_popimar_clause: TEXT,
+	purpose: JSONB,
+	is_making: { type: 'boolean', nullable: true },
+	enacted_by: TEXT_ARRAY,
+	amending: TEXT_ARRAY,
+	amended_by: TEXT_ARRAY,
+	md_date: TEXT,
+	md_made_date: TEXT,
+	md_enactment_date: TEXT,
+	md_coming_into_force_date: TEXT,
+	md_dct_valid_date: TEXT,
+	md_restrict_start_date: TEXT,
+	md_total_paras: INTEGER,
+	md_body_paras: INTEGER,
+	md_schedule_paras: INTEGER,
+	md_attachment_paras: INTEGER,
+	md_images: INTEGER,
+	latest_amend_date: TEXT,
+	latest_rescind_date: TEXT,
+	// Generated column, not synced
+	leg_gov_uk_url: TEXT,
+	created_at: TEXT,
+	updated_at: TEXT,
+	lat_count: INTEGER,
+	latest_lat_updated_at: TEXT,
+	fitness_person: TEXT_ARRAY,
+	fitness_process: TEXT_ARRAY,
+	fitness_place: TEXT_ARRAY,
+	fitness_plant: TEXT_ARRAY,
+	fitness_property: TEXT_ARRAY,
+	fitness_sector: TEXT_ARRAY,
+	fitness: {
+		type: 'array',
+		nullable: true,
+		items: { type: 'object', fields: { polarity: { type: 'string' } } }
+	},
+	locked_fields: TEXT_ARRAY
+};
+
 /**
  * Transform raw Electric data to UkLrtRecord
  * Handles type conversions for numeric and JSON fields
@@ -247,7 +436,8 @@ export function transformUkLrtRecord(data: Record<string, unknown>): UkLrtRecord
 		fitness_plant: parseArray(data.fitness_plant),
 		fitness_property: parseArray(data.fitness_property),
 		fitness_sector: parseArray(data.fitness_sector),
-		fitness: parseFitnessArray(data.fitness)
+		fitness: parseFitnessArray(data.fitness),
+		locked_fields: parseArray(data.locked_fields)
 	};
 }
 
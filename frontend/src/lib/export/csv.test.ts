@@ -0,0 +1,29 @@
+/**
+ * Tests for CSV export helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { escapeCsvCell, toCsv } from './csv';
+
+describe('escapeCsvCell', () => {
+	it('leaves plain values unquoted', () => {
+		expect(escapeCsvCell('Risk Control')).toBe('Risk Control');
+	});
+
+	it('quotes values with commas, quotes or newlines', () => {
+		expect(escapeCsvCell('Permit, Authorisation')).toBe('"Permit, Authorisation"');
+		expect(escapeCsvCell('the "employer"')).toBe('"the ""employer"""');
+		expect(escapeCsvCell('a\nb')).toBe('"a\nb"');
+	});
+});
+
+describe('toCsv', () => {
+	it('joins rows with CRLF', () => {
+		expect(
+			toCsv([
+				['a', 'b'],
+				['1', '2,3']
+			])
+		).toBe('a,b\r\n1,"2,3"');
+	});
+});
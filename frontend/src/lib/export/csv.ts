@@ -0,0 +1,40 @@
+/**
+ * CSV export helpers
+ */
+
+/**
+ * Quote a CSV cell if it contains a delimiter, quote or newline (RFC 4180)
+ */
+export function escapeCsvCell(value: string): string {
+	if (/[",\r\n]/.test(value)) {
+		return `"${value.replace(/"/g, '""')}"`;
+	}
+	return value;
+}
+
+/**
+ * Serialise rows to CSV text
+ */
+export function toCsv(rows: string[][]): string {
+	return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Trigger a browser download of text content
+ */
+export function downloadFile(content: BlobPart, filename: string, mimeType: string): void {
+	const blob = new Blob([content], { type: mimeType });
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+/**
+ * Download rows as a CSV file (UTF-8 with BOM so Excel keeps unicode intact)
+ */
+export function downloadCsv(rows: string[][], filename: string): void {
+	downloadFile('\uFEFF' + toCsv(rows), filename, 'text/csv;charset=utf-8');
+}
@@ -0,0 +1,85 @@
+/**
+ * DOCX writer for register exports: a landscape Word register with the
+ * applied filters as a bullet list and one table per group
+ */
+
+import {
+	Document,
+	HeadingLevel,
+	Packer,
+	PageOrientation,
+	Paragraph,
+	Table,
+	TableCell,
+	TableRow,
+	TextRun,
+	WidthType
+} from 'docx';
+import { formatHolderLine, type RegisterExport } from './register';
+
+const FONT_SIZE = 16; // half-points
+
+function cell(lines: string[], bold = false): TableCell {
+	return new TableCell({
+		children: (lines.length ? lines : ['']).map(
+			(line) => new Paragraph({ children: [new TextRun({ text: line, bold, size: FONT_SIZE })] })
+		)
+	});
+}
+
+export async function registerToDocx(register: RegisterExport): Promise<ArrayBuffer> {
+	const header = new TableRow({
+		tableHeader: true,
+		children: [...register.columns.map((c) => c.header), 'Obligations'].map((h) => cell([h], true))
+	});
+
+	const children: (Paragraph | Table)[] = [
+		new Paragraph({ text: register.title, heading: HeadingLevel.TITLE }),
+		new Paragraph({
+			children: [
+				new TextRun({
+					text: `Generated ${register.generatedAt.toLocaleString('en-GB')} - ${register.total} laws`,
+					color: '666666'
+				})
+			]
+		}),
+		new Paragraph({ text: 'Applied filters', heading: HeadingLevel.HEADING_2 }),
+		...register.summary.map((line) => new Paragraph({ text: line, bullet: { level: 0 } }))
+	];
+
+	for (const group of register.groups) {
+		if (group.label) {
+			children.push(new Paragraph({ text: group.label, heading: HeadingLevel.HEADING_2 }));
+		}
+		children.push(
+			new Table({
+				width: { size: 100, type: WidthType.PERCENTAGE },
+				rows: [
+					header,
+					...group.rows.map(
+						(row) =>
+							new TableRow({
+								children: [
+									...row.cells.map((value) => cell([value])),
+									cell(row.holders.map(formatHolderLine))
+								]
+							})
+					)
+				]
+			})
+		);
+	}
+
+	const document = new Document({
+		creator: 'SertantAI Legal',
+		title: register.title,
+		sections: [
+			{
+				properties: { page: { size: { orientation: PageOrientation.LANDSCAPE } } },
+				children
+			}
+		]
+	});
+
+	return Packer.toArrayBuffer(document);
+}
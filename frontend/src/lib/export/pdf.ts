@@ -0,0 +1,66 @@
+/**
+ * PDF writer for register exports: a landscape A4 register with the applied
+ * filters up front and one table per group
+ */
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { formatHolderLine, type RegisterExport } from './register';
+
+const MARGIN = 14;
+
+export async function registerToPdf(register: RegisterExport): Promise<ArrayBuffer> {
+	const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+	const lastY = () =>
+		(doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? MARGIN;
+
+	doc.setFontSize(16);
+	doc.text(register.title, MARGIN, 18);
+	doc.setFontSize(9);
+	doc.setTextColor(100);
+	doc.text(
+		`Generated ${register.generatedAt.toLocaleString('en-GB')} - ${register.total} laws`,
+		MARGIN,
+		24
+	);
+	doc.setTextColor(0);
+	doc.text(
+		register.summary.map((line) => `- ${line}`),
+		MARGIN,
+		31
+	);
+	let y = 31 + register.summary.length * 4.5 + 4;
+
+	const head = [[...register.columns.map((c) => c.header), 'Obligations']];
+	for (const group of register.groups) {
+		if (group.label) {
+			doc.setFontSize(11);
+			doc.text(group.label, MARGIN, y + 2);
+			y += 4;
+		}
+		autoTable(doc, {
+			startY: y,
+			head,
+			body: group.rows.map((row) => [...row.cells, row.holders.map(formatHolderLine).join('\n')]),
+			margin: { left: MARGIN, right: MARGIN },
+			styles: { fontSize: 7, cellPadding: 1.5, overflow: 'linebreak' },
+			headStyles: { fillColor: [5, 150, 105] },
+			columnStyles: { [register.columns.length]: { cellWidth: 90 } }
+		});
+		y = lastY() + 8;
+	}
+
+	const pages = doc.getNumberOfPages();
+	for (let page = 1; page <= pages; page++) {
+		doc.setPage(page);
+		doc.setFontSize(8);
+		doc.setTextColor(120);
+		doc.text(
+			`${register.title} - page ${page} of ${pages}`,
+			MARGIN,
+			doc.internal.pageSize.getHeight() - 6
+		);
+	}
+
+	return doc.output('arraybuffer');
+}
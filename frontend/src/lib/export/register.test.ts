@@ -0,0 +1,142 @@
+/**
+ * Tests for the register export model
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+	buildRegisterExport,
+	describeConfig,
+	exportFilename,
+	formatCell,
+	formatHolderLine,
+	holderLines,
+	registerToCsvRows,
+	type ExportColumn,
+	type RegisterViewConfig
+} from './register';
+
+const columns: ExportColumn[] = [
+	{ id: 'name', header: 'Name' },
+	{ id: 'title_en', header: 'Title' },
+	{ id: 'family', header: 'Family' },
+	{ id: 'md_date', header: 'Primary Date', dataType: 'date' }
+];
+
+const duties = {
+	entries: [
+		{ holder: 'Org: Employer', duty_type: 'DUTY', article: 'regulation/3', clause: 'shall assess' },
+		{ holder: 'Org: Employer', duty_type: 'DUTY', article: 'regulation/3', clause: 'shall assess' },
+		{ holder: 'Ind: Employee', duty_type: '', article: null, clause: null }
+	],
+	holders: ['Org: Employer', 'Ind: Employee'],
+	articles: ['regulation/3']
+};
+
+const records = [
+	{ name: 'UK_uksi_2024_2', title_en: 'Fire B', family: 'FIRE', md_date: '2024-03-05', duties },
+	{ name: 'UK_uksi_2024_1', title_en: 'Fire A', family: 'FIRE', md_date: '2024-01-10' },
+	{ name: 'UK_uksi_2024_3', title_en: 'Waste', family: 'WASTE', md_date: null }
+];
+
+const config: RegisterViewConfig = {
+	filters: [{ columnId: 'md_date', operator: 'is_after', value: '2024-01-01' }],
+	sort: { columnId: 'name', direction: 'asc' },
+	columns: ['name', 'title_en', 'md_date'],
+	columnOrder: ['md_date', 'name', 'title_en', 'family'],
+	grouping: ['family']
+};
+
+describe('formatCell', () => {
+	it('formats dates, arrays and blanks', () => {
+		expect(formatCell('2024-03-05T00:00:00Z', 'date')).toBe('05 Mar 2024');
+		expect(formatCell(['Making', 'Amending'])).toBe('Making, Amending');
+		expect(formatCell(null)).toBe('');
+		expect(formatCell(2024)).toBe('2024');
+	});
+});
+
+describe('holderLines', () => {
+	it('expands HolderJsonb entries once each with default duty types', () => {
+		const lines = holderLines(records[0]);
+		expect(lines).toHaveLength(2);
+		expect(formatHolderLine(lines[0])).toBe('DUTY - Org: Employer - reg. 3: shall assess');
+		expect(formatHolderLine(lines[1])).toBe('DUTY - Ind: Employee');
+	});
+
+	it('is empty for records without holder fields', () => {
+		expect(holderLines(records[1])).toEqual([]);
+	});
+});
+
+describe('describeConfig', () => {
+	it('summarises filters, grouping and sort with column headers', () => {
+		expect(describeConfig(config, columns)).toEqual([
+			'Primary Date is after 2024-01-01',
+			'Grouped by Family',
+			'Sorted by Name (ascending)'
+		]);
+	});
+
+	it('notes when nothing is filtered', () => {
+		expect(describeConfig({ ...config, filters: [], grouping: [], sort: null }, columns)).toEqual([
+			'No filters (all records)'
+		]);
+	});
+});
+
+describe('buildRegisterExport', () => {
+	const now = new Date('2024-03-06T10:00:00Z');
+	const register = buildRegisterExport(records, config, columns, { now });
+
+	it('keeps visible columns in table order', () => {
+		expect(register.columns.map((c) => c.id)).toEqual(['md_date', 'name', 'title_en']);
+	});
+
+	it('groups rows descending by the grouped column, sorted within groups', () => {
+		expect(register.groups.map((g) => g.label)).toEqual(['Family: WASTE', 'Family: FIRE']);
+		expect(register.groups[1].rows.map((r) => r.cells)).toEqual([
+			['10 Jan 2024', 'UK_uksi_2024_1', 'Fire A'],
+			['05 Mar 2024', 'UK_uksi_2024_2', 'Fire B']
+		]);
+		expect(register.groups[1].rows[1].holders).toHaveLength(2);
+		expect(register.total).toBe(3);
+	});
+
+	it('puts everything in one unlabelled group when not grouped', () => {
+		const flat = buildRegisterExport(records, { ...config, grouping: [] }, columns, { now });
+		expect(flat.groups).toHaveLength(1);
+		expect(flat.groups[0].label).toBe('');
+		expect(flat.groups[0].rows.map((r) => r.cells[1])).toEqual([
+			'UK_uksi_2024_1',
+			'UK_uksi_2024_2',
+			'UK_uksi_2024_3'
+		]);
+	});
+
+	it('names files after the title and date', () => {
+		expect(exportFilename(register, 'xlsx')).toBe('uk-legal-register-2024-03-06.xlsx');
+	});
+});
+
+describe('registerToCsvRows', () => {
+	it('writes the filter summary then a table with group and obligations columns', () => {
+		const rows = registerToCsvRows(
+			buildRegisterExport(records, config, columns, { title: 'Register' })
+		);
+		expect(rows.slice(0, 5)).toEqual([
+			['Register'],
+			['Primary Date is after 2024-01-01'],
+			['Grouped by Family'],
+			['Sorted by Name (ascending)'],
+			[]
+		]);
+		expect(rows[5]).toEqual(['Group', 'Primary Date', 'Name', 'Title', 'Obligations']);
+		expect(rows[8]).toEqual([
+			'Family: FIRE',
+			'05 Mar 2024',
+			'UK_uksi_2024_2',
+			'Fire B',
+			'DUTY - Org: Employer - reg. 3: shall assess\nDUTY - Ind: Employee'
+		]);
+	});
+});
@@ -0,0 +1,303 @@
+/**
+ * Register export
+ *
+ * Turns the /browse table as currently configured (filters, visible columns
+ * in order, sort and grouping - the shape captured by captureCurrentConfig)
+ * into a format-neutral register: one section per group, each row's visible
+ * cells plus its expanded HolderJsonb obligations, and a summary of the
+ * applied filters. The XLSX, PDF and DOCX writers are loaded on demand.
+ */
+
+import type { HolderJsonb } from '$lib/electric/uk-lrt-schema';
+import { FIELD_DEFAULT_TYPE, HOLDER_FIELDS, type HolderField } from '$lib/taxa/holders';
+import { formatArticle } from '$lib/taxa/links';
+import { downloadFile, toCsv } from './csv';
+
+export type ExportFormat = 'xlsx' | 'csv' | 'pdf' | 'docx';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+	{ format: 'xlsx', label: 'Excel (XLSX)' },
+	{ format: 'csv', label: 'CSV' },
+	{ format: 'pdf', label: 'PDF register' },
+	{ format: 'docx', label: 'Word (DOCX)' }
+];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+	xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	csv: 'text/csv;charset=utf-8',
+	pdf: 'application/pdf',
+	docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+/**
+ * The parts of a saved-view TableConfig the export uses
+ */
+export interface RegisterViewConfig {
+	filters: { columnId: string; operator: string; value: unknown }[];
+	sort: { columnId: string; direction: 'asc' | 'desc' } | null;
+	columns: string[];
+	columnOrder: string[];
+	grouping?: string[];
+}
+
+export interface ExportColumn {
+	id: string;
+	header: string;
+	dataType?: string;
+}
+
+export interface HolderLine {
+	field: HolderField;
+	dutyType: string;
+	holder: string;
+	article: string | null;
+	clause: string | null;
+}
+
+export interface RegisterRow {
+	cells: string[];
+	holders: HolderLine[];
+}
+
+export interface RegisterGroup {
+	/** "Family: FIRE / Status: Live"; empty when the table is not grouped */
+	label: string;
+	rows: RegisterRow[];
+}
+
+export interface RegisterExport {
+	title: string;
+	generatedAt: Date;
+	/** Human-readable applied filters, sort and grouping */
+	summary: string[];
+	columns: ExportColumn[];
+	groups: RegisterGroup[];
+	total: number;
+}
+
+const OPERATOR_LABELS: Record<string, string> = {
+	equals: 'is',
+	not_equals: 'is not',
+	contains: 'contains',
+	not_contains: 'does not contain',
+	starts_with: 'starts with',
+	ends_with: 'ends with',
+	is_empty: 'is empty',
+	is_not_empty: 'is not empty',
+	greater_than: 'is greater than',
+	less_than: 'is less than',
+	greater_or_equal: 'is at least',
+	less_or_equal: 'is at most',
+	is_after: 'is after',
+	is_before: 'is before',
+	in: 'is one of',
+	contains_any: 'contains any of',
+	contains_all: 'contains all of'
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Display text for a cell value: dates as "05 Mar 2024", arrays comma-joined
+ */
+export function formatCell(value: unknown, dataType?: string): string {
+	if (value === null || value === undefined) return '';
+	if (Array.isArray(value)) return value.map((v) => formatCell(v)).join(', ');
+	if (dataType === 'date' && typeof value === 'string') {
+		const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+		if (match) return `${match[3]} ${MONTHS[Number(match[2]) - 1]} ${match[1]}`;
+	}
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+}
+
+/**
+ * One line of text for an obligation: "DUTY - Org: Employer - reg. 3: shall assess"
+ */
+export function formatHolderLine(line: HolderLine): string {
+	const where = line.article ? ` - ${formatArticle(line.article)}` : '';
+	const clause = line.clause ? `: ${line.clause}` : '';
+	return `${line.dutyType} - ${line.holder}${where}${clause}`;
+}
+
+/**
+ * A record's duties, rights, responsibilities and powers, one line per
+ * distinct obligation
+ */
+export function holderLines(record: Record<string, unknown>): HolderLine[] {
+	const lines: HolderLine[] = [];
+	for (const field of HOLDER_FIELDS) {
+		const jsonb = record[field] as HolderJsonb | null | undefined;
+		if (!jsonb?.entries?.length) continue;
+
+		const seen = new Set<string>();
+		for (const entry of jsonb.entries) {
+			if (!entry.holder) continue;
+			const key = `${entry.holder}|${entry.duty_type}|${entry.article ?? ''}|${entry.clause ?? ''}`;
+			if (seen.has(key)) continue;
+			seen.add(key);
+			lines.push({
+				field,
+				dutyType: entry.duty_type || FIELD_DEFAULT_TYPE[field],
+				holder: entry.holder,
+				article: entry.article,
+				clause: entry.clause
+			});
+		}
+	}
+	return lines;
+}
+
+function describeValue(value: unknown): string {
+	return Array.isArray(value) ? value.join(', ') : String(value ?? '');
+}
+
+/**
+ * The applied filters, sort and grouping as sentences for the export header
+ */
+export function describeConfig(config: RegisterViewConfig, columns: ExportColumn[]): string[] {
+	const header = (id: string) => columns.find((c) => c.id === id)?.header ?? id;
+	const summary = config.filters.map((f) => {
+		const operator = OPERATOR_LABELS[f.operator] ?? f.operator.replace(/_/g, ' ');
+		const value = f.operator.endsWith('empty') ? '' : ` ${describeValue(f.value)}`;
+		return `${header(f.columnId)} ${operator}${value}`;
+	});
+	if (summary.length === 0) summary.push('No filters (all records)');
+	if (config.grouping?.length) {
+		summary.push(`Grouped by ${config.grouping.map(header).join(', then ')}`);
+	}
+	if (config.sort) {
+		const direction = config.sort.direction === 'asc' ? 'ascending' : 'descending';
+		summary.push(`Sorted by ${header(config.sort.columnId)} (${direction})`);
+	}
+	return summary;
+}
+
+// Blank values sort last in either direction
+function compareValues(a: unknown, b: unknown, direction: 'asc' | 'desc'): number {
+	if (a === b) return 0;
+	if (a === null || a === undefined || a === '') return 1;
+	if (b === null || b === undefined || b === '') return -1;
+	const cmp =
+		typeof a === 'number' && typeof b === 'number'
+			? a - b
+			: String(a).localeCompare(String(b), undefined, { numeric: true });
+	return direction === 'asc' ? cmp : -cmp;
+}
+
+/**
+ * Build the register for a record set shown with the given table config.
+ * Groups follow the table: grouped columns descending, then the view's sort.
+ */
+export function buildRegisterExport(
+	records: Record<string, unknown>[],
+	config: RegisterViewConfig,
+	columns: ExportColumn[],
+	options: { title?: string; now?: Date } = {}
+): RegisterExport {
+	const byId = new Map(columns.map((c) => [c.id, c]));
+	const visible = new Set(config.columns);
+	const order = config.columnOrder.length > 0 ? config.columnOrder : config.columns;
+	const exportColumns = [
+		...order.filter((id) => visible.has(id)),
+		...config.columns.filter((id) => !order.includes(id))
+	]
+		.map((id) => byId.get(id))
+		.filter((c): c is ExportColumn => !!c);
+
+	const grouping = (config.grouping ?? []).filter((id) => byId.has(id));
+	const sorted = [...records].sort((a, b) => {
+		for (const id of grouping) {
+			const cmp = compareValues(a[id], b[id], 'desc');
+			if (cmp !== 0) return cmp;
+		}
+		if (!config.sort) return 0;
+		return compareValues(a[config.sort.columnId], b[config.sort.columnId], config.sort.direction);
+	});
+
+	const groups = new Map<string, RegisterRow[]>();
+	for (const record of sorted) {
+		const label = grouping
+			.map((id) => {
+				const column = byId.get(id) as ExportColumn;
+				return `${column.header}: ${formatCell(record[id], column.dataType) || '(blank)'}`;
+			})
+			.join(' / ');
+		const rows = groups.get(label) ?? [];
+		rows.push({
+			cells: exportColumns.map((c) => formatCell(record[c.id], c.dataType)),
+			holders: holderLines(record)
+		});
+		groups.set(label, rows);
+	}
+
+	return {
+		title: options.title ?? 'UK Legal Register',
+		generatedAt: options.now ?? new Date(),
+		summary: describeConfig({ ...config, grouping }, columns),
+		columns: exportColumns,
+		groups: Array.from(groups, ([label, rows]) => ({ label, rows })),
+		total: records.length
+	};
+}
+
+/**
+ * Flat CSV rows: filter summary, a blank line, then the table with a Group
+ * column (when grouped) and one Obligations cell per law
+ */
+export function registerToCsvRows(register: RegisterExport): string[][] {
+	const grouped = register.groups.some((g) => g.label);
+	const rows: string[][] = [
+		[register.title],
+		...register.summary.map((line) => [line]),
+		[],
+		[...(grouped ? ['Group'] : []), ...register.columns.map((c) => c.header), 'Obligations']
+	];
+	for (const group of register.groups) {
+		for (const row of group.rows) {
+			rows.push([
+				...(grouped ? [group.label] : []),
+				...row.cells,
+				row.holders.map(formatHolderLine).join('\n')
+			]);
+		}
+	}
+	return rows;
+}
+
+/**
+ * File name for an export: "uk-legal-register-2024-03-05.xlsx"
+ */
+export function exportFilename(register: RegisterExport, format: ExportFormat): string {
+	const slug = register.title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-|-$/g, '');
+	return `${slug || 'register'}-${register.generatedAt.toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Render the register in a format and download it
+ */
+export async function downloadRegister(
+	register: RegisterExport,
+	format: ExportFormat
+): Promise<void> {
+	let content: BlobPart;
+	switch (format) {
+		case 'csv':
+			// BOM so Excel keeps unicode intact
+			content = '\uFEFF' + toCsv(registerToCsvRows(register));
+			break;
+		case 'xlsx':
+			content = await (await import('./xlsx')).registerToXlsx(register);
+			break;
+		case 'pdf':
+			content = await (await import('./pdf')).registerToPdf(register);
+			break;
+		case 'docx':
+			content = await (await import('./docx')).registerToDocx(register);
+			break;
+	}
+	downloadFile(content, exportFilename(register, format), MIME_TYPES[format]);
+}
@@ -0,0 +1,66 @@
+/**
+ * XLSX writer for register exports: a Summary sheet with the applied
+ * filters, then one sheet per group
+ */
+
+import { Workbook } from 'exceljs';
+import { formatHolderLine, type RegisterExport } from './register';
+
+const MAX_SHEET_NAME = 31;
+
+/**
+ * Valid, unique worksheet names for group labels (Excel forbids []:*?/\
+ * and names over 31 characters)
+ */
+export function sheetNames(labels: string[], reserved: string[] = []): string[] {
+	const used = new Set(reserved.map((n) => n.toLowerCase()));
+	return labels.map((label) => {
+		const base = (label.replace(/[[\]:*?/\\]/g, ' ').trim() || 'Register').slice(0, MAX_SHEET_NAME);
+		let name = base;
+		for (let n = 2; used.has(name.toLowerCase()); n++) {
+			const suffix = ` (${n})`;
+			name = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+		}
+		used.add(name.toLowerCase());
+		return name;
+	});
+}
+
+export async function registerToXlsx(register: RegisterExport): Promise<ArrayBuffer> {
+	const workbook = new Workbook();
+	workbook.created = register.generatedAt;
+
+	const summary = workbook.addWorksheet('Summary');
+	summary.getColumn(1).width = 100;
+	summary.addRow([register.title]).font = { bold: true, size: 14 };
+	summary.addRow([`Generated ${register.generatedAt.toLocaleString('en-GB')}`]);
+	summary.addRow([`${register.total} laws`]);
+	summary.addRow([]);
+	summary.addRow(['Applied filters']).font = { bold: true };
+	register.summary.forEach((line) => summary.addRow([line]));
+
+	const names = sheetNames(
+		register.groups.map((g) => g.label),
+		['Summary']
+	);
+	register.groups.forEach((group, i) => {
+		const sheet = workbook.addWorksheet(names[i], {
+			views: [{ state: 'frozen', ySplit: 1 }]
+		});
+		sheet.columns = [
+			...register.columns.map((c) => ({ header: c.header, key: c.id, width: 18 })),
+			{ header: 'Obligations', key: 'obligations', width: 80 }
+		];
+		sheet.getRow(1).font = { bold: true };
+		for (const row of group.rows) {
+			sheet.addRow([...row.cells, row.holders.map(formatHolderLine).join('\n')]);
+		}
+		sheet.getColumn('obligations').alignment = { wrapText: true, vertical: 'top' };
+		sheet.autoFilter = {
+			from: { row: 1, column: 1 },
+			to: { row: 1, column: register.columns.length + 1 }
+		};
+	});
+
+	return workbook.xlsx.writeBuffer();
+}
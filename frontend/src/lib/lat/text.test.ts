@@ -0,0 +1,135 @@
+/**
+ * Tests for LAT document rendering helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformLatRecord, type LatRecord } from '$lib/electric/lat-schema';
+import { transformAnnotationRecord, type AnnotationRecord } from '$lib/electric/annotation-schema';
+import {
+	sortLatRows,
+	formatCitation,
+	sectionAnchor,
+	attachAnnotations,
+	footnoteSegments,
+	buildOutline
+} from './text';
+
+const LAW = 'UK_ukpga_1974_37';
+
+function row(overrides: Record<string, unknown>): LatRecord {
+	return transformLatRecord({ law_name: LAW, text: '', depth: 0, ...overrides });
+}
+
+function note(overrides: Record<string, unknown>): AnnotationRecord {
+	return transformAnnotationRecord({ law_name: LAW, code_type: 'amendment', ...overrides });
+}
+
+describe('sortLatRows', () => {
+	it('orders by sort_key, then hierarchy_path, then position', () => {
+		const rows = [
+			row({ section_id: 'b', sort_key: '010.000.000~', position: 3 }),
+			row({
+				section_id: 'a2',
+				sort_key: '002.000.000~',
+				hierarchy_path: 'part.1/provision.2',
+				position: 2
+			}),
+			row({ section_id: 'a1', sort_key: '002.000.000~', hierarchy_path: 'part.1', position: 1 })
+		];
+
+		expect(sortLatRows(rows).map((r) => r.section_id)).toEqual(['a1', 'a2', 'b']);
+		// Input is not mutated
+		expect(rows[0].section_id).toBe('b');
+	});
+});
+
+describe('formatCitation', () => {
+	it('formats provisions, schedules and parts', () => {
+		expect(
+			formatCitation(
+				row({
+					section_id: 'x',
+					section_type: 'section',
+					provision: '25A',
+					paragraph: '1',
+					sub_paragraph: 'b'
+				})
+			)
+		).toBe('s.25A(1)(b)');
+		expect(formatCitation(row({ section_id: 'x', section_type: 'article', provision: '4' }))).toBe(
+			'art.4'
+		);
+		expect(formatCitation(row({ section_id: 'x', section_type: 'schedule', schedule: '2' }))).toBe(
+			'Sch.2'
+		);
+		expect(formatCitation(row({ section_id: 'x', section_type: 'part', part: '1' }))).toBe('Pt.1');
+		expect(formatCitation(row({ section_id: 'x', section_type: 'title' }))).toBe('');
+	});
+});
+
+describe('sectionAnchor', () => {
+	it('produces a safe DOM id', () => {
+		expect(sectionAnchor('UK_ukpga_1974_37:s.25A(1)[E+W]')).toBe(
+			'sec-UK_ukpga_1974_37-s-25A-1-E-W-'
+		);
+	});
+});
+
+describe('attachAnnotations', () => {
+	it('groups annotations by affected section in code order', () => {
+		const annotations = [
+			note({ id: '1', code: 'F10', affected_sections: ['s1'] }),
+			note({ id: '2', code: 'F2', affected_sections: ['s1', 's2'] }),
+			note({ id: '3', code: 'C1', code_type: 'modification', affected_sections: ['s1'] }),
+			note({ id: '4', code: 'E1', code_type: 'extent_editorial', affected_sections: null }),
+			note({ id: '5', code: 'F3', affected_sections: ['missing'] })
+		];
+
+		const { bySection, unattached } = attachAnnotations(annotations, new Set(['s1', 's2']));
+
+		expect(bySection.get('s1')?.map((a) => a.code)).toEqual(['F2', 'F10', 'C1']);
+		expect(bySection.get('s2')?.map((a) => a.code)).toEqual(['F2']);
+		expect(unattached.map((a) => a.code)).toEqual(['F3', 'E1']);
+	});
+});
+
+describe('footnoteSegments', () => {
+	it('marks only known codes', () => {
+		expect(footnoteSegments('F1 The employer shall F9 comply', new Set(['F1']))).toEqual([
+			{ text: 'F1', code: 'F1' },
+			{ text: ' The employer shall F9 comply' }
+		]);
+	});
+
+	it('returns the text unchanged when there are no codes', () => {
+		expect(footnoteSegments('Plain text', new Set())).toEqual([{ text: 'Plain text' }]);
+	});
+});
+
+describe('buildOutline', () => {
+	it('lists divisions and headings, skipping the title', () => {
+		const outline = buildOutline([
+			row({
+				section_id: 't',
+				section_type: 'title',
+				text: 'Health and Safety at Work etc. Act 1974'
+			}),
+			row({
+				section_id: 'p1',
+				section_type: 'part',
+				part: '1',
+				depth: 1,
+				text: 'PART I\nHealth, Safety'
+			}),
+			row({ section_id: 'h1', section_type: 'heading', depth: 2, text: 'Preliminary' }),
+			row({ section_id: 's1', section_type: 'section', provision: '1', text: 'Preliminary.' }),
+			row({ section_id: 'sch1', section_type: 'schedule', schedule: '1', text: '' })
+		]);
+
+		expect(outline).toEqual([
+			{ sectionId: 'p1', sectionType: 'part', label: 'PART I', depth: 1 },
+			{ sectionId: 'h1', sectionType: 'heading', label: 'Preliminary', depth: 2 },
+			{ sectionId: 'sch1', sectionType: 'schedule', label: 'Sch.1', depth: 0 }
+		]);
+	});
+});
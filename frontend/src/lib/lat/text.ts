@@ -0,0 +1,163 @@
+/**
+ * LAT document rendering helpers
+ *
+ * Orders LatRecord rows into reading order, builds an outline of the
+ * structural rows and attaches AnnotationRecord footnotes to the sections
+ * listed in their affected_sections.
+ */
+
+import type { LatRecord } from '$lib/electric/lat-schema';
+import type { AnnotationRecord } from '$lib/electric/annotation-schema';
+
+type CitationFields = Pick<
+	LatRecord,
+	'section_type' | 'provision' | 'paragraph' | 'sub_paragraph' | 'schedule' | 'part' | 'chapter'
+>;
+
+/** Rows that open a new division of the document (shown in the outline) */
+export const OUTLINE_TYPES = ['title', 'part', 'chapter', 'heading', 'schedule'] as const;
+
+/** Footnote order within a section: F-codes first, as on legislation.gov.uk */
+const CODE_TYPE_ORDER = ['amendment', 'modification', 'commencement', 'extent_editorial'];
+
+export const CODE_TYPE_LABELS: Record<string, string> = {
+	amendment: 'Amendment',
+	modification: 'Modification',
+	commencement: 'Commencement',
+	extent_editorial: 'Extent / editorial'
+};
+
+export interface OutlineEntry {
+	sectionId: string;
+	sectionType: string;
+	label: string;
+	depth: number;
+}
+
+export type TextSegment = { text: string; code?: undefined } | { text: string; code: string };
+
+/**
+ * Document order: sort_key within the law, with hierarchy_path then position
+ * breaking ties between rows that share a sort_key (e.g. a heading and its
+ * first section).
+ */
+export function compareLatRows(a: LatRecord, b: LatRecord): number {
+	return (
+		a.sort_key.localeCompare(b.sort_key) ||
+		(a.hierarchy_path ?? '').localeCompare(b.hierarchy_path ?? '') ||
+		a.position - b.position
+	);
+}
+
+export function sortLatRows(rows: LatRecord[]): LatRecord[] {
+	return [...rows].sort(compareLatRows);
+}
+
+/**
+ * Short legal citation for a row ("s.25A(1)(b)", "Sch.2", "Pt.3")
+ */
+export function formatCitation(row: CitationFields): string {
+	if (row.provision) {
+		const prefix = row.section_type === 'article' ? 'art.' : 's.';
+		let cite = `${prefix}${row.provision}`;
+		if (row.paragraph) cite += `(${row.paragraph})`;
+		if (row.sub_paragraph) cite += `(${row.sub_paragraph})`;
+		return cite;
+	}
+	if (row.schedule) return `Sch.${row.schedule}`;
+	if (row.part) return `Pt.${row.part}`;
+	if (row.chapter) return `Ch.${row.chapter}`;
+	return '';
+}
+
+/**
+ * DOM id for a section — section_id contains ':', '(', '[' and '+'
+ */
+export function sectionAnchor(sectionId: string): string {
+	return `sec-${sectionId.replace(/[^A-Za-z0-9_-]+/g, '-')}`;
+}
+
+function codeNumber(code: string): number {
+	const match = code.match(/\d+/);
+	return match ? parseInt(match[0], 10) : Number.MAX_SAFE_INTEGER;
+}
+
+export function compareAnnotations(a: AnnotationRecord, b: AnnotationRecord): number {
+	const typeRank = (t: string) => {
+		const idx = CODE_TYPE_ORDER.indexOf(t);
+		return idx === -1 ? CODE_TYPE_ORDER.length : idx;
+	};
+	return (
+		typeRank(a.code_type) - typeRank(b.code_type) ||
+		codeNumber(a.code) - codeNumber(b.code) ||
+		a.code.localeCompare(b.code)
+	);
+}
+
+/**
+ * Group annotations by the sections they affect.
+ * Annotations with no (or only unknown) affected sections are returned as unattached
+ * so they can still be listed against the law as a whole.
+ */
+export function attachAnnotations(
+	annotations: AnnotationRecord[],
+	sectionIds: Set<string>
+): { bySection: Map<string, AnnotationRecord[]>; unattached: AnnotationRecord[] } {
+	const bySection = new Map<string, AnnotationRecord[]>();
+	const unattached: AnnotationRecord[] = [];
+
+	for (const annotation of [...annotations].sort(compareAnnotations)) {
+		const targets = (annotation.affected_sections ?? []).filter((id) => sectionIds.has(id));
+		if (targets.length === 0) {
+			unattached.push(annotation);
+			continue;
+		}
+		for (const id of targets) {
+			const list = bySection.get(id) ?? [];
+			list.push(annotation);
+			bySection.set(id, list);
+		}
+	}
+
+	return { bySection, unattached };
+}
+
+/**
+ * Split section text around inline annotation markers ("F1", "C12", ...).
+ * Only codes present in `codes` are marked, so ordinary text like "F1 form" in a
+ * section without that annotation is left alone.
+ */
+export function footnoteSegments(text: string, codes: Set<string>): TextSegment[] {
+	if (codes.size === 0) return [{ text }];
+
+	const segments: TextSegment[] = [];
+	const pattern = /\b([FCIE]\d+)\b/g;
+	let last = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = pattern.exec(text)) !== null) {
+		if (!codes.has(match[1])) continue;
+		if (match.index > last) segments.push({ text: text.slice(last, match.index) });
+		segments.push({ text: match[1], code: match[1] });
+		last = match.index + match[0].length;
+	}
+	if (last < text.length) segments.push({ text: text.slice(last) });
+
+	return segments;
+}
+
+/**
+ * Table of contents built from the structural rows
+ */
+export function buildOutline(rows: LatRecord[]): OutlineEntry[] {
+	const types = OUTLINE_TYPES as readonly string[];
+	return rows
+		.filter((row) => types.includes(row.section_type) && row.section_type !== 'title')
+		.map((row) => ({
+			sectionId: row.section_id,
+			sectionType: row.section_type,
+			// Division rows carry their own heading ("PART 2 General duties")
+			label: row.text.split('\n')[0].trim() || formatCitation(row),
+			depth: row.depth
+		}));
+}
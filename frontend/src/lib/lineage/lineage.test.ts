@@ -0,0 +1,150 @@
+/**
+ * Tests for law lineage graph and timeline
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformUkLrtRecord, type UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+import {
+	toNameList,
+	recordEdges,
+	neighbourNames,
+	yearFromName,
+	buildLineage,
+	buildTimeline,
+	layoutLineage,
+	lineageWhere,
+	shortName
+} from './lineage';
+
+function law(name: string, fields: Record<string, unknown> = {}): UkLrtRecord {
+	// Relationship arrays arrive from Electric as plain arrays on the raw row
+	return { ...transformUkLrtRecord({ id: name, name, ...fields }), ...fields } as UkLrtRecord;
+}
+
+function lookupOf(records: UkLrtRecord[]): Map<string, UkLrtRecord> {
+	return new Map(records.map((r) => [r.name, r]));
+}
+
+const act = law('UK_ukpga_1974_37', {
+	year: 1974,
+	title_en: 'Health and Safety at Work etc. Act 1974'
+});
+const regs = law('UK_uksi_1999_3242', {
+	year: 1999,
+	enacted_by: ['UK_ukpga_1974_37'],
+	amended_by: ['UK_uksi_2006_438', 'UK_uksi_1999_3242'],
+	amending: ['UK_uksi_1992_2051'],
+	md_made_date: '1999-12-05',
+	latest_amend_date: '2006-04-06'
+});
+const amender = law('UK_uksi_2006_438', {
+	year: 2006,
+	amending: ['UK_uksi_1999_3242'],
+	md_made_date: '2006-02-20'
+});
+
+describe('toNameList', () => {
+	it('accepts arrays, Postgres literals, JSON and comma strings', () => {
+		expect(toNameList(['a', 'b'])).toEqual(['a', 'b']);
+		expect(toNameList('{a,"b"}')).toEqual(['a', 'b']);
+		expect(toNameList('["a","b"]')).toEqual(['a', 'b']);
+		expect(toNameList('a, b')).toEqual(['a', 'b']);
+		expect(toNameList(null)).toEqual([]);
+		expect(toNameList('{}')).toEqual([]);
+	});
+});
+
+describe('recordEdges', () => {
+	it('points edges from the acting law and drops self-references', () => {
+		expect(recordEdges(regs)).toEqual([
+			{ from: 'UK_ukpga_1974_37', to: 'UK_uksi_1999_3242', kind: 'enacts' },
+			{ from: 'UK_uksi_1999_3242', to: 'UK_uksi_1992_2051', kind: 'amends' },
+			{ from: 'UK_uksi_2006_438', to: 'UK_uksi_1999_3242', kind: 'amends' }
+		]);
+	});
+
+	it('lists neighbours once', () => {
+		expect(neighbourNames(regs).sort()).toEqual([
+			'UK_ukpga_1974_37',
+			'UK_uksi_1992_2051',
+			'UK_uksi_2006_438'
+		]);
+	});
+});
+
+describe('yearFromName', () => {
+	it('reads the year from a law name', () => {
+		expect(yearFromName('UK_uksi_1999_3242')).toBe(1999);
+		expect(yearFromName('not-a-law')).toBeNull();
+	});
+});
+
+describe('buildLineage', () => {
+	it('walks synced records and keeps unsynced laws as stubs', () => {
+		const graph = buildLineage('UK_uksi_1999_3242', lookupOf([act, regs, amender]));
+
+		expect(graph.nodes.map((n) => n.name).sort()).toEqual([
+			'UK_ukpga_1974_37',
+			'UK_uksi_1992_2051',
+			'UK_uksi_1999_3242',
+			'UK_uksi_2006_438'
+		]);
+		expect(graph.nodes.find((n) => n.name === 'UK_uksi_1992_2051')?.record).toBeNull();
+		expect(graph.nodes.find((n) => n.name === 'UK_uksi_1992_2051')?.year).toBe(1992);
+		// The amender's own "amending" link duplicates the focus' "amended_by" link
+		expect(graph.edges).toHaveLength(3);
+	});
+
+	it('respects maxNodes', () => {
+		const graph = buildLineage('UK_uksi_1999_3242', lookupOf([regs]), { maxNodes: 2 });
+
+		expect(graph.nodes).toHaveLength(2);
+		expect(graph.truncated).toBe(true);
+	});
+
+	it('returns just the focus when it is not synced', () => {
+		const graph = buildLineage('UK_uksi_2000_1', new Map());
+		expect(graph.nodes).toHaveLength(1);
+		expect(graph.edges).toHaveLength(0);
+	});
+});
+
+describe('buildTimeline', () => {
+	it('orders own and related events by date', () => {
+		const events = buildTimeline(regs, lookupOf([act, regs, amender]));
+
+		expect(events.map((e) => [e.date, e.kind])).toEqual([
+			['1974-01-01', 'enabled_by'],
+			['1992-01-01', 'amends'],
+			['1999-12-05', 'made'],
+			['2006-02-20', 'amended_by'],
+			['2006-04-06', 'latest_amend']
+		]);
+		expect(events[0].yearOnly).toBe(true);
+		expect(events[0].label).toBe('Enabling law: Health and Safety at Work etc. Act 1974');
+	});
+});
+
+describe('layoutLineage', () => {
+	it('places nodes in year columns with the focus first', () => {
+		const graph = buildLineage('UK_uksi_1999_3242', lookupOf([act, regs, amender]));
+		const layout = layoutLineage(graph, { columnWidth: 100, rowHeight: 10, padding: 0 });
+
+		expect(layout.years).toEqual([1974, 1992, 1999, 2006]);
+		const focus = layout.nodes.find((n) => n.name === 'UK_uksi_1999_3242');
+		expect(focus).toMatchObject({ x: 200, y: 0 });
+	});
+});
+
+describe('lineageWhere', () => {
+	it('quotes and de-duplicates names', () => {
+		expect(lineageWhere(['a', "b'c", 'a'])).toBe("name IN ('a', 'b''c')");
+	});
+});
+
+describe('shortName', () => {
+	it('compacts law names', () => {
+		expect(shortName('UK_uksi_1999_3242')).toBe('uksi 1999/3242');
+		expect(shortName('other')).toBe('other');
+	});
+});
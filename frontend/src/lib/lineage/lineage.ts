@@ -0,0 +1,328 @@
+/**
+ * Law lineage — enacting / amending / rescinding relationships
+ *
+ * Walks the relationship arrays on UkLrtRecord (enacted_by, amending, amended_by,
+ * rescinding, rescinded_by) across whichever records are synced locally, producing
+ * a directed graph and a dated timeline for a single law.
+ *
+ * Edges always point from the acting law to the law it acts on:
+ *   enabling Act --enacts--> regulation, amending SI --amends--> amended law
+ */
+
+import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+
+export type LineageEdgeKind = 'enacts' | 'amends' | 'rescinds';
+
+export interface LineageNode {
+	name: string;
+	/** null when the law is referenced but not synced locally */
+	record: UkLrtRecord | null;
+	depth: number;
+	year: number | null;
+}
+
+export interface LineageEdge {
+	from: string;
+	to: string;
+	kind: LineageEdgeKind;
+}
+
+export interface LineageGraph {
+	focus: string;
+	nodes: LineageNode[];
+	edges: LineageEdge[];
+	/** True when the walk stopped at maxNodes before exhausting maxDepth */
+	truncated: boolean;
+}
+
+export interface LineageOptions {
+	maxDepth?: number;
+	maxNodes?: number;
+}
+
+export type TimelineEventKind =
+	| 'made'
+	| 'enacted'
+	| 'in_force'
+	| 'enabled_by'
+	| 'amended_by'
+	| 'amends'
+	| 'rescinded_by'
+	| 'latest_amend'
+	| 'latest_rescind';
+
+export interface TimelineEvent {
+	date: string;
+	/** True when only the year is known (date is YYYY-01-01) */
+	yearOnly: boolean;
+	kind: TimelineEventKind;
+	label: string;
+	/** Related law, for events involving another record */
+	lawName: string | null;
+}
+
+export const EDGE_LABELS: Record<LineageEdgeKind, string> = {
+	enacts: 'Enacts',
+	amends: 'Amends',
+	rescinds: 'Rescinds'
+};
+
+const DEFAULT_MAX_DEPTH = 2;
+const DEFAULT_MAX_NODES = 150;
+
+type RelationRecord = Partial<
+	Record<'enacted_by' | 'amending' | 'amended_by' | 'rescinding' | 'rescinded_by', unknown>
+>;
+
+/**
+ * Normalise a relationship column to a list of law names.
+ * Electric delivers text[] as arrays, but older rows and the REST API may
+ * return Postgres array literals ("{a,b}") or comma-joined strings.
+ */
+export function toNameList(value: unknown): string[] {
+	if (value === null || value === undefined) return [];
+	if (Array.isArray(value)) return value.map(String).filter(Boolean);
+	if (typeof value === 'string') {
+		let text = value.trim();
+		if (text.startsWith('[')) {
+			try {
+				const parsed = JSON.parse(text);
+				if (Array.isArray(parsed)) return parsed.map(String).filter(Boolean);
+			} catch {
+				return [];
+			}
+		}
+		if (text.startsWith('{') && text.endsWith('}')) text = text.slice(1, -1);
+		return text
+			.split(',')
+			.map((s) => s.trim().replace(/^"|"$/g, ''))
+			.filter(Boolean);
+	}
+	return [];
+}
+
+/**
+ * Direct relationships of one record, as directed edges
+ */
+export function recordEdges(record: UkLrtRecord): LineageEdge[] {
+	const r = record as unknown as RelationRecord;
+	const name = record.name;
+	const edges: LineageEdge[] = [];
+
+	for (const parent of toNameList(r.enacted_by))
+		edges.push({ from: parent, to: name, kind: 'enacts' });
+	for (const target of toNameList(r.amending))
+		edges.push({ from: name, to: target, kind: 'amends' });
+	for (const source of toNameList(r.amended_by))
+		edges.push({ from: source, to: name, kind: 'amends' });
+	for (const target of toNameList(r.rescinding))
+		edges.push({ from: name, to: target, kind: 'rescinds' });
+	for (const source of toNameList(r.rescinded_by))
+		edges.push({ from: source, to: name, kind: 'rescinds' });
+
+	// A law can list itself (self-amendment) — not useful in a lineage graph
+	return edges.filter((e) => e.from !== e.to);
+}
+
+/**
+ * Names directly related to a record
+ */
+export function neighbourNames(record: UkLrtRecord): string[] {
+	const names = new Set<string>();
+	for (const edge of recordEdges(record)) {
+		names.add(edge.from === record.name ? edge.to : edge.from);
+	}
+	return Array.from(names);
+}
+
+/**
+ * Year encoded in a law name ("UK_uksi_2015_51" → 2015)
+ */
+export function yearFromName(name: string): number | null {
+	const match = name.match(/_(\d{4})_[^_]+$/);
+	return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Breadth-first walk from the focus law across the available records.
+ */
+export function buildLineage(
+	focus: string,
+	lookup: Map<string, UkLrtRecord>,
+	options: LineageOptions = {}
+): LineageGraph {
+	const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+	const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+
+	const nodes = new Map<string, LineageNode>();
+	const edges = new Map<string, LineageEdge>();
+	let truncated = false;
+
+	const addNode = (name: string, depth: number): boolean => {
+		if (nodes.has(name)) return true;
+		if (nodes.size >= maxNodes) {
+			truncated = true;
+			return false;
+		}
+		const record = lookup.get(name) ?? null;
+		nodes.set(name, { name, record, depth, year: record?.year ?? yearFromName(name) });
+		return true;
+	};
+
+	addNode(focus, 0);
+	let frontier = [focus];
+
+	for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+		const next: string[] = [];
+		for (const name of frontier) {
+			const record = lookup.get(name);
+			if (!record) continue;
+
+			for (const edge of recordEdges(record)) {
+				const other = edge.from === name ? edge.to : edge.from;
+				const isNew = !nodes.has(other);
+				if (!addNode(other, depth + 1)) continue;
+				edges.set(`${edge.from}|${edge.to}|${edge.kind}`, edge);
+				if (isNew) next.push(other);
+			}
+		}
+		frontier = next;
+	}
+
+	return { focus, nodes: Array.from(nodes.values()), edges: Array.from(edges.values()), truncated };
+}
+
+function lawDate(record: UkLrtRecord): { date: string; yearOnly: boolean } | null {
+	const date =
+		record.md_made_date ?? record.md_enactment_date ?? record.md_date ?? record.md_dct_valid_date;
+	if (date) return { date: date.slice(0, 10), yearOnly: false };
+	if (record.year) return { date: `${record.year}-01-01`, yearOnly: true };
+	return null;
+}
+
+function nameDate(name: string, lookup: Map<string, UkLrtRecord>) {
+	const record = lookup.get(name);
+	if (record) return lawDate(record);
+	const year = yearFromName(name);
+	return year ? { date: `${year}-01-01`, yearOnly: true } : null;
+}
+
+function lawLabel(name: string, lookup: Map<string, UkLrtRecord>): string {
+	return lookup.get(name)?.title_en || name;
+}
+
+/**
+ * Dated events in a law's history, oldest first.
+ * Related laws that aren't synced fall back to the year in their name.
+ */
+export function buildTimeline(
+	record: UkLrtRecord,
+	lookup: Map<string, UkLrtRecord>
+): TimelineEvent[] {
+	const r = record as unknown as RelationRecord;
+	const events: TimelineEvent[] = [];
+
+	const own = (date: string | null, kind: TimelineEventKind, label: string) => {
+		if (date) events.push({ date: date.slice(0, 10), yearOnly: false, kind, label, lawName: null });
+	};
+	own(record.md_made_date, 'made', 'Made');
+	own(record.md_enactment_date, 'enacted', 'Enacted');
+	own(record.md_coming_into_force_date, 'in_force', 'Came into force');
+	own(record.latest_amend_date, 'latest_amend', 'Latest amendment');
+	own(record.latest_rescind_date, 'latest_rescind', 'Latest rescission');
+
+	const related = (names: string[], kind: TimelineEventKind, prefix: string) => {
+		for (const name of names) {
+			if (name === record.name) continue;
+			const when = nameDate(name, lookup);
+			if (!when) continue;
+			events.push({ ...when, kind, label: `${prefix} ${lawLabel(name, lookup)}`, lawName: name });
+		}
+	};
+	related(toNameList(r.enacted_by), 'enabled_by', 'Enabling law:');
+	related(toNameList(r.amended_by), 'amended_by', 'Amended by');
+	related(toNameList(r.rescinded_by), 'rescinded_by', 'Rescinded by');
+	related(toNameList(r.amending), 'amends', 'Amends');
+
+	return events.sort((a, b) => a.date.localeCompare(b.date) || a.label.localeCompare(b.label));
+}
+
+export interface PositionedNode extends LineageNode {
+	x: number;
+	y: number;
+}
+
+export interface LineageLayout {
+	nodes: PositionedNode[];
+	width: number;
+	height: number;
+	years: number[];
+}
+
+/**
+ * Lay nodes out on a time axis: one column per year, stacked vertically.
+ * Undated nodes go in a trailing column.
+ */
+export function layoutLineage(
+	graph: LineageGraph,
+	{ columnWidth = 180, rowHeight = 56, padding = 40 } = {}
+): LineageLayout {
+	const years = Array.from(
+		new Set(graph.nodes.map((n) => n.year).filter((y): y is number => y !== null))
+	).sort((a, b) => a - b);
+	const hasUndated = graph.nodes.some((n) => n.year === null);
+	const columnCount = years.length + (hasUndated ? 1 : 0);
+
+	const columns = new Map<number | null, LineageNode[]>();
+	for (const node of graph.nodes) {
+		const list = columns.get(node.year) ?? [];
+		list.push(node);
+		columns.set(node.year, list);
+	}
+
+	// Focus first in its column, then by depth and name for stable output
+	for (const list of columns.values()) {
+		list.sort(
+			(a, b) =>
+				Number(b.name === graph.focus) - Number(a.name === graph.focus) ||
+				a.depth - b.depth ||
+				a.name.localeCompare(b.name)
+		);
+	}
+
+	const maxRows = Math.max(1, ...Array.from(columns.values()).map((l) => l.length));
+	const positioned: PositionedNode[] = [];
+	for (const [year, list] of columns) {
+		const col = year === null ? years.length : years.indexOf(year);
+		list.forEach((node, row) => {
+			positioned.push({
+				...node,
+				x: padding + col * columnWidth,
+				y: padding + row * rowHeight
+			});
+		});
+	}
+
+	return {
+		nodes: positioned,
+		width: padding * 2 + Math.max(0, columnCount - 1) * columnWidth + columnWidth,
+		height: padding * 2 + maxRows * rowHeight,
+		years
+	};
+}
+
+/**
+ * Electric WHERE clause selecting a set of laws by name
+ */
+export function lineageWhere(names: string[]): string {
+	const quoted = Array.from(new Set(names)).map((n) => `'${n.replace(/'/g, "''")}'`);
+	return `name IN (${quoted.join(', ')})`;
+}
+
+/**
+ * Compact label for a law name ("UK_uksi_2015_51" → "uksi 2015/51")
+ */
+export function shortName(name: string): string {
+	const match = name.match(/^UK_([^_]+)_(\d{4})_(.+)$/);
+	return match ? `${match[1]} ${match[2]}/${match[3]}` : name;
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+	MAX_CONCURRENCY,
+	createQueue,
+	isFinished,
+	moveItem,
+	nextToStart,
+	queueCounts,
+	requeueInterrupted,
+	retryFailed,
+	setConcurrency,
+	setPaused,
+	startItem,
+	updateItem,
+	type ParseQueue
+} from './queue';
+
+function records(...names: string[]) {
+	return names.map((name) => ({ name, Title_EN: `${name} Regulations` }));
+}
+
+function names(queue: ParseQueue): string[] {
+	return queue.items.map((i) => i.name);
+}
+
+describe('createQueue', () => {
+	it('queues each record once with defaults', () => {
+		const queue = createQueue('2026-03-02-to-08', 1, records('a', 'b', 'a'));
+		expect(queue.id).toBe('2026-03-02-to-08:1');
+		expect(names(queue)).toEqual(['a', 'b']);
+		expect(queue.items[0]).toMatchObject({ status: 'queued', title: 'a Regulations', attempts: 0 });
+		expect(queue.concurrency).toBe(3);
+		expect(queue.auto_confirm).toBe(true);
+		expect(queue.paused).toBe(false);
+	});
+
+	it('clamps concurrency', () => {
+		expect(createQueue('s', 1, [], { concurrency: 50 }).concurrency).toBe(MAX_CONCURRENCY);
+		expect(setConcurrency(createQueue('s', 1, []), 0).concurrency).toBe(1);
+	});
+});
+
+describe('nextToStart', () => {
+	it('fills free slots in queue order', () => {
+		let queue = createQueue('s', 1, records('a', 'b', 'c', 'd'), { concurrency: 2 });
+		expect(nextToStart(queue)).toEqual(['a', 'b']);
+
+		queue = startItem(queue, 'a');
+		expect(nextToStart(queue)).toEqual(['b']);
+
+		queue = startItem(queue, 'b');
+		expect(nextToStart(queue)).toEqual([]);
+
+		queue = updateItem(queue, 'a', () => ({ status: 'confirmed' }));
+		expect(nextToStart(queue)).toEqual(['c']);
+	});
+
+	it('starts nothing while paused', () => {
+		const queue = setPaused(createQueue('s', 1, records('a')), true);
+		expect(nextToStart(queue)).toEqual([]);
+		expect(nextToStart(setPaused(queue, false))).toEqual(['a']);
+	});
+});
+
+describe('moveItem', () => {
+	it('re-prioritises within the run order', () => {
+		const queue = createQueue('s', 1, records('a', 'b', 'c', 'd'), { concurrency: 1 });
+		expect(names(moveItem(queue, 'c', 'top'))).toEqual(['c', 'a', 'b', 'd']);
+		expect(names(moveItem(queue, 'c', 'up'))).toEqual(['a', 'c', 'b', 'd']);
+		expect(names(moveItem(queue, 'a', 'down'))).toEqual(['b', 'a', 'c', 'd']);
+		expect(names(moveItem(queue, 'a', 'bottom'))).toEqual(['b', 'c', 'd', 'a']);
+		expect(moveItem(queue, 'a', 'up')).toBe(queue);
+		expect(nextToStart(moveItem(queue, 'd', 'top'))).toEqual(['d']);
+	});
+});
+
+describe('reload and retry', () => {
+	it('requeues records that were mid-parse', () => {
+		let queue = createQueue('s', 1, records('a', 'b'));
+		queue = updateItem(startItem(queue, 'a'), 'a', () => ({ stage: 'extent' }));
+		const restored = requeueInterrupted(queue);
+		expect(restored.items[0]).toMatchObject({ status: 'queued', stage: null, attempts: 1 });
+		expect(requeueInterrupted(restored)).toBe(restored);
+	});
+
+	it('retries failed records and counts statuses', () => {
+		let queue = createQueue('s', 1, records('a', 'b', 'c'));
+		queue = updateItem(queue, 'a', () => ({ status: 'failed', error: 'timeout' }));
+		queue = updateItem(queue, 'b', () => ({ status: 'parsed' }));
+		queue = updateItem(queue, 'c', () => ({ status: 'confirmed' }));
+		expect(queueCounts(queue)).toEqual({
+			total: 3,
+			queued: 0,
+			parsing: 0,
+			parsed: 1,
+			confirmed: 1,
+			failed: 1
+		});
+		expect(isFinished(queue)).toBe(true);
+
+		const retried = retryFailed(queue);
+		expect(retried.items[0]).toMatchObject({ status: 'queued', error: null });
+		expect(isFinished(retried)).toBe(false);
+	});
+});
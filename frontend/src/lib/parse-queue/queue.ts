@@ -0,0 +1,227 @@
+/**
+ * Bulk parse queue
+ *
+ * A queue holds every record of one session group and is worked through in
+ * order, N records at a time, by the parse-queue store. The functions here
+ * are pure state transitions so the queue can be persisted to IndexedDB
+ * after every change and picked up again after a reload.
+ */
+
+import type { ParseStage, ScrapeRecord } from '$lib/api/scraper';
+
+// 'parsed' = waiting for review or confirmation
+export type QueueItemStatus = 'queued' | 'parsing' | 'parsed' | 'confirmed' | 'failed';
+
+export interface QueueItem {
+	name: string;
+	title: string | null;
+	status: QueueItemStatus;
+	/** Stage currently running (SSE stage_start) */
+	stage: ParseStage | null;
+	/** Stages finished so far and their outcome (SSE stage_complete) */
+	stages: Partial<Record<ParseStage, 'ok' | 'error' | 'skipped'>>;
+	/** Parsed record, kept until confirmed so a reload does not lose it */
+	record: Record<string, unknown> | null;
+	has_errors: boolean;
+	error: string | null;
+	attempts: number;
+	updated_at: string;
+}
+
+export interface ParseQueue {
+	/** "{session_id}:{group}" — one queue per session group */
+	id: string;
+	session_id: string;
+	group: 1 | 2 | 3;
+	/** Records parsed at the same time */
+	concurrency: number;
+	paused: boolean;
+	/** Confirm records that parse without errors straight away */
+	auto_confirm: boolean;
+	/** Run order; re-prioritising moves items within this list */
+	items: QueueItem[];
+	created_at: string;
+	updated_at: string;
+}
+
+export interface QueueCounts {
+	total: number;
+	queued: number;
+	parsing: number;
+	parsed: number;
+	confirmed: number;
+	failed: number;
+}
+
+export const MIN_CONCURRENCY = 1;
+export const MAX_CONCURRENCY = 8;
+export const DEFAULT_CONCURRENCY = 3;
+
+export function queueId(sessionId: string, group: 1 | 2 | 3): string {
+	return `${sessionId}:${group}`;
+}
+
+function clampConcurrency(n: number): number {
+	return Math.min(MAX_CONCURRENCY, Math.max(MIN_CONCURRENCY, Math.round(n) || MIN_CONCURRENCY));
+}
+
+function touch(queue: ParseQueue, items: QueueItem[] = queue.items): ParseQueue {
+	return { ...queue, items, updated_at: new Date().toISOString() };
+}
+
+/**
+ * Build a queue for a session group. Duplicate names are queued once.
+ */
+export function createQueue(
+	sessionId: string,
+	group: 1 | 2 | 3,
+	records: Array<Pick<ScrapeRecord, 'name' | 'Title_EN'>>,
+	options: { concurrency?: number; autoConfirm?: boolean } = {}
+): ParseQueue {
+	const now = new Date().toISOString();
+	const seen = new Set<string>();
+	const items: QueueItem[] = [];
+	for (const r of records) {
+		if (!r.name || seen.has(r.name)) continue;
+		seen.add(r.name);
+		items.push({
+			name: r.name,
+			title: r.Title_EN || null,
+			status: 'queued',
+			stage: null,
+			stages: {},
+			record: null,
+			has_errors: false,
+			error: null,
+			attempts: 0,
+			updated_at: now
+		});
+	}
+	return {
+		id: queueId(sessionId, group),
+		session_id: sessionId,
+		group,
+		concurrency: clampConcurrency(options.concurrency ?? DEFAULT_CONCURRENCY),
+		paused: false,
+		auto_confirm: options.autoConfirm ?? true,
+		items,
+		created_at: now,
+		updated_at: now
+	};
+}
+
+/**
+ * Apply a change to one item, by name.
+ */
+export function updateItem(
+	queue: ParseQueue,
+	name: string,
+	change: (item: QueueItem) => Partial<QueueItem>
+): ParseQueue {
+	const now = new Date().toISOString();
+	return touch(
+		queue,
+		queue.items.map((item) =>
+			item.name === name ? { ...item, ...change(item), updated_at: now } : item
+		)
+	);
+}
+
+export function startItem(queue: ParseQueue, name: string): ParseQueue {
+	return updateItem(queue, name, (item) => ({
+		status: 'parsing',
+		stage: null,
+		stages: {},
+		error: null,
+		attempts: item.attempts + 1
+	}));
+}
+
+/**
+ * Names of the items to start next, in queue order, so that no more than
+ * `concurrency` are parsing at once. Nothing starts while paused.
+ */
+export function nextToStart(queue: ParseQueue): string[] {
+	if (queue.paused) return [];
+	const running = queue.items.filter((i) => i.status === 'parsing').length;
+	const free = queue.concurrency - running;
+	if (free <= 0) return [];
+	return queue.items
+		.filter((i) => i.status === 'queued')
+		.slice(0, free)
+		.map((i) => i.name);
+}
+
+/**
+ * Items left mid-parse by a reload or a pause go back to the queue;
+ * their SSE streams are gone.
+ */
+export function requeueInterrupted(queue: ParseQueue): ParseQueue {
+	if (!queue.items.some((i) => i.status === 'parsing')) return queue;
+	return touch(
+		queue,
+		queue.items.map((i) => (i.status === 'parsing' ? { ...i, status: 'queued', stage: null } : i))
+	);
+}
+
+export function retryFailed(queue: ParseQueue): ParseQueue {
+	return touch(
+		queue,
+		queue.items.map((i) => (i.status === 'failed' ? { ...i, status: 'queued', error: null } : i))
+	);
+}
+
+export function setPaused(queue: ParseQueue, paused: boolean): ParseQueue {
+	return { ...touch(queue), paused };
+}
+
+export function setConcurrency(queue: ParseQueue, concurrency: number): ParseQueue {
+	return { ...touch(queue), concurrency: clampConcurrency(concurrency) };
+}
+
+export function setAutoConfirm(queue: ParseQueue, autoConfirm: boolean): ParseQueue {
+	return { ...touch(queue), auto_confirm: autoConfirm };
+}
+
+export type PriorityMove = 'top' | 'up' | 'down' | 'bottom';
+
+/**
+ * Re-prioritise an item by moving it within the run order.
+ * Only waiting items affect what runs next, but any item can be moved.
+ */
+export function moveItem(queue: ParseQueue, name: string, move: PriorityMove): ParseQueue {
+	const from = queue.items.findIndex((i) => i.name === name);
+	if (from === -1) return queue;
+	const last = queue.items.length - 1;
+	const to =
+		move === 'top'
+			? 0
+			: move === 'bottom'
+				? last
+				: Math.min(last, Math.max(0, from + (move === 'up' ? -1 : 1)));
+	if (to === from) return queue;
+	const items = [...queue.items];
+	const [item] = items.splice(from, 1);
+	items.splice(to, 0, item);
+	return touch(queue, items);
+}
+
+export function queueCounts(queue: ParseQueue): QueueCounts {
+	const counts: QueueCounts = {
+		total: queue.items.length,
+		queued: 0,
+		parsing: 0,
+		parsed: 0,
+		confirmed: 0,
+		failed: 0
+	};
+	for (const item of queue.items) counts[item.status]++;
+	return counts;
+}
+
+/**
+ * A queue is finished when nothing is waiting or running.
+ */
+export function isFinished(queue: ParseQueue): boolean {
+	return queue.items.every((i) => i.status !== 'queued' && i.status !== 'parsing');
+}
@@ -12,6 +12,8 @@ import {
 	persistGroup,
 	parseGroup,
 	deleteSession,
+	rerunSession,
+	getSessionComparison,
 	updateSelection,
 	parseOne,
 	confirmRecord,
@@ -19,6 +21,10 @@ import {
 	getFamilyOptions,
 	getCascadeIndex,
 	getCascadeSessions,
+	getCascadeGraph,
+	getCascadeJobs,
+	startCascadeJob,
+	cancelCascadeJob,
 	cascadeReparse,
 	cascadeUpdateEnacting,
 	cascadeAddLaws,
@@ -26,6 +32,16 @@ import {
 	clearProcessedCascade,
 	clearSessionCascade,
 	createReparseSession,
+	getScrapeSchedules,
+	createScrapeSchedule,
+	updateScrapeSchedule,
+	deleteScrapeSchedule,
+	runScrapeSchedule,
+	getScrapeScheduleRuns,
+	acknowledgeScrapeScheduleRun,
+	getUkLrtHistory,
+	revertUkLrtField,
+	type ScrapeScheduleInput,
 	type ScrapeSession,
 	type GroupResponse,
 	type ParseResult,
@@ -37,7 +53,8 @@ import {
 	type DbStatusResult,
 	type CascadeIndexResult,
 	type CascadeSessionsResult,
-	type CascadeOperationResult
+	type CascadeOperationResult,
+	type EnactingLinkSelection
 } from '$lib/api/scraper';
 
 // Query Keys
@@ -46,11 +63,17 @@ export const scraperKeys = {
 	sessions: () => [...scraperKeys.all, 'sessions'] as const,
 	session: (id: string) => [...scraperKeys.all, 'session', id] as const,
 	sessionDbStatus: (id: string) => [...scraperKeys.all, 'session', id, 'db-status'] as const,
+	sessionComparison: (id: string) => [...scraperKeys.all, 'session', id, 'comparison'] as const,
 	group: (sessionId: string, group: 1 | 2 | 3) =>
 		[...scraperKeys.all, 'group', sessionId, group] as const,
 	cascade: () => [...scraperKeys.all, 'cascade'] as const,
 	cascadeIndex: (sessionId?: string) => [...scraperKeys.cascade(), 'index', sessionId] as const,
-	cascadeSessions: () => [...scraperKeys.cascade(), 'sessions'] as const
+	cascadeSessions: () => [...scraperKeys.cascade(), 'sessions'] as const,
+	cascadeGraph: (sessionId: string) => [...scraperKeys.cascade(), 'graph', sessionId] as const,
+	cascadeJobs: (sessionId: string) => [...scraperKeys.cascade(), 'jobs', sessionId] as const,
+	schedules: () => [...scraperKeys.all, 'schedules'] as const,
+	scheduleRuns: () => [...scraperKeys.schedules(), 'runs'] as const,
+	recordHistory: (recordId: string) => [...scraperKeys.all, 'record-history', recordId] as const
 };
 
 /**
@@ -189,6 +212,36 @@ export function useDeleteSessionMutation() {
 	});
 }
 
+/**
+ * Query: Compare a re-run session with the session it re-scraped
+ */
+export function useSessionComparisonQuery(sessionId: string, enabled = true) {
+	return createQuery({
+		queryKey: scraperKeys.sessionComparison(sessionId),
+		queryFn: () => getSessionComparison(sessionId),
+		enabled: !!sessionId && enabled
+	});
+}
+
+/**
+ * Mutation: Re-run a session as a new session
+ */
+export function useRerunSessionMutation() {
+	const queryClient = useQueryClient();
+
+	return createMutation({
+		mutationFn: rerunSession,
+		onSuccess: (data) => {
+			queryClient.invalidateQueries({ queryKey: scraperKeys.sessions() });
+			queryClient.setQueryData(scraperKeys.session(data.session.session_id), data.session);
+			queryClient.setQueryData(
+				scraperKeys.sessionComparison(data.session.session_id),
+				data.comparison
+			);
+		}
+	});
+}
+
 // ============================================================================
 // Reparse Session Hooks
 // ============================================================================
@@ -292,6 +345,59 @@ export function useCascadeSessionsQuery() {
 	});
 }
 
+/**
+ * Query: Get the cascade graph (entries of every status) for a session
+ */
+export function useCascadeGraphQuery(sessionId: string) {
+	return createQuery({
+		queryKey: scraperKeys.cascadeGraph(sessionId),
+		queryFn: () => getCascadeGraph(sessionId),
+		enabled: !!sessionId
+	});
+}
+
+/**
+ * Query: Get a session's cascade auto-run jobs, polling while one is running
+ */
+export function useCascadeJobsQuery(sessionId: string) {
+	return createQuery({
+		queryKey: scraperKeys.cascadeJobs(sessionId),
+		queryFn: () => getCascadeJobs(sessionId),
+		enabled: !!sessionId,
+		refetchInterval: (query) =>
+			query.state.data?.some((job) => job.status === 'running') ? 2_000 : false
+	});
+}
+
+/**
+ * Mutation: Start a cascade auto-run for a session
+ */
+export function useStartCascadeJobMutation() {
+	const queryClient = useQueryClient();
+
+	return createMutation({
+		mutationFn: ({ sessionId, maxLayer }: { sessionId: string; maxLayer?: number }) =>
+			startCascadeJob(sessionId, maxLayer),
+		onSuccess: (_job, { sessionId }) => {
+			queryClient.invalidateQueries({ queryKey: scraperKeys.cascadeJobs(sessionId) });
+		}
+	});
+}
+
+/**
+ * Mutation: Cancel a running cascade auto-run
+ */
+export function useCancelCascadeJobMutation() {
+	const queryClient = useQueryClient();
+
+	return createMutation({
+		mutationFn: (id: string) => cancelCascadeJob(id),
+		onSuccess: (job) => {
+			queryClient.invalidateQueries({ queryKey: scraperKeys.cascadeJobs(job.session_id) });
+		}
+	});
+}
+
 /**
  * Mutation: Batch re-parse cascade entries
  */
@@ -313,7 +419,8 @@ export function useCascadeReparseMutation() {
  */
 export function useCascadeUpdateEnactingMutation() {
 	return createMutation({
-		mutationFn: (ids: string[]) => cascadeUpdateEnacting(ids)
+		mutationFn: ({ ids, links }: { ids: string[]; links?: EnactingLinkSelection }) =>
+			cascadeUpdateEnacting(ids, { links })
 	});
 }
 
@@ -373,3 +480,136 @@ export function useClearSessionCascadeMutation() {
 		}
 	});
 }
+
+// ============================================================================
+// Scrape Schedules
+// ============================================================================
+
+/**
+ * Query: Get scrape schedules (with unacknowledged failure count)
+ */
+export function useScrapeSchedulesQuery() {
+	return createQuery({
+		queryKey: scraperKeys.schedules(),
+		queryFn: getScrapeSchedules,
+		refetchInterval: 60_000
+	});
+}
+
+/**
+ * Query: Get recent schedule runs, polling while any run is in progress
+ */
+export function useScrapeScheduleRunsQuery() {
+	return createQuery({
+		queryKey: scraperKeys.scheduleRuns(),
+		queryFn: () => getScrapeScheduleRuns(),
+		refetchInterval: (query) =>
+			query.state.data?.some((run) => run.status === 'running') ? 5_000 : 60_000
+	});
+}
+
+/**
+ * Mutation: Create scrape schedule
+ */
+export function useCreateScrapeScheduleMutation() {
+	const queryClient = useQueryClient();
+
+	return createMutation({
+		mutationFn: createScrapeSchedule,
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: scraperKeys.schedules() });
+		}
+	});
+}
+
+/**
+ * Mutation: Update scrape schedule
+ */
+export function useUpdateScrapeScheduleMutation() {
+	const queryClient = useQueryClient();
+
+	return createMutation({
+		mutationFn: ({ id, params }: { id: string; params: Partial<ScrapeScheduleInput> }) =>
+			updateScrapeSchedule(id, params),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: scraperKeys.schedules() });
+		}
+	});
+}
+
+/**
+ * Mutation: Delete scrape schedule
+ */
+export function useDeleteScrapeScheduleMutation() {
+	const queryClient = useQueryClient();
+
+	return createMutation({
+		mutationFn: (id: string) => deleteScrapeSchedule(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: scraperKeys.schedules() });
+		}
+	});
+}
+
+/**
+ * Mutation: Run a schedule now
+ */
+export function useRunScrapeScheduleMutation() {
+	const queryClient = useQueryClient();
+
+	return createMutation({
+		mutationFn: (id: string) => runScrapeSchedule(id),
+		onSuccess: () => {
+			// The run starts in the background; schedules and runs both change
+			queryClient.invalidateQueries({ queryKey: scraperKeys.schedules() });
+			queryClient.invalidateQueries({ queryKey: scraperKeys.sessions() });
+		}
+	});
+}
+
+/**
+ * Mutation: Acknowledge a failed schedule run
+ */
+export function useAcknowledgeScheduleRunMutation() {
+	const queryClient = useQueryClient();
+
+	return createMutation({
+		mutationFn: (id: string) => acknowledgeScrapeScheduleRun(id),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: scraperKeys.schedules() });
+		}
+	});
+}
+
+/**
+ * Query: Get the change history of a UK LRT record
+ */
+export function useRecordHistoryQuery(recordId: string) {
+	return createQuery({
+		queryKey: scraperKeys.recordHistory(recordId),
+		queryFn: () => getUkLrtHistory(recordId),
+		enabled: !!recordId
+	});
+}
+
+/**
+ * Mutation: Revert one field of a UK LRT record
+ */
+export function useRevertFieldMutation() {
+	const queryClient = useQueryClient();
+
+	return createMutation({
+		mutationFn: ({
+			recordId,
+			timestamp,
+			field
+		}: {
+			recordId: string;
+			timestamp: string;
+			field: string;
+		}) => revertUkLrtField(recordId, timestamp, field),
+		onSuccess: (_, { recordId }) => {
+			queryClient.invalidateQueries({ queryKey: scraperKeys.recordHistory(recordId) });
+		}
+	});
+}
@@ -2,12 +2,14 @@
  * TanStack Query hooks for Zenoh Admin API
  */
 
-import { createQuery } from '@tanstack/svelte-query';
+import { createQuery, createMutation } from '@tanstack/svelte-query';
 import {
 	getSubscriptions,
 	getQueryables,
+	queryZenoh,
 	type SubscriptionsResponse,
-	type QueryablesResponse
+	type QueryablesResponse,
+	type ZenohQueryResult
 } from '$lib/api/zenoh';
 
 export const zenohKeys = {
@@ -31,3 +33,12 @@ export function useQueryablesQuery() {
 		refetchInterval: 10_000
 	});
 }
+
+/**
+ * Mutation: Query a DataServer key expression through the backend
+ */
+export function useZenohQueryMutation() {
+	return createMutation<ZenohQueryResult, Error, string>({
+		mutationFn: (keyExpr: string) => queryZenoh(keyExpr)
+	});
+}
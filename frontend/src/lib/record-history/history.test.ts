@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { ChangeLogEntry } from '$lib/api/scraper';
+import { actorLabel, entryChanges, formatValue, sourceLabel } from './history';
+
+const entry = (
+	timestamp: string,
+	changes: ChangeLogEntry['changes'],
+	extra: Partial<ChangeLogEntry> = {}
+): ChangeLogEntry => ({
+	timestamp,
+	source: 'inline_edit',
+	changed_by: 'uk_lrt_controller',
+	actor: 'user-1',
+	summary: '',
+	changes,
+	...extra
+});
+
+// Newest first, as returned by GET /api/uk-lrt/:id/history
+const entries = [
+	entry('2026-03-02T10:00:00Z', { family: { old: 'FIRE', new: 'OH&S' } }),
+	entry(
+		'2026-03-01T10:00:00Z',
+		{
+			title_en: { old: 'Old', new: 'New' },
+			family: { old: null, new: 'FIRE' }
+		},
+		{ source: 'cascade', actor: null }
+	)
+];
+
+describe('entryChanges', () => {
+	it('lists changed fields by label', () => {
+		expect(entryChanges(entries, 1).map((c) => c.label)).toEqual(['Family', 'Title']);
+	});
+
+	it('marks fields changed again by a newer entry as superseded', () => {
+		const changes = entryChanges(entries, 1);
+		expect(changes.find((c) => c.field === 'family')?.superseded).toBe(true);
+		expect(changes.find((c) => c.field === 'title_en')?.superseded).toBe(false);
+		expect(entryChanges(entries, 0)[0].superseded).toBe(false);
+	});
+
+	it('returns nothing for an unknown index', () => {
+		expect(entryChanges(entries, 5)).toEqual([]);
+	});
+});
+
+describe('labels', () => {
+	it('names sources and actors', () => {
+		expect(sourceLabel('parse_confirm')).toBe('Parse confirm');
+		expect(sourceLabel('something_new')).toBe('something_new');
+		expect(actorLabel(entries[0], 'user-1')).toBe('You');
+		expect(actorLabel(entries[0], 'user-2')).toBe('User user-1');
+		expect(actorLabel(entries[1], 'user-1')).toBe('System');
+	});
+
+	it('formats blank and structured values', () => {
+		expect(formatValue(null)).toBe('—');
+		expect(formatValue([])).toBe('—');
+		expect(formatValue(['a', 'b'])).toBe('["a","b"]');
+		expect(formatValue(12)).toBe('12');
+	});
+});
@@ -0,0 +1,72 @@
+/**
+ * Presentation helpers for a UK LRT record's change history
+ *
+ * Entries come from GET /api/uk-lrt/:id/history (the record's
+ * `record_change_log`, newest first). Each entry lists the old and new value
+ * of every field it changed; a single field can be reverted to its old value.
+ */
+
+import type { ChangeLogEntry } from '$lib/api/scraper';
+import { getFieldLabel } from '$lib/components/parse-review/field-config';
+
+export const SOURCE_LABELS: Record<string, string> = {
+	scraper: 'Scraper',
+	parse_confirm: 'Parse confirm',
+	cascade: 'Cascade',
+	bulk: 'Bulk persist',
+	inline_edit: 'Inline edit',
+	revert: 'Revert'
+};
+
+export interface HistoryChange {
+	field: string;
+	label: string;
+	old: unknown;
+	new: unknown;
+	/** A later entry changed the field again, so this is no longer its current value */
+	superseded: boolean;
+}
+
+export function sourceLabel(source: string): string {
+	return SOURCE_LABELS[source] ?? source;
+}
+
+/**
+ * Who made a change: "You" for the signed-in user, "System" for changes
+ * without an actor (scheduled runs and entries logged before actors were recorded).
+ */
+export function actorLabel(entry: ChangeLogEntry, currentUserId?: string | null): string {
+	if (!entry.actor) return 'System';
+	if (currentUserId && entry.actor === currentUserId) return 'You';
+	return entry.actor.length > 8 ? `User ${entry.actor.slice(0, 8)}` : `User ${entry.actor}`;
+}
+
+/**
+ * Text shown for an old or new value
+ */
+export function formatValue(value: unknown): string {
+	if (value === null || value === undefined || value === '') return '—';
+	if (Array.isArray(value) && value.length === 0) return '—';
+	if (typeof value === 'object') return JSON.stringify(value);
+	return String(value);
+}
+
+/**
+ * The field changes of the entry at `index`, ordered by label.
+ * `entries` must be newest first, as returned by the API.
+ */
+export function entryChanges(entries: ChangeLogEntry[], index: number): HistoryChange[] {
+	const entry = entries[index];
+	if (!entry) return [];
+	const newer = entries.slice(0, index);
+
+	return Object.entries(entry.changes ?? {})
+		.map(([field, change]) => ({
+			field,
+			label: getFieldLabel(field),
+			old: change.old,
+			new: change.new,
+			superseded: newer.some((e) => field in (e.changes ?? {}))
+		}))
+		.sort((a, b) => a.label.localeCompare(b.label));
+}
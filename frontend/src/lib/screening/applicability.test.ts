@@ -0,0 +1,231 @@
+/**
+ * Tests for compliance screening applicability matching
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformUkLrtRecord, type FitnessEntry } from '$lib/electric/uk-lrt-schema';
+import {
+	emptyProfile,
+	addProfileTerm,
+	removeProfileTerm,
+	termMatches,
+	isNegativePolarity,
+	evaluateRule,
+	screenRecord,
+	screenRecords,
+	collectVocabulary,
+	describeReason,
+	type OrgProfile
+} from './applicability';
+
+function makeRecord(overrides: Record<string, unknown>) {
+	return transformUkLrtRecord({ id: String(overrides.name), live: '✔ In force', ...overrides });
+}
+
+function entry(overrides: Partial<FitnessEntry>): FitnessEntry {
+	return {
+		polarity: 'applies',
+		person: null,
+		process: null,
+		place: null,
+		plant: null,
+		property: null,
+		sector: null,
+		article: null,
+		...overrides
+	};
+}
+
+function profile(overrides: Partial<OrgProfile>): OrgProfile {
+	return { ...emptyProfile(), ...overrides };
+}
+
+describe('addProfileTerm / removeProfileTerm', () => {
+	it('adds trimmed terms once, ignoring case', () => {
+		const p = addProfileTerm(emptyProfile(), 'sector', ' Construction ');
+		expect(p.sector).toEqual(['Construction']);
+		expect(addProfileTerm(p, 'sector', 'construction')).toBe(p);
+		expect(addProfileTerm(p, 'sector', '  ')).toBe(p);
+	});
+
+	it('removes a term from one dimension only', () => {
+		const p = profile({ sector: ['mining', 'construction'], plant: ['mining'] });
+		const removed = removeProfileTerm(p, 'sector', 'mining');
+		expect(removed.sector).toEqual(['construction']);
+		expect(removed.plant).toEqual(['mining']);
+	});
+});
+
+describe('termMatches', () => {
+	it('matches case-insensitively', () => {
+		expect(termMatches('Construction', 'construction')).toBe(true);
+	});
+
+	it('matches whole words within a longer law term', () => {
+		expect(termMatches('construction', 'construction work')).toBe(true);
+		expect(termMatches('work', 'construction work')).toBe(true);
+	});
+
+	it('does not match partial words', () => {
+		expect(termMatches('con', 'construction')).toBe(false);
+	});
+
+	it('does not match empty terms', () => {
+		expect(termMatches('  ', 'construction')).toBe(false);
+	});
+});
+
+describe('isNegativePolarity', () => {
+	it('recognises disapplying polarities', () => {
+		expect(isNegativePolarity('disapplies')).toBe(true);
+		expect(isNegativePolarity('Excludes')).toBe(true);
+		expect(isNegativePolarity('exempt')).toBe(true);
+	});
+
+	it('treats applying polarities as positive', () => {
+		expect(isNegativePolarity('applies')).toBe(false);
+		expect(isNegativePolarity('')).toBe(false);
+	});
+});
+
+describe('evaluateRule', () => {
+	it('requires every populated dimension to match', () => {
+		const rule = entry({ sector: 'construction', place: 'workplace' });
+
+		expect(evaluateRule(rule, profile({ sector: ['construction'] }))).toBeNull();
+		expect(evaluateRule(rule, profile({ sector: ['construction'], place: ['workplace'] }))).toEqual(
+			[
+				{ dimension: 'sector', term: 'construction' },
+				{ dimension: 'place', term: 'workplace' }
+			]
+		);
+	});
+
+	it('ignores rules with no populated dimensions', () => {
+		expect(evaluateRule(entry({}), profile({ sector: ['construction'] }))).toBeNull();
+	});
+});
+
+describe('screenRecord', () => {
+	it('returns null when nothing matches', () => {
+		const record = makeRecord({ name: 'UK_uksi_2020_1', fitness_sector: ['agriculture'] });
+		expect(screenRecord(record, profile({ sector: ['construction'] }))).toBeNull();
+	});
+
+	it('marks tag-only matches as possible', () => {
+		const record = makeRecord({ name: 'UK_uksi_2020_1', fitness_sector: ['construction'] });
+		const result = screenRecord(record, profile({ sector: ['construction'] }));
+
+		expect(result?.status).toBe('possible');
+		expect(result?.reasons).toEqual([{ kind: 'tag', dimension: 'sector', term: 'construction' }]);
+	});
+
+	it('marks satisfied positive rules as applies', () => {
+		const record = makeRecord({
+			name: 'UK_uksi_2015_51',
+			fitness_sector: ['construction'],
+			fitness: [entry({ sector: 'construction', article: 'reg/2' })]
+		});
+		const result = screenRecord(record, profile({ sector: ['construction'] }));
+
+		expect(result?.status).toBe('applies');
+		expect(result?.reasons.some((r) => r.kind === 'rule' && r.article === 'reg/2')).toBe(true);
+	});
+
+	it('marks satisfied negative rules as excluded', () => {
+		const record = makeRecord({
+			name: 'UK_uksi_2015_51',
+			fitness: [entry({ polarity: 'disapplies', place: 'domestic premises' })]
+		});
+		const result = screenRecord(record, profile({ place: ['domestic premises'] }));
+
+		expect(result?.status).toBe('excluded');
+	});
+
+	it('lets a positive rule win over a negative one', () => {
+		const record = makeRecord({
+			name: 'UK_uksi_2015_51',
+			fitness: [
+				entry({ sector: 'construction' }),
+				entry({ polarity: 'disapplies', place: 'domestic premises' })
+			]
+		});
+		const result = screenRecord(
+			record,
+			profile({ sector: ['construction'], place: ['domestic premises'] })
+		);
+
+		expect(result?.status).toBe('applies');
+	});
+});
+
+describe('screenRecords', () => {
+	const records = [
+		makeRecord({ name: 'UK_uksi_2010_1', year: 2010, fitness_sector: ['construction'] }),
+		makeRecord({
+			name: 'UK_uksi_2015_51',
+			year: 2015,
+			fitness: [entry({ sector: 'construction' })]
+		}),
+		makeRecord({ name: 'UK_uksi_2020_1', year: 2020, fitness_sector: ['construction'] }),
+		makeRecord({
+			name: 'UK_uksi_1999_3',
+			year: 1999,
+			live: '❌ Revoked / Repealed / Abolished',
+			fitness: [entry({ sector: 'construction' })]
+		}),
+		makeRecord({ name: 'UK_uksi_2021_9', year: 2021, fitness_sector: ['agriculture'] })
+	];
+
+	it('returns nothing for an empty profile', () => {
+		expect(screenRecords(records, emptyProfile())).toEqual([]);
+	});
+
+	it('ranks applies before possible, then newest first', () => {
+		const results = screenRecords(records, profile({ sector: ['construction'] }));
+
+		expect(results.map((r) => r.record.name)).toEqual([
+			'UK_uksi_2015_51',
+			'UK_uksi_2020_1',
+			'UK_uksi_2010_1'
+		]);
+	});
+
+	it('includes revoked laws on request', () => {
+		const results = screenRecords(records, profile({ sector: ['construction'] }), {
+			includeRevoked: true
+		});
+
+		expect(results.map((r) => r.record.name)).toContain('UK_uksi_1999_3');
+	});
+});
+
+describe('collectVocabulary', () => {
+	it('collects sorted distinct terms per dimension', () => {
+		const vocab = collectVocabulary([
+			makeRecord({ name: 'a', fitness_sector: ['mining', 'construction'] }),
+			makeRecord({ name: 'b', fitness_sector: ['construction'], fitness_plant: ['crane'] })
+		]);
+
+		expect(vocab.sector).toEqual(['construction', 'mining']);
+		expect(vocab.plant).toEqual(['crane']);
+		expect(vocab.person).toEqual([]);
+	});
+});
+
+describe('describeReason', () => {
+	it('describes tag and rule reasons', () => {
+		expect(describeReason({ kind: 'tag', dimension: 'sector', term: 'construction' })).toBe(
+			'Sector: construction'
+		);
+		expect(
+			describeReason({
+				kind: 'rule',
+				polarity: 'applies',
+				negative: false,
+				conditions: [{ dimension: 'place', term: 'workplace' }],
+				article: 'reg/3'
+			})
+		).toBe('applies: place=workplace (reg/3)');
+	});
+});
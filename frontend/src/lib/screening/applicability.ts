@@ -0,0 +1,306 @@
+/**
+ * Compliance Screening — Applicability Matching
+ *
+ * Matches an organisation profile against the fitness columns on UkLrtRecord
+ * (Issue #39) and produces a ranked applicability register.
+ *
+ * Two sources of evidence are combined:
+ * - Tag matches: profile terms found in fitness_person/process/place/plant/property/sector
+ * - Rule matches: polarity-qualified FitnessEntry rows whose every populated
+ *   dimension is satisfied by the profile. A positive rule makes the law apply;
+ *   a negative rule (e.g. "disapplies") records an exclusion.
+ */
+
+import type { FitnessEntry, UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+
+export const FITNESS_DIMENSIONS = [
+	'sector',
+	'process',
+	'place',
+	'plant',
+	'person',
+	'property'
+] as const;
+
+export type FitnessDimension = (typeof FITNESS_DIMENSIONS)[number];
+
+export const DIMENSION_LABELS: Record<FitnessDimension, string> = {
+	sector: 'Sector',
+	process: 'Process',
+	place: 'Place',
+	plant: 'Plant',
+	person: 'Person',
+	property: 'Property'
+};
+
+/**
+ * Organisation profile — the terms an org uses to describe itself.
+ */
+export type OrgProfile = Record<FitnessDimension, string[]>;
+
+export type ApplicabilityStatus = 'applies' | 'possible' | 'excluded';
+
+export interface TagReason {
+	kind: 'tag';
+	dimension: FitnessDimension;
+	term: string;
+}
+
+export interface RuleReason {
+	kind: 'rule';
+	polarity: string;
+	negative: boolean;
+	conditions: { dimension: FitnessDimension; term: string }[];
+	article: string | null;
+}
+
+export type MatchReason = TagReason | RuleReason;
+
+export interface ScreeningResult {
+	record: UkLrtRecord;
+	status: ApplicabilityStatus;
+	score: number;
+	reasons: MatchReason[];
+}
+
+export interface ScreeningOptions {
+	/** Include laws whose status is revoked/repealed (default false) */
+	includeRevoked?: boolean;
+	/** Include laws excluded by a negative rule (default true) */
+	includeExcluded?: boolean;
+}
+
+// Scoring weights — a satisfied rule is much stronger evidence than a loose tag hit
+const TAG_WEIGHT = 1;
+const RULE_WEIGHT = 5;
+const RULE_CONDITION_WEIGHT = 1;
+
+const STATUS_ORDER: Record<ApplicabilityStatus, number> = {
+	applies: 0,
+	possible: 1,
+	excluded: 2
+};
+
+export function emptyProfile(): OrgProfile {
+	return { sector: [], process: [], place: [], plant: [], person: [], property: [] };
+}
+
+export function isProfileEmpty(profile: OrgProfile): boolean {
+	return FITNESS_DIMENSIONS.every((d) => profile[d].length === 0);
+}
+
+/**
+ * Profile with a term added to a dimension. Blank terms and case-insensitive
+ * duplicates leave the profile unchanged.
+ */
+export function addProfileTerm(
+	profile: OrgProfile,
+	dimension: FitnessDimension,
+	term: string
+): OrgProfile {
+	const trimmed = term.trim();
+	if (!trimmed) return profile;
+	if (profile[dimension].some((t) => t.toLowerCase() === trimmed.toLowerCase())) return profile;
+	return { ...profile, [dimension]: [...profile[dimension], trimmed] };
+}
+
+export function removeProfileTerm(
+	profile: OrgProfile,
+	dimension: FitnessDimension,
+	term: string
+): OrgProfile {
+	return { ...profile, [dimension]: profile[dimension].filter((t) => t !== term) };
+}
+
+/**
+ * Normalise a term for comparison (case, whitespace, punctuation).
+ */
+export function normalizeTerm(term: string): string {
+	return term
+		.toLowerCase()
+		.replace(/[^a-z0-9&:]+/g, ' ')
+		.trim();
+}
+
+/**
+ * True when a profile term satisfies a law's term.
+ * Exact match, or the profile term appears as whole words within the law term
+ * (e.g. profile "construction" satisfies "construction work").
+ */
+export function termMatches(profileTerm: string, lawTerm: string): boolean {
+	const p = normalizeTerm(profileTerm);
+	const l = normalizeTerm(lawTerm);
+	if (!p || !l) return false;
+	if (p === l) return true;
+	return ` ${l} `.includes(` ${p} `);
+}
+
+/**
+ * Polarity values that disapply a law rather than apply it.
+ */
+export function isNegativePolarity(polarity: string): boolean {
+	const p = polarity.trim().toLowerCase();
+	return (
+		p.startsWith('dis') ||
+		p.startsWith('exclu') ||
+		p.startsWith('exempt') ||
+		p.startsWith('not') ||
+		p === '-' ||
+		p === 'negative'
+	);
+}
+
+function fitnessTerms(record: UkLrtRecord, dimension: FitnessDimension): string[] {
+	return record[`fitness_${dimension}`] ?? [];
+}
+
+function findProfileTerm(profile: OrgProfile, dimension: FitnessDimension, lawTerm: string) {
+	return profile[dimension].find((t) => termMatches(t, lawTerm)) ?? null;
+}
+
+/**
+ * Evaluate a FitnessEntry against a profile.
+ * Returns the satisfied conditions, or null if any populated dimension is unmatched
+ * (or the entry has no populated dimensions at all).
+ */
+export function evaluateRule(
+	entry: FitnessEntry,
+	profile: OrgProfile
+): { dimension: FitnessDimension; term: string }[] | null {
+	const conditions: { dimension: FitnessDimension; term: string }[] = [];
+	for (const dimension of FITNESS_DIMENSIONS) {
+		const lawTerm = entry[dimension];
+		if (!lawTerm) continue;
+		if (!findProfileTerm(profile, dimension, lawTerm)) return null;
+		conditions.push({ dimension, term: lawTerm });
+	}
+	return conditions.length > 0 ? conditions : null;
+}
+
+function isRevoked(record: UkLrtRecord): boolean {
+	const live = record.live ?? '';
+	return live.startsWith('❌') || /revoked|repealed/i.test(live);
+}
+
+/**
+ * Screen a single record. Returns null when nothing in the profile touches the law.
+ */
+export function screenRecord(record: UkLrtRecord, profile: OrgProfile): ScreeningResult | null {
+	const reasons: MatchReason[] = [];
+	let score = 0;
+
+	for (const dimension of FITNESS_DIMENSIONS) {
+		const seen = new Set<string>();
+		for (const lawTerm of fitnessTerms(record, dimension)) {
+			if (seen.has(lawTerm)) continue;
+			if (findProfileTerm(profile, dimension, lawTerm)) {
+				seen.add(lawTerm);
+				reasons.push({ kind: 'tag', dimension, term: lawTerm });
+				score += TAG_WEIGHT;
+			}
+		}
+	}
+
+	let positiveRules = 0;
+	let negativeRules = 0;
+
+	for (const entry of record.fitness ?? []) {
+		const conditions = evaluateRule(entry, profile);
+		if (!conditions) continue;
+
+		const negative = isNegativePolarity(entry.polarity);
+		reasons.push({
+			kind: 'rule',
+			polarity: entry.polarity,
+			negative,
+			conditions,
+			article: entry.article
+		});
+
+		if (negative) {
+			negativeRules++;
+		} else {
+			positiveRules++;
+			score += RULE_WEIGHT + conditions.length * RULE_CONDITION_WEIGHT;
+		}
+	}
+
+	if (reasons.length === 0) return null;
+
+	let status: ApplicabilityStatus;
+	if (positiveRules > 0) {
+		status = 'applies';
+	} else if (negativeRules > 0) {
+		status = 'excluded';
+	} else {
+		status = 'possible';
+	}
+
+	return { record, status, score, reasons };
+}
+
+/**
+ * Screen a set of records and return a ranked applicability register.
+ *
+ * Ordering: status (applies → possible → excluded), then score, then newest first.
+ */
+export function screenRecords(
+	records: UkLrtRecord[],
+	profile: OrgProfile,
+	options: ScreeningOptions = {}
+): ScreeningResult[] {
+	const { includeRevoked = false, includeExcluded = true } = options;
+	if (isProfileEmpty(profile)) return [];
+
+	const results: ScreeningResult[] = [];
+	for (const record of records) {
+		if (!includeRevoked && isRevoked(record)) continue;
+		const result = screenRecord(record, profile);
+		if (!result) continue;
+		if (!includeExcluded && result.status === 'excluded') continue;
+		results.push(result);
+	}
+
+	return results.sort(
+		(a, b) =>
+			STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+			b.score - a.score ||
+			(b.record.year ?? 0) - (a.record.year ?? 0) ||
+			a.record.name.localeCompare(b.record.name)
+	);
+}
+
+/**
+ * Collect the distinct vocabulary per dimension across a record set.
+ * Used to suggest terms when building a profile.
+ */
+export function collectVocabulary(records: UkLrtRecord[]): Record<FitnessDimension, string[]> {
+	const sets = Object.fromEntries(FITNESS_DIMENSIONS.map((d) => [d, new Set<string>()])) as Record<
+		FitnessDimension,
+		Set<string>
+	>;
+
+	for (const record of records) {
+		for (const dimension of FITNESS_DIMENSIONS) {
+			for (const term of fitnessTerms(record, dimension)) sets[dimension].add(term);
+		}
+	}
+
+	return Object.fromEntries(
+		FITNESS_DIMENSIONS.map((d) => [d, Array.from(sets[d]).sort((a, b) => a.localeCompare(b))])
+	) as Record<FitnessDimension, string[]>;
+}
+
+/**
+ * Human-readable one-line explanation of a match reason.
+ */
+export function describeReason(reason: MatchReason): string {
+	if (reason.kind === 'tag') {
+		return `${DIMENSION_LABELS[reason.dimension]}: ${reason.term}`;
+	}
+	const conditions = reason.conditions
+		.map((c) => `${DIMENSION_LABELS[c.dimension].toLowerCase()}=${c.term}`)
+		.join(' + ');
+	const article = reason.article ? ` (${reason.article})` : '';
+	return `${reason.polarity || 'applies'}: ${conditions}${article}`;
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for site/location profile screening
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformUkLrtRecord } from '$lib/electric/uk-lrt-schema';
+import {
+	createSite,
+	parseExtentCodes,
+	parseRegions,
+	coversRegion,
+	screenSite,
+	siteScope,
+	LOCAL_SCOPE
+} from './sites';
+
+function makeRecord(overrides: Record<string, unknown>) {
+	return transformUkLrtRecord({ id: String(overrides.name), live: '✔ In force', ...overrides });
+}
+
+describe('parseExtentCodes', () => {
+	it('expands UK and GB', () => {
+		expect(parseExtentCodes('UK').sort()).toEqual(['E', 'NI', 'S', 'W']);
+		expect(parseExtentCodes('GB').sort()).toEqual(['E', 'S', 'W']);
+	});
+
+	it('splits joined codes', () => {
+		expect(parseExtentCodes('E+W')).toEqual(['E', 'W']);
+		expect(parseExtentCodes(' e + w + s + ni ')).toEqual(['E', 'W', 'S', 'NI']);
+	});
+
+	it('returns nothing for missing extent', () => {
+		expect(parseExtentCodes(null)).toEqual([]);
+	});
+});
+
+describe('parseRegions', () => {
+	it('splits comma-separated regions', () => {
+		expect(parseRegions('England, Wales')).toEqual(['England', 'Wales']);
+		expect(parseRegions(null)).toEqual([]);
+	});
+});
+
+describe('coversRegion', () => {
+	it('uses geo_extent codes', () => {
+		const record = makeRecord({ name: 'a', geo_extent: 'E+W' });
+		expect(coversRegion(record, 'Wales')).toBe(true);
+		expect(coversRegion(record, 'Scotland')).toBe(false);
+	});
+
+	it('falls back to geo_region names', () => {
+		const record = makeRecord({ name: 'a', geo_region: 'Scotland' });
+		expect(coversRegion(record, 'Scotland')).toBe(true);
+		expect(coversRegion(record, 'England')).toBe(false);
+	});
+
+	it('keeps laws with no extent data', () => {
+		expect(coversRegion(makeRecord({ name: 'a' }), 'Northern Ireland')).toBe(true);
+	});
+});
+
+describe('screenSite', () => {
+	it('restricts the register to laws extending to the site', () => {
+		const records = [
+			makeRecord({ name: 'UK_uksi_2020_1', geo_extent: 'E+W', fitness_sector: ['construction'] }),
+			makeRecord({ name: 'UK_ssi_2020_2', geo_extent: 'S', fitness_sector: ['construction'] }),
+			makeRecord({ name: 'UK_uksi_2020_3', geo_extent: 'UK', fitness_sector: ['construction'] })
+		];
+		const site = createSite('org-1', 'Glasgow depot', 'Scotland');
+		site.profile.sector = ['construction'];
+
+		expect(
+			screenSite(records, site)
+				.map((r) => r.record.name)
+				.sort()
+		).toEqual(['UK_ssi_2020_2', 'UK_uksi_2020_3']);
+	});
+});
+
+describe('siteScope', () => {
+	it('scopes by org_id, falling back to local', () => {
+		expect(siteScope({ id: 'u', email: 'a@b.c', role: 'member', org_id: 'org-1' })).toBe('org-1');
+		expect(siteScope(null)).toBe(LOCAL_SCOPE);
+	});
+});
@@ -0,0 +1,125 @@
+/**
+ * Compliance Screening — Site/Location Profiles
+ *
+ * Each organisation site carries its own screening profile and a UK
+ * jurisdiction. The per-site register is the applicability register
+ * (see applicability.ts) restricted to laws whose territorial extent
+ * covers the site's jurisdiction.
+ */
+
+import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+import type { AuthUser } from '$lib/stores/auth';
+import {
+	emptyProfile,
+	screenRecords,
+	type OrgProfile,
+	type ScreeningOptions,
+	type ScreeningResult
+} from './applicability';
+
+export const SITE_REGIONS = ['England', 'Wales', 'Scotland', 'Northern Ireland'] as const;
+
+export type SiteRegion = (typeof SITE_REGIONS)[number];
+
+/**
+ * geo_extent codes for each region (e.g. "E+W" covers England and Wales)
+ */
+export const REGION_EXTENT_CODES: Record<SiteRegion, string> = {
+	England: 'E',
+	Wales: 'W',
+	Scotland: 'S',
+	'Northern Ireland': 'NI'
+};
+
+// Sites are stored under this scope when the user has no organisation claim
+export const LOCAL_SCOPE = 'local';
+
+export interface SiteProfile {
+	id: string;
+	org_id: string;
+	name: string;
+	region: SiteRegion;
+	address: string | null;
+	profile: OrgProfile;
+	created_at: string;
+	updated_at: string;
+}
+
+/**
+ * Storage scope for a user's sites — their org_id, or LOCAL_SCOPE when anonymous.
+ */
+export function siteScope(user: AuthUser | null): string {
+	return user?.org_id || LOCAL_SCOPE;
+}
+
+export function createSite(orgId: string, name: string, region: SiteRegion): SiteProfile {
+	const now = new Date().toISOString();
+	return {
+		id: crypto.randomUUID(),
+		org_id: orgId,
+		name: name.trim(),
+		region,
+		address: null,
+		profile: emptyProfile(),
+		created_at: now,
+		updated_at: now
+	};
+}
+
+/**
+ * Expand a geo_extent value into jurisdiction codes.
+ * Handles "UK", "GB" and "+"-joined codes such as "E+W" or "E+W+S+NI".
+ */
+export function parseExtentCodes(geoExtent: string | null): string[] {
+	if (!geoExtent) return [];
+	const codes = new Set<string>();
+
+	for (const part of geoExtent.toUpperCase().replace(/\s+/g, '').split('+')) {
+		if (part === 'UK') {
+			['E', 'W', 'S', 'NI'].forEach((c) => codes.add(c));
+		} else if (part === 'GB') {
+			['E', 'W', 'S'].forEach((c) => codes.add(c));
+		} else if (part) {
+			codes.add(part);
+		}
+	}
+	return Array.from(codes);
+}
+
+/**
+ * Split a geo_region value ("England,Wales") into region names.
+ */
+export function parseRegions(geoRegion: string | null): string[] {
+	if (!geoRegion) return [];
+	return geoRegion
+		.split(/[,;]/)
+		.map((r) => r.trim())
+		.filter(Boolean);
+}
+
+/**
+ * True when a law extends to the given region.
+ * Laws with no extent data are kept so they can be reviewed manually.
+ */
+export function coversRegion(record: UkLrtRecord, region: SiteRegion): boolean {
+	const codes = parseExtentCodes(record.geo_extent);
+	const regions = parseRegions(record.geo_region);
+	if (codes.length === 0 && regions.length === 0) return true;
+
+	return (
+		codes.includes(REGION_EXTENT_CODES[region]) ||
+		regions.some((r) => r.toLowerCase() === region.toLowerCase())
+	);
+}
+
+/**
+ * Compute a site's applicable-law register.
+ */
+export function screenSite(
+	records: UkLrtRecord[],
+	site: SiteProfile,
+	options: ScreeningOptions = {}
+): ScreeningResult[] {
+	const inScope = records.filter((record) => coversRegion(record, site.region));
+	return screenRecords(inScope, site.profile, options);
+}
@@ -0,0 +1,157 @@
+/**
+ * Tests for the offline LAT full-text index
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformLatRecord, type LatRecord } from '$lib/electric/lat-schema';
+import {
+	tokenize,
+	parseQuery,
+	buildSegment,
+	searchSegments,
+	highlightSnippet,
+	facetValues,
+	latestUpdatedAt
+} from './lat-index';
+import { stem } from './stemmer';
+
+function row(lawName: string, overrides: Record<string, unknown>): LatRecord {
+	return transformLatRecord({ law_name: lawName, depth: 0, ...overrides });
+}
+
+const mhsw = buildSegment('UK_uksi_1999_3242', [
+	row('UK_uksi_1999_3242', {
+		section_id: 'UK_uksi_1999_3242:art.3(1)',
+		section_type: 'sub_article',
+		provision: '3',
+		paragraph: '1',
+		text: 'Every employer shall make a suitable and sufficient assessment of the risks to the health and safety of his employees',
+		updated_at: '2024-01-02T00:00:00Z'
+	}),
+	row('UK_uksi_1999_3242', {
+		section_id: 'UK_uksi_1999_3242:art.5',
+		section_type: 'article',
+		provision: '5',
+		text: 'Every employer shall make and give effect to such arrangements as are appropriate',
+		extent_code: 'E+W',
+		updated_at: '2024-03-01T00:00:00Z'
+	}),
+	row('UK_uksi_1999_3242', { section_id: 'UK_uksi_1999_3242:empty', text: '' })
+]);
+
+const hswa = buildSegment('UK_ukpga_1974_37', [
+	row('UK_ukpga_1974_37', {
+		section_id: 'UK_ukpga_1974_37:s.2(1)',
+		section_type: 'sub_section',
+		provision: '2',
+		paragraph: '1',
+		text: 'It shall be the duty of every employer to ensure the health, safety and welfare at work of all his employees',
+		extent_code: 'E+W+S'
+	})
+]);
+
+describe('tokenize', () => {
+	it('stems words and keeps positions across stopwords', () => {
+		expect(tokenize('Duty of the Employers')).toEqual([
+			{ term: 'duti', position: 0 },
+			{ term: 'employ', position: 3 }
+		]);
+	});
+});
+
+describe('parseQuery', () => {
+	it('separates terms, phrases and exclusions', () => {
+		const parsed = parseQuery('"risk assessment" employers -welfare');
+		expect(parsed.terms).toEqual(['employ']);
+		expect(parsed.phrases).toEqual([
+			[
+				{ term: 'risk', position: 0 },
+				{ term: stem('assessment'), position: 1 }
+			]
+		]);
+		expect(parsed.excluded).toEqual(['welfar']);
+	});
+
+	it('treats a one-word phrase as a term', () => {
+		expect(parseQuery('"employer"').terms).toEqual(['employ']);
+	});
+});
+
+describe('buildSegment', () => {
+	it('indexes non-empty sections with citations', () => {
+		expect(mhsw.sections.map((s) => s.citation)).toEqual(['s.3(1)', 'art.5']);
+		expect(mhsw.source_updated_at).toBe('2024-03-01T00:00:00Z');
+		expect(mhsw.postings['employ']).toHaveLength(2);
+	});
+
+	it('finds the latest LAT update', () => {
+		expect(latestUpdatedAt([])).toBeNull();
+	});
+});
+
+describe('searchSegments', () => {
+	const segments = [mhsw, hswa];
+
+	it('matches stemmed terms across laws', () => {
+		const result = searchSegments(segments, parseQuery('employers'));
+		expect(result.total).toBe(3);
+	});
+
+	it('requires every term', () => {
+		const result = searchSegments(segments, parseQuery('employer welfare'));
+		expect(result.hits.map((h) => h.section.section_id)).toEqual(['UK_ukpga_1974_37:s.2(1)']);
+	});
+
+	it('matches phrases only when words are adjacent', () => {
+		expect(searchSegments(segments, parseQuery('"sufficient assessment"')).total).toBe(1);
+		expect(searchSegments(segments, parseQuery('"assessment sufficient"')).total).toBe(0);
+		// Stopwords in the query keep their gap
+		expect(searchSegments(segments, parseQuery('"duty of every employer"')).total).toBe(1);
+	});
+
+	it('applies exclusions', () => {
+		expect(searchSegments(segments, parseQuery('employer -welfare')).total).toBe(2);
+	});
+
+	it('filters by section type, extent and law', () => {
+		const query = parseQuery('employer');
+		expect(searchSegments(segments, query, { sectionTypes: ['article'] }).total).toBe(1);
+		expect(searchSegments(segments, query, { extentCodes: ['E+W+S'] }).total).toBe(1);
+		expect(searchSegments(segments, query, { lawNames: ['UK_uksi_1999_3242'] }).total).toBe(2);
+	});
+
+	it('ranks rarer terms higher and respects the limit', () => {
+		const result = searchSegments(segments, parseQuery('employer'), {}, 1);
+		expect(result.hits).toHaveLength(1);
+		expect(result.total).toBe(3);
+	});
+
+	it('returns nothing for an empty query', () => {
+		expect(searchSegments(segments, parseQuery('  -employer ')).total).toBe(0);
+	});
+});
+
+describe('highlightSnippet', () => {
+	it('marks matching words', () => {
+		const parts = highlightSnippet('Every employer shall assess', ['employ']);
+		expect(parts).toEqual([
+			{ text: 'Every ', match: false },
+			{ text: 'employer', match: true },
+			{ text: ' shall assess', match: false }
+		]);
+	});
+
+	it('trims long text around the first match', () => {
+		const text = `${'lorem '.repeat(100)}employer ${'ipsum '.repeat(100)}`;
+		const parts = highlightSnippet(text, ['employ'], 60);
+		expect(parts[0].text).toBe('…');
+		expect(parts.some((p) => p.match)).toBe(true);
+		expect(parts[parts.length - 1].text).toBe('…');
+	});
+});
+
+describe('facetValues', () => {
+	it('collects distinct values', () => {
+		expect(facetValues([mhsw, hswa], 'extent_code')).toEqual(['E+W', 'E+W+S']);
+	});
+});
@@ -0,0 +1,334 @@
+/**
+ * Offline full-text index over LAT provision text
+ *
+ * Each synced law becomes one segment: its sections plus a positional inverted
+ * index (stemmed term → section → token positions). Segments are persisted to
+ * IndexedDB independently so laws can be added, refreshed or dropped without
+ * rebuilding the whole index, and searched with no network connection.
+ */
+
+import type { LatRecord } from '$lib/electric/lat-schema';
+import { formatCitation } from '$lib/lat/text';
+import { stem } from './stemmer';
+
+export interface IndexedSection {
+	section_id: string;
+	law_name: string;
+	section_type: string;
+	extent_code: string | null;
+	citation: string;
+	text: string;
+}
+
+/** [section index within the segment, token positions] */
+export type Posting = [number, number[]];
+
+export interface LawSegment {
+	law_name: string;
+	indexed_at: string;
+	/** Latest LAT updated_at seen when indexing — used to skip unchanged laws */
+	source_updated_at: string | null;
+	sections: IndexedSection[];
+	postings: Record<string, Posting[]>;
+}
+
+export interface Token {
+	term: string;
+	position: number;
+}
+
+export interface ParsedQuery {
+	terms: string[];
+	/** Each phrase is a list of tokens whose positions keep stopword gaps */
+	phrases: Token[][];
+	excluded: string[];
+}
+
+export interface SearchFilters {
+	sectionTypes?: string[];
+	extentCodes?: string[];
+	lawNames?: string[];
+}
+
+export interface SearchHit {
+	section: IndexedSection;
+	score: number;
+}
+
+export interface SearchResult {
+	hits: SearchHit[];
+	total: number;
+}
+
+const STOPWORDS = new Set([
+	'a',
+	'an',
+	'and',
+	'are',
+	'as',
+	'at',
+	'be',
+	'by',
+	'for',
+	'from',
+	'in',
+	'is',
+	'it',
+	'of',
+	'on',
+	'or',
+	'that',
+	'the',
+	'this',
+	'to',
+	'was',
+	'which',
+	'with'
+]);
+
+const WORD_PATTERN = /[a-z0-9]+/g;
+
+/**
+ * Split text into stemmed terms. Stopwords are dropped but still advance the
+ * position counter, so phrase queries line up with the original wording.
+ */
+export function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	let position = 0;
+	for (const match of text.toLowerCase().matchAll(WORD_PATTERN)) {
+		const word = match[0];
+		if (!STOPWORDS.has(word)) tokens.push({ term: stem(word), position });
+		position++;
+	}
+	return tokens;
+}
+
+/**
+ * Parse a query string: "quoted phrases", -excluded words and plain terms.
+ * All terms and phrases must match (AND).
+ */
+export function parseQuery(query: string): ParsedQuery {
+	const parsed: ParsedQuery = { terms: [], phrases: [], excluded: [] };
+	const pattern = /(-?)"([^"]*)"|(-?)(\S+)/g;
+
+	for (const match of query.matchAll(pattern)) {
+		const [, phraseNeg, phrase, wordNeg, word] = match;
+		if (phrase !== undefined) {
+			const tokens = tokenize(phrase);
+			if (phraseNeg) parsed.excluded.push(...tokens.map((t) => t.term));
+			else if (tokens.length === 1) parsed.terms.push(tokens[0].term);
+			else if (tokens.length > 1) parsed.phrases.push(tokens);
+		} else if (word !== undefined) {
+			const terms = tokenize(word).map((t) => t.term);
+			if (wordNeg) parsed.excluded.push(...terms);
+			else parsed.terms.push(...terms);
+		}
+	}
+
+	parsed.terms = Array.from(new Set(parsed.terms));
+	return parsed;
+}
+
+export function isEmptyQuery(query: ParsedQuery): boolean {
+	return query.terms.length === 0 && query.phrases.length === 0;
+}
+
+/**
+ * Most recent LAT updated_at across a law's rows
+ */
+export function latestUpdatedAt(rows: LatRecord[]): string | null {
+	let latest: string | null = null;
+	for (const row of rows) {
+		if (row.updated_at && (!latest || row.updated_at > latest)) latest = row.updated_at;
+	}
+	return latest;
+}
+
+/**
+ * Build the index segment for one law's LAT rows
+ */
+export function buildSegment(lawName: string, rows: LatRecord[]): LawSegment {
+	const sections: IndexedSection[] = [];
+	const postings: Record<string, Posting[]> = {};
+
+	for (const row of rows) {
+		if (!row.text) continue;
+
+		const index = sections.length;
+		sections.push({
+			section_id: row.section_id,
+			law_name: lawName,
+			section_type: row.section_type,
+			extent_code: row.extent_code,
+			citation: formatCitation(row),
+			text: row.text
+		});
+
+		const positions = new Map<string, number[]>();
+		for (const token of tokenize(row.text)) {
+			const list = positions.get(token.term) ?? [];
+			list.push(token.position);
+			positions.set(token.term, list);
+		}
+		for (const [term, list] of positions) {
+			(postings[term] ??= []).push([index, list]);
+		}
+	}
+
+	return {
+		law_name: lawName,
+		indexed_at: new Date().toISOString(),
+		source_updated_at: latestUpdatedAt(rows),
+		sections,
+		postings
+	};
+}
+
+function matchesFilters(section: IndexedSection, filters: SearchFilters): boolean {
+	if (filters.sectionTypes?.length && !filters.sectionTypes.includes(section.section_type)) {
+		return false;
+	}
+	if (filters.extentCodes?.length && !filters.extentCodes.includes(section.extent_code ?? '')) {
+		return false;
+	}
+	return true;
+}
+
+function hasPhrase(phrase: Token[], positionsByTerm: Map<string, number[]>): boolean {
+	const [first, ...rest] = phrase;
+	const starts = positionsByTerm.get(first.term) ?? [];
+	return starts.some((start) =>
+		rest.every((token) =>
+			(positionsByTerm.get(token.term) ?? []).includes(start + token.position - first.position)
+		)
+	);
+}
+
+/**
+ * Search the given segments. Scores are summed tf-idf over query terms
+ * (phrase words included), with idf computed across all segments searched.
+ */
+export function searchSegments(
+	segments: LawSegment[],
+	query: ParsedQuery,
+	filters: SearchFilters = {},
+	limit = 50
+): SearchResult {
+	if (isEmptyQuery(query)) return { hits: [], total: 0 };
+
+	const scope = filters.lawNames?.length
+		? segments.filter((s) => filters.lawNames!.includes(s.law_name))
+		: segments;
+
+	const required = Array.from(
+		new Set([...query.terms, ...query.phrases.flatMap((p) => p.map((t) => t.term))])
+	);
+
+	const totalSections = scope.reduce((n, s) => n + s.sections.length, 0);
+	const idf = new Map<string, number>();
+	for (const term of required) {
+		const df = scope.reduce((n, s) => n + (s.postings[term]?.length ?? 0), 0);
+		idf.set(term, Math.log(1 + totalSections / Math.max(df, 1)));
+	}
+
+	const hits: SearchHit[] = [];
+	for (const segment of scope) {
+		// Intersect postings for every required term within this law
+		let candidates: Map<number, Map<string, number[]>> | null = null;
+		for (const term of required) {
+			const list = segment.postings[term];
+			if (!list) {
+				candidates = new Map();
+				break;
+			}
+			const next = new Map<number, Map<string, number[]>>();
+			for (const [index, positions] of list) {
+				if (candidates && !candidates.has(index)) continue;
+				const byTerm: Map<string, number[]> = candidates?.get(index) ?? new Map();
+				byTerm.set(term, positions);
+				next.set(index, byTerm);
+			}
+			candidates = next;
+		}
+		if (!candidates) continue;
+
+		const excluded = new Set<number>();
+		for (const term of query.excluded) {
+			for (const [index] of segment.postings[term] ?? []) excluded.add(index);
+		}
+
+		for (const [index, positionsByTerm] of candidates) {
+			if (excluded.has(index)) continue;
+			const section = segment.sections[index];
+			if (!matchesFilters(section, filters)) continue;
+			if (!query.phrases.every((phrase) => hasPhrase(phrase, positionsByTerm))) continue;
+
+			let score = 0;
+			for (const [term, positions] of positionsByTerm) {
+				score += (1 + Math.log(positions.length)) * (idf.get(term) ?? 0);
+			}
+			hits.push({ section, score });
+		}
+	}
+
+	hits.sort(
+		(a, b) =>
+			b.score - a.score ||
+			a.section.law_name.localeCompare(b.section.law_name) ||
+			a.section.section_id.localeCompare(b.section.section_id)
+	);
+
+	return { hits: hits.slice(0, limit), total: hits.length };
+}
+
+/**
+ * Excerpt of a section around the first matching term, split into plain and
+ * highlighted parts for rendering.
+ */
+export function highlightSnippet(
+	text: string,
+	terms: string[],
+	maxLength = 240
+): Array<{ text: string; match: boolean }> {
+	const wanted = new Set(terms);
+	const words = Array.from(text.matchAll(/[A-Za-z0-9]+/g));
+	const first = words.find((w) => wanted.has(stem(w[0])));
+
+	let start = 0;
+	if (first && first.index! > maxLength / 3) {
+		start = text.lastIndexOf(' ', first.index! - maxLength / 3) + 1;
+	}
+	const end = Math.min(text.length, start + maxLength);
+	const excerpt = text.slice(start, end);
+
+	const parts: Array<{ text: string; match: boolean }> = [];
+	let last = 0;
+	for (const word of excerpt.matchAll(/[A-Za-z0-9]+/g)) {
+		if (!wanted.has(stem(word[0]))) continue;
+		if (word.index! > last) parts.push({ text: excerpt.slice(last, word.index), match: false });
+		parts.push({ text: word[0], match: true });
+		last = word.index! + word[0].length;
+	}
+	if (last < excerpt.length) parts.push({ text: excerpt.slice(last), match: false });
+
+	if (start > 0) parts.unshift({ text: '…', match: false });
+	if (end < text.length) parts.push({ text: '…', match: false });
+	return parts;
+}
+
+/**
+ * Distinct values across indexed sections, for filter pickers
+ */
+export function facetValues(
+	segments: LawSegment[],
+	field: 'section_type' | 'extent_code'
+): string[] {
+	const values = new Set<string>();
+	for (const segment of segments) {
+		for (const section of segment.sections) {
+			const value = section[field];
+			if (value) values.add(value);
+		}
+	}
+	return Array.from(values).sort();
+}
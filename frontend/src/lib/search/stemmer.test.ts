@@ -0,0 +1,38 @@
+/**
+ * Tests for the Porter stemmer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { stem } from './stemmer';
+
+describe('stem', () => {
+	it.each([
+		['caresses', 'caress'],
+		['ponies', 'poni'],
+		['cats', 'cat'],
+		['agreed', 'agre'],
+		['hopping', 'hop'],
+		['filing', 'file'],
+		['happy', 'happi'],
+		['relational', 'relat'],
+		['conditional', 'condit'],
+		['hopefulness', 'hope'],
+		['adjustment', 'adjust'],
+		['adoption', 'adopt'],
+		['controlling', 'control'],
+		['generalizations', 'gener']
+	])('%s → %s', (word, expected) => {
+		expect(stem(word)).toBe(expected);
+	});
+
+	it('conflates inflections of legal vocabulary', () => {
+		expect(stem('employers')).toBe(stem('employer'));
+		expect(stem('assessments')).toBe(stem('assessment'));
+		expect(stem('provisions')).toBe(stem('provision'));
+	});
+
+	it('leaves short words and numbers alone', () => {
+		expect(stem('is')).toBe('is');
+		expect(stem('1974')).toBe('1974');
+	});
+});
@@ -0,0 +1,186 @@
+/**
+ * Porter stemmer (M.F. Porter, 1980)
+ *
+ * Reduces English words to a common stem so "employers", "employer" and
+ * "employed" all match "employ". Applied to both indexed text and queries.
+ */
+
+const STEP2_SUFFIXES: Array<[string, string]> = [
+	['ational', 'ate'],
+	['tional', 'tion'],
+	['enci', 'ence'],
+	['anci', 'ance'],
+	['izer', 'ize'],
+	['bli', 'ble'],
+	['alli', 'al'],
+	['entli', 'ent'],
+	['eli', 'e'],
+	['ousli', 'ous'],
+	['ization', 'ize'],
+	['ation', 'ate'],
+	['ator', 'ate'],
+	['alism', 'al'],
+	['iveness', 'ive'],
+	['fulness', 'ful'],
+	['ousness', 'ous'],
+	['aliti', 'al'],
+	['iviti', 'ive'],
+	['biliti', 'ble'],
+	['logi', 'log']
+];
+
+const STEP3_SUFFIXES: Array<[string, string]> = [
+	['icate', 'ic'],
+	['ative', ''],
+	['alize', 'al'],
+	['iciti', 'ic'],
+	['ical', 'ic'],
+	['ful', ''],
+	['ness', '']
+];
+
+const STEP4_SUFFIXES = [
+	'al',
+	'ance',
+	'ence',
+	'er',
+	'ic',
+	'able',
+	'ible',
+	'ant',
+	'ement',
+	'ment',
+	'ent',
+	'ou',
+	'ism',
+	'ate',
+	'iti',
+	'ous',
+	'ive',
+	'ize'
+];
+
+function isConsonant(word: string, i: number): boolean {
+	const c = word[i];
+	if ('aeiou'.includes(c)) return false;
+	if (c === 'y') return i === 0 || !isConsonant(word, i - 1);
+	return true;
+}
+
+/** Number of VC sequences in the stem ([C](VC){m}[V]) */
+function measure(stem: string): number {
+	let m = 0;
+	let i = 0;
+	const n = stem.length;
+	while (i < n && isConsonant(stem, i)) i++;
+	while (i < n) {
+		while (i < n && !isConsonant(stem, i)) i++;
+		if (i >= n) break;
+		while (i < n && isConsonant(stem, i)) i++;
+		m++;
+	}
+	return m;
+}
+
+function hasVowel(stem: string): boolean {
+	for (let i = 0; i < stem.length; i++) {
+		if (!isConsonant(stem, i)) return true;
+	}
+	return false;
+}
+
+function endsDoubleConsonant(word: string): boolean {
+	const n = word.length;
+	return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+/** consonant-vowel-consonant ending, where the last consonant is not w, x or y */
+function endsCvc(word: string): boolean {
+	const n = word.length;
+	if (n < 3) return false;
+	return (
+		isConsonant(word, n - 3) &&
+		!isConsonant(word, n - 2) &&
+		isConsonant(word, n - 1) &&
+		!'wxy'.includes(word[n - 1])
+	);
+}
+
+function replaceSuffix(
+	word: string,
+	rules: Array<[string, string]>,
+	minMeasure: number
+): string | null {
+	for (const [suffix, replacement] of rules) {
+		if (word.endsWith(suffix)) {
+			const stem = word.slice(0, -suffix.length);
+			return measure(stem) > minMeasure ? stem + replacement : word;
+		}
+	}
+	return null;
+}
+
+export function stem(input: string): string {
+	let word = input.toLowerCase();
+	if (word.length <= 2 || !/^[a-z]+$/.test(word)) return word;
+
+	// Step 1a
+	if (word.endsWith('sses')) word = word.slice(0, -2);
+	else if (word.endsWith('ies')) word = word.slice(0, -2);
+	else if (word.endsWith('ss')) {
+		// unchanged
+	} else if (word.endsWith('s')) word = word.slice(0, -1);
+
+	// Step 1b
+	let step1bExtra = false;
+	if (word.endsWith('eed')) {
+		if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+	} else if (word.endsWith('ed') && hasVowel(word.slice(0, -2))) {
+		word = word.slice(0, -2);
+		step1bExtra = true;
+	} else if (word.endsWith('ing') && hasVowel(word.slice(0, -3))) {
+		word = word.slice(0, -3);
+		step1bExtra = true;
+	}
+	if (step1bExtra) {
+		if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) word += 'e';
+		else if (endsDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1]))
+			word = word.slice(0, -1);
+		else if (measure(word) === 1 && endsCvc(word)) word += 'e';
+	}
+
+	// Step 1c
+	if (word.endsWith('y') && hasVowel(word.slice(0, -1))) word = word.slice(0, -1) + 'i';
+
+	// Step 2 and 3
+	word = replaceSuffix(word, STEP2_SUFFIXES, 0) ?? word;
+	word = replaceSuffix(word, STEP3_SUFFIXES, 0) ?? word;
+
+	// Step 4
+	if (word.endsWith('ion')) {
+		const stem = word.slice(0, -3);
+		if (measure(stem) > 1 && (stem.endsWith('s') || stem.endsWith('t'))) word = stem;
+	} else {
+		for (const suffix of STEP4_SUFFIXES) {
+			if (word.endsWith(suffix)) {
+				const stem = word.slice(0, -suffix.length);
+				if (measure(stem) > 1) word = stem;
+				break;
+			}
+		}
+	}
+
+	// Step 5a
+	if (word.endsWith('e')) {
+		const stem = word.slice(0, -1);
+		const m = measure(stem);
+		if (m > 1 || (m === 1 && !endsCvc(stem))) word = stem;
+	}
+
+	// Step 5b
+	if (measure(word) > 1 && endsDoubleConsonant(word) && word.endsWith('l')) {
+		word = word.slice(0, -1);
+	}
+
+	return word;
+}
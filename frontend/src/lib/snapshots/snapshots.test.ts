@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+	chronological,
+	changedSnapshotFields,
+	compareSnapshots,
+	createSnapshot,
+	snapshotFields
+} from './snapshots';
+
+function law(id: string, overrides: Record<string, unknown> = {}): Record<string, unknown> {
+	return {
+		id,
+		name: `UK_uksi_2020_${id}`,
+		title_en: `Regulations ${id}`,
+		type_code: 'uksi',
+		year: 2020,
+		live: '✔ In force',
+		latest_amend_date: null,
+		amended_by: null,
+		duties: { entries: [] },
+		...overrides
+	};
+}
+
+describe('snapshotFields', () => {
+	it('keeps only snapshot fields and normalises relationship lists', () => {
+		const frozen = snapshotFields(law('1', { amended_by: '{UK_b,UK_a}', title_en: '' }));
+		expect(frozen.id).toBe('1');
+		expect(frozen.amended_by).toEqual(['UK_a', 'UK_b']);
+		expect(frozen.title_en).toBeNull();
+		expect('duties' in frozen).toBe(false);
+	});
+});
+
+describe('createSnapshot', () => {
+	it('freezes records sorted by name with count and filter', () => {
+		const snapshot = createSnapshot('org-1', ' Q1 ', [law('2'), law('1')], "family = 'FIRE'");
+		expect(snapshot.name).toBe('Q1');
+		expect(snapshot.org_id).toBe('org-1');
+		expect(snapshot.where_clause).toBe("family = 'FIRE'");
+		expect(snapshot.record_count).toBe(2);
+		expect(snapshot.records?.map((r) => r.id)).toEqual(['1', '2']);
+		expect(snapshot.server_id).toBeNull();
+		expect(snapshot.description).toBeNull();
+	});
+});
+
+describe('changedSnapshotFields', () => {
+	it('returns no fields for identical records', () => {
+		const a = snapshotFields(law('1', { amended_by: ['UK_x'] }));
+		expect(changedSnapshotFields(a, snapshotFields(law('1', { amended_by: '{UK_x}' })))).toEqual(
+			[]
+		);
+	});
+
+	it('lists changed fields including array additions', () => {
+		const a = snapshotFields(law('1', { amended_by: ['UK_x'] }));
+		const b = snapshotFields(
+			law('1', {
+				amended_by: ['UK_x', 'UK_y'],
+				latest_amend_date: '2024-05-01',
+				live: '❌ Revoked / Repealed / Abolished'
+			})
+		);
+		expect(changedSnapshotFields(a, b)).toEqual(['live', 'latest_amend_date', 'amended_by']);
+	});
+});
+
+describe('compareSnapshots', () => {
+	it('lists added, removed and changed laws', () => {
+		const from = createSnapshot('org', 'A', [law('1'), law('2'), law('3')], '');
+		const to = createSnapshot(
+			'org',
+			'B',
+			[law('1'), law('3', { latest_amend_date: '2025-01-01' }), law('4')],
+			''
+		);
+
+		const result = compareSnapshots({ records: from.records ?? [] }, { records: to.records ?? [] });
+		expect(result.added.map((r) => r.id)).toEqual(['4']);
+		expect(result.removed.map((r) => r.id)).toEqual(['2']);
+		expect(result.changed).toHaveLength(1);
+		expect(result.changed[0]).toMatchObject({
+			id: '3',
+			title_en: 'Regulations 3',
+			fields: ['latest_amend_date']
+		});
+		expect(result.changed[0].before.latest_amend_date).toBeNull();
+		expect(result.unchangedCount).toBe(1);
+	});
+
+	it('reports nothing for identical snapshots', () => {
+		const records = createSnapshot('org', 'A', [law('1')], '').records ?? [];
+		const result = compareSnapshots({ records }, { records });
+		expect(result).toEqual({ added: [], removed: [], changed: [], unchangedCount: 1 });
+	});
+});
+
+describe('chronological', () => {
+	it('orders two snapshots oldest first', () => {
+		const older = { taken_at: '2025-01-01T00:00:00Z' };
+		const newer = { taken_at: '2026-01-01T00:00:00Z' };
+		expect(chronological(newer, older)).toEqual([older, newer]);
+		expect(chronological(older, newer)).toEqual([older, newer]);
+	});
+});
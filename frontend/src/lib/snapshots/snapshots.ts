@@ -0,0 +1,179 @@
+/**
+ * Register snapshots — point-in-time copies of a filtered law set
+ *
+ * A snapshot freezes the key fields of every law matched by a browse filter
+ * under a name and date. Two snapshots are compared by record id: laws only in
+ * the newer one were added, laws only in the older one were removed, and laws
+ * in both whose key fields differ (per jsondiffpatch, as used by RecordDiff)
+ * were changed.
+ */
+
+import { create } from 'jsondiffpatch';
+import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+import { toNameList } from '$lib/lineage/lineage';
+
+/** Fields frozen per law. Relationship lists are stored as sorted name lists. */
+export const SNAPSHOT_FIELDS = [
+	'id',
+	'name',
+	'title_en',
+	'type_code',
+	'year',
+	'number',
+	'family',
+	'family_ii',
+	'live',
+	'live_description',
+	'geo_extent',
+	'md_coming_into_force_date',
+	'latest_amend_date',
+	'latest_rescind_date',
+	'amended_by',
+	'rescinded_by',
+	'lat_count'
+] as const;
+
+export type SnapshotField = (typeof SNAPSHOT_FIELDS)[number];
+
+const LIST_FIELDS = new Set<string>(['amended_by', 'rescinded_by']);
+
+export type SnapshotRecord = Partial<Record<SnapshotField, string | number | string[] | null>> & {
+	id: string;
+	name: string;
+};
+
+export interface RegisterSnapshotSummary {
+	id: string;
+	name: string;
+	description: string | null;
+	where_clause: string;
+	taken_at: string;
+	record_count: number;
+}
+
+export interface RegisterSnapshot extends RegisterSnapshotSummary {
+	org_id: string;
+	/** null for a backend snapshot whose records haven't been downloaded yet */
+	records: SnapshotRecord[] | null;
+	/** Backend id once saved to the server (null while local only) */
+	server_id: string | null;
+}
+
+export interface ChangedLaw {
+	id: string;
+	name: string;
+	title_en: string;
+	before: SnapshotRecord;
+	after: SnapshotRecord;
+	fields: SnapshotField[];
+}
+
+export interface SnapshotComparison {
+	added: SnapshotRecord[];
+	removed: SnapshotRecord[];
+	changed: ChangedLaw[];
+	unchangedCount: number;
+}
+
+const differ = create({
+	// Relationship lists are sorted name lists — compare by value
+	objectHash: (obj) => JSON.stringify(obj)
+});
+
+function normalise(field: string, value: unknown): string | number | string[] | null {
+	if (value === undefined || value === null || value === '') return null;
+	if (LIST_FIELDS.has(field)) return toNameList(value).sort();
+	if (typeof value === 'number') return value;
+	return String(value);
+}
+
+/**
+ * Capture the snapshot fields of a record
+ */
+export function snapshotFields(record: UkLrtRecord | Record<string, unknown>): SnapshotRecord {
+	const source = record as Record<string, unknown>;
+	const frozen: Partial<Record<SnapshotField, string | number | string[] | null>> = {};
+	for (const field of SNAPSHOT_FIELDS) {
+		frozen[field] = normalise(field, source[field]);
+	}
+	return { ...frozen, id: String(source.id ?? ''), name: String(source.name ?? '') };
+}
+
+export function createSnapshot(
+	orgId: string,
+	name: string,
+	records: Array<UkLrtRecord | Record<string, unknown>>,
+	whereClause: string,
+	description: string | null = null
+): RegisterSnapshot {
+	const frozen = records.map(snapshotFields).sort((a, b) => a.name.localeCompare(b.name));
+	return {
+		id: crypto.randomUUID(),
+		org_id: orgId,
+		name: name.trim(),
+		description: description?.trim() || null,
+		where_clause: whereClause,
+		taken_at: new Date().toISOString(),
+		record_count: frozen.length,
+		records: frozen,
+		server_id: null
+	};
+}
+
+/**
+ * Fields that differ between two frozen copies of a law
+ */
+export function changedSnapshotFields(
+	before: SnapshotRecord,
+	after: SnapshotRecord
+): SnapshotField[] {
+	const delta = differ.diff(before, after) as Record<string, unknown> | undefined;
+	if (!delta) return [];
+	return SNAPSHOT_FIELDS.filter((field) => field in delta);
+}
+
+/**
+ * Compare two snapshots. `from` is the baseline, `to` the later register.
+ */
+export function compareSnapshots(
+	from: { records: SnapshotRecord[] },
+	to: { records: SnapshotRecord[] }
+): SnapshotComparison {
+	const before = new Map(from.records.map((r) => [r.id, r]));
+	const after = new Map(to.records.map((r) => [r.id, r]));
+
+	const added = to.records.filter((r) => !before.has(r.id));
+	const removed = from.records.filter((r) => !after.has(r.id));
+	const changed: ChangedLaw[] = [];
+	let unchangedCount = 0;
+
+	for (const record of to.records) {
+		const previous = before.get(record.id);
+		if (!previous) continue;
+		const fields = changedSnapshotFields(previous, record);
+		if (fields.length === 0) {
+			unchangedCount++;
+			continue;
+		}
+		changed.push({
+			id: record.id,
+			name: record.name,
+			title_en: String(record.title_en ?? previous.title_en ?? ''),
+			before: previous,
+			after: record,
+			fields
+		});
+	}
+
+	return { added, removed, changed, unchangedCount };
+}
+
+/**
+ * Order two snapshots oldest first so comparisons always read forwards in time
+ */
+export function chronological<T extends Pick<RegisterSnapshotSummary, 'taken_at'>>(
+	a: T,
+	b: T
+): [T, T] {
+	return a.taken_at <= b.taken_at ? [a, b] : [b, a];
+}
@@ -0,0 +1,105 @@
+/**
+ * Svelte store for auto-confirm rules
+ * Rules and the match log live in IndexedDB (auto-confirm-storage.ts).
+ * Parse flows call decide() with each ParseOneResult; it evaluates the rules,
+ * logs active and dry-run matches, and says whether to confirm.
+ */
+
+import { writable, get } from 'svelte/store';
+import {
+	appendLog,
+	clearLog,
+	deleteRule,
+	loadLog,
+	loadRules,
+	saveRule
+} from '$lib/db/auto-confirm-storage';
+import {
+	decideAutoConfirm,
+	logEntriesFor,
+	type AutoConfirmDecision,
+	type AutoConfirmLogEntry,
+	type AutoConfirmRule
+} from '$lib/auto-confirm/rules';
+import type { ParseOneResult } from '$lib/api/scraper';
+
+interface AutoConfirmState {
+	rules: AutoConfirmRule[];
+	log: AutoConfirmLogEntry[];
+	loaded: boolean;
+	error: string | null;
+}
+
+function createAutoConfirmStore() {
+	const store = writable<AutoConfirmState>({ rules: [], log: [], loaded: false, error: null });
+	const { subscribe, update } = store;
+	let loading: Promise<void> | null = null;
+
+	function load(): Promise<void> {
+		if (loading) return loading;
+		loading = (async () => {
+			try {
+				const [rules, log] = await Promise.all([loadRules(), loadLog()]);
+				update((s) => ({ ...s, rules, log, loaded: true }));
+			} catch (e) {
+				// Let the next call retry
+				loading = null;
+				throw e;
+			}
+		})();
+		return loading;
+	}
+
+	return {
+		subscribe,
+		load,
+
+		/**
+		 * Create or update a rule.
+		 */
+		save: async (rule: AutoConfirmRule) => {
+			const saved = { ...rule, updated_at: new Date().toISOString() };
+			await saveRule(saved);
+			update((s) => ({
+				...s,
+				rules: s.rules.some((r) => r.id === saved.id)
+					? s.rules.map((r) => (r.id === saved.id ? saved : r))
+					: [...s.rules, saved]
+			}));
+		},
+
+		remove: async (id: string) => {
+			await deleteRule(id);
+			update((s) => ({ ...s, rules: s.rules.filter((r) => r.id !== id) }));
+		},
+
+		/**
+		 * Evaluate the rules for a parsed record and log any matches.
+		 * Confirm the record when `matched` is set.
+		 */
+		decide: async (sessionId: string, result: ParseOneResult): Promise<AutoConfirmDecision> => {
+			await load();
+			const decision = decideAutoConfirm(get(store).rules, result);
+			const entries = logEntriesFor(decision, sessionId, result);
+			if (entries.length > 0) {
+				try {
+					const log = await appendLog(entries);
+					update((s) => ({ ...s, log }));
+				} catch (e) {
+					update((s) => ({
+						...s,
+						error: e instanceof Error ? e.message : 'Failed to save auto-confirm log'
+					}));
+				}
+			}
+			return decision;
+		},
+
+		clearLog: async () => {
+			await clearLog();
+			update((s) => ({ ...s, log: [] }));
+		}
+	};
+}
+
+export const autoConfirmStore = createAutoConfirmStore();
@@ -0,0 +1,119 @@
+/**
+ * Svelte store for the offline LAT search index
+ * Segments live in IndexedDB (search-storage.ts) and are mirrored here for querying
+ */
+
+import { writable, get } from 'svelte/store';
+import { browser } from '$app/environment';
+import type { LatRecord } from '$lib/electric/lat-schema';
+import { loadSegments, saveSegment, deleteSegment, clearSegments } from '$lib/db/search-storage';
+import {
+	buildSegment,
+	latestUpdatedAt,
+	parseQuery,
+	searchSegments,
+	type LawSegment,
+	type SearchFilters,
+	type SearchResult
+} from '$lib/search/lat-index';
+
+interface LatSearchState {
+	segments: LawSegment[];
+	loaded: boolean;
+	loading: boolean;
+	/** Law currently being synced/indexed */
+	indexing: string | null;
+	error: string | null;
+}
+
+function createLatSearchStore() {
+	const store = writable<LatSearchState>({
+		segments: [],
+		loaded: false,
+		loading: false,
+		indexing: null,
+		error: null
+	});
+	const { subscribe, update } = store;
+
+	async function load(force = false) {
+		const current = get(store);
+		if (!browser || (!force && (current.loaded || current.loading))) return;
+
+		update((s) => ({ ...s, loading: true, error: null }));
+		try {
+			const segments = await loadSegments();
+			update((s) => ({ ...s, segments, loaded: true, loading: false }));
+		} catch (e) {
+			update((s) => ({
+				...s,
+				loading: false,
+				error: e instanceof Error ? e.message : 'Failed to load search index'
+			}));
+		}
+	}
+
+	/**
+	 * Index (or re-index) a law from LAT rows already in memory.
+	 * Skipped when the stored segment was built from the same LAT revision.
+	 */
+	async function indexRows(lawName: string, rows: LatRecord[]): Promise<boolean> {
+		if (rows.length === 0) return false;
+		await load();
+
+		const existing = get(store).segments.find((s) => s.law_name === lawName);
+		if (existing && existing.source_updated_at === latestUpdatedAt(rows)) return false;
+
+		const segment = buildSegment(lawName, rows);
+		await saveSegment(segment);
+		update((s) => ({
+			...s,
+			segments: [...s.segments.filter((x) => x.law_name !== lawName), segment].sort((a, b) =>
+				a.law_name.localeCompare(b.law_name)
+			)
+		}));
+		return true;
+	}
+
+	return {
+		subscribe,
+		load,
+		indexRows,
+
+		/**
+		 * Sync a law's LAT rows from Electric and add them to the index
+		 */
+		indexLaw: async (lawName: string) => {
+			update((s) => ({ ...s, indexing: lawName, error: null }));
+			try {
+				const { getLatCollection } = await import('$lib/db/index.client');
+				const collection = await getLatCollection(lawName);
+				const rows = (await collection.toArrayWhenReady()) as unknown as LatRecord[];
+				if (rows.length === 0) throw new Error(`No LAT text found for ${lawName}`);
+				await indexRows(lawName, rows);
+				update((s) => ({ ...s, indexing: null }));
+			} catch (e) {
+				update((s) => ({
+					...s,
+					indexing: null,
+					error: e instanceof Error ? e.message : 'Failed to index law'
+				}));
+			}
+		},
+
+		remove: async (lawName: string) => {
+			await deleteSegment(lawName);
+			update((s) => ({ ...s, segments: s.segments.filter((x) => x.law_name !== lawName) }));
+		},
+
+		clear: async () => {
+			await clearSegments();
+			update((s) => ({ ...s, segments: [] }));
+		},
+
+		search: (query: string, filters: SearchFilters = {}, limit?: number): SearchResult =>
+			searchSegments(get(store).segments, parseQuery(query), filters, limit)
+	};
+}
+
+export const latSearchStore = createLatSearchStore();
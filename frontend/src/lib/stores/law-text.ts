@@ -0,0 +1,90 @@
+/**
+ * Reactive LAT text + annotations for a single law.
+ *
+ * Wraps getLatCollection() / getAnnotationCollection() the same way
+ * createUkLrtRecordsStore() wraps the LRT collection, so the public law page
+ * gets Electric-synced rows without the admin-only REST endpoints.
+ */
+
+import { readable, type Readable } from 'svelte/store';
+import { browser } from '$app/environment';
+import type { LatRecord } from '$lib/electric/lat-schema';
+import type { AnnotationRecord } from '$lib/electric/annotation-schema';
+import { sortLatRows } from '$lib/lat/text';
+
+export interface LawTextState {
+	/** LAT rows in document order */
+	rows: LatRecord[];
+	annotations: AnnotationRecord[];
+	loading: boolean;
+	error: string | null;
+}
+
+const REFRESH_DEBOUNCE_MS = 200;
+
+export function createLawTextStore(lawName: string): Readable<LawTextState> {
+	const initial: LawTextState = { rows: [], annotations: [], loading: true, error: null };
+
+	return readable<LawTextState>(initial, (set) => {
+		if (!browser || !lawName) return;
+
+		let stopped = false;
+		let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+		const unsubscribers: Array<() => void> = [];
+
+		(async () => {
+			try {
+				const { getLatCollection, getAnnotationCollection } = await import('$lib/db/index.client');
+
+				const refresh = () => {
+					if (refreshTimer) clearTimeout(refreshTimer);
+					refreshTimer = setTimeout(async () => {
+						// Re-resolve in case a collection was recreated after a shape reset
+						const [lat, annotations] = await Promise.all([
+							getLatCollection(lawName),
+							getAnnotationCollection(lawName)
+						]);
+						if (stopped) return;
+						set({
+							rows: sortLatRows(lat.toArray as unknown as LatRecord[]),
+							annotations: annotations.toArray as unknown as AnnotationRecord[],
+							loading: !lat.isReady() || !annotations.isReady(),
+							error: null
+						});
+					}, REFRESH_DEBOUNCE_MS);
+				};
+
+				const [lat, annotations] = await Promise.all([
+					getLatCollection(lawName),
+					getAnnotationCollection(lawName)
+				]);
+				if (stopped) return;
+
+				const latSub = lat.subscribeChanges(() => refresh());
+				const annotationSub = annotations.subscribeChanges(() => refresh());
+				unsubscribers.push(
+					() => latSub.unsubscribe(),
+					() => annotationSub.unsubscribe()
+				);
+
+				// Collections that are already loaded won't emit until the next change
+				refresh();
+				lat.onFirstReady(refresh);
+				annotations.onFirstReady(refresh);
+			} catch (e) {
+				console.error('[LawText] Failed to initialize:', e);
+				set({
+					...initial,
+					loading: false,
+					error: e instanceof Error ? e.message : 'Failed to load law text'
+				});
+			}
+		})();
+
+		return () => {
+			stopped = true;
+			if (refreshTimer) clearTimeout(refreshTimer);
+			unsubscribers.forEach((unsubscribe) => unsubscribe());
+		};
+	});
+}
@@ -0,0 +1,283 @@
+/**
+ * Svelte store that runs bulk parse queues in the background
+ * Each queue parses the records of one session group via parseOneStream,
+ * `concurrency` records at a time, and keeps going while the admin moves
+ * between pages. Queue state is saved to IndexedDB (parse-queue-storage.ts)
+ * after every change; on reload, records that were mid-parse are queued again.
+ */
+
+import { writable, get } from 'svelte/store';
+import { loadQueues, saveQueue, deleteQueue } from '$lib/db/parse-queue-storage';
+import { autoConfirmStore } from '$lib/stores/auto-confirm';
+import { defaultMerge } from '$lib/components/parse-review/merge';
+import {
+	confirmRecord,
+	parseOneStream,
+	type ParseOneResult,
+	type ScrapeRecord
+} from '$lib/api/scraper';
+import {
+	createQueue,
+	moveItem,
+	nextToStart,
+	queueId,
+	requeueInterrupted,
+	retryFailed,
+	setAutoConfirm,
+	setConcurrency,
+	setPaused,
+	startItem,
+	updateItem,
+	type ParseQueue,
+	type PriorityMove
+} from '$lib/parse-queue/queue';
+
+interface ParseQueueState {
+	queues: ParseQueue[];
+	loaded: boolean;
+	error: string | null;
+}
+
+function message(e: unknown, fallback: string): string {
+	return e instanceof Error ? e.message : fallback;
+}
+
+function createParseQueueStore() {
+	const store = writable<ParseQueueState>({ queues: [], loaded: false, error: null });
+	const { subscribe, update } = store;
+
+	/** Open SSE streams, keyed by "{queue id}/{record name}" */
+	const streams = new Map<string, () => void>();
+	let loading: Promise<void> | null = null;
+
+	function find(id: string): ParseQueue | undefined {
+		return get(store).queues.find((q) => q.id === id);
+	}
+
+	/**
+	 * Apply a change to a queue, publish it and persist it.
+	 * Returns null if the queue was removed meanwhile.
+	 */
+	function mutate(id: string, change: (queue: ParseQueue) => ParseQueue): ParseQueue | null {
+		const queue = find(id);
+		if (!queue) return null;
+		const next = change(queue);
+		update((s) => ({ ...s, queues: s.queues.map((q) => (q.id === id ? next : q)) }));
+		saveQueue(next).catch((e) => {
+			update((s) => ({ ...s, error: message(e, 'Failed to save parse queue') }));
+		});
+		return next;
+	}
+
+	function stopStreams(id: string) {
+		for (const [key, cancel] of streams) {
+			if (key.startsWith(`${id}/`)) {
+				cancel();
+				streams.delete(key);
+			}
+		}
+	}
+
+	async function confirmParsed(id: string, name: string, record: Record<string, unknown>) {
+		const queue = find(id);
+		if (!queue) return;
+		try {
+			await confirmRecord(queue.session_id, name, record);
+			mutate(id, (q) => updateItem(q, name, () => ({ status: 'confirmed', record: null })));
+		} catch (e) {
+			// Keep the parsed record so confirming can be retried
+			mutate(id, (q) =>
+				updateItem(q, name, () => ({
+					status: 'parsed',
+					error: `Confirm failed: ${message(e, 'unknown error')}`
+				}))
+			);
+		}
+	}
+
+	async function handleParsed(id: string, name: string, result: ParseOneResult) {
+		const queue = mutate(id, (q) =>
+			updateItem(q, name, () => ({
+				status: 'parsed',
+				stage: null,
+				// Keep curated fields of an existing record, as the review modal does by default
+				record:
+					result.record &&
+					defaultMerge(result.record, result.duplicate?.record, result.duplicate?.locked_fields),
+				has_errors: result.has_errors,
+				error: result.has_errors ? result.errors.join('; ') || 'Parsed with errors' : null
+			}))
+		);
+		const record = queue?.items.find((i) => i.name === name)?.record;
+		if (!queue || !record || result.has_errors) return;
+		// Auto-confirm rules can confirm records even when the queue does not
+		let matched = false;
+		try {
+			matched = (await autoConfirmStore.decide(queue.session_id, result)).matched !== null;
+		} catch (e) {
+			// Rules could not be read; leave the record for review
+			mutate(id, (q) =>
+				updateItem(q, name, () => ({
+					error: `Auto-confirm rules failed: ${message(e, 'unknown error')}`
+				}))
+			);
+		}
+		if (queue.auto_confirm || matched) {
+			await confirmParsed(id, name, record);
+		}
+	}
+
+	function start(queue: ParseQueue, name: string) {
+		const id = queue.id;
+		const key = `${id}/${name}`;
+		const done = () => {
+			streams.delete(key);
+			pump(id);
+		};
+
+		mutate(id, (q) => startItem(q, name));
+		streams.set(
+			key,
+			parseOneStream(queue.session_id, name, {
+				onStageStart: (stage) => {
+					mutate(id, (q) => updateItem(q, name, () => ({ stage })));
+				},
+				onStageComplete: (stage, status) => {
+					mutate(id, (q) =>
+						updateItem(q, name, (item) => ({ stages: { ...item.stages, [stage]: status } }))
+					);
+				},
+				onComplete: (result) => {
+					handleParsed(id, name, result).finally(done);
+				},
+				onError: (error) => {
+					mutate(id, (q) =>
+						updateItem(q, name, () => ({ status: 'failed', stage: null, error: error.message }))
+					);
+					done();
+				}
+			})
+		);
+	}
+
+	/**
+	 * Start as many waiting records as the queue's concurrency allows.
+	 */
+	function pump(id: string) {
+		const queue = find(id);
+		if (!queue) return;
+		for (const name of nextToStart(queue)) {
+			if (!streams.has(`${id}/${name}`)) start(queue, name);
+		}
+	}
+
+	return {
+		subscribe,
+
+		/**
+		 * Restore saved queues and carry on with any that are not paused.
+		 * Safe to call from every page that shows queues.
+		 */
+		load: () => {
+			if (loading) return loading;
+			loading = (async () => {
+				try {
+					const saved = (await loadQueues()).map(requeueInterrupted);
+					await Promise.all(saved.map(saveQueue));
+					update((s) => ({ ...s, queues: saved, loaded: true, error: null }));
+					saved.forEach((q) => pump(q.id));
+				} catch (e) {
+					loading = null;
+					update((s) => ({ ...s, loaded: true, error: message(e, 'Failed to load parse queues') }));
+				}
+			})();
+			return loading;
+		},
+
+		/**
+		 * Queue records of a session group. Adds to an existing queue for the
+		 * same group (keeping its progress) and un-pauses it.
+		 */
+		enqueue: async (
+			sessionId: string,
+			group: 1 | 2 | 3,
+			records: ScrapeRecord[],
+			options: { concurrency?: number; autoConfirm?: boolean } = {}
+		): Promise<ParseQueue> => {
+			const id = queueId(sessionId, group);
+			const fresh = createQueue(sessionId, group, records, options);
+			const existing = find(id);
+			let queue: ParseQueue;
+
+			if (existing) {
+				const known = new Set(existing.items.map((i) => i.name));
+				queue = mutate(id, (q) => ({
+					...setPaused(q, false),
+					items: [...q.items, ...fresh.items.filter((i) => !known.has(i.name))]
+				})) as ParseQueue;
+			} else {
+				queue = fresh;
+				await saveQueue(queue);
+				update((s) => ({ ...s, queues: [...s.queues, queue] }));
+			}
+
+			pump(id);
+			return queue;
+		},
+
+		/**
+		 * Stop starting new records. Records already parsing are allowed to finish.
+		 */
+		pause: (id: string) => {
+			mutate(id, (q) => setPaused(q, true));
+		},
+
+		resume: (id: string) => {
+			mutate(id, (q) => setPaused(q, false));
+			pump(id);
+		},
+
+		setConcurrency: (id: string, concurrency: number) => {
+			mutate(id, (q) => setConcurrency(q, concurrency));
+			pump(id);
+		},
+
+		setAutoConfirm: (id: string, autoConfirm: boolean) => {
+			mutate(id, (q) => setAutoConfirm(q, autoConfirm));
+		},
+
+		move: (id: string, name: string, move: PriorityMove) => {
+			mutate(id, (q) => moveItem(q, name, move));
+		},
+
+		retryFailed: (id: string) => {
+			mutate(id, retryFailed);
+			pump(id);
+		},
+
+		/**
+		 * Confirm parsed records that are waiting (all of them, or one by name).
+		 */
+		confirm: async (id: string, name?: string) => {
+			const queue = find(id);
+			if (!queue) return;
+			const waiting = queue.items.filter(
+				(i) => i.status === 'parsed' && i.record && (!name || i.name === name)
+			);
+			for (const item of waiting) {
+				await confirmParsed(id, item.name, item.record as Record<string, unknown>);
+			}
+		},
+
+		/**
+		 * Stop and forget a queue. Confirmed records stay confirmed.
+		 */
+		remove: async (id: string) => {
+			stopStreams(id);
+			await deleteQueue(id);
+			update((s) => ({ ...s, queues: s.queues.filter((q) => q.id !== id) }));
+		}
+	};
+}
+
+export const parseQueueStore = createParseQueueStore();
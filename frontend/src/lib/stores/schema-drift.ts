@@ -0,0 +1,94 @@
+/**
+ * Svelte store for quarantined Electric shape rows
+ * Held in memory for this tab. sync-uk-lrt.ts screens every row through
+ * admit(); the collections in db/index.client.ts screen their sync writes
+ * through screenWrite(). Either way a quarantined row never reaches a
+ * collection, so readers need no filtering of their own.
+ */
+
+import { writable, derived } from 'svelte/store';
+import {
+	rowKey,
+	screenRow,
+	screenWrite,
+	summarizeDrift,
+	type QuarantinedRow,
+	type ShapeOperation,
+	type ShapeTable,
+	type ShapeWrite
+} from '$lib/electric/shape-validation';
+
+// A drifted column can fail every row of a full sync; publish once per burst
+const NOTIFY_DEBOUNCE_MS = 250;
+
+function createSchemaDriftStore() {
+	const quarantined = new Map<string, QuarantinedRow>();
+	const { subscribe, set } = writable<QuarantinedRow[]>([]);
+	let notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+	function notify() {
+		if (notifyTimer) return;
+		notifyTimer = setTimeout(() => {
+			notifyTimer = null;
+			set(Array.from(quarantined.values()));
+		}, NOTIFY_DEBOUNCE_MS);
+	}
+
+	function quarantineId(table: ShapeTable, row: Record<string, unknown>): string {
+		return `${table}:${rowKey(table, row) ?? '(no key)'}`;
+	}
+
+	/**
+	 * Screen a raw shape row. Returns false if the row is quarantined
+	 * and must not be written.
+	 */
+	function admit(
+		table: ShapeTable,
+		row: Record<string, unknown>,
+		operation: ShapeOperation | null = null
+	): boolean {
+		const id = quarantineId(table, row);
+		const previous = quarantined.get(id);
+		const entry = screenRow(previous, table, row, operation);
+
+		if (entry) {
+			if (!previous) {
+				const fields = entry.issues.map((i) => `${i.field} (${i.kind})`).join(', ');
+				console.warn(`[Schema Drift] Quarantined ${table} row ${entry.key}: ${fields}`);
+			}
+			quarantined.set(id, entry);
+			notify();
+			return false;
+		}
+		if (previous) {
+			quarantined.delete(id);
+			notify();
+		}
+		return true;
+	}
+
+	return {
+		subscribe,
+		admit,
+
+		/**
+		 * Screen a collection sync write. Returns the write to apply, or null to
+		 * drop it. `stored` tells whether the collection already holds a key.
+		 */
+		screenWrite: <W extends ShapeWrite>(
+			table: ShapeTable,
+			write: W,
+			stored: (key: string) => boolean
+		): W | null => {
+			const held = quarantined.get(quarantineId(table, write.value));
+			const admitted = admit(table, write.value, write.type);
+			const key = rowKey(table, write.value);
+			return screenWrite(write, held, admitted, key !== null && stored(key));
+		}
+	};
+}
+
+export const schemaDriftStore = createSchemaDriftStore();
+
+/** Drifted fields across all quarantined rows, most rows first */
+export const schemaDrift = derived(schemaDriftStore, ($rows) => summarizeDrift($rows));
@@ -0,0 +1,63 @@
+/**
+ * Organisation screening profile store
+ * Persisted to localStorage so the workbench survives reloads
+ */
+
+import { writable } from 'svelte/store';
+import { browser } from '$app/environment';
+import {
+	addProfileTerm,
+	emptyProfile,
+	removeProfileTerm,
+	FITNESS_DIMENSIONS,
+	type FitnessDimension,
+	type OrgProfile
+} from '$lib/screening/applicability';
+
+const STORAGE_KEY = 'sertantai_screening_profile';
+
+function loadProfile(): OrgProfile {
+	const profile = emptyProfile();
+	if (!browser) return profile;
+
+	try {
+		const raw = localStorage.getItem(STORAGE_KEY);
+		if (!raw) return profile;
+		const parsed = JSON.parse(raw) as Partial<OrgProfile>;
+		for (const dimension of FITNESS_DIMENSIONS) {
+			const terms = parsed[dimension];
+			if (Array.isArray(terms)) {
+				profile[dimension] = terms.filter((t): t is string => typeof t === 'string');
+			}
+		}
+	} catch (error) {
+		console.error('[Screening] Failed to load profile:', error);
+	}
+	return profile;
+}
+
+function createScreeningProfileStore() {
+	const { subscribe, set, update } = writable<OrgProfile>(loadProfile());
+
+	if (browser) {
+		subscribe((profile) => {
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(profile));
+		});
+	}
+
+	return {
+		subscribe,
+		set,
+		addTerm(dimension: FitnessDimension, term: string) {
+			update((p) => addProfileTerm(p, dimension, term));
+		},
+		removeTerm(dimension: FitnessDimension, term: string) {
+			update((p) => removeProfileTerm(p, dimension, term));
+		},
+		clear() {
+			set(emptyProfile());
+		}
+	};
+}
+
+export const screeningProfile = createScreeningProfileStore();
@@ -0,0 +1,69 @@
+/**
+ * Svelte store for organisation site profiles
+ * Backed by IndexedDB (site-storage.ts), scoped to one organisation at a time
+ */
+
+import { writable, get } from 'svelte/store';
+import { loadSites, saveSite, deleteSite } from '$lib/db/site-storage';
+import { createSite, type SiteProfile, type SiteRegion } from '$lib/screening/sites';
+
+interface SitesState {
+	orgId: string | null;
+	sites: SiteProfile[];
+	loading: boolean;
+	error: string | null;
+}
+
+function createSitesStore() {
+	const store = writable<SitesState>({ orgId: null, sites: [], loading: false, error: null });
+	const { subscribe, update } = store;
+
+	function requireOrg(): string {
+		const { orgId } = get(store);
+		if (!orgId) throw new Error('Sites have not been loaded for an organisation');
+		return orgId;
+	}
+
+	return {
+		subscribe,
+
+		/**
+		 * Load sites for an organisation (no-op if already loaded for it).
+		 */
+		load: async (orgId: string, force = false) => {
+			const current = get(store);
+			if (!force && current.orgId === orgId && !current.error) return;
+
+			update((s) => ({ ...s, orgId, loading: true, error: null }));
+			try {
+				const sites = await loadSites(orgId);
+				update((s) => (s.orgId === orgId ? { ...s, sites, loading: false } : s));
+			} catch (e) {
+				update((s) => ({
+					...s,
+					loading: false,
+					error: e instanceof Error ? e.message : 'Failed to load sites'
+				}));
+			}
+		},
+
+		add: async (name: string, region: SiteRegion): Promise<SiteProfile> => {
+			const site = await saveSite(createSite(requireOrg(), name, region));
+			update((s) => ({ ...s, sites: [...s.sites, site] }));
+			return site;
+		},
+
+		save: async (site: SiteProfile): Promise<SiteProfile> => {
+			const saved = await saveSite(site);
+			update((s) => ({ ...s, sites: s.sites.map((x) => (x.id === saved.id ? saved : x)) }));
+			return saved;
+		},
+
+		remove: async (siteId: string) => {
+			await deleteSite(requireOrg(), siteId);
+			update((s) => ({ ...s, sites: s.sites.filter((x) => x.id !== siteId) }));
+		}
+	};
+}
+
+export const sitesStore = createSitesStore();
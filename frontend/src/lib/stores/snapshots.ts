@@ -0,0 +1,175 @@
+/**
+ * Svelte store for register snapshots
+ * Snapshots are kept in IndexedDB (snapshot-storage.ts) and, for signed-in
+ * organisations, also saved on the backend so they survive a browser reset.
+ * Backend snapshots not yet seen locally are listed without records and
+ * downloaded on first use.
+ */
+
+import { writable, get } from 'svelte/store';
+import { loadSnapshots, saveSnapshot, deleteSnapshot } from '$lib/db/snapshot-storage';
+import {
+	createRegisterSnapshot,
+	deleteRegisterSnapshot,
+	getRegisterSnapshot,
+	listRegisterSnapshots
+} from '$lib/api/snapshots';
+import {
+	createSnapshot,
+	type RegisterSnapshot,
+	type SnapshotRecord
+} from '$lib/snapshots/snapshots';
+import { LOCAL_SCOPE } from '$lib/screening/sites';
+import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+
+interface SnapshotsState {
+	orgId: string | null;
+	snapshots: RegisterSnapshot[];
+	loading: boolean;
+	error: string | null;
+	/** Backend unreachable — snapshots are still saved locally */
+	serverError: string | null;
+}
+
+function message(e: unknown, fallback: string): string {
+	return e instanceof Error ? e.message : fallback;
+}
+
+function byNewest(a: RegisterSnapshot, b: RegisterSnapshot): number {
+	return b.taken_at.localeCompare(a.taken_at);
+}
+
+function createSnapshotsStore() {
+	const store = writable<SnapshotsState>({
+		orgId: null,
+		snapshots: [],
+		loading: false,
+		error: null,
+		serverError: null
+	});
+	const { subscribe, update } = store;
+
+	function requireOrg(): string {
+		const { orgId } = get(store);
+		if (!orgId) throw new Error('Snapshots have not been loaded for an organisation');
+		return orgId;
+	}
+
+	function put(snapshot: RegisterSnapshot) {
+		update((s) => ({
+			...s,
+			snapshots: [...s.snapshots.filter((x) => x.id !== snapshot.id), snapshot].sort(byNewest)
+		}));
+	}
+
+	async function upload(snapshot: RegisterSnapshot): Promise<RegisterSnapshot> {
+		if (snapshot.org_id === LOCAL_SCOPE || snapshot.server_id || !snapshot.records) return snapshot;
+		try {
+			const saved = await createRegisterSnapshot({
+				name: snapshot.name,
+				description: snapshot.description,
+				where_clause: snapshot.where_clause,
+				taken_at: snapshot.taken_at,
+				records: snapshot.records
+			});
+			const synced = { ...snapshot, server_id: saved.id };
+			await saveSnapshot(synced);
+			update((s) => ({ ...s, serverError: null }));
+			return synced;
+		} catch (e) {
+			update((s) => ({ ...s, serverError: message(e, 'Failed to save snapshot on server') }));
+			return snapshot;
+		}
+	}
+
+	return {
+		subscribe,
+
+		/**
+		 * Load local snapshots for an organisation, then merge in backend ones.
+		 */
+		load: async (orgId: string, force = false) => {
+			const current = get(store);
+			if (!force && current.orgId === orgId && !current.error) return;
+
+			update((s) => ({ ...s, orgId, loading: true, error: null, serverError: null }));
+			let local: RegisterSnapshot[];
+			try {
+				local = await loadSnapshots(orgId);
+			} catch (e) {
+				update((s) => ({ ...s, loading: false, error: message(e, 'Failed to load snapshots') }));
+				return;
+			}
+
+			let remote: RegisterSnapshot[] = [];
+			let serverError: string | null = null;
+			if (orgId !== LOCAL_SCOPE) {
+				try {
+					const known = new Set(local.map((s) => s.server_id).filter(Boolean));
+					const { snapshots } = await listRegisterSnapshots();
+					remote = snapshots
+						.filter((s) => !known.has(s.id))
+						.map((s) => ({ ...s, org_id: orgId, records: null, server_id: s.id }));
+				} catch (e) {
+					serverError = message(e, 'Failed to load snapshots from server');
+				}
+			}
+
+			update((s) =>
+				s.orgId === orgId
+					? { ...s, snapshots: [...local, ...remote].sort(byNewest), loading: false, serverError }
+					: s
+			);
+		},
+
+		/**
+		 * Freeze a set of laws as a named snapshot.
+		 */
+		take: async (
+			name: string,
+			records: Array<UkLrtRecord | Record<string, unknown>>,
+			whereClause: string,
+			description: string | null = null
+		): Promise<RegisterSnapshot> => {
+			const snapshot = createSnapshot(requireOrg(), name, records, whereClause, description);
+			await saveSnapshot(snapshot);
+			put(snapshot);
+			const synced = await upload(snapshot);
+			put(synced);
+			return synced;
+		},
+
+		/**
+		 * Retry saving a local-only snapshot to the backend.
+		 */
+		upload: async (id: string) => {
+			const snapshot = get(store).snapshots.find((s) => s.id === id);
+			if (snapshot) put(await upload(snapshot));
+		},
+
+		/**
+		 * Records of a snapshot, downloading (and caching) backend-only ones.
+		 */
+		records: async (id: string): Promise<SnapshotRecord[]> => {
+			const snapshot = get(store).snapshots.find((s) => s.id === id);
+			if (!snapshot) throw new Error('Snapshot not found');
+			if (snapshot.records) return snapshot.records;
+
+			const remote = await getRegisterSnapshot(snapshot.server_id ?? snapshot.id);
+			const cached = { ...snapshot, records: remote.records, record_count: remote.records.length };
+			await saveSnapshot(cached);
+			put(cached);
+			return remote.records;
+		},
+
+		remove: async (id: string) => {
+			const snapshot = get(store).snapshots.find((s) => s.id === id);
+			if (!snapshot) return;
+			if (snapshot.server_id) await deleteRegisterSnapshot(snapshot.server_id);
+			await deleteSnapshot(requireOrg(), id);
+			update((s) => ({ ...s, snapshots: s.snapshots.filter((x) => x.id !== id) }));
+		}
+	};
+}
+
+export const snapshotsStore = createSnapshotsStore();
@@ -0,0 +1,115 @@
+/**
+ * Reactive UK LRT record set backed by the Electric-synced TanStack DB collection.
+ *
+ * Wraps getUkLrtCollection() + subscribeChanges() so pages that only need the
+ * synced rows (screening, registers) don't re-implement the debounce/refresh
+ * plumbing used on /browse.
+ */
+
+import { get, readable, type Readable } from 'svelte/store';
+import { browser } from '$app/environment';
+import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+
+export interface UkLrtRecordsState {
+	records: UkLrtRecord[];
+	loading: boolean;
+	error: string | null;
+	/** WHERE clause the records were synced with */
+	whereClause: string;
+}
+
+const REFRESH_DEBOUNCE_MS = 200;
+
+/**
+ * Create a store of UK LRT records synced with the given WHERE clause.
+ *
+ * Without a WHERE clause the store follows whatever filter is currently active
+ * (e.g. set on /browse) and re-attaches when that filter changes.
+ *
+ * The collection is created lazily when the first subscriber arrives and the
+ * change subscription is torn down when the last one leaves.
+ */
+export function createUkLrtRecordsStore(whereClause?: string): Readable<UkLrtRecordsState> {
+	const initial = { records: [], loading: true, error: null, whereClause: whereClause ?? '' };
+
+	return readable<UkLrtRecordsState>(initial, (set) => {
+		if (!browser) return;
+
+		let stopped = false;
+		let records: UkLrtRecord[] = [];
+		let attachedWhere: string | null = null;
+		let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+		let unsubscribeChanges: (() => void) | null = null;
+		let unsubscribeStatus: (() => void) | null = null;
+
+		(async () => {
+			try {
+				const { getUkLrtCollection, syncStatus } = await import('$lib/db/index.client');
+
+				const refresh = () => {
+					if (refreshTimer) clearTimeout(refreshTimer);
+					refreshTimer = setTimeout(async () => {
+						if (attachedWhere === null) return;
+						// Always re-resolve in case the collection was recreated after a shape reset
+						const current = await getUkLrtCollection(attachedWhere);
+						if (stopped) return;
+						records = current.toArray as unknown as UkLrtRecord[];
+						set({
+							records,
+							loading: !current.isReady(),
+							error: null,
+							whereClause: attachedWhere
+						});
+					}, REFRESH_DEBOUNCE_MS);
+				};
+
+				const attach = async (where: string | undefined) => {
+					const collection = await getUkLrtCollection(where);
+					if (stopped) return;
+					attachedWhere = get(syncStatus).whereClause;
+					unsubscribeChanges?.();
+					const changeSub = collection.subscribeChanges(() => refresh());
+					unsubscribeChanges = () => changeSub.unsubscribe();
+					refresh();
+				};
+
+				await attach(whereClause ?? (get(syncStatus).whereClause || undefined));
+				if (stopped) return;
+
+				unsubscribeStatus = syncStatus.subscribe((status) => {
+					if (status.error) {
+						set({
+							records,
+							loading: false,
+							error: status.error,
+							whereClause: attachedWhere ?? ''
+						});
+					} else if (
+						!whereClause &&
+						status.whereClause &&
+						attachedWhere !== null &&
+						status.whereClause !== attachedWhere
+					) {
+						attach(status.whereClause);
+					} else if (status.connected) {
+						refresh();
+					}
+				});
+			} catch (e) {
+				console.error('[UkLrtRecords] Failed to initialize:', e);
+				set({
+					...initial,
+					loading: false,
+					error: e instanceof Error ? e.message : 'Failed to initialize'
+				});
+			}
+		})();
+
+		return () => {
+			stopped = true;
+			if (refreshTimer) clearTimeout(refreshTimer);
+			unsubscribeChanges?.();
+			unsubscribeStatus?.();
+		};
+	});
+}
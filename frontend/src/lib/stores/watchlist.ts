@@ -0,0 +1,129 @@
+/**
+ * Svelte store for the law watchlist
+ * Backed by IndexedDB (watchlist-storage.ts), scoped to one organisation at a time.
+ * Electric sync (sync-uk-lrt.ts) feeds incoming rows through observe().
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import { loadWatches, saveWatch, deleteWatch } from '$lib/db/watchlist-storage';
+import {
+	createWatch,
+	observeRecord,
+	acknowledgeWatch,
+	hasPendingChanges,
+	type WatchEntry
+} from '$lib/watchlist/watchlist';
+import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+
+interface WatchlistState {
+	orgId: string | null;
+	entries: WatchEntry[];
+	loading: boolean;
+	error: string | null;
+}
+
+function createWatchlistStore() {
+	const store = writable<WatchlistState>({ orgId: null, entries: [], loading: false, error: null });
+	const { subscribe, update } = store;
+
+	function requireOrg(): string {
+		const { orgId } = get(store);
+		if (!orgId) throw new Error('Watchlist has not been loaded for an organisation');
+		return orgId;
+	}
+
+	function replace(saved: WatchEntry[]) {
+		const byId = new Map(saved.map((e) => [e.record_id, e]));
+		update((s) => ({ ...s, entries: s.entries.map((e) => byId.get(e.record_id) ?? e) }));
+	}
+
+	return {
+		subscribe,
+
+		/**
+		 * Load watches for an organisation (no-op if already loaded for it).
+		 */
+		load: async (orgId: string, force = false) => {
+			const current = get(store);
+			if (!force && current.orgId === orgId && !current.error) return;
+
+			update((s) => ({ ...s, orgId, loading: true, error: null }));
+			try {
+				const entries = await loadWatches(orgId);
+				update((s) => (s.orgId === orgId ? { ...s, entries, loading: false } : s));
+			} catch (e) {
+				update((s) => ({
+					...s,
+					loading: false,
+					error: e instanceof Error ? e.message : 'Failed to load watchlist'
+				}));
+			}
+		},
+
+		isWatching: (recordId: string): boolean =>
+			get(store).entries.some((e) => e.record_id === recordId),
+
+		watch: async (record: UkLrtRecord): Promise<WatchEntry> => {
+			const entry = createWatch(requireOrg(), record);
+			await saveWatch(entry);
+			update((s) => ({
+				...s,
+				entries: [...s.entries.filter((e) => e.record_id !== entry.record_id), entry].sort((a, b) =>
+					a.name.localeCompare(b.name)
+				)
+			}));
+			return entry;
+		},
+
+		unwatch: async (recordId: string) => {
+			await deleteWatch(requireOrg(), recordId);
+			update((s) => ({ ...s, entries: s.entries.filter((e) => e.record_id !== recordId) }));
+		},
+
+		/**
+		 * Diff incoming rows against their watches and persist any that changed.
+		 * Rows for laws that aren't watched are ignored.
+		 */
+		observe: async (records: Array<UkLrtRecord | Record<string, unknown>>) => {
+			const entries = new Map(get(store).entries.map((e) => [e.record_id, e]));
+			if (entries.size === 0) return;
+
+			const changed = new Map<string, WatchEntry>();
+			for (const record of records) {
+				const id = String((record as Record<string, unknown>).id ?? '');
+				const entry = changed.get(id) ?? entries.get(id);
+				if (!entry) continue;
+				const next = observeRecord(entry, record);
+				if (next) changed.set(id, next);
+			}
+			if (changed.size === 0) return;
+
+			const saved = Array.from(changed.values());
+			await Promise.all(saved.map((e) => saveWatch(e)));
+			replace(saved);
+		},
+
+		acknowledge: async (recordId: string) => {
+			const entry = get(store).entries.find((e) => e.record_id === recordId);
+			if (!entry) return;
+			const saved = acknowledgeWatch(entry);
+			await saveWatch(saved);
+			replace([saved]);
+		},
+
+		acknowledgeAll: async () => {
+			const saved = get(store).entries.filter(hasPendingChanges).map(acknowledgeWatch);
+			await Promise.all(saved.map((e) => saveWatch(e)));
+			replace(saved);
+		}
+	};
+}
+
+export const watchlistStore = createWatchlistStore();
+
+/** Watches with unacknowledged changes, most recent first */
+export const watchlistInbox = derived(watchlistStore, ($w) =>
+	$w.entries
+		.filter(hasPendingChanges)
+		.sort((a, b) => (b.detected_at ?? '').localeCompare(a.detected_at ?? ''))
+);
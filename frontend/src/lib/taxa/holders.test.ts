@@ -0,0 +1,85 @@
+/**
+ * Tests for the duty-holder pivot
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformUkLrtRecord } from '$lib/electric/uk-lrt-schema';
+import { holderCategory, pivotByHolder, groupByLaw } from './holders';
+
+function entry(holder: string, duty_type: string, article: string | null, clause: string | null) {
+	return { holder, duty_type, article, clause };
+}
+
+function holderJsonb(entries: ReturnType<typeof entry>[]) {
+	return {
+		entries,
+		holders: [...new Set(entries.map((e) => e.holder))],
+		articles: [...new Set(entries.map((e) => e.article).filter(Boolean))]
+	};
+}
+
+const records = [
+	transformUkLrtRecord({
+		id: 'law-1',
+		name: 'UK_uksi_1999_3242',
+		duties: holderJsonb([
+			entry('Org: Employer', 'DUTY', 'regulation/3', 'shall make a suitable assessment'),
+			entry('Org: Employer', 'DUTY', 'regulation/3', 'shall make a suitable assessment'),
+			entry('Ind: Employee', 'DUTY', 'regulation/14', 'shall inform his employer')
+		]),
+		powers: holderJsonb([entry('Gvt: Minister', 'POWER', 'regulation/20', 'may exempt')])
+	}),
+	transformUkLrtRecord({
+		id: 'law-2',
+		name: 'UK_uksi_1992_3004',
+		duties: holderJsonb([entry('Org: Employer', 'DUTY', 'regulation/4', null)]),
+		rights: holderJsonb([entry('Org: Employer', 'RIGHT', 'regulation/9', 'may apply')])
+	})
+];
+
+describe('holderCategory', () => {
+	it('returns the prefix before the colon', () => {
+		expect(holderCategory('Org: Employer')).toBe('Org');
+		expect(holderCategory('Employer')).toBe('Other');
+	});
+});
+
+describe('pivotByHolder', () => {
+	it('groups obligations by holder, most obligations first', () => {
+		const groups = pivotByHolder(records);
+
+		expect(groups.map((g) => g.holder)).toEqual([
+			'Org: Employer',
+			'Gvt: Minister',
+			'Ind: Employee'
+		]);
+		expect(groups[0].total).toBe(3);
+		expect(groups[0].lawCount).toBe(2);
+	});
+
+	it('orders duty types DUTY before RIGHT and drops duplicate clauses', () => {
+		const employer = pivotByHolder(records)[0];
+
+		expect([...employer.byType.keys()]).toEqual(['DUTY', 'RIGHT']);
+		expect(employer.byType.get('DUTY')?.map((o) => o.article)).toEqual([
+			'regulation/4',
+			'regulation/3'
+		]);
+	});
+
+	it('restricts to selected fields', () => {
+		const groups = pivotByHolder(records, ['powers']);
+
+		expect(groups.map((g) => g.holder)).toEqual(['Gvt: Minister']);
+		expect(groups[0].byType.get('POWER')?.[0].field).toBe('powers');
+	});
+});
+
+describe('groupByLaw', () => {
+	it('groups obligations by law in order', () => {
+		const employer = pivotByHolder(records)[0];
+		const laws = groupByLaw(employer.byType.get('DUTY') ?? []);
+
+		expect(laws.map((l) => l.record.name)).toEqual(['UK_uksi_1992_3004', 'UK_uksi_1999_3242']);
+	});
+});
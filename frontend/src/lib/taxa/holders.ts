@@ -0,0 +1,151 @@
+/**
+ * Duty-holder pivot — "who owes what"
+ *
+ * Pivots the consolidated HolderJsonb fields (duties, rights, responsibilities,
+ * powers) from law-centric to holder-centric: for each holder (e.g. "Org: Employer")
+ * list every obligation across the law set, grouped by duty_type.
+ */
+
+import type { HolderEntry, UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+
+export const HOLDER_FIELDS = ['duties', 'rights', 'responsibilities', 'powers'] as const;
+
+export type HolderField = (typeof HOLDER_FIELDS)[number];
+
+export const HOLDER_FIELD_LABELS: Record<HolderField, string> = {
+	duties: 'Duties',
+	rights: 'Rights',
+	responsibilities: 'Responsibilities',
+	powers: 'Powers'
+};
+
+// Default duty_type when an entry has none (matches TaxaFormatter defaults)
+export const FIELD_DEFAULT_TYPE: Record<HolderField, string> = {
+	duties: 'DUTY',
+	rights: 'RIGHT',
+	responsibilities: 'RESPONSIBILITY',
+	powers: 'POWER'
+};
+
+export interface HolderObligation {
+	record: UkLrtRecord;
+	field: HolderField;
+	dutyType: string;
+	clause: string | null;
+	article: string | null;
+}
+
+export interface HolderGroup {
+	holder: string;
+	/** Holder category prefix, e.g. "Org", "Ind", "Gvt" */
+	category: string;
+	total: number;
+	lawCount: number;
+	/** Obligations keyed by duty_type, in DUTY → RIGHT → RESPONSIBILITY → POWER order */
+	byType: Map<string, HolderObligation[]>;
+}
+
+/**
+ * Category prefix of a holder tag ("Org: Employer" → "Org").
+ */
+export function holderCategory(holder: string): string {
+	const idx = holder.indexOf(':');
+	return idx > 0 ? holder.slice(0, idx).trim() : 'Other';
+}
+
+function typeRank(dutyType: string): number {
+	const idx = Object.values(FIELD_DEFAULT_TYPE).indexOf(dutyType.toUpperCase());
+	return idx === -1 ? Object.keys(FIELD_DEFAULT_TYPE).length : idx;
+}
+
+function entryKey(entry: HolderEntry): string {
+	return `${entry.duty_type}|${entry.article ?? ''}|${entry.clause ?? ''}`;
+}
+
+/**
+ * Pivot a record set by holder.
+ * Groups are sorted by total obligations (desc), then holder name.
+ */
+export function pivotByHolder(
+	records: UkLrtRecord[],
+	fields: readonly HolderField[] = HOLDER_FIELDS
+): HolderGroup[] {
+	const groups = new Map<string, { obligations: HolderObligation[]; laws: Set<string> }>();
+
+	for (const record of records) {
+		for (const field of fields) {
+			const jsonb = record[field];
+			if (!jsonb?.entries?.length) continue;
+
+			// The same clause can be emitted more than once per article — keep one
+			const seen = new Set<string>();
+			for (const entry of jsonb.entries) {
+				if (!entry.holder) continue;
+				const key = `${entry.holder}|${entryKey(entry)}`;
+				if (seen.has(key)) continue;
+				seen.add(key);
+
+				let group = groups.get(entry.holder);
+				if (!group) {
+					group = { obligations: [], laws: new Set() };
+					groups.set(entry.holder, group);
+				}
+				group.laws.add(record.id);
+				group.obligations.push({
+					record,
+					field,
+					dutyType: entry.duty_type || FIELD_DEFAULT_TYPE[field],
+					clause: entry.clause,
+					article: entry.article
+				});
+			}
+		}
+	}
+
+	const result: HolderGroup[] = [];
+	for (const [holder, { obligations, laws }] of groups) {
+		const types = Array.from(new Set(obligations.map((o) => o.dutyType))).sort(
+			(a, b) => typeRank(a) - typeRank(b) || a.localeCompare(b)
+		);
+		const byType = new Map<string, HolderObligation[]>();
+		for (const type of types) {
+			byType.set(
+				type,
+				obligations
+					.filter((o) => o.dutyType === type)
+					.sort(
+						(a, b) =>
+							a.record.name.localeCompare(b.record.name) ||
+							(a.article ?? '').localeCompare(b.article ?? '', undefined, { numeric: true })
+					)
+			);
+		}
+		result.push({
+			holder,
+			category: holderCategory(holder),
+			total: obligations.length,
+			lawCount: laws.size,
+			byType
+		});
+	}
+
+	return result.sort((a, b) => b.total - a.total || a.holder.localeCompare(b.holder));
+}
+
+/**
+ * Group a holder's obligations of one type by law, preserving order.
+ */
+export function groupByLaw(
+	obligations: HolderObligation[]
+): { record: UkLrtRecord; obligations: HolderObligation[] }[] {
+	const byLaw = new Map<string, { record: UkLrtRecord; obligations: HolderObligation[] }>();
+	for (const o of obligations) {
+		const group = byLaw.get(o.record.id);
+		if (group) {
+			group.obligations.push(o);
+		} else {
+			byLaw.set(o.record.id, { record: o.record, obligations: [o] });
+		}
+	}
+	return Array.from(byLaw.values());
+}
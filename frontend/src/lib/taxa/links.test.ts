@@ -0,0 +1,50 @@
+/**
+ * Tests for legislation.gov.uk link helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { legislationUrl, provisionUrl, formatArticle } from './links';
+
+const record = {
+	leg_gov_uk_url: 'https://www.legislation.gov.uk/uksi/1999/3242',
+	type_code: 'uksi',
+	year: 1999,
+	number: '3242'
+};
+
+describe('legislationUrl', () => {
+	it('prefers leg_gov_uk_url', () => {
+		expect(legislationUrl(record)).toBe('https://www.legislation.gov.uk/uksi/1999/3242');
+	});
+
+	it('falls back to type_code/year/number', () => {
+		expect(legislationUrl({ ...record, leg_gov_uk_url: null })).toBe(
+			'https://www.legislation.gov.uk/uksi/1999/3242'
+		);
+	});
+});
+
+describe('provisionUrl', () => {
+	it('appends the article path', () => {
+		expect(provisionUrl(record, 'regulation/3')).toBe(
+			'https://www.legislation.gov.uk/uksi/1999/3242/regulation/3'
+		);
+	});
+
+	it('strips a /contents suffix', () => {
+		expect(
+			provisionUrl(
+				{ ...record, leg_gov_uk_url: `${record.leg_gov_uk_url}/contents` },
+				'regulation/3'
+			)
+		).toBe('https://www.legislation.gov.uk/uksi/1999/3242/regulation/3');
+	});
+});
+
+describe('formatArticle', () => {
+	it('abbreviates provision types', () => {
+		expect(formatArticle('regulation/4')).toBe('reg. 4');
+		expect(formatArticle('section/2/1')).toBe('s. 2(1)');
+		expect(formatArticle('schedule')).toBe('schedule');
+	});
+});
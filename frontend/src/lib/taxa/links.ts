@@ -0,0 +1,47 @@
+/**
+ * legislation.gov.uk link helpers for UK LRT records and their provisions
+ */
+
+import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+
+const LEGISLATION_BASE_URL = 'https://www.legislation.gov.uk';
+
+type LinkableRecord = Pick<UkLrtRecord, 'leg_gov_uk_url' | 'type_code' | 'year' | 'number'>;
+
+/**
+ * URL of the law on legislation.gov.uk.
+ * Prefers the generated leg_gov_uk_url column, falling back to type_code/year/number.
+ */
+export function legislationUrl(record: LinkableRecord): string {
+	if (record.leg_gov_uk_url) return record.leg_gov_uk_url.replace(/\/+$/, '');
+	return `${LEGISLATION_BASE_URL}/${record.type_code}/${record.year}/${record.number}`;
+}
+
+/**
+ * URL of a provision within the law, e.g. article "regulation/4".
+ * Returns the law URL when no article is given.
+ */
+export function provisionUrl(record: LinkableRecord, article: string | null): string {
+	const base = legislationUrl(record).replace(/\/contents$/, '');
+	if (!article) return base;
+	return `${base}/${article.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Short label for an article path: "regulation/4" → "reg. 4", "section/2/1" → "s. 2(1)"
+ */
+export function formatArticle(article: string): string {
+	const [kind, ...parts] = article.split('/').filter(Boolean);
+	if (parts.length === 0) return article;
+
+	const prefix: Record<string, string> = {
+		regulation: 'reg.',
+		section: 's.',
+		article: 'art.',
+		schedule: 'Sch.',
+		rule: 'r.',
+		paragraph: 'para.'
+	};
+	const [main, ...subs] = parts;
+	return `${prefix[kind] ?? kind} ${main}${subs.map((s) => `(${s})`).join('')}`;
+}
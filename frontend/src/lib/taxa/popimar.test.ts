@@ -0,0 +1,96 @@
+/**
+ * Tests for POPIMAR aggregation and matrix export
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformUkLrtRecord } from '$lib/electric/uk-lrt-schema';
+import {
+	POPIMAR_CATEGORIES,
+	aggregateByCategory,
+	countByStage,
+	buildPopimarMatrix
+} from './popimar';
+
+function popimar(entries: { category: string; article: string | null }[]) {
+	return {
+		entries,
+		categories: [...new Set(entries.map((e) => e.category))],
+		articles: [...new Set(entries.map((e) => e.article).filter(Boolean))]
+	};
+}
+
+const records = [
+	transformUkLrtRecord({
+		id: 'law-1',
+		name: 'UK_uksi_1999_3242',
+		title_en: 'Management of Health and Safety at Work Regulations 1999',
+		year: 1999,
+		popimar_details: popimar([
+			{ category: 'Risk Control', article: 'regulation/4' },
+			{ category: 'Planning & Risk / Impact Assessment', article: 'regulation/3' },
+			{ category: 'Risk Control', article: 'regulation/10' },
+			{ category: 'Risk Control', article: 'regulation/4' }
+		])
+	}),
+	transformUkLrtRecord({
+		id: 'law-2',
+		name: 'UK_uksi_1992_3004',
+		year: 1992,
+		popimar_details: popimar([{ category: 'Risk Control', article: null }])
+	}),
+	transformUkLrtRecord({ id: 'law-3', name: 'UK_uksi_2000_1' })
+];
+
+describe('aggregateByCategory', () => {
+	it('includes every canonical category in order', () => {
+		const summaries = aggregateByCategory(records);
+		expect(summaries.map((s) => s.category)).toEqual([...POPIMAR_CATEGORIES]);
+	});
+
+	it('counts laws and de-duplicated articles per category', () => {
+		const riskControl = aggregateByCategory(records).find((s) => s.category === 'Risk Control');
+
+		expect(riskControl?.lawCount).toBe(2);
+		expect(riskControl?.articleCount).toBe(2);
+		expect(riskControl?.laws[1].articles).toEqual(['regulation/4', 'regulation/10']);
+	});
+
+	it('appends unknown categories', () => {
+		const summaries = aggregateByCategory([
+			transformUkLrtRecord({
+				id: 'x',
+				name: 'x',
+				popimar_details: popimar([{ category: 'Something New', article: null }])
+			})
+		]);
+		expect(summaries[summaries.length - 1].category).toBe('Something New');
+		expect(summaries[summaries.length - 1].stage).toBeNull();
+	});
+});
+
+describe('countByStage', () => {
+	it('counts each law once per stage', () => {
+		const counts = countByStage(aggregateByCategory(records));
+
+		expect(counts.Implementation).toBe(2);
+		expect(counts.Planning).toBe(1);
+		expect(counts.Policy).toBe(0);
+	});
+});
+
+describe('buildPopimarMatrix', () => {
+	it('builds a law × category matrix of non-empty categories', () => {
+		const matrix = buildPopimarMatrix(aggregateByCategory(records));
+
+		expect(matrix[0].slice(0, 4)).toEqual(['Law', 'Title', 'Year', 'Status']);
+		expect(matrix[0]).toHaveLength(6);
+		expect(matrix[0][4]).toContain('Planning & Risk / Impact Assessment');
+		expect(matrix[0][5]).toContain('45001 8.1.2');
+		expect(matrix.slice(1).map((row) => row[0])).toEqual([
+			'UK_uksi_1992_3004',
+			'UK_uksi_1999_3242'
+		]);
+		expect(matrix[1].slice(4)).toEqual(['', '✓']);
+		expect(matrix[2].slice(4)).toEqual(['regulation/3', 'regulation/4; regulation/10']);
+	});
+});
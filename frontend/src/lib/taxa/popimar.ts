@@ -0,0 +1,216 @@
+/**
+ * POPIMAR management-system mapping
+ *
+ * Aggregates popimar_details (PopimarJsonb) across a law set by category and
+ * builds a law × category matrix for management-system documentation.
+ *
+ * Category order mirrors SertantaiLegal.Legal.Taxa.Popimar (@popimar_categories).
+ */
+
+import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+
+export const POPIMAR_CATEGORIES = [
+	'Policy',
+	'Organisation',
+	'Organisation - Control',
+	'Organisation - Communication & Consultation',
+	'Organisation - Collaboration, Coordination, Cooperation',
+	'Organisation - Competence',
+	'Organisation - Costs',
+	'Records',
+	'Permit, Authorisation, License',
+	'Aspects and Hazards',
+	'Planning & Risk / Impact Assessment',
+	'Risk Control',
+	'Notification',
+	'Maintenance, Examination and Testing',
+	'Checking, Monitoring',
+	'Review'
+] as const;
+
+export type PopimarStage =
+	'Policy' | 'Organisation' | 'Planning' | 'Implementation' | 'Monitoring' | 'Audit' | 'Review';
+
+export const POPIMAR_STAGES: PopimarStage[] = [
+	'Policy',
+	'Organisation',
+	'Planning',
+	'Implementation',
+	'Monitoring',
+	'Audit',
+	'Review'
+];
+
+/**
+ * Where each category sits in the POPIMAR cycle and the closest
+ * ISO 45001 / ISO 14001 clauses (both share the Annex SL structure).
+ */
+export const POPIMAR_MAPPING: Record<
+	string,
+	{ stage: PopimarStage; iso45001: string; iso14001: string }
+> = {
+	Policy: { stage: 'Policy', iso45001: '5.2', iso14001: '5.2' },
+	Organisation: { stage: 'Organisation', iso45001: '5.3', iso14001: '5.3' },
+	'Organisation - Control': { stage: 'Organisation', iso45001: '5.3', iso14001: '5.3' },
+	'Organisation - Communication & Consultation': {
+		stage: 'Organisation',
+		iso45001: '5.4, 7.4',
+		iso14001: '7.4'
+	},
+	'Organisation - Collaboration, Coordination, Cooperation': {
+		stage: 'Organisation',
+		iso45001: '8.1.4',
+		iso14001: '8.1'
+	},
+	'Organisation - Competence': {
+		stage: 'Organisation',
+		iso45001: '7.2, 7.3',
+		iso14001: '7.2, 7.3'
+	},
+	'Organisation - Costs': { stage: 'Organisation', iso45001: '7.1', iso14001: '7.1' },
+	Records: { stage: 'Implementation', iso45001: '7.5', iso14001: '7.5' },
+	'Permit, Authorisation, License': {
+		stage: 'Implementation',
+		iso45001: '6.1.3',
+		iso14001: '6.1.3'
+	},
+	'Aspects and Hazards': { stage: 'Planning', iso45001: '6.1.2', iso14001: '6.1.2' },
+	'Planning & Risk / Impact Assessment': { stage: 'Planning', iso45001: '6.1', iso14001: '6.1' },
+	'Risk Control': { stage: 'Implementation', iso45001: '8.1.2', iso14001: '8.1' },
+	Notification: { stage: 'Implementation', iso45001: '7.4.3', iso14001: '7.4.3' },
+	'Maintenance, Examination and Testing': {
+		stage: 'Implementation',
+		iso45001: '8.1',
+		iso14001: '8.1'
+	},
+	'Checking, Monitoring': { stage: 'Monitoring', iso45001: '9.1', iso14001: '9.1' },
+	Review: { stage: 'Review', iso45001: '9.3', iso14001: '9.3' }
+};
+
+export interface PopimarLaw {
+	record: UkLrtRecord;
+	articles: string[];
+}
+
+export interface PopimarCategorySummary {
+	category: string;
+	stage: PopimarStage | null;
+	lawCount: number;
+	articleCount: number;
+	laws: PopimarLaw[];
+}
+
+function categoryRank(category: string): number {
+	const idx = (POPIMAR_CATEGORIES as readonly string[]).indexOf(category);
+	return idx === -1 ? POPIMAR_CATEGORIES.length : idx;
+}
+
+/**
+ * Aggregate a law set by POPIMAR category.
+ * Categories follow the canonical order; unknown categories are appended alphabetically.
+ * Empty canonical categories are included so the dashboard shows gaps.
+ */
+export function aggregateByCategory(records: UkLrtRecord[]): PopimarCategorySummary[] {
+	const byCategory = new Map<string, Map<string, PopimarLaw>>();
+	for (const category of POPIMAR_CATEGORIES) byCategory.set(category, new Map());
+
+	for (const record of records) {
+		for (const entry of record.popimar_details?.entries ?? []) {
+			if (!entry.category) continue;
+			let laws = byCategory.get(entry.category);
+			if (!laws) {
+				laws = new Map();
+				byCategory.set(entry.category, laws);
+			}
+			let law = laws.get(record.id);
+			if (!law) {
+				law = { record, articles: [] };
+				laws.set(record.id, law);
+			}
+			if (entry.article && !law.articles.includes(entry.article)) {
+				law.articles.push(entry.article);
+			}
+		}
+	}
+
+	return Array.from(byCategory.entries())
+		.map(([category, laws]) => {
+			const list = Array.from(laws.values())
+				.map((law) => ({
+					...law,
+					articles: [...law.articles].sort((a, b) =>
+						a.localeCompare(b, undefined, { numeric: true })
+					)
+				}))
+				.sort((a, b) => a.record.name.localeCompare(b.record.name));
+			return {
+				category,
+				stage: POPIMAR_MAPPING[category]?.stage ?? null,
+				lawCount: list.length,
+				articleCount: list.reduce((n, law) => n + law.articles.length, 0),
+				laws: list
+			};
+		})
+		.sort(
+			(a, b) =>
+				categoryRank(a.category) - categoryRank(b.category) || a.category.localeCompare(b.category)
+		);
+}
+
+/**
+ * Law counts per POPIMAR stage (a law counts once per stage)
+ */
+export function countByStage(summaries: PopimarCategorySummary[]): Record<PopimarStage, number> {
+	const laws = Object.fromEntries(POPIMAR_STAGES.map((s) => [s, new Set<string>()])) as Record<
+		PopimarStage,
+		Set<string>
+	>;
+	for (const summary of summaries) {
+		if (!summary.stage) continue;
+		for (const law of summary.laws) laws[summary.stage].add(law.record.id);
+	}
+	return Object.fromEntries(POPIMAR_STAGES.map((s) => [s, laws[s].size])) as Record<
+		PopimarStage,
+		number
+	>;
+}
+
+/**
+ * Build a law × category matrix for export.
+ * Each cell lists the articles classified under that category ("" when none,
+ * "✓" when classified without article detail).
+ */
+export function buildPopimarMatrix(summaries: PopimarCategorySummary[]): string[][] {
+	const categories = summaries.filter((s) => s.lawCount > 0);
+	const laws = new Map<string, UkLrtRecord>();
+	for (const summary of categories) {
+		for (const law of summary.laws) laws.set(law.record.id, law.record);
+	}
+
+	const header = [
+		'Law',
+		'Title',
+		'Year',
+		'Status',
+		...categories.map((s) => {
+			const iso = POPIMAR_MAPPING[s.category];
+			return iso ? `${s.category} [45001 ${iso.iso45001} / 14001 ${iso.iso14001}]` : s.category;
+		})
+	];
+
+	const rows = Array.from(laws.values())
+		.sort((a, b) => a.name.localeCompare(b.name))
+		.map((record) => [
+			record.name,
+			record.title_en ?? '',
+			record.year != null ? String(record.year) : '',
+			record.live ?? '',
+			...categories.map((s) => {
+				const law = s.laws.find((l) => l.record.id === record.id);
+				if (!law) return '';
+				return law.articles.length > 0 ? law.articles.join('; ') : '✓';
+			})
+		]);
+
+	return [header, ...rows];
+}
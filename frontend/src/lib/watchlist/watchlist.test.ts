@@ -0,0 +1,111 @@
+/**
+ * Tests for watchlist change detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { transformUkLrtRecord, type UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+import {
+	snapshotRecord,
+	changedFields,
+	createWatch,
+	observeRecord,
+	acknowledgeWatch,
+	hasPendingChanges,
+	pendingChanges,
+	changeKinds,
+	watchWhere
+} from './watchlist';
+
+function law(overrides: Record<string, unknown> = {}): UkLrtRecord {
+	return {
+		...transformUkLrtRecord({
+			id: 'law-1',
+			name: 'UK_uksi_1999_3242',
+			title_en: 'Management of Health and Safety at Work Regulations 1999',
+			live: '✔ In force',
+			latest_amend_date: '2020-01-01',
+			lat_count: 120,
+			...overrides
+		}),
+		amended_by: (overrides.amended_by ?? ['UK_uksi_2006_438']) as UkLrtRecord['amended_by']
+	};
+}
+
+describe('snapshotRecord', () => {
+	it('normalises relationship lists and counts', () => {
+		const snapshot = snapshotRecord({
+			id: 'x',
+			amended_by: '{UK_b,UK_a}',
+			lat_count: '12',
+			live: ''
+		});
+		expect(snapshot.amended_by).toEqual(['UK_a', 'UK_b']);
+		expect(snapshot.lat_count).toBe(12);
+		expect(snapshot.live).toBeNull();
+	});
+
+	it('ignores list order', () => {
+		expect(
+			changedFields(
+				snapshotRecord({ amended_by: ['a', 'b'] }),
+				snapshotRecord({ amended_by: ['b', 'a'] })
+			)
+		).toEqual([]);
+	});
+});
+
+describe('observeRecord', () => {
+	it('returns null when nothing watched changed', () => {
+		const watch = createWatch('org', law());
+		expect(observeRecord(watch, law({ md_description: 'new' }))).toBeNull();
+	});
+
+	it('records pending changes against the acknowledged snapshot', () => {
+		const watch = createWatch('org', law());
+		const next = observeRecord(
+			watch,
+			law({ latest_amend_date: '2024-05-01', amended_by: ['UK_uksi_2006_438', 'UK_uksi_2024_1'] })
+		);
+
+		expect(next).not.toBeNull();
+		expect(hasPendingChanges(next!)).toBe(true);
+		expect(next!.detected_at).not.toBeNull();
+		expect(pendingChanges(next!).map((c) => c.field)).toEqual(['latest_amend_date', 'amended_by']);
+		expect(changeKinds(next!)).toEqual(['amendment']);
+	});
+
+	it('keeps the first detection time while changes accumulate', () => {
+		const watch = createWatch('org', law());
+		const first = observeRecord(watch, law({ live: '❌ Revoked' }))!;
+		const second = observeRecord(first, law({ live: '❌ Revoked', lat_count: 130 }))!;
+
+		expect(second.detected_at).toBe(first.detected_at);
+		expect(changeKinds(second)).toEqual(['status', 'text']);
+	});
+
+	it('clears the alert when a change is reverted before acknowledgement', () => {
+		const watch = createWatch('org', law());
+		const changed = observeRecord(watch, law({ live: '❌ Revoked' }))!;
+		const reverted = observeRecord(changed, law())!;
+
+		expect(hasPendingChanges(reverted)).toBe(false);
+		expect(reverted.detected_at).toBeNull();
+	});
+});
+
+describe('acknowledgeWatch', () => {
+	it('promotes the current state to the snapshot', () => {
+		const changed = observeRecord(createWatch('org', law()), law({ lat_count: 200 }))!;
+		const acknowledged = acknowledgeWatch(changed);
+
+		expect(hasPendingChanges(acknowledged)).toBe(false);
+		expect(acknowledged.snapshot.lat_count).toBe(200);
+		expect(acknowledged.detected_at).toBeNull();
+	});
+});
+
+describe('watchWhere', () => {
+	it('quotes ids', () => {
+		expect(watchWhere(['a', "b'c"])).toBe("id IN ('a', 'b''c')");
+	});
+});
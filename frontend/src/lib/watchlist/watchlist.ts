@@ -0,0 +1,177 @@
+/**
+ * Law watchlist — change detection for laws on an organisation's register
+ *
+ * Each watch keeps the snapshot the user last acknowledged and the latest
+ * snapshot seen from Electric. The difference between the two is the pending
+ * change shown in the inbox; acknowledging promotes current → snapshot.
+ */
+
+import type { UkLrtRecord } from '$lib/electric/uk-lrt-schema';
+import { getFieldLabel } from '$lib/components/parse-review/field-config';
+import { toNameList } from '$lib/lineage/lineage';
+
+export type WatchChangeKind = 'amendment' | 'status' | 'text' | 'metadata';
+
+/** Fields compared between snapshots, and what a change to each means */
+export const WATCHED_FIELDS = {
+	latest_amend_date: 'amendment',
+	amended_by: 'amendment',
+	latest_rescind_date: 'status',
+	rescinded_by: 'status',
+	live: 'status',
+	live_description: 'status',
+	lat_count: 'text',
+	latest_lat_updated_at: 'text',
+	title_en: 'metadata',
+	geo_extent: 'metadata',
+	md_coming_into_force_date: 'metadata'
+} as const satisfies Record<string, WatchChangeKind>;
+
+export type WatchedField = keyof typeof WATCHED_FIELDS;
+
+export const WATCH_KIND_LABELS: Record<WatchChangeKind, string> = {
+	amendment: 'Amended',
+	status: 'Status change',
+	text: 'New text',
+	metadata: 'Details updated'
+};
+
+/** Columns the watch shape needs from uk_lrt */
+export const WATCH_COLUMNS = ['id', 'name', 'title_en', ...Object.keys(WATCHED_FIELDS)];
+
+/** Relationship columns that arrive as text[] and are compared as sorted name lists */
+const LIST_FIELDS = new Set<string>(['amended_by', 'rescinded_by']);
+
+export type WatchSnapshot = Partial<Record<WatchedField, string | number | string[] | null>>;
+
+export interface WatchEntry {
+	org_id: string;
+	record_id: string;
+	name: string;
+	title_en: string;
+	added_at: string;
+	/** Last acknowledged state */
+	snapshot: WatchSnapshot;
+	acknowledged_at: string;
+	/** Latest state seen from sync */
+	current: WatchSnapshot;
+	/** When current first diverged from snapshot (null when up to date) */
+	detected_at: string | null;
+}
+
+export interface FieldChange {
+	field: WatchedField;
+	label: string;
+	kind: WatchChangeKind;
+	before: unknown;
+	after: unknown;
+}
+
+function normalise(field: string, value: unknown): string | number | string[] | null {
+	if (value === undefined || value === null || value === '') return null;
+	if (LIST_FIELDS.has(field)) return toNameList(value).sort();
+	if (typeof value === 'number') return value;
+	if (field === 'lat_count') {
+		const num = Number(value);
+		return isNaN(num) ? null : num;
+	}
+	return String(value);
+}
+
+/**
+ * Capture the watched fields of a record (raw Electric row or transformed record)
+ */
+export function snapshotRecord(record: UkLrtRecord | Record<string, unknown>): WatchSnapshot {
+	const source = record as Record<string, unknown>;
+	const snapshot: WatchSnapshot = {};
+	for (const field of Object.keys(WATCHED_FIELDS) as WatchedField[]) {
+		snapshot[field] = normalise(field, source[field]);
+	}
+	return snapshot;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function changedFields(before: WatchSnapshot, after: WatchSnapshot): WatchedField[] {
+	return (Object.keys(WATCHED_FIELDS) as WatchedField[]).filter(
+		(field) => !sameValue(before[field], after[field])
+	);
+}
+
+export function createWatch(orgId: string, record: UkLrtRecord): WatchEntry {
+	const now = new Date().toISOString();
+	const snapshot = snapshotRecord(record);
+	return {
+		org_id: orgId,
+		record_id: record.id,
+		name: record.name,
+		title_en: record.title_en,
+		added_at: now,
+		snapshot,
+		acknowledged_at: now,
+		current: snapshot,
+		detected_at: null
+	};
+}
+
+/**
+ * Apply an incoming record to a watch.
+ * Returns the updated entry, or null when nothing watched has changed since the last observation.
+ */
+export function observeRecord(
+	entry: WatchEntry,
+	record: UkLrtRecord | Record<string, unknown>
+): WatchEntry | null {
+	const current = snapshotRecord(record);
+	if (changedFields(entry.current, current).length === 0) return null;
+
+	const pending = changedFields(entry.snapshot, current).length > 0;
+	const title = (record as Record<string, unknown>).title_en;
+	return {
+		...entry,
+		title_en: typeof title === 'string' && title ? title : entry.title_en,
+		current,
+		detected_at: pending ? (entry.detected_at ?? new Date().toISOString()) : null
+	};
+}
+
+export function acknowledgeWatch(entry: WatchEntry): WatchEntry {
+	return {
+		...entry,
+		snapshot: entry.current,
+		acknowledged_at: new Date().toISOString(),
+		detected_at: null
+	};
+}
+
+export function hasPendingChanges(entry: WatchEntry): boolean {
+	return changedFields(entry.snapshot, entry.current).length > 0;
+}
+
+export function pendingChanges(entry: WatchEntry): FieldChange[] {
+	return changedFields(entry.snapshot, entry.current).map((field) => ({
+		field,
+		label: getFieldLabel(field),
+		kind: WATCHED_FIELDS[field],
+		before: entry.snapshot[field] ?? null,
+		after: entry.current[field] ?? null
+	}));
+}
+
+/**
+ * Distinct change kinds in a pending change, in display order
+ */
+export function changeKinds(entry: WatchEntry): WatchChangeKind[] {
+	const kinds = new Set(pendingChanges(entry).map((c) => c.kind));
+	return (Object.keys(WATCH_KIND_LABELS) as WatchChangeKind[]).filter((k) => kinds.has(k));
+}
+
+/**
+ * Electric WHERE clause selecting watched records by id
+ */
+export function watchWhere(recordIds: string[]): string {
+	const quoted = Array.from(new Set(recordIds)).map((id) => `'${id.replace(/'/g, "''")}'`);
+	return `id IN (${quoted.join(', ')})`;
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import type { ActivityStreamEntry } from '$lib/api/zenoh';
+import {
+	activityEvents,
+	activityKey,
+	appendCapped,
+	filterActivity,
+	keyExprMatches,
+	ratesByKeyExpr,
+	sparklinePath,
+	toNdjson
+} from './activity';
+
+const now = new Date('2026-01-15T12:00:00Z').getTime();
+const at = (secondsAgo: number) => new Date(now - secondsAgo * 1000).toISOString();
+
+const entries: ActivityStreamEntry[] = [
+	{
+		service: 'taxa_subscriber',
+		event: 'updated',
+		key_expr: 'fractalaw/@t/taxa/UK_uksi_2024_1',
+		metadata: { law_name: 'UK_uksi_2024_1' },
+		timestamp: at(25)
+	},
+	{
+		service: 'data_server',
+		event: 'query',
+		key_expr: 'fractalaw/@t/data/legislation/laws',
+		metadata: { duration_ms: 12 },
+		timestamp: at(15)
+	},
+	{
+		service: 'data_server',
+		event: 'query',
+		key_expr: 'fractalaw/@t/data/legislation/laws',
+		metadata: { duration_ms: 9 },
+		timestamp: at(5)
+	},
+	{
+		service: 'change_notifier',
+		event: 'dropped',
+		key_expr: null,
+		metadata: { table: 'uk_lrt' },
+		timestamp: at(400)
+	}
+];
+
+describe('appendCapped', () => {
+	it('keeps the newest entries up to the cap', () => {
+		expect(appendCapped([1, 2, 3], [4, 5], 4)).toEqual([2, 3, 4, 5]);
+		expect(appendCapped([1], [2], 4)).toEqual([1, 2]);
+	});
+});
+
+describe('keyExprMatches', () => {
+	it('matches Zenoh chunk wildcards', () => {
+		const key = 'fractalaw/@t/data/legislation/laws';
+		expect(keyExprMatches('fractalaw/@t/data/*/laws', key)).toBe(true);
+		expect(keyExprMatches('fractalaw/**', key)).toBe(true);
+		expect(keyExprMatches('fractalaw/**/laws', key)).toBe(true);
+		expect(keyExprMatches('fractalaw/*/laws', key)).toBe(false);
+		expect(keyExprMatches('fractalaw/@t/data/legislation/laws/**', key)).toBe(true);
+	});
+
+	it('falls back to a case-insensitive substring without wildcards', () => {
+		expect(keyExprMatches('LEGISLATION', 'fractalaw/@t/data/legislation/laws')).toBe(true);
+		expect(keyExprMatches('taxa', 'fractalaw/@t/data/legislation/laws')).toBe(false);
+		expect(keyExprMatches('  ', 'anything')).toBe(true);
+	});
+});
+
+describe('filterActivity', () => {
+	it('filters by event type and key expression', () => {
+		expect(filterActivity(entries, { events: ['query'], keyExpr: '' })).toHaveLength(2);
+		expect(filterActivity(entries, { events: [], keyExpr: 'fractalaw/@t/taxa/*' })).toEqual([
+			entries[0]
+		]);
+	});
+
+	it('matches entries without a key expression by service', () => {
+		expect(activityKey(entries[3])).toBe('(change_notifier)');
+		expect(filterActivity(entries, { events: [], keyExpr: 'notifier' })).toEqual([entries[3]]);
+	});
+
+	it('lists the event types present', () => {
+		expect(activityEvents(entries)).toEqual(['dropped', 'query', 'updated']);
+	});
+});
+
+describe('ratesByKeyExpr', () => {
+	it('buckets recent entries per key expression, busiest first', () => {
+		const rates = ratesByKeyExpr(entries, now, { buckets: 3, bucketMs: 10_000 });
+		expect(rates).toEqual([
+			{ keyExpr: 'fractalaw/@t/data/legislation/laws', counts: [0, 1, 1], total: 2 },
+			{ keyExpr: 'fractalaw/@t/taxa/UK_uksi_2024_1', counts: [1, 0, 0], total: 1 }
+		]);
+	});
+});
+
+describe('sparklinePath', () => {
+	it('scales values to the height', () => {
+		expect(sparklinePath([0, 2, 1], 10, 4)).toBe('M0,4 L5,0 L10,2');
+	});
+
+	it('draws flat lines for single or empty series', () => {
+		expect(sparklinePath([3], 10, 4)).toBe('M0,0 L10,0');
+		expect(sparklinePath([], 10, 4)).toBe('');
+	});
+});
+
+describe('toNdjson', () => {
+	it('writes one JSON object per line', () => {
+		const lines = toNdjson(entries.slice(0, 2)).split('\n');
+		expect(lines).toHaveLength(3);
+		expect(lines[2]).toBe('');
+		expect(JSON.parse(lines[1]).metadata).toEqual({ duration_ms: 12 });
+	});
+});
@@ -0,0 +1,118 @@
+/**
+ * Live Zenoh activity feed
+ *
+ * The admin Zenoh page keeps a capped window of streamed activity entries.
+ * These helpers filter that window by event type and key expression, bucket
+ * it into per-key-expression rates for sparklines, and serialise it as NDJSON.
+ */
+
+import type { ActivityStreamEntry } from '$lib/api/zenoh';
+
+export interface ActivityFilter {
+	/** Event types to show; empty shows all */
+	events: string[];
+	/** Zenoh key expression (`*` one chunk, `**` any chunks) or plain substring */
+	keyExpr: string;
+}
+
+export interface KeyExprRate {
+	keyExpr: string;
+	/** Entries per bucket, oldest first */
+	counts: number[];
+	total: number;
+}
+
+/** Append entries, keeping only the newest `max` */
+export function appendCapped<T>(entries: T[], added: T[], max: number): T[] {
+	const next = entries.concat(added);
+	return next.length > max ? next.slice(next.length - max) : next;
+}
+
+/** Key an entry is grouped under: its key expression, or the service when it has none */
+export function activityKey(entry: ActivityStreamEntry): string {
+	return entry.key_expr || `(${entry.service})`;
+}
+
+function chunksMatch(pattern: string[], key: string[]): boolean {
+	if (pattern.length === 0) return key.length === 0;
+	const [head, ...rest] = pattern;
+	if (head === '**') {
+		// Zero chunks, or swallow one and try again
+		return chunksMatch(rest, key) || (key.length > 0 && chunksMatch(pattern, key.slice(1)));
+	}
+	if (key.length === 0) return false;
+	return (head === '*' || head === key[0]) && chunksMatch(rest, key.slice(1));
+}
+
+/**
+ * Whether a key matches a filter. Patterns with `*` follow Zenoh's chunk
+ * wildcards; anything else is a case-insensitive substring match.
+ */
+export function keyExprMatches(pattern: string, key: string): boolean {
+	const trimmed = pattern.trim();
+	if (!trimmed) return true;
+	if (!trimmed.includes('*')) return key.toLowerCase().includes(trimmed.toLowerCase());
+	return chunksMatch(trimmed.split('/'), key.split('/'));
+}
+
+export function filterActivity(
+	entries: ActivityStreamEntry[],
+	filter: ActivityFilter
+): ActivityStreamEntry[] {
+	return entries.filter(
+		(entry) =>
+			(filter.events.length === 0 || filter.events.includes(entry.event)) &&
+			keyExprMatches(filter.keyExpr, activityKey(entry))
+	);
+}
+
+/** Event types present in the window, alphabetically */
+export function activityEvents(entries: ActivityStreamEntry[]): string[] {
+	return [...new Set(entries.map((e) => e.event))].sort();
+}
+
+/**
+ * Count entries per key expression in fixed-width time buckets ending at
+ * `now`, busiest key expression first. Entries older than the window are ignored.
+ */
+export function ratesByKeyExpr(
+	entries: ActivityStreamEntry[],
+	now: number,
+	{ buckets = 30, bucketMs = 10_000 }: { buckets?: number; bucketMs?: number } = {}
+): KeyExprRate[] {
+	const start = now - buckets * bucketMs;
+	const rates = new Map<string, KeyExprRate>();
+
+	for (const entry of entries) {
+		const ts = new Date(entry.timestamp).getTime();
+		if (Number.isNaN(ts) || ts < start || ts > now) continue;
+		const key = activityKey(entry);
+		let rate = rates.get(key);
+		if (!rate) {
+			rate = { keyExpr: key, counts: new Array(buckets).fill(0), total: 0 };
+			rates.set(key, rate);
+		}
+		rate.counts[Math.min(buckets - 1, Math.floor((ts - start) / bucketMs))]++;
+		rate.total++;
+	}
+
+	return [...rates.values()].sort(
+		(a, b) => b.total - a.total || a.keyExpr.localeCompare(b.keyExpr)
+	);
+}
+
+/** SVG path for a sparkline, scaled so the largest value touches the top */
+export function sparklinePath(values: number[], width: number, height: number): string {
+	if (values.length === 0) return '';
+	const max = Math.max(...values, 1);
+	const step = values.length > 1 ? width / (values.length - 1) : 0;
+	const round = (n: number) => Math.round(n * 100) / 100;
+	const points = values.map((v, i) => `${round(i * step)},${round(height - (v / max) * height)}`);
+	if (values.length === 1) points.push(`${width},${points[0].split(',')[1]}`);
+	return `M${points.join(' L')}`;
+}
+
+/** One JSON object per line, as captured */
+export function toNdjson(entries: ActivityStreamEntry[]): string {
+	return entries.map((entry) => JSON.stringify(entry) + '\n').join('');
+}
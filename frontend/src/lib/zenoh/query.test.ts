@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildKeyExpr, checkReply, describeQueryable, queryableKind } from './query';
+
+const prefix = 'fractalaw/@dev/data/legislation';
+
+const latRow = {
+	section_id: 'UK_uksi_2024_1:s.1',
+	law_id: 'uuid-1',
+	law_name: 'UK_uksi_2024_1',
+	section_type: 'section',
+	text: 'Citation and commencement',
+	hierarchy_path: 's.1',
+	depth: 1,
+	sort_key: '001',
+	position: 1,
+	extent_code: 'E+W',
+	amendment_count: null,
+	modification_count: null,
+	commencement_count: null,
+	updated_at: '2026-01-15T12:00:00Z'
+};
+
+describe('queryables', () => {
+	it('recognises DataServer key expressions', () => {
+		expect(queryableKind(`${prefix}/lrt`)).toBe('lrt_all');
+		expect(queryableKind(`${prefix}/lrt/*`)).toBe('lrt');
+		expect(queryableKind(`${prefix}/lat/UK_uksi_2024_1`)).toBe('lat');
+		expect(queryableKind(`${prefix}/amendments/*`)).toBe('amendments');
+		expect(queryableKind('fractalaw/@dev/events/sync')).toBeNull();
+	});
+
+	it('fills the law name into wildcard templates', () => {
+		expect(describeQueryable(`${prefix}/lat/*`).needsLaw).toBe(true);
+		expect(buildKeyExpr(`${prefix}/lat/*`, ' UK_uksi_2024_1 ')).toBe(
+			`${prefix}/lat/UK_uksi_2024_1`
+		);
+		expect(buildKeyExpr(`${prefix}/lrt`, 'ignored')).toBe(`${prefix}/lrt`);
+	});
+});
+
+describe('checkReply', () => {
+	it('checks LAT replies against LatRecord', () => {
+		const check = checkReply(`${prefix}/lat/UK_uksi_2024_1`, [latRow, latRow]);
+		expect(check.schema).toBe('LatRecord');
+		expect(check.rows).toBe(2);
+		// The DataServer's JSON omits language, which LatRecord requires
+		expect(check.issues).toEqual([
+			{ field: 'language', kind: 'missing', expected: 'string', rows: 2, firstRow: 0 }
+		]);
+	});
+
+	it('expects a single object for one LRT record', () => {
+		const check = checkReply(`${prefix}/lrt/UK_uksi_2024_1`, [{}]);
+		expect(check.schema).toBe('UkLrtRecord');
+		expect(check.issues[0]).toMatchObject({ field: '(reply)', expected: 'object' });
+	});
+
+	it('surfaces error replies instead of checking them', () => {
+		expect(checkReply(`${prefix}/lrt/UK_nope`, { error: 'not_found' })).toEqual({
+			schema: null,
+			rows: 0,
+			issues: [],
+			error: 'not_found'
+		});
+	});
+
+	it('skips the check for queryables without a record schema', () => {
+		const check = checkReply(`${prefix}/amendments/UK_uksi_2024_1`, [{ id: 'a' }]);
+		expect(check).toEqual({ schema: null, rows: 1, issues: [], error: null });
+	});
+});
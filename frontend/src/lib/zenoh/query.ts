@@ -0,0 +1,93 @@
+/**
+ * Zenoh query console
+ *
+ * The DataServer advertises its queryables as key expressions with a
+ * trailing `*` for the law name. The console fills that in from a law
+ * picker, sends the query through the backend, and checks the JSON reply
+ * against the record type the queryable is meant to return.
+ */
+
+import {
+	checkRecords,
+	type RecordSchema,
+	type SchemaIssueSummary
+} from '$lib/electric/record-schema';
+import { UK_LRT_RECORD_SCHEMA } from '$lib/electric/uk-lrt-schema';
+import { LAT_RECORD_SCHEMA } from '$lib/electric/lat-schema';
+
+export type QueryableKind = 'lrt_all' | 'lrt' | 'lat' | 'amendments';
+
+export interface Queryable {
+	template: string;
+	kind: QueryableKind | null;
+	/** Template ends in a `*` chunk to fill with a law name */
+	needsLaw: boolean;
+}
+
+export interface ReplyCheck {
+	/** Record type the reply was checked against, or null if there is none */
+	schema: string | null;
+	rows: number;
+	issues: SchemaIssueSummary[];
+	/** Error message the DataServer replied with instead of data */
+	error: string | null;
+}
+
+const SCHEMAS: Partial<Record<QueryableKind, { name: string; schema: RecordSchema<unknown> }>> = {
+	lrt_all: { name: 'UkLrtRecord', schema: UK_LRT_RECORD_SCHEMA as RecordSchema<unknown> },
+	lrt: { name: 'UkLrtRecord', schema: UK_LRT_RECORD_SCHEMA as RecordSchema<unknown> },
+	lat: { name: 'LatRecord', schema: LAT_RECORD_SCHEMA as RecordSchema<unknown> }
+};
+
+/** Which DataServer queryable a key expression (template or concrete) addresses */
+export function queryableKind(keyExpr: string): QueryableKind | null {
+	const match = keyExpr.match(/\/data\/legislation\/(lrt|lat|amendments)(\/[^/]+)?$/);
+	if (!match) return null;
+	const [, table, law] = match;
+	if (table === 'lrt') return law ? 'lrt' : 'lrt_all';
+	return law ? (table as QueryableKind) : null;
+}
+
+export function describeQueryable(template: string): Queryable {
+	return { template, kind: queryableKind(template), needsLaw: template.endsWith('/*') };
+}
+
+/** Fill a template's trailing `*` with a law name */
+export function buildKeyExpr(template: string, lawName: string): string {
+	return template.endsWith('/*') ? `${template.slice(0, -1)}${lawName.trim()}` : template;
+}
+
+function replyError(payload: unknown): string | null {
+	if (payload && typeof payload === 'object' && !Array.isArray(payload)) {
+		const error = (payload as Record<string, unknown>).error;
+		if (typeof error === 'string') return error;
+	}
+	return null;
+}
+
+/**
+ * Check a reply payload against the queryable's record type. Single-record
+ * queryables reply with an object, the rest with an array.
+ */
+export function checkReply(keyExpr: string, payload: unknown): ReplyCheck {
+	const kind = queryableKind(keyExpr);
+	const error = replyError(payload);
+	if (error) return { schema: null, rows: 0, issues: [], error };
+
+	const rows = Array.isArray(payload) ? payload : [payload];
+	const target = kind ? SCHEMAS[kind] : undefined;
+	if (!target) return { schema: null, rows: rows.length, issues: [], error: null };
+
+	const issues = checkRecords(target.schema, rows);
+	if (kind === 'lrt' && Array.isArray(payload)) {
+		issues.unshift({
+			field: '(reply)',
+			kind: 'type',
+			expected: 'object',
+			actual: 'array',
+			rows: 1,
+			firstRow: 0
+		});
+	}
+	return { schema: target.name, rows: rows.length, issues, error: null };
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ContractError, QueryError, createClient } from './client.js';
+import { createMockDataServer } from './mock.js';
+import type { AnnotationRecord, LatRecord, UkLrtRecord } from './records.js';
+
+const updated_at = '2026-02-26T06:32:22Z';
+
+function lrt(name: string, overrides: Partial<UkLrtRecord> = {}): UkLrtRecord {
+	return {
+		id: `id-${name}`,
+		name,
+		title_en: `Title of ${name}`,
+		family: 'OH&S: Occupational / Personal Safety',
+		family_ii: null,
+		year: 1974,
+		number: '37',
+		type_desc: 'Act of Parliament',
+		type_code: 'ukpga',
+		type_class: 'Primary',
+		domain: ['Health & Safety'],
+		geo_extent: 'E+W+S',
+		geo_region: ['England', 'Wales', 'Scotland'],
+		live: '✔ In force',
+		function: { Making: true },
+		is_making: true,
+		is_amending: false,
+		is_rescinding: false,
+		is_enacting: true,
+		is_commencing: false,
+		duty_holder: null,
+		power_holder: null,
+		rights_holder: null,
+		responsibility_holder: null,
+		purpose: null,
+		duty_type: null,
+		role: null,
+		popimar: null,
+		amending: [],
+		amended_by: ['UK_uksi_2015_51'],
+		rescinding: [],
+		rescinded_by: [],
+		enacting: [],
+		enacted_by: [],
+		leg_gov_uk_url: 'https://www.legislation.gov.uk/ukpga/1974/37',
+		updated_at,
+		...overrides
+	};
+}
+
+function section(law_name: string, sort_key: string): LatRecord {
+	return {
+		section_id: `${law_name}:${sort_key}`,
+		law_id: `id-${law_name}`,
+		law_name,
+		section_type: 'section',
+		text: 'Text',
+		hierarchy_path: null,
+		depth: 1,
+		sort_key,
+		position: 1,
+		extent_code: null,
+		amendment_count: 0,
+		modification_count: 0,
+		commencement_count: 0,
+		updated_at
+	};
+}
+
+const annotation: AnnotationRecord = {
+	id: 'UK_ukpga_1974_37:amendment:1',
+	law_id: 'id-UK_ukpga_1974_37',
+	law_name: 'UK_ukpga_1974_37',
+	code: 'F1',
+	code_type: 'amendment',
+	text: 'Words substituted',
+	source: 'lat_parser',
+	affected_sections: ['UK_ukpga_1974_37:s.2(1)'],
+	updated_at
+};
+
+function setup(options = {}) {
+	const server = createMockDataServer({
+		lrt: [lrt('UK_uksi_2015_51'), lrt('UK_ukpga_1974_37')],
+		lat: [
+			section('UK_ukpga_1974_37', '002'),
+			section('UK_ukpga_1974_37', '001'),
+			section('UK_uksi_2015_51', '001')
+		],
+		amendments: [annotation]
+	});
+	return { server, client: createClient(server, options) };
+}
+
+describe('createClient', () => {
+	it('queries the queryables as JSON and returns typed records', async () => {
+		const { server, client } = setup();
+
+		const all = await client.getAllLrt();
+		expect(all.map((r) => r.name)).toEqual(['UK_ukpga_1974_37', 'UK_uksi_2015_51']);
+
+		const sections = await client.getLat('UK_ukpga_1974_37');
+		expect(sections.map((s) => s.sort_key)).toEqual(['001', '002']);
+
+		expect(await client.getAmendments('UK_ukpga_1974_37')).toEqual([annotation]);
+		expect(await client.getAmendments('UK_uksi_2015_51')).toEqual([]);
+		expect(server.queries[0]).toBe('fractalaw/@dev/data/legislation/lrt?format=json');
+	});
+
+	it('returns null for a law that is not in the register', async () => {
+		const { client } = setup();
+		expect((await client.getLrt('UK_ukpga_1974_37'))?.year).toBe(1974);
+		expect(await client.getLrt('UK_ukpga_1900_1')).toBeNull();
+	});
+
+	it('throws QueryError when nothing answers', async () => {
+		const server = createMockDataServer({}, { tenant: 'other' });
+		await expect(createClient(server).getLat('UK_ukpga_1974_37')).rejects.toEqual(
+			new QueryError('fractalaw/@dev/data/legislation/lat/UK_ukpga_1974_37', 'no_reply')
+		);
+	});
+
+	it('throws ContractError on replies that break the schema in strict mode', async () => {
+		const { server, client } = setup();
+		server.setData({ lrt: [lrt('UK_ukpga_1974_37', { year: '1974' as unknown as number })] });
+
+		const error = await client.getLrt('UK_ukpga_1974_37').catch((e) => e);
+		expect(error).toBeInstanceOf(ContractError);
+		expect(error.issues).toEqual([{ path: '$.year', message: 'expected integer, got string' }]);
+	});
+
+	it('reports contract issues without throwing in warn mode', async () => {
+		const onContractIssues = vi.fn();
+		const { server, client } = setup({ validation: 'warn', onContractIssues });
+		server.setData({ lrt: [lrt('UK_ukpga_1974_37', { name: null as unknown as string })] });
+
+		await client.getAllLrt();
+		expect(onContractIssues).toHaveBeenCalledWith('fractalaw/@dev/data/legislation/lrt', [
+			{ path: '$[0].name', message: 'expected string, got null' }
+		]);
+	});
+
+	it('delivers valid change notifications and drops invalid ones', () => {
+		const onContractIssues = vi.fn();
+		const { server, client } = setup({ onContractIssues });
+		const handler = vi.fn();
+		const unsubscribe = client.onSync(handler);
+
+		server.publishSync({ table: 'lat', action: 'parse_complete', metadata: { count: 3 } });
+		server.publish(client.keys.sync(), '{"table":"users","action":"x","metadata":{}}');
+		server.publish(client.keys.sync(), 'not json');
+
+		expect(handler).toHaveBeenCalledTimes(1);
+		expect(handler.mock.calls[0][0]).toMatchObject({ table: 'lat', metadata: { count: 3 } });
+		expect(onContractIssues).toHaveBeenCalledTimes(2);
+
+		unsubscribe();
+		server.publishSync({ table: 'lat', action: 'parse_complete', metadata: {} });
+		expect(handler).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,176 @@
+/**
+ * Typed client for the legislation queryables and change notifications
+ *
+ * The client is transport-agnostic: pass anything that can issue a Zenoh
+ * `get` and declare a subscriber (a zenoh-ts session adapter in production,
+ * `createMockDataServer` in tests). Payloads are JSON; every reply is
+ * validated against its schema before it is returned.
+ */
+
+import { keys, type Keys } from './keys.js';
+import {
+	ANNOTATION_RECORD,
+	CHANGE_NOTIFICATION,
+	LAT_RECORD,
+	UK_LRT_RECORD,
+	type AnnotationRecord,
+	type ChangeNotification,
+	type LatRecord,
+	type UkLrtRecord
+} from './records.js';
+import { validate, validateArray, type RecordSchema, type ValidationIssue } from './schema.js';
+
+/** Raw payload bytes, or an already-decoded string */
+export type Payload = Uint8Array | string;
+
+export interface ZenohTransport {
+	/** Issue a query and collect every reply payload */
+	get(selector: string): Promise<Payload[]>;
+	/** Declare a subscriber; returns a function that undeclares it */
+	subscribe(keyExpr: string, handler: (payload: Payload) => void): () => void;
+}
+
+/**
+ * - `strict`: throw `ContractError` on a reply that doesn't match its schema
+ * - `warn`: return it anyway and report the issues to `onContractIssues`
+ * - `off`: skip validation
+ */
+export type ValidationMode = 'strict' | 'warn' | 'off';
+
+export interface ClientOptions {
+	tenant?: string;
+	validation?: ValidationMode;
+	onContractIssues?: (keyExpr: string, issues: ValidationIssue[]) => void;
+}
+
+/** A reply didn't match the published schema */
+export class ContractError extends Error {
+	constructor(
+		public readonly keyExpr: string,
+		public readonly issues: ValidationIssue[]
+	) {
+		const first = issues[0];
+		super(
+			`Reply on ${keyExpr} does not match the contract: ${first.path} ${first.message}` +
+				(issues.length > 1 ? ` (and ${issues.length - 1} more)` : '')
+		);
+		this.name = 'ContractError';
+	}
+}
+
+/** The queryable replied with `{"error": ...}`, or nothing replied at all */
+export class QueryError extends Error {
+	constructor(
+		public readonly keyExpr: string,
+		/** `error` from the reply (e.g. `not_found`), or `no_reply` */
+		public readonly reason: string
+	) {
+		super(`Query ${keyExpr} failed: ${reason}`);
+		this.name = 'QueryError';
+	}
+}
+
+const decoder = new TextDecoder();
+
+/** Decode a JSON payload */
+export function decodePayload(payload: Payload): unknown {
+	return JSON.parse(typeof payload === 'string' ? payload : decoder.decode(payload));
+}
+
+function errorReason(value: unknown): string | null {
+	if (value && typeof value === 'object' && !Array.isArray(value)) {
+		const error = (value as Record<string, unknown>).error;
+		if (typeof error === 'string') return error;
+	}
+	return null;
+}
+
+export interface LegislationClient {
+	keys: Keys;
+	/** All LRT records (~19K; query once, then follow `onSync`) */
+	getAllLrt(): Promise<UkLrtRecord[]>;
+	/** One LRT record, or null if the law isn't in the register */
+	getLrt(lawName: string): Promise<UkLrtRecord | null>;
+	/** LAT sections for a law, in document order */
+	getLat(lawName: string): Promise<LatRecord[]>;
+	/** Amendment annotations for a law */
+	getAmendments(lawName: string): Promise<AnnotationRecord[]>;
+	/** Follow change notifications; returns an unsubscribe function */
+	onSync(handler: (notification: ChangeNotification) => void): () => void;
+}
+
+export function createClient(
+	transport: ZenohTransport,
+	options: ClientOptions = {}
+): LegislationClient {
+	const k = keys(options.tenant);
+	const mode = options.validation ?? 'strict';
+
+	function check<T>(keyExpr: string, issues: () => ValidationIssue[], value: unknown): T {
+		if (mode !== 'off') {
+			const found = issues();
+			if (found.length > 0) {
+				if (mode === 'strict') throw new ContractError(keyExpr, found);
+				options.onContractIssues?.(keyExpr, found);
+			}
+		}
+		return value as T;
+	}
+
+	/** The DataServer sends exactly one final reply per query */
+	async function query(keyExpr: string): Promise<unknown> {
+		const replies = await transport.get(`${keyExpr}?format=json`);
+		if (replies.length === 0) throw new QueryError(keyExpr, 'no_reply');
+		const value = decodePayload(replies[0]);
+		const reason = errorReason(value);
+		if (reason) throw new QueryError(keyExpr, reason);
+		return value;
+	}
+
+	async function queryArray<T>(keyExpr: string, schema: RecordSchema): Promise<T[]> {
+		const value = await query(keyExpr);
+		return check<T[]>(keyExpr, () => validateArray(schema, value), value);
+	}
+
+	return {
+		keys: k,
+
+		getAllLrt: () => queryArray<UkLrtRecord>(k.lrtAll(), UK_LRT_RECORD),
+
+		async getLrt(lawName) {
+			const keyExpr = k.lrt(lawName);
+			try {
+				const value = await query(keyExpr);
+				return check<UkLrtRecord>(keyExpr, () => validate(UK_LRT_RECORD, value), value);
+			} catch (e) {
+				if (e instanceof QueryError && e.reason === 'not_found') return null;
+				throw e;
+			}
+		},
+
+		getLat: (lawName) => queryArray<LatRecord>(k.lat(lawName), LAT_RECORD),
+
+		getAmendments: (lawName) =>
+			queryArray<AnnotationRecord>(k.amendments(lawName), ANNOTATION_RECORD),
+
+		onSync(handler) {
+			const keyExpr = k.sync();
+			return transport.subscribe(keyExpr, (payload) => {
+				let value: unknown;
+				try {
+					value = decodePayload(payload);
+				} catch {
+					options.onContractIssues?.(keyExpr, [{ path: '$', message: 'payload is not JSON' }]);
+					return;
+				}
+				// A subscriber has no caller to throw to; drop invalid notifications
+				const issues = mode === 'off' ? [] : validate(CHANGE_NOTIFICATION, value);
+				if (issues.length > 0) {
+					options.onContractIssues?.(keyExpr, issues);
+					if (mode === 'strict') return;
+				}
+				handler(value as ChangeNotification);
+			});
+		}
+	};
+}
@@ -0,0 +1,73 @@
+/**
+ * Drift check against the publisher
+ *
+ * records.ts restates the payloads the backend serializes. These tests read
+ * the Elixir sources in this repository and fail when a field or enum value
+ * is added, removed or renamed on one side only.
+ */
+
+import { readFileSync } from 'node:fs';
+import { describe, it, expect } from 'vitest';
+import {
+	ANNOTATION_RECORD,
+	CHANGE_NOTIFICATION,
+	CODE_TYPES,
+	LAT_RECORD,
+	SECTION_TYPES,
+	UK_LRT_RECORD
+} from './records.js';
+
+const BACKEND = new URL('../../backend/lib/sertantai_legal/', import.meta.url);
+
+function source(path: string): string {
+	return readFileSync(new URL(path, BACKEND), 'utf8');
+}
+
+/** Keys of the map literal that follows `marker` */
+function mapKeys(code: string, marker: string): string[] {
+	const start = code.indexOf(marker);
+	if (start === -1) throw new Error(`${marker} not found`);
+	const open = code.indexOf('%{', start);
+	const close = code.indexOf('}', open);
+	return [...code.slice(open + 2, close).matchAll(/^\s*(\w+):/gm)].map((m) => m[1]).sort();
+}
+
+/** Values of an `Ash.Type.Enum` module */
+function enumValues(code: string): string[] {
+	const list = code.slice(code.indexOf('values: ['), code.indexOf(']'));
+	return [...list.matchAll(/:(\w+)/g)].map((m) => m[1]);
+}
+
+const sorted = (schema: object) => Object.keys(schema).sort();
+
+describe('payload schemas match the backend serializers', () => {
+	const dataServer = source('zenoh/data_server.ex');
+
+	it('UK_LRT_RECORD', () => {
+		expect(sorted(UK_LRT_RECORD)).toEqual(mapKeys(dataServer, 'defp serialize_lrt('));
+	});
+
+	it('LAT_RECORD', () => {
+		expect(sorted(LAT_RECORD)).toEqual(mapKeys(dataServer, 'defp serialize_lat('));
+	});
+
+	it('ANNOTATION_RECORD', () => {
+		expect(sorted(ANNOTATION_RECORD)).toEqual(mapKeys(dataServer, 'defp serialize_amendment('));
+	});
+
+	it('CHANGE_NOTIFICATION', () => {
+		expect(sorted(CHANGE_NOTIFICATION)).toEqual(
+			mapKeys(source('zenoh/change_notifier.ex'), 'Jason.encode!(')
+		);
+	});
+});
+
+describe('enums match the backend types', () => {
+	it('SECTION_TYPES', () => {
+		expect([...SECTION_TYPES]).toEqual(enumValues(source('legal/lat/section_type.ex')));
+	});
+
+	it('CODE_TYPES', () => {
+		expect([...CODE_TYPES]).toEqual(enumValues(source('legal/amendment_annotation/code_type.ex')));
+	});
+});
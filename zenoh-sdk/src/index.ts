@@ -0,0 +1,61 @@
+/**
+ * sertantai-legal Zenoh SDK
+ *
+ * Types, runtime validators and key-expression builders for the payloads
+ * sertantai-legal publishes over Zenoh (see docs/ZENOH-SPEC.md), a typed
+ * client, and a mock data server for consumer tests.
+ */
+
+export {
+	validate,
+	validateArray,
+	isValid,
+	type FieldSpec,
+	type FieldType,
+	type Infer,
+	type RecordSchema,
+	type ValidationIssue
+} from './schema.js';
+
+export {
+	UK_LRT_RECORD,
+	LAT_RECORD,
+	ANNOTATION_RECORD,
+	CHANGE_NOTIFICATION,
+	ERROR_REPLY,
+	SECTION_TYPES,
+	CODE_TYPES,
+	SYNC_TABLES,
+	type UkLrtRecord,
+	type LatRecord,
+	type AnnotationRecord,
+	type ChangeNotification,
+	type ErrorReply,
+	type SectionType,
+	type CodeType,
+	type SyncTable
+} from './records.js';
+
+export {
+	keys,
+	parseKey,
+	isLawName,
+	DEFAULT_TENANT,
+	type Keys,
+	type ParsedKey,
+	type DataKind
+} from './keys.js';
+
+export {
+	createClient,
+	decodePayload,
+	ContractError,
+	QueryError,
+	type ClientOptions,
+	type LegislationClient,
+	type Payload,
+	type ValidationMode,
+	type ZenohTransport
+} from './client.js';
+
+export { createMockDataServer, type MockData, type MockDataServer } from './mock.js';
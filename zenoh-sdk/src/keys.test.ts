@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { isLawName, keys, parseKey } from './keys.js';
+
+describe('keys', () => {
+	const k = keys('acme');
+
+	it('builds key expressions under the tenant namespace', () => {
+		expect(k.lrtAll()).toBe('fractalaw/@acme/data/legislation/lrt');
+		expect(k.lrt('UK_ukpga_1974_37')).toBe('fractalaw/@acme/data/legislation/lrt/UK_ukpga_1974_37');
+		expect(k.lat('UK_uksi_2015_51')).toBe('fractalaw/@acme/data/legislation/lat/UK_uksi_2015_51');
+		expect(k.amendments('UK_ukpga_2010_15')).toBe(
+			'fractalaw/@acme/data/legislation/amendments/UK_ukpga_2010_15'
+		);
+		expect(k.sync()).toBe('fractalaw/@acme/events/sync');
+	});
+
+	it('defaults to the dev tenant', () => {
+		expect(keys().sync()).toBe('fractalaw/@dev/events/sync');
+	});
+
+	it('refuses law names that would widen the key expression', () => {
+		expect(isLawName('UK_ukpga_1974_37')).toBe(true);
+		for (const bad of ['', '*', 'UK/ukpga', 'UK_**', 'a?b']) {
+			expect(isLawName(bad)).toBe(false);
+		}
+		expect(() => k.lat('*')).toThrow('Invalid law name');
+		expect(() => keys('a/b')).toThrow('Invalid tenant');
+	});
+});
+
+describe('parseKey', () => {
+	it('round-trips the builders', () => {
+		const k = keys('dev');
+		expect(parseKey(k.lrtAll())).toEqual({ tenant: 'dev', kind: 'lrt_all', lawName: null });
+		expect(parseKey(`${k.lat('UK_uksi_2015_51')}?format=json`)).toEqual({
+			tenant: 'dev',
+			kind: 'lat',
+			lawName: 'UK_uksi_2015_51'
+		});
+		expect(parseKey(k.sync())).toEqual({ tenant: 'dev', kind: 'sync', lawName: null });
+	});
+
+	it('rejects keys outside the contract', () => {
+		expect(parseKey('fractalaw/@dev/data/legislation/lat')).toBeNull();
+		expect(parseKey('fractalaw/@dev/data/other/lrt')).toBeNull();
+	});
+});
@@ -0,0 +1,69 @@
+/**
+ * Key expression builders
+ *
+ * Everything lives under the hermetic tenant namespace `fractalaw/@{tenant}`.
+ */
+
+export const DEFAULT_TENANT = 'dev';
+
+export type DataKind = 'lrt_all' | 'lrt' | 'lat' | 'amendments';
+
+export interface ParsedKey {
+	tenant: string;
+	kind: DataKind | 'sync';
+	/** Law the key addresses, for per-law queryables */
+	lawName: string | null;
+}
+
+/** Characters that would turn a law name into a wildcard or extra chunk */
+const RESERVED = /[/*?#$]/;
+
+/** Whether a law name is safe to put in a key expression */
+export function isLawName(lawName: string): boolean {
+	return lawName !== '' && !RESERVED.test(lawName);
+}
+
+function lawChunk(lawName: string): string {
+	if (!isLawName(lawName)) throw new Error(`Invalid law name for a key expression: "${lawName}"`);
+	return lawName;
+}
+
+export function keys(tenant: string = DEFAULT_TENANT) {
+	if (!isLawName(tenant)) throw new Error(`Invalid tenant: "${tenant}"`);
+	const root = `fractalaw/@${tenant}`;
+	const data = `${root}/data/legislation`;
+
+	return {
+		root,
+		/** All LRT records */
+		lrtAll: () => `${data}/lrt`,
+		/** One LRT record */
+		lrt: (lawName: string) => `${data}/lrt/${lawChunk(lawName)}`,
+		/** LAT sections for a law */
+		lat: (lawName: string) => `${data}/lat/${lawChunk(lawName)}`,
+		/** Amendment annotations for a law */
+		amendments: (lawName: string) => `${data}/amendments/${lawChunk(lawName)}`,
+		/** Change notifications */
+		sync: () => `${root}/events/sync`,
+		/** The queryables as declared, with `*` for the law name */
+		queryables: () => [`${data}/lrt`, `${data}/lrt/*`, `${data}/lat/*`, `${data}/amendments/*`]
+	};
+}
+
+export type Keys = ReturnType<typeof keys>;
+
+/** Parse a concrete key expression back into tenant, kind and law name */
+export function parseKey(keyExpr: string): ParsedKey | null {
+	const key = keyExpr.split('?')[0];
+	const sync = key.match(/^fractalaw\/@([^/]+)\/events\/sync$/);
+	if (sync) return { tenant: sync[1], kind: 'sync', lawName: null };
+
+	const data = key.match(
+		/^fractalaw\/@([^/]+)\/data\/legislation\/(lrt|lat|amendments)(?:\/([^/]+))?$/
+	);
+	if (!data) return null;
+	const [, tenant, table, lawName] = data;
+	if (table === 'lrt' && !lawName) return { tenant, kind: 'lrt_all', lawName: null };
+	if (!lawName) return null;
+	return { tenant, kind: table as DataKind, lawName };
+}
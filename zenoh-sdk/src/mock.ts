@@ -0,0 +1,93 @@
+/**
+ * In-memory stand-in for the sertantai-legal DataServer and ChangeNotifier
+ *
+ * Implements `ZenohTransport` and answers queries the way the real server
+ * does (routing, sort order, `{"error":"not_found"}`, empty arrays), so
+ * consumers can test against the contract without a Zenoh mesh.
+ */
+
+import type { Payload, ZenohTransport } from './client.js';
+import { DEFAULT_TENANT, parseKey } from './keys.js';
+import type { AnnotationRecord, ChangeNotification, LatRecord, UkLrtRecord } from './records.js';
+
+export interface MockData {
+	lrt?: UkLrtRecord[];
+	lat?: LatRecord[];
+	amendments?: AnnotationRecord[];
+}
+
+export interface MockDataServer extends ZenohTransport {
+	/** Selectors queried so far, in order */
+	readonly queries: string[];
+	/** Replace the served records for each table given */
+	setData(data: MockData): void;
+	/** Publish on `events/sync` to every subscriber */
+	publishSync(notification: Omit<ChangeNotification, 'timestamp'> & { timestamp?: string }): void;
+	/** Publish a raw payload on any key expression, e.g. to test malformed messages */
+	publish(keyExpr: string, payload: Payload): void;
+}
+
+export function createMockDataServer(
+	data: MockData = {},
+	{ tenant = DEFAULT_TENANT }: { tenant?: string } = {}
+): MockDataServer {
+	let lrt: UkLrtRecord[] = [];
+	let lat: LatRecord[] = [];
+	let amendments: AnnotationRecord[] = [];
+	const subscribers = new Map<string, Set<(payload: Payload) => void>>();
+	const queries: string[] = [];
+
+	function setData(next: MockData) {
+		if (next.lrt) lrt = [...next.lrt].sort((a, b) => a.name.localeCompare(b.name));
+		if (next.lat)
+			lat = [...next.lat].sort((a, b) => (a.sort_key ?? '').localeCompare(b.sort_key ?? ''));
+		if (next.amendments) amendments = [...next.amendments].sort((a, b) => a.id.localeCompare(b.id));
+	}
+
+	function answer(selector: string): unknown {
+		const parsed = parseKey(selector);
+		// Other tenants are hermetically isolated: nothing answers
+		if (!parsed || parsed.tenant !== tenant || parsed.kind === 'sync') return undefined;
+
+		switch (parsed.kind) {
+			case 'lrt_all':
+				return lrt;
+			case 'lrt':
+				return lrt.find((r) => r.name === parsed.lawName) ?? { error: 'not_found' };
+			case 'lat':
+				return lat.filter((r) => r.law_name === parsed.lawName);
+			case 'amendments':
+				return amendments.filter((r) => r.law_name === parsed.lawName);
+		}
+	}
+
+	function publish(keyExpr: string, payload: Payload) {
+		subscribers.get(keyExpr)?.forEach((handler) => handler(payload));
+	}
+
+	setData(data);
+
+	return {
+		queries,
+		setData,
+		publish,
+
+		async get(selector) {
+			queries.push(selector);
+			const reply = answer(selector);
+			return reply === undefined ? [] : [JSON.stringify(reply)];
+		},
+
+		subscribe(keyExpr, handler) {
+			const handlers = subscribers.get(keyExpr) ?? new Set();
+			handlers.add(handler);
+			subscribers.set(keyExpr, handlers);
+			return () => handlers.delete(handler);
+		},
+
+		publishSync(notification) {
+			const payload = { timestamp: new Date().toISOString(), ...notification };
+			publish(`fractalaw/@${tenant}/events/sync`, JSON.stringify(payload));
+		}
+	};
+}
@@ -0,0 +1,136 @@
+/**
+ * Payload schemas for the publication contract (docs/ZENOH-SPEC.md)
+ *
+ * Field lists follow the JSON serializers in the backend's
+ * `SertantaiLegal.Zenoh.DataServer` and `ChangeNotifier`. Where the spec
+ * and the database disagree on nullability, the schema accepts null.
+ */
+
+import type { Infer } from './schema.js';
+
+const string = { type: 'string' } as const;
+const nullableString = { type: 'string', nullable: true } as const;
+const nullableInteger = { type: 'integer', nullable: true } as const;
+const nullableBoolean = { type: 'boolean', nullable: true } as const;
+const nullableStrings = { type: 'string[]', nullable: true } as const;
+const nullableObject = { type: 'object', nullable: true } as const;
+
+export const SECTION_TYPES = [
+	'title',
+	'part',
+	'chapter',
+	'heading',
+	'section',
+	'sub_section',
+	'article',
+	'sub_article',
+	'paragraph',
+	'sub_paragraph',
+	'schedule',
+	'commencement',
+	'table',
+	'note',
+	'signed'
+] as const;
+
+export const CODE_TYPES = [
+	'amendment',
+	'modification',
+	'commencement',
+	'extent_editorial'
+] as const;
+
+export const SYNC_TABLES = ['uk_lrt', 'lat', 'amendment_annotations'] as const;
+
+/** One law in the Legal Register Table — `lrt` (array) and `lrt/{law_name}` (object) */
+export const UK_LRT_RECORD = {
+	id: string,
+	name: string,
+	title_en: nullableString,
+	family: nullableString,
+	family_ii: nullableString,
+	year: nullableInteger,
+	number: nullableString,
+	type_desc: nullableString,
+	type_code: nullableString,
+	type_class: nullableString,
+	domain: nullableStrings,
+	geo_extent: nullableString,
+	geo_region: nullableStrings,
+	live: nullableString,
+	function: nullableObject,
+	is_making: nullableBoolean,
+	is_amending: nullableBoolean,
+	is_rescinding: nullableBoolean,
+	is_enacting: nullableBoolean,
+	is_commencing: nullableBoolean,
+	duty_holder: nullableObject,
+	power_holder: nullableObject,
+	rights_holder: nullableObject,
+	responsibility_holder: nullableObject,
+	purpose: nullableObject,
+	duty_type: nullableObject,
+	role: nullableStrings,
+	popimar: nullableObject,
+	amending: nullableStrings,
+	amended_by: nullableStrings,
+	rescinding: nullableStrings,
+	rescinded_by: nullableStrings,
+	enacting: nullableStrings,
+	enacted_by: nullableStrings,
+	leg_gov_uk_url: nullableString,
+	updated_at: string
+} as const;
+
+/** One structural unit of a law's text — `lat/{law_name}` (array, by sort_key) */
+export const LAT_RECORD = {
+	section_id: string,
+	law_id: string,
+	law_name: string,
+	section_type: { type: 'string', enum: SECTION_TYPES },
+	text: nullableString,
+	hierarchy_path: nullableString,
+	depth: nullableInteger,
+	sort_key: nullableString,
+	position: nullableInteger,
+	extent_code: nullableString,
+	amendment_count: nullableInteger,
+	modification_count: nullableInteger,
+	commencement_count: nullableInteger,
+	updated_at: string
+} as const;
+
+/** One amendment annotation (F/C/I/E code) — `amendments/{law_name}` (array, by id) */
+export const ANNOTATION_RECORD = {
+	id: string,
+	law_id: string,
+	law_name: string,
+	code: string,
+	code_type: { type: 'string', enum: CODE_TYPES },
+	text: nullableString,
+	source: nullableString,
+	affected_sections: nullableStrings,
+	updated_at: string
+} as const;
+
+/** Published on `events/sync` when data changes */
+export const CHANGE_NOTIFICATION = {
+	table: { type: 'string', enum: SYNC_TABLES },
+	action: string,
+	metadata: { type: 'object' },
+	timestamp: string
+} as const;
+
+/** What a queryable replies with when it can't answer, e.g. `{"error":"not_found"}` */
+export const ERROR_REPLY = {
+	error: string
+} as const;
+
+export type UkLrtRecord = Infer<typeof UK_LRT_RECORD>;
+export type LatRecord = Infer<typeof LAT_RECORD>;
+export type AnnotationRecord = Infer<typeof ANNOTATION_RECORD>;
+export type ChangeNotification = Infer<typeof CHANGE_NOTIFICATION>;
+export type ErrorReply = Infer<typeof ERROR_REPLY>;
+export type SectionType = (typeof SECTION_TYPES)[number];
+export type CodeType = (typeof CODE_TYPES)[number];
+export type SyncTable = (typeof SYNC_TABLES)[number];
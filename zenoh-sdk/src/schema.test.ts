@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { isValid, validate, validateArray } from './schema.js';
+import { CHANGE_NOTIFICATION, LAT_RECORD } from './records.js';
+
+const section = {
+	section_id: 'UK_ukpga_1974_37:s.2(1)',
+	law_id: '5b0c3f9e-0000-4000-8000-000000000001',
+	law_name: 'UK_ukpga_1974_37',
+	section_type: 'section',
+	text: 'It shall be the duty of every employer to ensure...',
+	hierarchy_path: 'Part I > General duties > s.2',
+	depth: 3,
+	sort_key: '001.002.001',
+	position: 15,
+	extent_code: 'E+W+S',
+	amendment_count: 2,
+	modification_count: 0,
+	commencement_count: 1,
+	updated_at: '2026-02-26T06:32:22Z'
+};
+
+describe('validate', () => {
+	it('accepts the spec example, with or without extra fields', () => {
+		expect(validate(LAT_RECORD, section)).toEqual([]);
+		expect(validate(LAT_RECORD, { ...section, language: 'en' })).toEqual([]);
+		expect(isValid(LAT_RECORD, section)).toBe(true);
+	});
+
+	it('accepts null or absent nullable fields', () => {
+		const { hierarchy_path: _omitted, ...rest } = section;
+		expect(validate(LAT_RECORD, { ...rest, text: null })).toEqual([]);
+	});
+
+	it('reports type, integer and enum mismatches with paths', () => {
+		expect(
+			validate(LAT_RECORD, { ...section, depth: 1.5, section_type: 'clause', law_name: null })
+		).toEqual([
+			{ path: '$.law_name', message: 'expected string, got null' },
+			{
+				path: '$.section_type',
+				message: expect.stringContaining('expected one of title, part')
+			},
+			{ path: '$.depth', message: 'expected integer, got number' }
+		]);
+	});
+
+	it('validates arrays element by element', () => {
+		expect(validateArray(LAT_RECORD, [section, { ...section, position: '15' }])).toEqual([
+			{ path: '$[1].position', message: 'expected integer, got string' }
+		]);
+		expect(validateArray(LAT_RECORD, section)).toEqual([
+			{ path: '$', message: 'expected array, got object' }
+		]);
+	});
+
+	it('requires object metadata on change notifications', () => {
+		expect(
+			validate(CHANGE_NOTIFICATION, {
+				table: 'uk_lrt',
+				action: 'scrape_import',
+				metadata: [],
+				timestamp: '2026-02-26T06:32:22Z'
+			})
+		).toEqual([{ path: '$.metadata', message: 'expected object, got array' }]);
+	});
+});
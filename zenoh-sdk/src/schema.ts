@@ -0,0 +1,102 @@
+/**
+ * Declarative payload schemas
+ *
+ * Each payload is declared once as a field map; its TypeScript type is
+ * inferred from the map (`Infer<typeof SCHEMA>`) and `validate` checks raw
+ * JSON against the same map, so types and runtime checks cannot drift.
+ */
+
+export type FieldType = 'string' | 'integer' | 'number' | 'boolean' | 'string[]' | 'object';
+
+export interface FieldSpec {
+	readonly type: FieldType;
+	/** null accepted, and the key may be absent */
+	readonly nullable?: boolean;
+	/** Allowed values for string fields */
+	readonly enum?: readonly string[];
+}
+
+export type RecordSchema = { readonly [field: string]: FieldSpec };
+
+type BaseType<T extends FieldType> = T extends 'string'
+	? string
+	: T extends 'integer' | 'number'
+		? number
+		: T extends 'boolean'
+			? boolean
+			: T extends 'string[]'
+				? string[]
+				: Record<string, unknown>;
+
+type FieldValue<F extends FieldSpec> =
+	| (F extends { enum: readonly (infer E)[] } ? E : BaseType<F['type']>)
+	| (F extends { nullable: true } ? null : never);
+
+/** The TypeScript type a schema describes */
+export type Infer<S extends RecordSchema> = { -readonly [K in keyof S]: FieldValue<S[K]> };
+
+export interface ValidationIssue {
+	/** JSON path to the offending value, e.g. `$[3].year` */
+	path: string;
+	message: string;
+}
+
+function describe(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+function checkField(spec: FieldSpec, value: unknown): string | null {
+	if (value === null || value === undefined) {
+		return spec.nullable ? null : `expected ${spec.type}, got ${describe(value)}`;
+	}
+	switch (spec.type) {
+		case 'string':
+			if (typeof value !== 'string') return `expected string, got ${describe(value)}`;
+			if (spec.enum && !spec.enum.includes(value)) {
+				return `expected one of ${spec.enum.join(', ')}, got "${value}"`;
+			}
+			return null;
+		case 'integer':
+			return Number.isInteger(value) ? null : `expected integer, got ${describe(value)}`;
+		case 'number':
+			return typeof value === 'number' ? null : `expected number, got ${describe(value)}`;
+		case 'boolean':
+			return typeof value === 'boolean' ? null : `expected boolean, got ${describe(value)}`;
+		case 'string[]':
+			return Array.isArray(value) && value.every((v) => typeof v === 'string')
+				? null
+				: `expected string[], got ${describe(value)}`;
+		case 'object':
+			return describe(value) === 'object' ? null : `expected object, got ${describe(value)}`;
+	}
+}
+
+/**
+ * Check a raw value against a schema. Fields the schema doesn't know are
+ * ignored, so additive changes on the publisher side are not breaking.
+ */
+export function validate(schema: RecordSchema, value: unknown, path = '$'): ValidationIssue[] {
+	if (describe(value) !== 'object') {
+		return [{ path, message: `expected object, got ${describe(value)}` }];
+	}
+	const record = value as Record<string, unknown>;
+	const issues: ValidationIssue[] = [];
+	for (const [field, spec] of Object.entries(schema)) {
+		const message = checkField(spec, record[field]);
+		if (message) issues.push({ path: `${path}.${field}`, message });
+	}
+	return issues;
+}
+
+/** Check every element of an array against a schema */
+export function validateArray(schema: RecordSchema, value: unknown, path = '$'): ValidationIssue[] {
+	if (!Array.isArray(value)) return [{ path, message: `expected array, got ${describe(value)}` }];
+	return value.flatMap((item, i) => validate(schema, item, `${path}[${i}]`));
+}
+
+/** Type guard over `validate` */
+export function isValid<S extends RecordSchema>(schema: S, value: unknown): value is Infer<S> {
+	return validate(schema, value).length === 0;
+}